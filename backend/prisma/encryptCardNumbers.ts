@@ -0,0 +1,49 @@
+import { PrismaClient } from '@prisma/client';
+import { cardExpiry } from '../src/utils/cardIssuing';
+import { encryptPan, hashPan } from '../src/utils/cardVault';
+
+const prisma = new PrismaClient();
+
+// Encrypts the plaintext numbers of cards issued before card numbers were
+// encrypted, then clears them. Safe to run more than once.
+async function main() {
+  console.log('🔐 Encrypting stored card numbers...');
+
+  const cards = await prisma.card.findMany({ where: { number: { not: null } } });
+  for (const card of cards) {
+    await prisma.card.update({
+      where: { id: card.id },
+      data: {
+        panHash: hashPan(card.number!),
+        ...encryptPan(card.number!),
+        // These cards never had an expiry; date it from when they were issued
+        ...(card.expiryYear === null && cardExpiry(card.createdAt)),
+        number: null,
+      },
+    });
+  }
+
+  const virtualCards = await prisma.virtualCard.findMany({ where: { number: { not: null } } });
+  for (const virtualCard of virtualCards) {
+    await prisma.virtualCard.update({
+      where: { id: virtualCard.id },
+      data: {
+        panHash: hashPan(virtualCard.number!),
+        ...encryptPan(virtualCard.number!),
+        ...(virtualCard.expiryYear === null && cardExpiry(virtualCard.createdAt)),
+        number: null,
+      },
+    });
+  }
+
+  console.log(`✅ Encrypted ${cards.length} card number(s) and ${virtualCards.length} virtual card number(s)`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error encrypting card numbers:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."Card" ADD COLUMN     "autopayMode" TEXT NOT NULL DEFAULT 'MINIMUM_DUE';
+
+-- CreateTable
+CREATE TABLE "public"."AutopayRun" (
+    "id" SERIAL NOT NULL,
+    "cardId" INTEGER NOT NULL,
+    "statementId" INTEGER NOT NULL,
+    "mode" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastPaymentId" TEXT,
+    "lastError" TEXT,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AutopayRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AutopayRun_statementId_key" ON "public"."AutopayRun"("statementId");
+
+-- CreateIndex
+CREATE INDEX "AutopayRun_status_nextAttemptAt_idx" ON "public"."AutopayRun"("status", "nextAttemptAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."AutopayRun" ADD CONSTRAINT "AutopayRun_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "public"."Card"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AutopayRun" ADD CONSTRAINT "AutopayRun_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "public"."Statement"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
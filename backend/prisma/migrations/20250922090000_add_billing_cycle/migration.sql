@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Card" ADD COLUMN     "billingCycleDay" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "public"."Statement" ADD COLUMN     "periodEnd" TIMESTAMP(3),
+ADD COLUMN     "periodStart" TIMESTAMP(3);
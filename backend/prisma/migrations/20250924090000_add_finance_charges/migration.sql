@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "public"."Transaction" ADD COLUMN     "type" TEXT NOT NULL DEFAULT 'PURCHASE';
+
+-- Existing positive amounts are refunds/credits
+UPDATE "public"."Transaction" SET "type" = 'REFUND' WHERE "amount" > 0;
+
+-- AlterTable
+ALTER TABLE "public"."Statement" ADD COLUMN     "interestChargedThrough" TIMESTAMP(3),
+ADD COLUMN     "lateFeeCharged" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."PaymentAllocation" (
+    "id" SERIAL NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "statementId" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentAllocation_statementId_idx" ON "public"."PaymentAllocation"("statementId");
+
+-- AddForeignKey
+ALTER TABLE "public"."PaymentAllocation" ADD CONSTRAINT "PaymentAllocation_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "public"."Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PaymentAllocation" ADD CONSTRAINT "PaymentAllocation_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "public"."Statement"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
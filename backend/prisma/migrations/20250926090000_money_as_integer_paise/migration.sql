@@ -0,0 +1,28 @@
+-- Store money as integer paise instead of floating point rupees.
+-- Existing values are converted by rounding rupees * 100 to the nearest paisa.
+
+-- Card
+ALTER TABLE "public"."Card" RENAME COLUMN "creditLimit" TO "creditLimitPaise";
+ALTER TABLE "public"."Card" ALTER COLUMN "creditLimitPaise" DROP DEFAULT;
+ALTER TABLE "public"."Card" ALTER COLUMN "creditLimitPaise" SET DATA TYPE INTEGER USING ROUND("creditLimitPaise" * 100)::INTEGER;
+ALTER TABLE "public"."Card" ALTER COLUMN "creditLimitPaise" SET DEFAULT 10000000;
+
+-- Transaction
+ALTER TABLE "public"."Transaction" RENAME COLUMN "amount" TO "amountPaise";
+ALTER TABLE "public"."Transaction" ALTER COLUMN "amountPaise" SET DATA TYPE INTEGER USING ROUND("amountPaise" * 100)::INTEGER;
+
+-- Statement
+ALTER TABLE "public"."Statement" RENAME COLUMN "balance" TO "balancePaise";
+ALTER TABLE "public"."Statement" ALTER COLUMN "balancePaise" SET DATA TYPE INTEGER USING ROUND("balancePaise" * 100)::INTEGER;
+ALTER TABLE "public"."Statement" RENAME COLUMN "minDue" TO "minDuePaise";
+ALTER TABLE "public"."Statement" ALTER COLUMN "minDuePaise" DROP DEFAULT;
+ALTER TABLE "public"."Statement" ALTER COLUMN "minDuePaise" SET DATA TYPE INTEGER USING ROUND("minDuePaise" * 100)::INTEGER;
+ALTER TABLE "public"."Statement" ALTER COLUMN "minDuePaise" SET DEFAULT 0;
+
+-- Payment
+ALTER TABLE "public"."Payment" RENAME COLUMN "amount" TO "amountPaise";
+ALTER TABLE "public"."Payment" ALTER COLUMN "amountPaise" SET DATA TYPE INTEGER USING ROUND("amountPaise" * 100)::INTEGER;
+
+-- PaymentAllocation
+ALTER TABLE "public"."PaymentAllocation" RENAME COLUMN "amount" TO "amountPaise";
+ALTER TABLE "public"."PaymentAllocation" ALTER COLUMN "amountPaise" SET DATA TYPE INTEGER USING ROUND("amountPaise" * 100)::INTEGER;
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "public"."LedgerEntry" (
+    "id" SERIAL NOT NULL,
+    "journalId" TEXT NOT NULL,
+    "cardId" INTEGER NOT NULL,
+    "account" TEXT NOT NULL,
+    "amountPaise" INTEGER NOT NULL,
+    "description" TEXT,
+    "transactionId" INTEGER,
+    "paymentId" TEXT,
+    "postedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_cardId_account_idx" ON "public"."LedgerEntry"("cardId", "account");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_cardId_postedAt_idx" ON "public"."LedgerEntry"("cardId", "postedAt");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_journalId_idx" ON "public"."LedgerEntry"("journalId");
+
+-- AddForeignKey
+ALTER TABLE "public"."LedgerEntry" ADD CONSTRAINT "LedgerEntry_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "public"."Card"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LedgerEntry" ADD CONSTRAINT "LedgerEntry_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LedgerEntry" ADD CONSTRAINT "LedgerEntry_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "public"."Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: post existing successful transactions and payments.
+-- Charges debit the card account for their type; refunds and payments
+-- credit PRINCIPAL (history predates bucket-level allocation).
+INSERT INTO "public"."LedgerEntry" ("journalId", "cardId", "account", "amountPaise", "description", "transactionId", "postedAt")
+SELECT 'txn_' || t."id", t."cardId",
+       CASE t."type" WHEN 'INTEREST' THEN 'INTEREST' WHEN 'LATE_FEE' THEN 'FEES' WHEN 'GST' THEN 'FEES' ELSE 'PRINCIPAL' END,
+       -t."amountPaise", t."merchant", t."id", t."date"
+FROM "public"."Transaction" t
+WHERE t."status" = 'SUCCESS' AND t."amountPaise" <> 0;
+
+INSERT INTO "public"."LedgerEntry" ("journalId", "cardId", "account", "amountPaise", "description", "transactionId", "postedAt")
+SELECT 'txn_' || t."id", t."cardId",
+       CASE t."type" WHEN 'INTEREST' THEN 'INTEREST_INCOME' WHEN 'LATE_FEE' THEN 'FEE_INCOME' WHEN 'GST' THEN 'GST_PAYABLE' ELSE 'MERCHANT_SETTLEMENT' END,
+       t."amountPaise", t."merchant", t."id", t."date"
+FROM "public"."Transaction" t
+WHERE t."status" = 'SUCCESS' AND t."amountPaise" <> 0;
+
+INSERT INTO "public"."LedgerEntry" ("journalId", "cardId", "account", "amountPaise", "description", "paymentId", "postedAt")
+SELECT 'pay_' || p."id", p."cardId", account, amount, 'Payment via ' || p."method", p."id", p."updatedAt"
+FROM "public"."Payment" p
+CROSS JOIN LATERAL (VALUES ('PAYMENT_CLEARING', p."amountPaise"), ('PRINCIPAL', -p."amountPaise")) AS legs(account, amount)
+WHERE p."status" = 'SUCCESS' AND p."cardId" IS NOT NULL AND p."amountPaise" > 0;
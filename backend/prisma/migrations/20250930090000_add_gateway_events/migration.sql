@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "public"."Payment" ADD COLUMN "refundedPaise" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."GatewayEvent" (
+    "id" SERIAL NOT NULL,
+    "provider" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RECEIVED',
+    "error" TEXT,
+    "paymentId" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GatewayEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GatewayEvent_provider_eventId_key" ON "public"."GatewayEvent"("provider", "eventId");
+
+-- CreateIndex
+CREATE INDEX "GatewayEvent_paymentId_idx" ON "public"."GatewayEvent"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."GatewayEvent" ADD CONSTRAINT "GatewayEvent_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "public"."Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "public"."ReconciliationItem" (
+    "id" SERIAL NOT NULL,
+    "runId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "paymentId" TEXT,
+    "gatewayPaymentId" TEXT,
+    "gatewayOrderId" TEXT,
+    "expectedPaise" INTEGER,
+    "gatewayPaise" INTEGER,
+    "paymentStatus" TEXT,
+    "gatewayStatus" TEXT,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "resolution" TEXT,
+    "resolvedBy" INTEGER,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReconciliationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReconciliationItem_status_type_idx" ON "public"."ReconciliationItem"("status", "type");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationItem_paymentId_idx" ON "public"."ReconciliationItem"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationItem_gatewayPaymentId_idx" ON "public"."ReconciliationItem"("gatewayPaymentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ReconciliationItem" ADD CONSTRAINT "ReconciliationItem_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "public"."Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
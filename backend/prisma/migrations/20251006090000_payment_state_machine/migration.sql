@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "public"."Payment" ALTER COLUMN "status" SET DEFAULT 'CREATED',
+ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "pendingAt" TIMESTAMP(3),
+ADD COLUMN     "processingAt" TIMESTAMP(3),
+ADD COLUMN     "succeededAt" TIMESTAMP(3),
+ADD COLUMN     "failedAt" TIMESTAMP(3),
+ADD COLUMN     "reversedAt" TIMESTAMP(3),
+ADD COLUMN     "refundedAt" TIMESTAMP(3);
+
+-- Backfill state timestamps from the existing rows
+UPDATE "public"."Payment" SET "pendingAt" = "createdAt";
+UPDATE "public"."Payment" SET "succeededAt" = "updatedAt" WHERE "status" IN ('SUCCESS', 'REFUNDED');
+UPDATE "public"."Payment" SET "failedAt" = "updatedAt" WHERE "status" = 'FAILED';
+UPDATE "public"."Payment" SET "refundedAt" = "updatedAt" WHERE "status" = 'REFUNDED';
+
+-- CreateIndex
+CREATE INDEX "Payment_status_updatedAt_idx" ON "public"."Payment"("status", "updatedAt");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "public"."PaymentAdjustment" (
+    "id" SERIAL NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "amountPaise" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "gatewayRefundId" TEXT,
+    "createdBy" INTEGER,
+    "error" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentAdjustment_pkey" PRIMARY KEY ("id")
+);
+
+-- Refunds applied before adjustments were recorded
+INSERT INTO "public"."PaymentAdjustment" ("paymentId", "type", "status", "amountPaise", "reason", "processedAt", "updatedAt")
+SELECT "id", 'REFUND', 'PROCESSED', "refundedPaise", 'Refunded at the gateway', COALESCE("refundedAt", "updatedAt"), "updatedAt"
+FROM "public"."Payment"
+WHERE "refundedPaise" > 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentAdjustment_gatewayRefundId_key" ON "public"."PaymentAdjustment"("gatewayRefundId");
+
+-- CreateIndex
+CREATE INDEX "PaymentAdjustment_paymentId_idx" ON "public"."PaymentAdjustment"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."PaymentAdjustment" ADD CONSTRAINT "PaymentAdjustment_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "public"."Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "public"."ScheduledPayment" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "cardId" INTEGER NOT NULL,
+    "amountPaise" INTEGER NOT NULL,
+    "method" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL DEFAULT 'ONCE',
+    "dayOfMonth" INTEGER,
+    "nextRunAt" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "lastRunAt" TIMESTAMP(3),
+    "lastRunStatus" TEXT,
+    "lastRunNote" TEXT,
+    "lastPaymentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduledPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "public"."Payment" ADD COLUMN "scheduledPaymentId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "ScheduledPayment_status_nextRunAt_idx" ON "public"."ScheduledPayment"("status", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "ScheduledPayment_userId_idx" ON "public"."ScheduledPayment"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ScheduledPayment" ADD CONSTRAINT "ScheduledPayment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ScheduledPayment" ADD CONSTRAINT "ScheduledPayment_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "public"."Card"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Payment" ADD CONSTRAINT "Payment_scheduledPaymentId_fkey" FOREIGN KEY ("scheduledPaymentId") REFERENCES "public"."ScheduledPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
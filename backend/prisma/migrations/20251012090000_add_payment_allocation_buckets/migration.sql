@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Statement" ADD COLUMN     "feesPaise" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "interestPaise" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."PaymentAllocation" ADD COLUMN     "bucket" TEXT NOT NULL DEFAULT 'PRINCIPAL';
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "public"."CardAuthorization" (
+    "id" SERIAL NOT NULL,
+    "cardId" INTEGER NOT NULL,
+    "transactionId" INTEGER NOT NULL,
+    "networkReference" TEXT NOT NULL,
+    "amountPaise" INTEGER NOT NULL,
+    "capturedPaise" INTEGER NOT NULL DEFAULT 0,
+    "merchant" TEXT NOT NULL,
+    "category" TEXT NOT NULL DEFAULT 'Others',
+    "channel" TEXT NOT NULL DEFAULT 'POS',
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "declineReason" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "capturedAt" TIMESTAMP(3),
+    "reversedAt" TIMESTAMP(3),
+    "expiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CardAuthorization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CardAuthorization_transactionId_key" ON "public"."CardAuthorization"("transactionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CardAuthorization_networkReference_key" ON "public"."CardAuthorization"("networkReference");
+
+-- CreateIndex
+CREATE INDEX "CardAuthorization_cardId_status_idx" ON "public"."CardAuthorization"("cardId", "status");
+
+-- CreateIndex
+CREATE INDEX "CardAuthorization_status_expiresAt_idx" ON "public"."CardAuthorization"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."CardAuthorization" ADD CONSTRAINT "CardAuthorization_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "public"."Card"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CardAuthorization" ADD CONSTRAINT "CardAuthorization_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "public"."CardAuthorization" ADD COLUMN     "country" TEXT NOT NULL DEFAULT 'IN';
+
+-- CreateTable
+CREATE TABLE "public"."CardControl" (
+    "id" SERIAL NOT NULL,
+    "cardId" INTEGER NOT NULL,
+    "onlineEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "internationalEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "contactlessEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "atmEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "perTransactionLimitPaise" INTEGER,
+    "dailyLimitPaise" INTEGER,
+    "monthlyLimitPaise" INTEGER,
+    "blockedCategories" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CardControl_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CardControl_cardId_key" ON "public"."CardControl"("cardId");
+
+-- AddForeignKey
+ALTER TABLE "public"."CardControl" ADD CONSTRAINT "CardControl_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "public"."Card"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "public"."CardAuthorization" ADD COLUMN     "virtualCardId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."VirtualCard" (
+    "id" SERIAL NOT NULL,
+    "cardId" INTEGER NOT NULL,
+    "number" TEXT NOT NULL,
+    "last4" TEXT NOT NULL,
+    "label" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "spendCapPaise" INTEGER,
+    "singleUse" BOOLEAN NOT NULL DEFAULT false,
+    "lockedMerchant" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "usedAt" TIMESTAMP(3),
+    "deletedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VirtualCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VirtualCard_number_key" ON "public"."VirtualCard"("number");
+
+-- CreateIndex
+CREATE INDEX "VirtualCard_cardId_status_idx" ON "public"."VirtualCard"("cardId", "status");
+
+-- CreateIndex
+CREATE INDEX "CardAuthorization_virtualCardId_status_idx" ON "public"."CardAuthorization"("virtualCardId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."VirtualCard" ADD CONSTRAINT "VirtualCard_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "public"."Card"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CardAuthorization" ADD CONSTRAINT "CardAuthorization_virtualCardId_fkey" FOREIGN KEY ("virtualCardId") REFERENCES "public"."VirtualCard"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "public"."Card" ALTER COLUMN "number" DROP NOT NULL,
+ADD COLUMN     "cvvHash" TEXT,
+ADD COLUMN     "expiryMonth" INTEGER,
+ADD COLUMN     "expiryYear" INTEGER,
+ADD COLUMN     "panCiphertext" TEXT,
+ADD COLUMN     "panDataKey" TEXT,
+ADD COLUMN     "panHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."VirtualCard" ALTER COLUMN "number" DROP NOT NULL,
+ADD COLUMN     "cvvHash" TEXT,
+ADD COLUMN     "expiryMonth" INTEGER,
+ADD COLUMN     "expiryYear" INTEGER,
+ADD COLUMN     "panCiphertext" TEXT,
+ADD COLUMN     "panDataKey" TEXT,
+ADD COLUMN     "panHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Card_panHash_key" ON "public"."Card"("panHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VirtualCard_panHash_key" ON "public"."VirtualCard"("panHash");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."Card" ADD COLUMN     "closedAt" TIMESTAMP(3),
+ADD COLUMN     "closureReason" TEXT,
+ADD COLUMN     "replacesCardId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Card_replacesCardId_key" ON "public"."Card"("replacesCardId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Card" ADD CONSTRAINT "Card_replacesCardId_fkey" FOREIGN KEY ("replacesCardId") REFERENCES "public"."Card"("id") ON DELETE SET NULL ON UPDATE CASCADE;
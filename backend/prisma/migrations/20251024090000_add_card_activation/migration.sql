@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."Card" ADD COLUMN     "activatedAt" TIMESTAMP(3),
+ADD COLUMN     "pinHash" TEXT,
+ADD COLUMN     "pinSetAt" TIMESTAMP(3);
+
+-- Cards issued before activation existed count as activated when issued
+UPDATE "public"."Card" SET "activatedAt" = "createdAt" WHERE "status" <> 'INACTIVE';
+
+-- CreateTable
+CREATE TABLE "public"."OtpChallenge" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "cardId" INTEGER,
+    "purpose" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OtpChallenge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OtpChallenge_userId_purpose_idx" ON "public"."OtpChallenge"("userId", "purpose");
+
+-- AddForeignKey
+ALTER TABLE "public"."OtpChallenge" ADD CONSTRAINT "OtpChallenge_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OtpChallenge" ADD CONSTRAINT "OtpChallenge_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "public"."Card"("id") ON DELETE SET NULL ON UPDATE CASCADE;
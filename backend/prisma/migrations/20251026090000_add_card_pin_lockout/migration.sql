@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Card" ADD COLUMN     "pinAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pinLockedAt" TIMESTAMP(3);
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "public"."Card" ADD COLUMN     "creditLimitRaisedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Offer" ADD COLUMN     "acceptedAt" TIMESTAMP(3),
+ADD COLUMN     "cardId" INTEGER,
+ADD COLUMN     "creditLimitPaise" INTEGER,
+ADD COLUMN     "expiresAt" TIMESTAMP(3),
+ADD COLUMN     "type" TEXT NOT NULL DEFAULT 'GENERAL';
+
+-- CreateTable
+CREATE TABLE "public"."LimitRequest" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "cardId" INTEGER NOT NULL,
+    "currentLimitPaise" INTEGER NOT NULL,
+    "requestedLimitPaise" INTEGER NOT NULL,
+    "annualIncomePaise" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "approvedLimitPaise" INTEGER,
+    "reason" TEXT,
+    "reviewedBy" INTEGER,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LimitRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LimitRequest_status_createdAt_idx" ON "public"."LimitRequest"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LimitRequest_cardId_idx" ON "public"."LimitRequest"("cardId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Offer" ADD CONSTRAINT "Offer_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "public"."Card"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LimitRequest" ADD CONSTRAINT "LimitRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LimitRequest" ADD CONSTRAINT "LimitRequest_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "public"."Card"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
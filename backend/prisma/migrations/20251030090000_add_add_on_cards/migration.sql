@@ -0,0 +1,60 @@
+-- AlterTable
+ALTER TABLE "public"."CardAuthorization" ADD COLUMN     "addOnCardId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."Transaction" ADD COLUMN     "addOnCardId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."AddOnCard" (
+    "id" SERIAL NOT NULL,
+    "cardId" INTEGER NOT NULL,
+    "holderName" TEXT NOT NULL,
+    "relationship" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "passwordHash" TEXT NOT NULL,
+    "panHash" TEXT NOT NULL,
+    "panCiphertext" TEXT NOT NULL,
+    "panDataKey" TEXT NOT NULL,
+    "last4" TEXT NOT NULL,
+    "expiryMonth" INTEGER NOT NULL,
+    "expiryYear" INTEGER NOT NULL,
+    "cvvHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "monthlyLimitPaise" INTEGER NOT NULL,
+    "onlineEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "internationalEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "contactlessEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "atmEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "perTransactionLimitPaise" INTEGER,
+    "blockedCategories" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "pinHash" TEXT,
+    "pinSetAt" TIMESTAMP(3),
+    "pinAttempts" INTEGER NOT NULL DEFAULT 0,
+    "pinLockedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AddOnCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AddOnCard_email_key" ON "public"."AddOnCard"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AddOnCard_panHash_key" ON "public"."AddOnCard"("panHash");
+
+-- CreateIndex
+CREATE INDEX "AddOnCard_cardId_status_idx" ON "public"."AddOnCard"("cardId", "status");
+
+-- CreateIndex
+CREATE INDEX "CardAuthorization_addOnCardId_status_idx" ON "public"."CardAuthorization"("addOnCardId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."Transaction" ADD CONSTRAINT "Transaction_addOnCardId_fkey" FOREIGN KEY ("addOnCardId") REFERENCES "public"."AddOnCard"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CardAuthorization" ADD CONSTRAINT "CardAuthorization_addOnCardId_fkey" FOREIGN KEY ("addOnCardId") REFERENCES "public"."AddOnCard"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AddOnCard" ADD CONSTRAINT "AddOnCard_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "public"."Card"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."CardClosure" (
+    "id" SERIAL NOT NULL,
+    "cardId" INTEGER NOT NULL,
+    "rewardPoints" INTEGER NOT NULL DEFAULT 0,
+    "rewardsOutcome" TEXT NOT NULL,
+    "rewardsValuePaise" INTEGER NOT NULL DEFAULT 0,
+    "refundPaise" INTEGER NOT NULL DEFAULT 0,
+    "autopayCancelled" BOOLEAN NOT NULL DEFAULT false,
+    "scheduledPaymentsCancelled" INTEGER NOT NULL DEFAULT 0,
+    "addOnCardsClosed" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CardClosure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CardClosure_cardId_key" ON "public"."CardClosure"("cardId");
+
+-- AddForeignKey
+ALTER TABLE "public"."CardClosure" ADD CONSTRAINT "CardClosure_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "public"."Card"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
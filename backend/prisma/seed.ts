@@ -1,5 +1,9 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { toPaise } from '../src/utils/money';
+import { postJournal, postTransaction } from '../src/utils/ledger';
+import { cardExpiry } from '../src/utils/cardIssuing';
+import { encryptPan, hashCardSecret, hashPan } from '../src/utils/cardVault';
 
 const prisma = new PrismaClient();
 
@@ -32,17 +36,24 @@ async function main() {
     },
   });
 
-  // Create demo card for user
+  // Create demo card for user (CVV 123, PIN 1234)
+  const demoPan = '4532211234569012';
   const demoCard = await prisma.card.upsert({
-    where: { number: '4532123456789012' },
+    where: { panHash: hashPan(demoPan) },
     update: {},
     create: {
       userId: demoUser.id,
-      number: '4532123456789012',
+      panHash: hashPan(demoPan),
+      ...encryptPan(demoPan),
       last4: '9012',
+      ...cardExpiry(),
+      cvvHash: hashCardSecret('123'),
       cardType: 'PLATINUM',
       status: 'ACTIVE',
-      creditLimit: 500000,
+      activatedAt: new Date(),
+      pinHash: hashCardSecret('1234'),
+      pinSetAt: new Date(),
+      creditLimitPaise: toPaise(500000),
       autopayEnabled: false,
     },
   });
@@ -64,6 +75,9 @@ async function main() {
   const currentYear = currentDate.getFullYear();
 
   // Current month statement
+  const existingStatement = await prisma.statement.findUnique({
+    where: { cardId_month_year: { cardId: demoCard.id, month: currentMonth, year: currentYear } },
+  });
   await prisma.statement.upsert({
     where: { cardId_month_year: { cardId: demoCard.id, month: currentMonth, year: currentYear } },
     update: {},
@@ -72,12 +86,24 @@ async function main() {
       month: currentMonth,
       year: currentYear,
       dueDate: new Date(currentYear, currentMonth, 25), // 25th of next month
-      balance: 45320,
-      minDue: 2266,
+      balancePaise: toPaise(45320),
+      minDuePaise: toPaise(2266),
       isPaid: false,
     },
   });
 
+  // Carry the billed balance into the ledger so balances match the statement
+  if (!existingStatement) {
+    await postJournal(prisma, {
+      cardId: demoCard.id,
+      description: 'Opening balance',
+      lines: [
+        { account: 'PRINCIPAL', amountPaise: toPaise(45320) },
+        { account: 'MERCHANT_SETTLEMENT', amountPaise: -toPaise(45320) },
+      ],
+    });
+  }
+
   // Previous month statement (paid)
   const prevMonth = currentMonth === 1 ? 12 : currentMonth - 1;
   const prevYear = currentMonth === 1 ? currentYear - 1 : currentYear;
@@ -90,8 +116,8 @@ async function main() {
       month: prevMonth,
       year: prevYear,
       dueDate: new Date(prevYear, prevMonth, 25),
-      balance: 0,
-      minDue: 0,
+      balancePaise: 0,
+      minDuePaise: 0,
       isPaid: true,
     },
   });
@@ -149,17 +175,19 @@ async function main() {
   ];
 
   for (const transaction of transactions) {
-    await prisma.transaction.create({
+    const created = await prisma.transaction.create({
       data: {
         cardId: demoCard.id,
         userId: demoUser.id,
         merchant: transaction.merchant,
         category: transaction.category,
-        amount: transaction.amount,
+        amountPaise: toPaise(transaction.amount),
+        type: transaction.amount > 0 ? 'REFUND' : 'PURCHASE',
         date: transaction.date,
         status: 'SUCCESS',
       },
     });
+    await postTransaction(prisma, created);
   }
 
   // Create demo notifications
@@ -0,0 +1,27 @@
+// How incoming card payments are applied
+
+export type AllocationBucket = 'FEES' | 'INTEREST' | 'PRINCIPAL';
+
+const ALLOCATION_BUCKETS: AllocationBucket[] = ['FEES', 'INTEREST', 'PRINCIPAL'];
+
+function parseAllocationOrder(value: string | undefined): AllocationBucket[] {
+  if (!value) {
+    return ALLOCATION_BUCKETS;
+  }
+
+  const order = value.split(',').map(bucket => bucket.trim().toUpperCase());
+  const isPermutation = order.length === ALLOCATION_BUCKETS.length
+    && ALLOCATION_BUCKETS.every(bucket => order.includes(bucket));
+  if (!isPermutation) {
+    throw new Error(`PAYMENT_ALLOCATION_ORDER must list ${ALLOCATION_BUCKETS.join(', ')} once each; got "${value}"`);
+  }
+  return order as AllocationBucket[];
+}
+
+// Buckets a payment pays off in turn, each across statements oldest due date
+// first. Defaults to fees, then interest, then principal.
+export const PAYMENT_ALLOCATION_ORDER: AllocationBucket[] = parseAllocationOrder(process.env.PAYMENT_ALLOCATION_ORDER);
+
+// Accept payments above the outstanding balance; the excess is held as a
+// credit balance and offsets the next statement.
+export const ALLOW_OVERPAYMENT = process.env.ALLOW_OVERPAYMENT === 'true';
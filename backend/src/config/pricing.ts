@@ -0,0 +1,51 @@
+// Credit pricing per card product: APR, grace period, late fees and GST
+
+import { Paise } from '../utils/money';
+
+export type ProductCode = 'STANDARD' | 'GOLD' | 'PLATINUM';
+
+export interface ProductPricing {
+  apr: number; // Annual percentage rate applied to overdue balances
+  gracePeriodDays: number; // Days after the due date a payment still counts as on time
+}
+
+export const PRODUCT_PRICING: Record<ProductCode, ProductPricing> = {
+  STANDARD: {
+    apr: parseFloat(process.env.APR_STANDARD || '42'),
+    gracePeriodDays: parseInt(process.env.GRACE_DAYS_STANDARD || '3'),
+  },
+  GOLD: {
+    apr: parseFloat(process.env.APR_GOLD || '39'),
+    gracePeriodDays: parseInt(process.env.GRACE_DAYS_GOLD || '3'),
+  },
+  PLATINUM: {
+    apr: parseFloat(process.env.APR_PLATINUM || '36'),
+    gracePeriodDays: parseInt(process.env.GRACE_DAYS_PLATINUM || '5'),
+  },
+};
+
+// Late fee by overdue balance (first slab the balance fits in), in paise
+export const LATE_FEE_SLABS: Array<{ upTo: Paise; fee: Paise }> = [
+  { upTo: 50000, fee: 0 },
+  { upTo: 500000, fee: 50000 },
+  { upTo: 1000000, fee: 75000 },
+  { upTo: 2500000, fee: 95000 },
+  { upTo: 5000000, fee: 110000 },
+  { upTo: Infinity, fee: 130000 },
+];
+
+export const GST_RATE = parseFloat(process.env.GST_RATE || '18'); // % charged on fees
+
+/**
+ * Pricing for a card's product. Cards issued from "Silver" applications
+ * (and anything unknown) are priced as STANDARD.
+ */
+export function getProductPricing(cardType: string): ProductPricing {
+  const code = cardType.toUpperCase() as ProductCode;
+  return PRODUCT_PRICING[code] ?? PRODUCT_PRICING.STANDARD;
+}
+
+export function getLateFee(overdueBalancePaise: Paise): Paise {
+  const slab = LATE_FEE_SLABS.find(s => overdueBalancePaise <= s.upTo);
+  return slab ? slab.fee : 0;
+}
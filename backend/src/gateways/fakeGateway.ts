@@ -0,0 +1,270 @@
+import { GatewayTimeoutError, NotFoundError, UnauthorizedError, ValidationError } from '../middleware/errorHandler';
+import { Paise } from '../utils/money';
+import { hmacSha256, signaturesMatch } from './razorpayGateway';
+import {
+  ChargeInput,
+  CreateOrderInput,
+  GatewayOrder,
+  GatewayPayment,
+  GatewayRefund,
+  GatewayWebhookEvent,
+  PaymentGateway,
+} from './types';
+
+// What happens to the next simulated checkout:
+// success -> captured, failure -> failed, timeout -> stays pending and
+// fetches of it time out until resolvePayment() settles it.
+export type FakeOutcome = 'success' | 'failure' | 'timeout';
+
+interface FakeWebhookBody {
+  event: string;
+  created_at: number;
+  payload: {
+    payment?: { entity: GatewayPayment };
+    refund?: { entity: GatewayRefund };
+  };
+}
+
+/**
+ * Deterministic in-memory gateway for tests and offline development.
+ * Ids are sequential and nothing leaves the process.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+  readonly canChargeOffSession = true;
+
+  private orders = new Map<string, GatewayOrder>();
+  private payments = new Map<string, GatewayPayment>();
+  private refunds = new Map<string, GatewayRefund>();
+  private charges = new Map<string, string>(); // receipt -> payment id
+  private timedOut = new Set<string>();
+  private queuedOutcomes: FakeOutcome[] = [];
+  private sequence = 0;
+
+  constructor(
+    private secret = 'fake_gateway_secret',
+    private defaultOutcome: FakeOutcome = 'success'
+  ) {}
+
+  /**
+   * Outcome for every checkout that has no queued outcome.
+   */
+  setOutcome(outcome: FakeOutcome): void {
+    this.defaultOutcome = outcome;
+  }
+
+  /**
+   * Outcomes for the next checkouts, consumed in order.
+   */
+  queueOutcomes(...outcomes: FakeOutcome[]): void {
+    this.queuedOutcomes.push(...outcomes);
+  }
+
+  reset(): void {
+    this.orders.clear();
+    this.payments.clear();
+    this.refunds.clear();
+    this.charges.clear();
+    this.timedOut.clear();
+    this.queuedOutcomes = [];
+    this.sequence = 0;
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_fake_${this.sequence}`;
+  }
+
+  async createOrder(input: CreateOrderInput): Promise<GatewayOrder> {
+    const order: GatewayOrder = {
+      id: this.nextId('order'),
+      amountPaise: input.amountPaise,
+      currency: input.currency ?? 'INR',
+      receipt: input.receipt,
+      status: 'created',
+      notes: input.notes ?? {},
+    };
+    this.orders.set(order.id, order);
+    return order;
+  }
+
+  /**
+   * Play the customer's side of checkout for an order. Returns the payment
+   * and the signature the browser would post to the verify endpoint.
+   */
+  simulateCheckout(
+    orderId: string,
+    { method = 'card', at = new Date() }: { method?: string; at?: Date } = {}
+  ): { payment: GatewayPayment; signature: string } {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new NotFoundError(`Fake order ${orderId} not found`);
+    }
+
+    const payment = this.recordPayment(orderId, order.amountPaise, order.currency, method, at);
+    if (payment.status === 'captured') {
+      order.status = 'paid';
+    }
+
+    return { payment: { ...payment }, signature: this.signPayment(orderId, payment.id) };
+  }
+
+  /**
+   * Record a payment attempt settled by the next outcome.
+   */
+  private recordPayment(
+    orderId: string | null,
+    amountPaise: Paise,
+    currency: string,
+    method: string,
+    at: Date
+  ): GatewayPayment {
+    const outcome = this.queuedOutcomes.shift() ?? this.defaultOutcome;
+    const payment: GatewayPayment = {
+      id: this.nextId('pay'),
+      orderId,
+      amountPaise,
+      amountRefundedPaise: 0,
+      currency,
+      status: outcome === 'success' ? 'captured' : outcome === 'failure' ? 'failed' : 'pending',
+      method,
+      errorDescription: outcome === 'failure' ? 'Payment declined by fake gateway' : null,
+      createdAt: at,
+    };
+    this.payments.set(payment.id, payment);
+    if (outcome === 'timeout') {
+      this.timedOut.add(payment.id);
+    }
+    return payment;
+  }
+
+  async charge(input: ChargeInput): Promise<GatewayPayment> {
+    const charged = this.charges.get(input.receipt);
+    if (charged) {
+      return { ...this.getPayment(charged) };
+    }
+
+    const payment = this.recordPayment(null, input.amountPaise, input.currency ?? 'INR', input.method, new Date());
+    this.charges.set(input.receipt, payment.id);
+    return { ...payment };
+  }
+
+  /**
+   * Settle a payment left pending by a timeout outcome.
+   */
+  resolvePayment(paymentId: string, status: 'captured' | 'failed'): GatewayPayment {
+    const payment = this.getPayment(paymentId);
+    payment.status = status;
+    this.timedOut.delete(paymentId);
+    return { ...payment };
+  }
+
+  signPayment(orderId: string, paymentId: string): string {
+    return hmacSha256(this.secret, `${orderId}|${paymentId}`);
+  }
+
+  /**
+   * Build a signed webhook delivery for a payment or refund event.
+   */
+  buildWebhook(
+    type: string,
+    ids: { paymentId?: string; refundId?: string },
+    eventId = this.nextId('evt')
+  ): { rawBody: string; signature: string; eventId: string } {
+    const body: FakeWebhookBody = {
+      event: type,
+      created_at: Math.floor(Date.now() / 1000),
+      payload: {},
+    };
+    if (ids.paymentId) body.payload.payment = { entity: { ...this.getPayment(ids.paymentId) } };
+    if (ids.refundId) {
+      const refund = this.refunds.get(ids.refundId);
+      if (!refund) throw new NotFoundError(`Fake refund ${ids.refundId} not found`);
+      body.payload.refund = { entity: { ...refund } };
+    }
+
+    const rawBody = JSON.stringify(body);
+    return { rawBody, signature: hmacSha256(this.secret, rawBody), eventId };
+  }
+
+  private getPayment(paymentId: string): GatewayPayment {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new NotFoundError(`Fake payment ${paymentId} not found`);
+    }
+    return payment;
+  }
+
+  async fetchPayment(paymentId: string): Promise<GatewayPayment> {
+    if (this.timedOut.has(paymentId)) {
+      throw new GatewayTimeoutError(`Fake gateway timed out fetching payment ${paymentId}`);
+    }
+    return { ...this.getPayment(paymentId) };
+  }
+
+  async fetchOrderPayments(orderId: string): Promise<GatewayPayment[]> {
+    if (!this.orders.has(orderId)) {
+      throw new NotFoundError(`Fake order ${orderId} not found`);
+    }
+    return [...this.payments.values()]
+      .filter(payment => payment.orderId === orderId)
+      .map(payment => ({ ...payment }));
+  }
+
+  async listPayments(from: Date, to: Date): Promise<GatewayPayment[]> {
+    return [...this.payments.values()]
+      .filter(payment => payment.createdAt >= from && payment.createdAt <= to)
+      .map(payment => ({ ...payment }));
+  }
+
+  verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean {
+    return signaturesMatch(this.signPayment(orderId, paymentId), signature);
+  }
+
+  async refund(paymentId: string, options: { amountPaise?: Paise } = {}): Promise<GatewayRefund> {
+    const payment = this.getPayment(paymentId);
+    if (payment.status !== 'captured') {
+      throw new ValidationError(`Fake payment ${paymentId} is ${payment.status} and cannot be refunded`);
+    }
+
+    const refundable = payment.amountPaise - payment.amountRefundedPaise;
+    const amountPaise = options.amountPaise ?? refundable;
+    if (amountPaise <= 0 || amountPaise > refundable) {
+      throw new ValidationError(`Refund of ${amountPaise} paise exceeds the refundable ${refundable} paise`);
+    }
+
+    payment.amountRefundedPaise += amountPaise;
+    if (payment.amountRefundedPaise === payment.amountPaise) {
+      payment.status = 'refunded';
+    }
+
+    const refund: GatewayRefund = {
+      id: this.nextId('rfnd'),
+      paymentId,
+      amountPaise,
+      status: 'processed',
+      createdAt: new Date(),
+    };
+    this.refunds.set(refund.id, refund);
+    return { ...refund };
+  }
+
+  parseWebhook(rawBody: string, signature: string | undefined, eventId?: string): GatewayWebhookEvent {
+    if (!signature || !signaturesMatch(hmacSha256(this.secret, rawBody), signature)) {
+      throw new UnauthorizedError('Invalid webhook signature');
+    }
+
+    const body = JSON.parse(rawBody) as FakeWebhookBody;
+    const revive = <T extends { createdAt: Date }>(entity: T | undefined): T | null =>
+      entity ? { ...entity, createdAt: new Date(entity.createdAt) } : null;
+
+    return {
+      id: eventId ?? `evt_${body.event}_${body.created_at}`,
+      type: body.event,
+      createdAt: new Date(body.created_at * 1000),
+      payment: revive(body.payload.payment?.entity),
+      refund: revive(body.payload.refund?.entity),
+      payload: body,
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { logger } from '../config/logger';
+import { razorpayConfig } from '../config/razorpay';
+import { FakePaymentGateway } from './fakeGateway';
+import { RazorpayGateway } from './razorpayGateway';
+import { PaymentGateway } from './types';
+
+export * from './types';
+export { FakePaymentGateway } from './fakeGateway';
+export type { FakeOutcome } from './fakeGateway';
+export { RazorpayGateway } from './razorpayGateway';
+
+// PAYMENT_GATEWAY=razorpay|fake. Tests and offline development use the fake.
+const GATEWAY_PROVIDER = process.env.PAYMENT_GATEWAY || (process.env.NODE_ENV === 'test' ? 'fake' : 'razorpay');
+
+if (GATEWAY_PROVIDER === 'razorpay' && !razorpayConfig.webhookSecret && process.env.NODE_ENV !== 'test') {
+  throw new Error('RAZORPAY_WEBHOOK_SECRET must be set to receive Razorpay webhooks');
+}
+
+let gateway: PaymentGateway | null = null;
+
+function createGateway(provider: string): PaymentGateway {
+  switch (provider) {
+    case 'fake':
+      return new FakePaymentGateway();
+    case 'razorpay':
+      return new RazorpayGateway(razorpayConfig);
+    default:
+      throw new Error(`Unknown PAYMENT_GATEWAY "${provider}"`);
+  }
+}
+
+export function getPaymentGateway(): PaymentGateway {
+  if (!gateway) {
+    gateway = createGateway(GATEWAY_PROVIDER);
+    logger.info(`Payment gateway: ${gateway.name}`);
+  }
+  return gateway;
+}
+
+/**
+ * Swap the active gateway (tests drive a FakePaymentGateway this way).
+ */
+export function setPaymentGateway(next: PaymentGateway): void {
+  gateway = next;
+}
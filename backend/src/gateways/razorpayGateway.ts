@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import Razorpay from 'razorpay';
+import { GatewayError, GatewayTimeoutError, UnauthorizedError } from '../middleware/errorHandler';
+import {
+  ChargeInput,
+  CreateOrderInput,
+  GatewayOrder,
+  GatewayPayment,
+  GatewayPaymentStatus,
+  GatewayRefund,
+  GatewayRefundStatus,
+  GatewayWebhookEvent,
+  PaymentGateway,
+} from './types';
+
+// Shapes of the Razorpay entities we read (the SDK types are much wider)
+interface RazorpayPaymentEntity {
+  id: string;
+  order_id?: string | null;
+  amount: number | string;
+  amount_refunded?: number | string | null;
+  currency: string;
+  status: string;
+  method?: string | null;
+  error_description?: string | null;
+  created_at: number;
+}
+
+interface RazorpayRefundEntity {
+  id: string;
+  payment_id: string;
+  amount?: number | string;
+  status: string;
+  created_at: number;
+}
+
+interface RazorpayWebhookBody {
+  event: string;
+  created_at?: number;
+  payload?: {
+    payment?: { entity: RazorpayPaymentEntity };
+    refund?: { entity: RazorpayRefundEntity };
+  };
+}
+
+export function hmacSha256(secret: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+export function signaturesMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function fromUnix(seconds: number | undefined): Date {
+  return seconds ? new Date(seconds * 1000) : new Date();
+}
+
+function toPaymentStatus(status: string): GatewayPaymentStatus {
+  switch (status) {
+    case 'created':
+    case 'authorized':
+    case 'captured':
+    case 'failed':
+    case 'refunded':
+      return status;
+    default:
+      return 'pending';
+  }
+}
+
+function toRefundStatus(status: string): GatewayRefundStatus {
+  return status === 'processed' || status === 'failed' ? status : 'pending';
+}
+
+export function mapRazorpayPayment(payment: RazorpayPaymentEntity): GatewayPayment {
+  return {
+    id: payment.id,
+    orderId: payment.order_id ?? null,
+    amountPaise: Number(payment.amount),
+    amountRefundedPaise: Number(payment.amount_refunded ?? 0),
+    currency: payment.currency,
+    status: toPaymentStatus(payment.status),
+    method: payment.method ?? null,
+    errorDescription: payment.error_description ?? null,
+    createdAt: fromUnix(payment.created_at),
+  };
+}
+
+function mapRazorpayRefund(refund: RazorpayRefundEntity): GatewayRefund {
+  return {
+    id: refund.id,
+    paymentId: refund.payment_id,
+    amountPaise: Number(refund.amount ?? 0),
+    status: toRefundStatus(refund.status),
+    createdAt: fromUnix(refund.created_at),
+  };
+}
+
+function toGatewayError(action: string, error: unknown): Error {
+  const err = error as { code?: string; statusCode?: number; error?: { description?: string }; message?: string };
+  if (err?.code === 'ETIMEDOUT' || err?.code === 'ECONNABORTED' || err?.code === 'ESOCKETTIMEDOUT') {
+    return new GatewayTimeoutError(`Razorpay timed out while trying to ${action}`);
+  }
+  const reason = err?.error?.description || err?.message || 'unknown error';
+  return new GatewayError(`Razorpay failed to ${action}: ${reason}`);
+}
+
+// Largest page Razorpay returns from the list APIs
+const LIST_PAGE_SIZE = 100;
+
+export interface RazorpayGatewayConfig {
+  keyId: string;
+  keySecret: string;
+  webhookSecret: string;
+}
+
+export class RazorpayGateway implements PaymentGateway {
+  readonly name = 'razorpay';
+  // No customer tokens or mandates are kept, see charge()
+  readonly canChargeOffSession = false;
+  private client: Razorpay;
+
+  constructor(private config: RazorpayGatewayConfig) {
+    this.client = new Razorpay({ key_id: config.keyId, key_secret: config.keySecret });
+  }
+
+  async createOrder(input: CreateOrderInput): Promise<GatewayOrder> {
+    try {
+      const order = await this.client.orders.create({
+        amount: input.amountPaise,
+        currency: input.currency ?? 'INR',
+        receipt: input.receipt,
+        notes: input.notes,
+      });
+      return {
+        id: order.id,
+        amountPaise: Number(order.amount),
+        currency: order.currency,
+        receipt: order.receipt ?? input.receipt,
+        status: order.status,
+        notes: (order.notes as Record<string, string>) ?? {},
+      };
+    } catch (error) {
+      throw toGatewayError('create order', error);
+    }
+  }
+
+  async charge(input: ChargeInput): Promise<GatewayPayment> {
+    // Razorpay only charges a payer who is not at checkout through a saved
+    // customer token (recurring payments), which we do not keep
+    throw new GatewayError(`Razorpay cannot charge a ${input.method} payment outside checkout`);
+  }
+
+  async fetchPayment(paymentId: string): Promise<GatewayPayment> {
+    try {
+      const payment = await this.client.payments.fetch(paymentId);
+      return mapRazorpayPayment(payment as unknown as RazorpayPaymentEntity);
+    } catch (error) {
+      throw toGatewayError(`fetch payment ${paymentId}`, error);
+    }
+  }
+
+  async fetchOrderPayments(orderId: string): Promise<GatewayPayment[]> {
+    try {
+      const page = await this.client.orders.fetchPayments(orderId);
+      return (page.items as unknown as RazorpayPaymentEntity[]).map(mapRazorpayPayment);
+    } catch (error) {
+      throw toGatewayError(`fetch payments for order ${orderId}`, error);
+    }
+  }
+
+  async listPayments(from: Date, to: Date): Promise<GatewayPayment[]> {
+    const payments: GatewayPayment[] = [];
+    try {
+      for (let skip = 0; ; skip += LIST_PAGE_SIZE) {
+        const page = await this.client.payments.all({
+          from: Math.floor(from.getTime() / 1000),
+          to: Math.floor(to.getTime() / 1000),
+          count: LIST_PAGE_SIZE,
+          skip,
+        });
+        const items = page.items as unknown as RazorpayPaymentEntity[];
+        payments.push(...items.map(mapRazorpayPayment));
+        if (items.length < LIST_PAGE_SIZE) break;
+      }
+    } catch (error) {
+      throw toGatewayError('list payments', error);
+    }
+    return payments;
+  }
+
+  verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean {
+    return signaturesMatch(hmacSha256(this.config.keySecret, `${orderId}|${paymentId}`), signature);
+  }
+
+  async refund(paymentId: string, options: { amountPaise?: number; notes?: Record<string, string> } = {}): Promise<GatewayRefund> {
+    try {
+      const refund = await this.client.payments.refund(paymentId, {
+        amount: options.amountPaise,
+        notes: options.notes,
+      });
+      return mapRazorpayRefund(refund as unknown as RazorpayRefundEntity);
+    } catch (error) {
+      throw toGatewayError(`refund payment ${paymentId}`, error);
+    }
+  }
+
+  parseWebhook(rawBody: string, signature: string | undefined, eventId?: string): GatewayWebhookEvent {
+    // Anyone can compute an HMAC keyed with an empty secret
+    if (!this.config.webhookSecret) {
+      throw new UnauthorizedError('Razorpay webhooks are not configured');
+    }
+    if (!signature || !signaturesMatch(hmacSha256(this.config.webhookSecret, rawBody), signature)) {
+      throw new UnauthorizedError('Invalid webhook signature');
+    }
+
+    const body = JSON.parse(rawBody) as RazorpayWebhookBody;
+    const payment = body.payload?.payment?.entity;
+    const refund = body.payload?.refund?.entity;
+
+    return {
+      // Razorpay sends the event id in a header; fall back to a body digest
+      id: eventId || crypto.createHash('sha256').update(rawBody).digest('hex'),
+      type: body.event,
+      createdAt: fromUnix(body.created_at),
+      payment: payment ? mapRazorpayPayment(payment) : null,
+      refund: refund ? mapRazorpayRefund(refund) : null,
+      payload: body,
+    };
+  }
+}
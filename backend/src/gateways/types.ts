@@ -0,0 +1,107 @@
+import { Paise } from '../utils/money';
+
+// Provider-neutral view of a payment gateway. Amounts are always in paise.
+
+export type GatewayPaymentStatus = 'created' | 'pending' | 'authorized' | 'captured' | 'failed' | 'refunded';
+
+export type GatewayRefundStatus = 'pending' | 'processed' | 'failed';
+
+export interface GatewayOrder {
+  id: string;
+  amountPaise: Paise;
+  currency: string;
+  receipt: string;
+  status: string;
+  notes: Record<string, string>;
+}
+
+export interface GatewayPayment {
+  id: string;
+  orderId: string | null;
+  amountPaise: Paise;
+  amountRefundedPaise: Paise;
+  currency: string;
+  status: GatewayPaymentStatus;
+  method: string | null;
+  errorDescription: string | null;
+  createdAt: Date;
+}
+
+export interface GatewayRefund {
+  id: string;
+  paymentId: string;
+  amountPaise: Paise;
+  status: GatewayRefundStatus;
+  createdAt: Date;
+}
+
+export interface GatewayWebhookEvent {
+  id: string; // Provider event id, used to dedupe deliveries
+  type: string; // e.g. payment.captured, payment.failed, refund.processed
+  createdAt: Date;
+  payment: GatewayPayment | null;
+  refund: GatewayRefund | null;
+  payload: unknown; // Parsed body as delivered
+}
+
+export interface CreateOrderInput {
+  amountPaise: Paise;
+  currency?: string;
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface ChargeInput {
+  amountPaise: Paise;
+  currency?: string;
+  receipt: string; // Our payment id; charging the same receipt again returns the first charge
+  method: string;
+  notes?: Record<string, string>;
+}
+
+export interface PaymentGateway {
+  readonly name: string;
+
+  /**
+   * Whether charge() can take money from a payer who is not at checkout.
+   * Without it, payments have to go through createOrder and the checkout.
+   */
+  readonly canChargeOffSession: boolean;
+
+  createOrder(input: CreateOrderInput): Promise<GatewayOrder>;
+
+  /**
+   * Charge the payer without a checkout (queued payments, autopay). The
+   * payment comes back captured, failed or, while the provider has not
+   * decided, pending. Throws when the charge could not be made.
+   */
+  charge(input: ChargeInput): Promise<GatewayPayment>;
+
+  fetchPayment(paymentId: string): Promise<GatewayPayment>;
+
+  /**
+   * Every payment attempt made against an order.
+   */
+  fetchOrderPayments(orderId: string): Promise<GatewayPayment[]>;
+
+  /**
+   * Every payment created in [from, to], across all pages.
+   */
+  listPayments(from: Date, to: Date): Promise<GatewayPayment[]>;
+
+  /**
+   * Check the signature the checkout hands back for an order payment.
+   */
+  verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean;
+
+  /**
+   * Refund a captured payment, in full when no amount is given.
+   */
+  refund(paymentId: string, options?: { amountPaise?: Paise; notes?: Record<string, string> }): Promise<GatewayRefund>;
+
+  /**
+   * Verify and decode a server-to-server webhook. Throws UnauthorizedError
+   * when the signature does not match the raw body.
+   */
+  parseWebhook(rawBody: string, signature: string | undefined, eventId?: string): GatewayWebhookEvent;
+}
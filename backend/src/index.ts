@@ -11,7 +11,9 @@ dotenv.config();
 import { logger } from './config/logger';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { generalLimiter } from './middleware/rateLimiter';
+import { captureRawBody } from './middleware/rawBody';
 import { setupSwagger } from './swagger/swagger';
+import { startScheduledJobs } from './jobs';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -19,12 +21,18 @@ import dashboardRoutes from './routes/dashboard';
 import cardsRoutes from './routes/cards';
 import transactionsRoutes from './routes/transactions';
 import paymentsRoutes from './routes/payments';
+import scheduledPaymentsRoutes from './routes/scheduledPayments';
 import rewardsRoutes from './routes/rewards';
 import profileRoutes from './routes/profile';
 import notificationsRoutes from './routes/notifications';
 import statementsRoutes from './routes/statements';
 import analyticsRoutes from './routes/analytics';
 import activitiesRoutes from './routes/activities';
+import reconciliationRoutes from './routes/reconciliation';
+import authorizationsRoutes from './routes/authorizations';
+import limitRequestsRoutes from './routes/limitRequests';
+import offersRoutes from './routes/offers';
+import addOnRoutes from './routes/addOn';
 
 const app = express();
 const port = process.env.PORT || 4000;
@@ -52,7 +60,7 @@ const corsOptions = {
 app.use(cors(corsOptions));
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(cookieParser());
 
@@ -83,6 +91,7 @@ app.use('/api/auth', authRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/cards', cardsRoutes);
 app.use('/api/transactions', transactionsRoutes);
+app.use('/api/payments/scheduled', scheduledPaymentsRoutes); // Before /api/payments/:id
 app.use('/api/payments', paymentsRoutes);
 app.use('/api/rewards', rewardsRoutes);
 app.use('/api/profile', profileRoutes);
@@ -90,6 +99,11 @@ app.use('/api/notifications', notificationsRoutes);
 app.use('/api/statements', statementsRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/activities', activitiesRoutes);
+app.use('/api/reconciliation', reconciliationRoutes);
+app.use('/api/authorizations', authorizationsRoutes);
+app.use('/api/limit-requests', limitRequestsRoutes);
+app.use('/api/offers', offersRoutes);
+app.use('/api/add-on', addOnRoutes);
 
 // Setup Swagger documentation
 setupSwagger(app);
@@ -127,6 +141,11 @@ app.listen(port, () => {
   if (process.env.SERVE_STATIC_FRONTEND === 'true') {
     logger.info(`🌐 Frontend: http://localhost:${port}`);
   }
+
+  // Background jobs (autopay, ...) stay off in tests
+  if (process.env.NODE_ENV !== 'test') {
+    startScheduledJobs();
+  }
 });
 
 // Graceful shutdown
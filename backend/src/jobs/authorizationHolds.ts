@@ -0,0 +1,68 @@
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { ConflictError } from '../middleware/errorHandler';
+import { expireAuthorization } from '../utils/authorizations';
+
+const AUTHORIZATION_EXPIRY_INTERVAL_MS = parseInt(process.env.AUTHORIZATION_EXPIRY_INTERVAL_MS || '3600000'); // 1 hour
+
+const BATCH_SIZE = 100;
+
+/**
+ * Expire pending authorizations that were not captured in time, releasing
+ * their holds. Returns how many were expired.
+ */
+export async function expireStaleAuthorizations(now: Date = new Date()): Promise<number> {
+  const stale = await prisma.cardAuthorization.findMany({
+    where: {
+      status: 'PENDING',
+      expiresAt: { lte: now },
+    },
+    orderBy: { expiresAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  let expired = 0;
+  for (const authorization of stale) {
+    try {
+      await expireAuthorization(authorization, now);
+      expired += 1;
+    } catch (error) {
+      // Captured or reversed since it was read
+      if (error instanceof ConflictError) continue;
+      logger.error(`Expiring authorization ${authorization.id} errored:`, error);
+    }
+  }
+
+  if (expired > 0) {
+    logger.info(`Expired ${expired} stale authorization hold(s)`);
+  }
+  return expired;
+}
+
+let running = false;
+
+/**
+ * One authorization expiry cycle.
+ */
+export async function runAuthorizationExpiry(now: Date = new Date()): Promise<void> {
+  if (running) {
+    logger.debug('Authorization expiry cycle already in progress, skipping');
+    return;
+  }
+
+  running = true;
+  try {
+    await expireStaleAuthorizations(now);
+  } catch (error) {
+    logger.error('Authorization expiry cycle failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startAuthorizationExpiryJob(): NodeJS.Timeout {
+  logger.info(`Authorization expiry job scheduled every ${AUTHORIZATION_EXPIRY_INTERVAL_MS}ms`);
+  return setInterval(() => {
+    void runAuthorizationExpiry();
+  }, AUTHORIZATION_EXPIRY_INTERVAL_MS);
+}
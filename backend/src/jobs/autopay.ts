@@ -0,0 +1,247 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { getPaymentGateway } from '../gateways';
+import { chargePayment, ChargeOutcome } from '../utils/paymentCharges';
+import { isOpenPaymentStatus, paymentStateData } from '../utils/paymentState';
+import { createAutopayFailedNotification } from '../utils/notifications';
+import { formatRupees, Paise } from '../utils/money';
+
+const AUTOPAY_INTERVAL_MS = parseInt(process.env.AUTOPAY_INTERVAL_MS || '3600000'); // 1 hour
+const AUTOPAY_LEAD_DAYS = parseInt(process.env.AUTOPAY_LEAD_DAYS || '2');
+const AUTOPAY_MAX_ATTEMPTS = parseInt(process.env.AUTOPAY_MAX_ATTEMPTS || '3');
+const AUTOPAY_RETRY_DELAY_MS = parseInt(process.env.AUTOPAY_RETRY_DELAY_MS || '21600000'); // 6 hours
+
+/**
+ * Amount to collect for a statement under the card's autopay mode.
+ */
+export function computeAutopayAmount(
+  statement: { balancePaise: Paise; minDuePaise: Paise },
+  mode: string
+): Paise {
+  if (mode === 'FULL_BALANCE') {
+    return statement.balancePaise;
+  }
+  return Math.min(statement.minDuePaise, statement.balancePaise);
+}
+
+/**
+ * Create an AutopayRun for every unpaid statement on an autopay card that is
+ * due within the lead window. The unique statementId keeps this idempotent.
+ */
+export async function scheduleAutopayRuns(now: Date = new Date()): Promise<number> {
+  const horizon = new Date(now);
+  horizon.setDate(horizon.getDate() + AUTOPAY_LEAD_DAYS);
+
+  const statements = await prisma.statement.findMany({
+    where: {
+      isPaid: false,
+      balancePaise: { gt: 0 },
+      dueDate: { lte: horizon },
+      autopayRun: null,
+      card: {
+        autopayEnabled: true,
+        status: 'ACTIVE',
+      },
+    },
+    include: {
+      card: {
+        select: {
+          autopayMode: true,
+        },
+      },
+    },
+  });
+
+  if (statements.length === 0) {
+    return 0;
+  }
+
+  const result = await prisma.autopayRun.createMany({
+    data: statements.map(statement => ({
+      cardId: statement.cardId,
+      statementId: statement.id,
+      mode: statement.card.autopayMode,
+      nextAttemptAt: now,
+    })),
+    skipDuplicates: true,
+  });
+
+  logger.info(`Autopay: scheduled ${result.count} run(s)`);
+  return result.count;
+}
+
+/**
+ * Attempt every autopay run whose next attempt is due.
+ */
+export async function executeDueAutopayRuns(now: Date = new Date()): Promise<number> {
+  const runs = await prisma.autopayRun.findMany({
+    where: {
+      status: { in: ['PENDING', 'RETRYING'] },
+      nextAttemptAt: { lte: now },
+    },
+    include: {
+      statement: true,
+      card: true,
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+  });
+
+  for (const run of runs) {
+    try {
+      await attemptAutopayRun(run, now);
+    } catch (error) {
+      logger.error(`Autopay run ${run.id} errored:`, error);
+    }
+  }
+
+  return runs.length;
+}
+
+type AutopayRunWithRelations = Prisma.AutopayRunGetPayload<{
+  include: { statement: true; card: true };
+}>;
+
+async function attemptAutopayRun(run: AutopayRunWithRelations, now: Date) {
+  const { statement, card } = run;
+
+  // Nothing to collect if the user paid in the meantime or switched autopay off
+  if (statement.isPaid || !card.autopayEnabled || card.status !== 'ACTIVE') {
+    await prisma.autopayRun.update({
+      where: { id: run.id },
+      data: { status: 'SKIPPED' },
+    });
+    return;
+  }
+
+  const amount = computeAutopayAmount(statement, run.mode);
+  if (amount <= 0) {
+    await prisma.autopayRun.update({
+      where: { id: run.id },
+      data: { status: 'SKIPPED' },
+    });
+    return;
+  }
+
+  // Retrying a charge the gateway can never make only delays telling the user
+  const gateway = getPaymentGateway();
+  if (!gateway.canChargeOffSession) {
+    const lastError = `The ${gateway.name} gateway cannot charge outside checkout`;
+    await prisma.autopayRun.update({
+      where: { id: run.id },
+      data: { status: 'FAILED', lastError },
+    });
+    await createAutopayFailedNotification(card.userId, card.last4, statement.dueDate, amount);
+    logger.warn(`Autopay run ${run.id} not attempted: ${lastError}`);
+    return;
+  }
+
+  const attempts = run.attempts + 1;
+  let status: ChargeOutcome = 'FAILED';
+  let paymentId: string | null = null;
+  let lastError: string | null = null;
+
+  try {
+    // An earlier attempt that errored or was left undecided may already have
+    // charged, so its payment is resumed (charged by the same receipt or
+    // looked up) rather than a second one created
+    const previous = run.lastPaymentId
+      ? await prisma.payment.findFirst({ where: { id: run.lastPaymentId } })
+      : null;
+
+    if (previous?.status === 'SUCCESS') {
+      paymentId = previous.id;
+      status = 'SUCCESS';
+    } else {
+      const payment = previous && isOpenPaymentStatus(previous.status)
+        ? previous
+        : await prisma.payment.create({
+          data: {
+            cardId: card.id,
+            userId: card.userId,
+            amountPaise: amount,
+            method: 'autopay',
+            ...paymentStateData('PROCESSING'),
+            idempotencyKey: `autopay_${run.id}_${attempts}`,
+          },
+        });
+      paymentId = payment.id;
+
+      status = await chargePayment(payment, card.last4);
+      if (status === 'FAILED') {
+        lastError = 'Payment declined by the gateway';
+      }
+    }
+  } catch (error) {
+    status = 'FAILED';
+    lastError = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  if (status === 'PENDING') {
+    // Waiting on the gateway doesn't use up an attempt; the next cycle looks it up
+    await prisma.autopayRun.update({
+      where: { id: run.id },
+      data: { lastPaymentId: paymentId },
+    });
+    logger.info(`Autopay run ${run.id} is waiting on the gateway for payment ${paymentId}`);
+    return;
+  }
+
+  if (status === 'SUCCESS') {
+    await prisma.autopayRun.update({
+      where: { id: run.id },
+      data: { status: 'SUCCESS', attempts, lastPaymentId: paymentId, lastError: null },
+    });
+    logger.info(`Autopay run ${run.id} collected ${formatRupees(amount)} for statement ${statement.id}`);
+    return;
+  }
+
+  const exhausted = attempts >= AUTOPAY_MAX_ATTEMPTS;
+  await prisma.autopayRun.update({
+    where: { id: run.id },
+    data: {
+      status: exhausted ? 'FAILED' : 'RETRYING',
+      attempts,
+      lastPaymentId: paymentId,
+      lastError,
+      nextAttemptAt: new Date(now.getTime() + AUTOPAY_RETRY_DELAY_MS),
+    },
+  });
+
+  if (exhausted) {
+    await createAutopayFailedNotification(card.userId, card.last4, statement.dueDate, amount);
+    logger.warn(`Autopay run ${run.id} failed after ${attempts} attempt(s): ${lastError}`);
+  } else {
+    logger.info(`Autopay run ${run.id} attempt ${attempts} failed, will retry: ${lastError}`);
+  }
+}
+
+let running = false;
+
+/**
+ * One autopay cycle: schedule runs for statements nearing their due date,
+ * then attempt the runs that are due.
+ */
+export async function runAutopay(now: Date = new Date()): Promise<void> {
+  if (running) {
+    logger.debug('Autopay cycle already in progress, skipping');
+    return;
+  }
+
+  running = true;
+  try {
+    await scheduleAutopayRuns(now);
+    await executeDueAutopayRuns(now);
+  } catch (error) {
+    logger.error('Autopay cycle failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startAutopayJob(): NodeJS.Timeout {
+  logger.info(`Autopay job scheduled every ${AUTOPAY_INTERVAL_MS}ms`);
+  return setInterval(() => {
+    void runAutopay();
+  }, AUTOPAY_INTERVAL_MS);
+}
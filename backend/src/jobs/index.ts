@@ -0,0 +1,20 @@
+import { startAuthorizationExpiryJob } from './authorizationHolds';
+import { startAutopayJob } from './autopay';
+import { startLimitOfferJob } from './limitOffers';
+import { startPaymentWorkerJob } from './paymentWorker';
+import { startReconciliationJob } from './reconciliation';
+import { startScheduledPaymentsJob } from './scheduledPayments';
+import { startStatementJob } from './statements';
+
+/**
+ * Start all background jobs. Called once the HTTP server is listening.
+ */
+export function startScheduledJobs(): void {
+  startPaymentWorkerJob();
+  startStatementJob();
+  startAutopayJob();
+  startScheduledPaymentsJob();
+  startReconciliationJob();
+  startAuthorizationExpiryJob();
+  startLimitOfferJob();
+}
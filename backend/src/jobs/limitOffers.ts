@@ -0,0 +1,139 @@
+import { Card } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { MAX_CREDIT_LIMIT_PAISE } from '../utils/creditLimits';
+import { formatRupees, Paise, percentOf, sumPaise, toPaise } from '../utils/money';
+import { createLimitOfferNotification } from '../utils/notifications';
+
+const LIMIT_OFFER_INTERVAL_MS = parseInt(process.env.LIMIT_OFFER_INTERVAL_MS || '86400000'); // 1 day
+const LIMIT_OFFER_VALID_DAYS = parseInt(process.env.LIMIT_OFFER_VALID_DAYS || '30');
+const LIMIT_OFFER_INCREASE_PERCENT = parseInt(process.env.LIMIT_OFFER_INCREASE_PERCENT || '25');
+
+// A card is reviewed on this many of its latest statements, and needs them all
+const REVIEW_STATEMENTS = 6;
+
+// Average statement balance, as a share of the limit, that shows the card
+// needs more room
+const MIN_UTILIZATION_PERCENT = 30;
+
+// No offer within this many months of the last increase
+const MONTHS_BETWEEN_INCREASES = 6;
+
+// Offered limits are rounded down to whole thousands of rupees
+const LIMIT_STEP_PAISE = toPaise(1000);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type CardForReview = Pick<Card, 'id' | 'userId' | 'last4' | 'creditLimitPaise' | 'creditLimitRaisedAt'>;
+
+/**
+ * The limit to offer a card, or null if it doesn't qualify. A card qualifies
+ * when none of its last REVIEW_STATEMENTS statements was paid late or is
+ * overdue, their average balance is at least MIN_UTILIZATION_PERCENT of the
+ * limit, and its limit wasn't raised in the last MONTHS_BETWEEN_INCREASES
+ * months. The offer is LIMIT_OFFER_INCREASE_PERCENT more, up to
+ * MAX_CREDIT_LIMIT_PAISE.
+ */
+export async function reviewCardLimit(card: CardForReview, now: Date = new Date()): Promise<Paise | null> {
+  const lastIncreaseCutoff = new Date(now.getFullYear(), now.getMonth() - MONTHS_BETWEEN_INCREASES, now.getDate());
+  if (card.creditLimitRaisedAt && card.creditLimitRaisedAt > lastIncreaseCutoff) {
+    return null;
+  }
+
+  const statements = await prisma.statement.findMany({
+    where: { cardId: card.id },
+    orderBy: { createdAt: 'desc' },
+    take: REVIEW_STATEMENTS,
+    select: { balancePaise: true, isPaid: true, dueDate: true, lateFeeCharged: true },
+  });
+  if (statements.length < REVIEW_STATEMENTS) {
+    return null;
+  }
+  if (statements.some(statement => statement.lateFeeCharged || (!statement.isPaid && statement.dueDate < now))) {
+    return null;
+  }
+
+  const totalBalancePaise = sumPaise(statements.map(statement => Math.max(statement.balancePaise, 0)));
+  if (totalBalancePaise * 100 < card.creditLimitPaise * MIN_UTILIZATION_PERCENT * statements.length) {
+    return null;
+  }
+
+  const raisedPaise = card.creditLimitPaise + percentOf(card.creditLimitPaise, LIMIT_OFFER_INCREASE_PERCENT);
+  const offeredPaise = Math.min(Math.floor(raisedPaise / LIMIT_STEP_PAISE) * LIMIT_STEP_PAISE, MAX_CREDIT_LIMIT_PAISE);
+  return offeredPaise > card.creditLimitPaise ? offeredPaise : null;
+}
+
+/**
+ * Withdraw limit offers past their expiry, then offer a higher limit to
+ * every active card that qualifies and has no open offer or limit request.
+ * Returns how many offers were made.
+ */
+export async function generateLimitOffers(now: Date = new Date()): Promise<number> {
+  await prisma.offer.updateMany({
+    where: { type: 'LIMIT_INCREASE', isActive: true, expiresAt: { lte: now } },
+    data: { isActive: false },
+  });
+
+  const cards = await prisma.card.findMany({
+    where: {
+      status: 'ACTIVE',
+      limitRequests: { none: { status: 'PENDING' } },
+      offers: { none: { type: 'LIMIT_INCREASE', isActive: true } },
+    },
+    select: { id: true, userId: true, last4: true, creditLimitPaise: true, creditLimitRaisedAt: true },
+  });
+
+  let offered = 0;
+  for (const card of cards) {
+    try {
+      const limitPaise = await reviewCardLimit(card, now);
+      if (limitPaise === null) continue;
+
+      await prisma.offer.create({
+        data: {
+          userId: card.userId,
+          cardId: card.id,
+          type: 'LIMIT_INCREASE',
+          title: 'Pre-approved credit limit increase',
+          description: `Raise the limit of your card ending in ${card.last4} from ${formatRupees(card.creditLimitPaise)} to ${formatRupees(limitPaise)}, with no documents needed.`,
+          creditLimitPaise: limitPaise,
+          expiresAt: new Date(now.getTime() + LIMIT_OFFER_VALID_DAYS * DAY_MS),
+        },
+      });
+      await createLimitOfferNotification(card.userId, card.last4, limitPaise);
+      offered++;
+    } catch (error) {
+      logger.error(`Limit review failed for card ${card.id}:`, error);
+    }
+  }
+
+  return offered;
+}
+
+let running = false;
+
+export async function runLimitReviews(now: Date = new Date()): Promise<void> {
+  if (running) {
+    logger.debug('Limit review already in progress, skipping');
+    return;
+  }
+
+  running = true;
+  try {
+    const offered = await generateLimitOffers(now);
+    if (offered > 0) {
+      logger.info(`Limit review job: made ${offered} limit increase offer(s)`);
+    }
+  } catch (error) {
+    logger.error('Limit review cycle failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startLimitOfferJob(): NodeJS.Timeout {
+  logger.info(`Limit review job scheduled every ${LIMIT_OFFER_INTERVAL_MS}ms`);
+  return setInterval(() => {
+    void runLimitReviews();
+  }, LIMIT_OFFER_INTERVAL_MS);
+}
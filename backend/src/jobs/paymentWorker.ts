@@ -0,0 +1,192 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { GatewayPayment, getPaymentGateway, PaymentGateway } from '../gateways';
+import { InvalidPaymentTransitionError } from '../middleware/errorHandler';
+import { chargePayment } from '../utils/paymentCharges';
+import { processPayment } from '../utils/paymentProcessor';
+import { OPEN_PAYMENT_STATUSES, transitionPayment } from '../utils/paymentState';
+
+const PAYMENT_WORKER_INTERVAL_MS = parseInt(process.env.PAYMENT_WORKER_INTERVAL_MS || '5000');
+// A PROCESSING claim older than this was abandoned (e.g. the server restarted mid-payment)
+const PAYMENT_PROCESSING_TIMEOUT_MS = parseInt(process.env.PAYMENT_PROCESSING_TIMEOUT_MS || '300000'); // 5 minutes
+// How long a gateway payment is left to checkout and webhooks before we ask the gateway ourselves
+const PAYMENT_GATEWAY_RECHECK_MS = parseInt(process.env.PAYMENT_GATEWAY_RECHECK_MS || '600000'); // 10 minutes
+// Gateway payments still unsettled this long after creation are failed
+const PAYMENT_TIMEOUT_MS = parseInt(process.env.PAYMENT_TIMEOUT_MS || '3600000'); // 1 hour
+
+const BATCH_SIZE = 100;
+
+const include = { card: { select: { last4: true } } } as const;
+
+type WorkerPayment = Prisma.PaymentGetPayload<{ include: typeof include }>;
+
+function isLostRace(error: unknown): boolean {
+  return error instanceof InvalidPaymentTransitionError
+    || (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025');
+}
+
+/**
+ * Take a payment for processing. Returns false when another worker (or a
+ * webhook) got to it first.
+ */
+async function claimPayment(payment: WorkerPayment, now: Date): Promise<boolean> {
+  try {
+    if (payment.status === 'PENDING') {
+      await transitionPayment(prisma, payment.id, 'PROCESSING');
+    } else {
+      // Re-claim an abandoned PROCESSING payment, unless someone else just did
+      await prisma.payment.update({
+        where: { id: payment.id, status: 'PROCESSING', processingAt: payment.processingAt },
+        data: { processingAt: now },
+      });
+    }
+    return true;
+  } catch (error) {
+    if (isLostRace(error)) return false;
+    throw error;
+  }
+}
+
+/**
+ * Charge payments made without checkout (POST /api/payments, autopay)
+ * through the payment gateway: queued PENDING payments, and PROCESSING ones
+ * whose worker went away or whose charge the gateway had not yet decided.
+ */
+export async function processQueuedPayments(now: Date = new Date()): Promise<number> {
+  const payments = await prisma.payment.findMany({
+    where: {
+      razorpayOrderId: null,
+      method: { not: 'razorpay' },
+      OR: [
+        { status: 'PENDING' },
+        { status: 'PROCESSING', processingAt: { lt: new Date(now.getTime() - PAYMENT_PROCESSING_TIMEOUT_MS) } },
+      ],
+    },
+    include,
+    orderBy: { createdAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  let settled = 0;
+  for (const payment of payments) {
+    try {
+      if (!(await claimPayment(payment, now))) continue;
+
+      const outcome = await chargePayment(payment, payment.card?.last4 ?? 'N/A');
+      if (outcome !== 'PENDING') {
+        settled += 1;
+      }
+    } catch (error) {
+      if (isLostRace(error)) continue;
+      logger.error(`Payment worker could not process payment ${payment.id}:`, error);
+    }
+  }
+
+  return settled;
+}
+
+async function recheckGatewayPayment(gateway: PaymentGateway, payment: WorkerPayment, now: Date): Promise<void> {
+  // Mark it checked first so a gateway outage does not get polled every cycle
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: { updatedAt: now },
+  });
+
+  const attempts: GatewayPayment[] = payment.razorpayOrderId
+    ? await gateway.fetchOrderPayments(payment.razorpayOrderId)
+    : [];
+
+  // Only a capture takes the money; an authorization can still lapse or be voided
+  const captured = attempts.find(attempt => attempt.status === 'captured');
+  if (captured) {
+    if (captured.amountPaise !== payment.amountPaise) {
+      // Reconciliation flags it; settling would credit the wrong amount
+      logger.warn(`Gateway payment ${captured.id} amount ${captured.amountPaise} does not match payment ${payment.id} (${payment.amountPaise})`);
+      return;
+    }
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { razorpayPaymentId: captured.id },
+    });
+    await processPayment(payment.id, 'SUCCESS', payment.card?.last4 ?? 'N/A', payment.userId, payment.amountPaise, captured.id);
+    logger.info(`Payment worker settled payment ${payment.id} from ${gateway.name} payment ${captured.id}`);
+    return;
+  }
+
+  if (payment.createdAt.getTime() > now.getTime() - PAYMENT_TIMEOUT_MS) {
+    return;
+  }
+
+  const lastFailure = [...attempts].reverse().find(attempt => attempt.status === 'failed');
+  const reason = !payment.razorpayOrderId
+    ? 'Gateway order was never created'
+    : lastFailure?.errorDescription ?? 'Timed out waiting for the payment gateway';
+
+  if (payment.status === 'CREATED') {
+    // No order, so nothing was ever charged and there is nobody to tell
+    await transitionPayment(prisma, payment.id, 'FAILED', { failureReason: reason });
+  } else {
+    await processPayment(payment.id, 'FAILED', payment.card?.last4 ?? 'N/A', payment.userId, payment.amountPaise, undefined, reason);
+  }
+  logger.info(`Payment worker failed payment ${payment.id}: ${reason}`);
+}
+
+/**
+ * Ask the gateway about checkout payments that have been open for a while,
+ * settling captured ones and failing those past PAYMENT_TIMEOUT_MS.
+ */
+export async function recheckGatewayPayments(now: Date = new Date()): Promise<number> {
+  const payments = await prisma.payment.findMany({
+    where: {
+      method: 'razorpay',
+      status: { in: OPEN_PAYMENT_STATUSES },
+      updatedAt: { lt: new Date(now.getTime() - PAYMENT_GATEWAY_RECHECK_MS) },
+    },
+    include,
+    orderBy: { createdAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  const gateway = getPaymentGateway();
+  for (const payment of payments) {
+    try {
+      await recheckGatewayPayment(gateway, payment, now);
+    } catch (error) {
+      if (isLostRace(error)) continue;
+      logger.error(`Payment worker could not recheck payment ${payment.id}:`, error);
+    }
+  }
+
+  return payments.length;
+}
+
+let running = false;
+
+/**
+ * One worker cycle: settle queued payments, then chase stuck gateway ones.
+ */
+export async function runPaymentWorker(now: Date = new Date()): Promise<void> {
+  if (running) {
+    logger.debug('Payment worker cycle already in progress, skipping');
+    return;
+  }
+
+  running = true;
+  try {
+    await processQueuedPayments(now);
+    await recheckGatewayPayments(now);
+  } catch (error) {
+    logger.error('Payment worker cycle failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startPaymentWorkerJob(): NodeJS.Timeout {
+  logger.info(`Payment worker scheduled every ${PAYMENT_WORKER_INTERVAL_MS}ms`);
+  return setInterval(() => {
+    void runPaymentWorker();
+  }, PAYMENT_WORKER_INTERVAL_MS);
+}
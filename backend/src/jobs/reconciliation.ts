@@ -0,0 +1,186 @@
+import { randomUUID } from 'crypto';
+import { Payment } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { GatewayPayment, getPaymentGateway } from '../gateways';
+import { isOpenPaymentStatus } from '../utils/paymentState';
+
+const RECONCILIATION_INTERVAL_MS = parseInt(process.env.RECONCILIATION_INTERVAL_MS || '86400000'); // 1 day
+
+export type ReconciliationSource = 'GATEWAY' | 'CSV';
+
+export type ReconciliationItemType =
+  | 'CAPTURED_BUT_PENDING' // Gateway took the money, our payment never settled
+  | 'SUCCESS_BUT_MISSING' // We settled a payment the gateway has no capture for
+  | 'AMOUNT_MISMATCH'
+  | 'UNKNOWN_GATEWAY_PAYMENT'; // Captured at the gateway, no payment of ours matches
+
+export interface ReconciliationResult {
+  runId: string;
+  source: ReconciliationSource;
+  checked: number; // Gateway records compared
+  flagged: number; // New items created
+  alreadyOpen: number; // Mismatches already waiting to be resolved
+}
+
+interface Mismatch {
+  type: ReconciliationItemType;
+  payment: Payment | null;
+  gatewayPayment: GatewayPayment | null;
+}
+
+// Gateway states in which the money has been taken from the payer. An
+// authorization alone can still lapse or be voided.
+const CAPTURED_STATUSES = ['captured', 'refunded'];
+
+/**
+ * Compare gateway records against our gateway payments for a period.
+ */
+export function findMismatches(payments: Payment[], gatewayPayments: GatewayPayment[], from: Date, to: Date): Mismatch[] {
+  const byGatewayId = new Map(payments.filter(p => p.razorpayPaymentId).map(p => [p.razorpayPaymentId!, p]));
+  const byOrderId = new Map(payments.filter(p => p.razorpayOrderId).map(p => [p.razorpayOrderId!, p]));
+
+  const mismatches: Mismatch[] = [];
+  const matched = new Set<string>();
+
+  for (const gatewayPayment of gatewayPayments) {
+    if (!CAPTURED_STATUSES.includes(gatewayPayment.status)) continue;
+
+    const payment = byGatewayId.get(gatewayPayment.id)
+      ?? (gatewayPayment.orderId ? byOrderId.get(gatewayPayment.orderId) : undefined)
+      ?? null;
+    if (!payment) {
+      mismatches.push({ type: 'UNKNOWN_GATEWAY_PAYMENT', payment: null, gatewayPayment });
+      continue;
+    }
+
+    matched.add(payment.id);
+    if (isOpenPaymentStatus(payment.status) || payment.status === 'FAILED') {
+      mismatches.push({ type: 'CAPTURED_BUT_PENDING', payment, gatewayPayment });
+    } else if (payment.amountPaise !== gatewayPayment.amountPaise) {
+      mismatches.push({ type: 'AMOUNT_MISMATCH', payment, gatewayPayment });
+    }
+  }
+
+  for (const payment of payments) {
+    if (payment.status !== 'SUCCESS' || matched.has(payment.id)) continue;
+    if (payment.createdAt < from || payment.createdAt > to) continue;
+
+    const gatewayPayment = payment.razorpayPaymentId
+      ? gatewayPayments.find(candidate => candidate.id === payment.razorpayPaymentId) ?? null
+      : null;
+    mismatches.push({ type: 'SUCCESS_BUT_MISSING', payment, gatewayPayment });
+  }
+
+  return mismatches;
+}
+
+function itemKey(type: string, paymentId: string | null, gatewayPaymentId: string | null): string {
+  return `${type}:${paymentId ?? ''}:${gatewayPaymentId ?? ''}`;
+}
+
+/**
+ * Reconcile gateway payments created in [from, to]. Records come from the
+ * gateway API unless settlement rows (e.g. an imported CSV) are passed in.
+ * A mismatch that already has an open item is not flagged again.
+ */
+export async function reconcilePayments(
+  from: Date,
+  to: Date,
+  settlement?: GatewayPayment[]
+): Promise<ReconciliationResult> {
+  const source: ReconciliationSource = settlement ? 'CSV' : 'GATEWAY';
+  const gatewayPayments = settlement ?? await getPaymentGateway().listPayments(from, to);
+
+  // Our payments in the period, plus any the gateway records point at
+  const payments = await prisma.payment.findMany({
+    where: {
+      method: 'razorpay',
+      OR: [
+        { createdAt: { gte: from, lte: to } },
+        { razorpayPaymentId: { in: gatewayPayments.map(payment => payment.id) } },
+        { razorpayOrderId: { in: gatewayPayments.flatMap(payment => (payment.orderId ? [payment.orderId] : [])) } },
+      ],
+    },
+  });
+
+  const mismatches = findMismatches(payments, gatewayPayments, from, to);
+
+  const open = await prisma.reconciliationItem.findMany({
+    where: { status: 'OPEN' },
+    select: { type: true, paymentId: true, gatewayPaymentId: true },
+  });
+  const openKeys = new Set(open.map(item => itemKey(item.type, item.paymentId, item.gatewayPaymentId)));
+
+  const runId = randomUUID();
+  const fresh = mismatches.filter(
+    mismatch => !openKeys.has(itemKey(mismatch.type, mismatch.payment?.id ?? null, mismatch.gatewayPayment?.id ?? null))
+  );
+
+  if (fresh.length > 0) {
+    await prisma.reconciliationItem.createMany({
+      data: fresh.map(({ type, payment, gatewayPayment }) => ({
+        runId,
+        source,
+        type,
+        paymentId: payment?.id ?? null,
+        gatewayPaymentId: gatewayPayment?.id ?? payment?.razorpayPaymentId ?? null,
+        gatewayOrderId: gatewayPayment?.orderId ?? payment?.razorpayOrderId ?? null,
+        expectedPaise: payment?.amountPaise ?? null,
+        gatewayPaise: gatewayPayment?.amountPaise ?? null,
+        paymentStatus: payment?.status ?? null,
+        gatewayStatus: gatewayPayment?.status ?? null,
+        periodStart: from,
+        periodEnd: to,
+      })),
+    });
+  }
+
+  logger.info(
+    `Reconciliation ${runId} (${source}) ${from.toISOString()} - ${to.toISOString()}: ` +
+    `${gatewayPayments.length} gateway record(s), ${fresh.length} new item(s), ${mismatches.length - fresh.length} already open`
+  );
+
+  return {
+    runId,
+    source,
+    checked: gatewayPayments.length,
+    flagged: fresh.length,
+    alreadyOpen: mismatches.length - fresh.length,
+  };
+}
+
+/**
+ * The previous calendar day, which the daily run reconciles.
+ */
+export function getPreviousDay(now: Date = new Date()): { from: Date; to: Date } {
+  const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+  const to = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1, 23, 59, 59, 999);
+  return { from, to };
+}
+
+let running = false;
+
+export async function runReconciliation(now: Date = new Date()): Promise<void> {
+  if (running) {
+    logger.debug('Reconciliation already in progress, skipping');
+    return;
+  }
+
+  running = true;
+  try {
+    const { from, to } = getPreviousDay(now);
+    await reconcilePayments(from, to);
+  } catch (error) {
+    logger.error('Reconciliation cycle failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startReconciliationJob(): NodeJS.Timeout {
+  logger.info(`Reconciliation job scheduled every ${RECONCILIATION_INTERVAL_MS}ms`);
+  return setInterval(() => {
+    void runReconciliation();
+  }, RECONCILIATION_INTERVAL_MS);
+}
@@ -0,0 +1,190 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { getPaymentGateway } from '../gateways';
+import { getCardBalances } from '../utils/ledger';
+import { formatRupees, Paise } from '../utils/money';
+import { createScheduledPaymentSkippedNotification } from '../utils/notifications';
+import { paymentStateData } from '../utils/paymentState';
+
+const SCHEDULED_PAYMENTS_INTERVAL_MS = parseInt(process.env.SCHEDULED_PAYMENTS_INTERVAL_MS || '3600000'); // 1 hour
+
+const BATCH_SIZE = 100;
+
+type ScheduledPaymentWithCard = Prisma.ScheduledPaymentGetPayload<{ include: { card: true } }>;
+
+/**
+ * Midnight (server time) at the start of the given day.
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * The first day after `after` on which a monthly schedule for dayOfMonth
+ * runs. Months shorter than dayOfMonth run on their last day.
+ */
+export function nextMonthlyRun(after: Date, dayOfMonth: number): Date {
+  for (let offset = 0; ; offset++) {
+    const year = after.getFullYear();
+    const month = after.getMonth() + offset;
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const run = new Date(year, month, Math.min(dayOfMonth, daysInMonth));
+    if (run > after) {
+      return run;
+    }
+  }
+}
+
+/**
+ * Where a schedule goes after a run: monthly schedules move to their next
+ * run date (runs missed while the job was down are not made up), and
+ * everything else is done.
+ */
+function advanceSchedule(scheduled: ScheduledPaymentWithCard, now: Date): { nextRunAt: Date; status: string } {
+  if (scheduled.frequency !== 'MONTHLY' || scheduled.dayOfMonth === null) {
+    return { nextRunAt: scheduled.nextRunAt, status: 'COMPLETED' };
+  }
+
+  const nextRunAt = nextMonthlyRun(now, scheduled.dayOfMonth);
+  if (scheduled.endDate && nextRunAt > scheduled.endDate) {
+    return { nextRunAt: scheduled.nextRunAt, status: 'COMPLETED' };
+  }
+  return { nextRunAt, status: 'ACTIVE' };
+}
+
+/**
+ * Why a run should not pay, or the amount to pay. A run never pays more
+ * than the card owes.
+ */
+async function planRun(scheduled: ScheduledPaymentWithCard): Promise<{ amountPaise: Paise } | { skipReason: string }> {
+  // The payment worker could never charge it
+  if (!getPaymentGateway().canChargeOffSession) {
+    return { skipReason: 'scheduled payments are not available, please pay through checkout' };
+  }
+
+  if (scheduled.card.status !== 'ACTIVE') {
+    return { skipReason: 'the card is not active' };
+  }
+
+  const unpaidStatement = await prisma.statement.findFirst({
+    where: { cardId: scheduled.cardId, isPaid: false, balancePaise: { gt: 0 } },
+  });
+  if (!unpaidStatement) {
+    return { skipReason: 'the statement is already paid' };
+  }
+
+  const { outstandingPaise } = await getCardBalances(prisma, scheduled.cardId);
+  if (outstandingPaise <= 0) {
+    return { skipReason: 'there is nothing outstanding on the card' };
+  }
+
+  return { amountPaise: Math.min(scheduled.amountPaise, outstandingPaise) };
+}
+
+function isLostRace(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && (error.code === 'P2025' || error.code === 'P2002');
+}
+
+/**
+ * Make one run of a scheduled payment. The payment is queued as PENDING for
+ * the payment worker.
+ */
+async function runScheduledPayment(scheduled: ScheduledPaymentWithCard, now: Date): Promise<void> {
+  const plan = await planRun(scheduled);
+  const runDate = scheduled.nextRunAt;
+
+  const payment = await prisma.$transaction(async (tx) => {
+    const created = 'amountPaise' in plan
+      ? await tx.payment.create({
+        data: {
+          cardId: scheduled.cardId,
+          userId: scheduled.userId,
+          amountPaise: plan.amountPaise,
+          method: scheduled.method,
+          scheduledPaymentId: scheduled.id,
+          ...paymentStateData('PENDING'),
+          idempotencyKey: `scheduled_${scheduled.id}_${runDate.getTime()}`,
+        },
+      })
+      : null;
+
+    // Guarded on the run date so a run is only ever made once
+    await tx.scheduledPayment.update({
+      where: { id: scheduled.id, status: 'ACTIVE', nextRunAt: runDate },
+      data: {
+        ...advanceSchedule(scheduled, now),
+        lastRunAt: now,
+        lastRunStatus: created ? 'PAID' : 'SKIPPED',
+        lastRunNote: 'skipReason' in plan ? plan.skipReason : null,
+        ...(created && { lastPaymentId: created.id }),
+      },
+    });
+
+    return created;
+  });
+
+  if (payment) {
+    logger.info(`Scheduled payment ${scheduled.id} queued payment ${payment.id} of ${formatRupees(payment.amountPaise)}`);
+  } else if ('skipReason' in plan) {
+    await createScheduledPaymentSkippedNotification(scheduled.userId, scheduled.card.last4, scheduled.amountPaise, plan.skipReason);
+    logger.info(`Scheduled payment ${scheduled.id} skipped: ${plan.skipReason}`);
+  }
+}
+
+/**
+ * Run every active scheduled payment whose run date has come.
+ */
+export async function executeDueScheduledPayments(now: Date = new Date()): Promise<number> {
+  const due = await prisma.scheduledPayment.findMany({
+    where: {
+      status: 'ACTIVE',
+      nextRunAt: { lte: now },
+    },
+    include: { card: true },
+    orderBy: { nextRunAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  let executed = 0;
+  for (const scheduled of due) {
+    try {
+      await runScheduledPayment(scheduled, now);
+      executed += 1;
+    } catch (error) {
+      // Already run by another instance of the job
+      if (isLostRace(error)) continue;
+      logger.error(`Scheduled payment ${scheduled.id} errored:`, error);
+    }
+  }
+
+  return executed;
+}
+
+let running = false;
+
+/**
+ * One scheduled payments cycle.
+ */
+export async function runScheduledPayments(now: Date = new Date()): Promise<void> {
+  if (running) {
+    logger.debug('Scheduled payments cycle already in progress, skipping');
+    return;
+  }
+
+  running = true;
+  try {
+    await executeDueScheduledPayments(now);
+  } catch (error) {
+    logger.error('Scheduled payments cycle failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startScheduledPaymentsJob(): NodeJS.Timeout {
+  logger.info(`Scheduled payments job scheduled every ${SCHEDULED_PAYMENTS_INTERVAL_MS}ms`);
+  return setInterval(() => {
+    void runScheduledPayments();
+  }, SCHEDULED_PAYMENTS_INTERVAL_MS);
+}
@@ -0,0 +1,284 @@
+import { Card, Prisma, Statement } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { createStatementGeneratedNotification } from '../utils/notifications';
+import { assessFinanceCharges } from '../utils/financeCharges';
+import { PAYMENT_ALLOCATION_ORDER } from '../config/payments';
+import { ActivityByAccount, applyCreditBalance, getCardBalances, getTransactionActivity } from '../utils/ledger';
+import { formatRupees, Paise, percentOf, sumPaise, toPaise } from '../utils/money';
+import { getReplacedCardIds } from '../utils/cardReplacement';
+
+const STATEMENT_INTERVAL_MS = parseInt(process.env.STATEMENT_INTERVAL_MS || '3600000'); // 1 hour
+const STATEMENT_DUE_DAYS = parseInt(process.env.STATEMENT_DUE_DAYS || '20');
+const MIN_DUE_PERCENT = parseFloat(process.env.STATEMENT_MIN_DUE_PERCENT || '5');
+const MIN_DUE_FLOOR_PAISE = toPaise(parseFloat(process.env.STATEMENT_MIN_DUE_FLOOR || '200')); // configured in rupees
+
+export interface CycleWindow {
+  month: number; // 1-12, month the cycle closes in
+  year: number;
+  periodStart: Date;
+  periodEnd: Date;
+  dueDate: Date;
+}
+
+function closingDay(cycleDay: number, month: number, year: number): number {
+  const daysInMonth = new Date(year, month, 0).getDate();
+  return Math.min(Math.max(cycleDay, 1), daysInMonth);
+}
+
+/**
+ * Billing window for the cycle that closes on `cycleDay` of month/year.
+ * The window starts the day after the previous cycle closed.
+ */
+export function getCycleWindow(cycleDay: number, month: number, year: number): CycleWindow {
+  const prevMonth = month === 1 ? 12 : month - 1;
+  const prevYear = month === 1 ? year - 1 : year;
+
+  const periodStart = new Date(prevYear, prevMonth - 1, closingDay(cycleDay, prevMonth, prevYear) + 1);
+  const periodEnd = new Date(year, month - 1, closingDay(cycleDay, month, year), 23, 59, 59, 999);
+
+  const dueDate = new Date(year, month - 1, closingDay(cycleDay, month, year));
+  dueDate.setDate(dueDate.getDate() + STATEMENT_DUE_DAYS);
+
+  return { month, year, periodStart, periodEnd, dueDate };
+}
+
+/**
+ * Most recent cycle that has fully closed as of `now`.
+ */
+export function getLatestClosedCycle(cycleDay: number, now: Date = new Date()): CycleWindow {
+  const month = now.getMonth() + 1;
+  const year = now.getFullYear();
+  const current = getCycleWindow(cycleDay, month, year);
+  if (current.periodEnd < now) {
+    return current;
+  }
+  return getCycleWindow(cycleDay, month === 1 ? 12 : month - 1, month === 1 ? year - 1 : year);
+}
+
+/**
+ * Minimum due: a percentage of the balance with a floor, never above the balance.
+ */
+export function computeMinDue(balancePaise: Paise): Paise {
+  if (balancePaise <= 0) return 0;
+  const percentDue = percentOf(balancePaise, MIN_DUE_PERCENT);
+  return Math.min(balancePaise, Math.max(percentDue, MIN_DUE_FLOOR_PAISE));
+}
+
+/**
+ * Split what a statement bills into fees, interest and principal. Net credits
+ * (principal below zero) are set against interest, then fees. When less than
+ * the cycle's charges is billable, because a credit balance already covered
+ * some of them, the covered part comes off in PAYMENT_ALLOCATION_ORDER.
+ */
+export function splitStatementBalance(
+  activity: ActivityByAccount,
+  billablePaise: Paise
+): { balancePaise: Paise; feesPaise: Paise; interestPaise: Paise } {
+  const parts = {
+    FEES: Math.max(activity.feesPaise, 0),
+    INTEREST: Math.max(activity.interestPaise, 0),
+    PRINCIPAL: activity.principalPaise,
+  };
+
+  let credit = Math.max(-parts.PRINCIPAL, 0);
+  parts.PRINCIPAL = Math.max(parts.PRINCIPAL, 0);
+  for (const bucket of ['INTEREST', 'FEES'] as const) {
+    const offset = Math.min(credit, parts[bucket]);
+    parts[bucket] -= offset;
+    credit -= offset;
+  }
+
+  let covered = Math.max(parts.FEES + parts.INTEREST + parts.PRINCIPAL - Math.max(billablePaise, 0), 0);
+  for (const bucket of PAYMENT_ALLOCATION_ORDER) {
+    const offset = Math.min(covered, parts[bucket]);
+    parts[bucket] -= offset;
+    covered -= offset;
+  }
+
+  return {
+    balancePaise: parts.FEES + parts.INTEREST + parts.PRINCIPAL,
+    feesPaise: parts.FEES,
+    interestPaise: parts.INTEREST,
+  };
+}
+
+type CardForStatement = Pick<Card, 'id' | 'userId' | 'last4' | 'cardType' | 'billingCycleDay'> & {
+  replacesCardId?: number | null;
+};
+
+/**
+ * Close one billing cycle for a card. Idempotent on (cardId, month, year):
+ * an existing statement is returned untouched. Finance charges for overdue
+ * statements are posted in the same database transaction.
+ */
+export async function generateStatement(
+  card: CardForStatement,
+  month: number,
+  year: number
+): Promise<{ statement: Statement; created: boolean }> {
+  const existing = await prisma.statement.findUnique({
+    where: { cardId_month_year: { cardId: card.id, month, year } },
+  });
+  if (existing) {
+    return { statement: existing, created: false };
+  }
+
+  const window = getCycleWindow(card.billingCycleDay, month, year);
+
+  let statement: Statement;
+  try {
+    statement = await prisma.$transaction(async (tx) => {
+      // Interest and late fees on overdue statements are billed in this cycle
+      await assessFinanceCharges(tx, card, window);
+
+      // A credit balance (e.g. an overpayment) pays down what the card owes
+      const balances = await getCardBalances(tx, card.id);
+      await applyCreditBalance(tx, card.id, balances);
+
+      // Net charges posted to the card's ledger during the cycle, less any
+      // part of them the credit balance already covered. A replacement card
+      // also bills what the card it replaced charged that cycle.
+      const replacedCardIds = await getReplacedCardIds(tx, card.replacesCardId ?? null);
+      const activity = await getTransactionActivity(tx, [card.id, ...replacedCardIds], window.periodStart, window.periodEnd);
+      const unpaid = await tx.statement.findMany({
+        where: { cardId: card.id, isPaid: false },
+        select: { balancePaise: true },
+      });
+      const billablePaise = balances.outstandingPaise - sumPaise(unpaid.map(statement => statement.balancePaise));
+      const { balancePaise, feesPaise, interestPaise } = splitStatementBalance(activity, billablePaise);
+
+      return tx.statement.create({
+        data: {
+          cardId: card.id,
+          month,
+          year,
+          periodStart: window.periodStart,
+          periodEnd: window.periodEnd,
+          dueDate: window.dueDate,
+          balancePaise,
+          feesPaise,
+          interestPaise,
+          minDuePaise: computeMinDue(balancePaise),
+          isPaid: balancePaise === 0,
+        },
+      });
+    });
+  } catch (error) {
+    // Another run created it concurrently
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const concurrent = await prisma.statement.findUniqueOrThrow({
+        where: { cardId_month_year: { cardId: card.id, month, year } },
+      });
+      return { statement: concurrent, created: false };
+    }
+    throw error;
+  }
+
+  await createStatementGeneratedNotification(card.userId, card.last4, statement.dueDate, statement.balancePaise);
+  logger.info(`Statement ${statement.id} generated for card ${card.id} (${month}/${year}): ${formatRupees(statement.balancePaise)}`);
+
+  return { statement, created: true };
+}
+
+/**
+ * Generate the latest closed cycle for every card that doesn't have it yet.
+ */
+export async function generateDueStatements(now: Date = new Date()): Promise<number> {
+  const cards = await prisma.card.findMany({
+    where: { status: { in: ['ACTIVE', 'BLOCKED'] } },
+    select: { id: true, userId: true, last4: true, cardType: true, billingCycleDay: true, replacesCardId: true, createdAt: true },
+  });
+
+  let created = 0;
+  for (const card of cards) {
+    const cycle = getLatestClosedCycle(card.billingCycleDay, now);
+    if (card.createdAt > cycle.periodEnd) continue;
+
+    try {
+      const result = await generateStatement(card, cycle.month, cycle.year);
+      if (result.created) created++;
+    } catch (error) {
+      logger.error(`Statement generation failed for card ${card.id}:`, error);
+    }
+  }
+
+  return created;
+}
+
+export interface BackfillOptions {
+  cardId?: number;
+  from?: { month: number; year: number };
+  to?: { month: number; year: number };
+}
+
+/**
+ * Generate every missing closed cycle in the range (defaults: card creation
+ * up to the latest closed cycle). Existing statements are left alone.
+ */
+export async function backfillStatements(
+  options: BackfillOptions = {},
+  now: Date = new Date()
+): Promise<{ cards: number; created: number; skipped: number }> {
+  const cards = await prisma.card.findMany({
+    where: options.cardId ? { id: options.cardId } : { status: { in: ['ACTIVE', 'BLOCKED'] } },
+    select: { id: true, userId: true, last4: true, cardType: true, billingCycleDay: true, replacesCardId: true, createdAt: true },
+  });
+
+  let created = 0;
+  let skipped = 0;
+
+  for (const card of cards) {
+    const latest = getLatestClosedCycle(card.billingCycleDay, now);
+    const end = options.to && options.to.year * 12 + options.to.month < latest.year * 12 + latest.month
+      ? options.to
+      : latest;
+    const start = options.from ?? { month: card.createdAt.getMonth() + 1, year: card.createdAt.getFullYear() };
+
+    for (let index = start.year * 12 + start.month - 1; index <= end.year * 12 + end.month - 1; index++) {
+      const year = Math.floor(index / 12);
+      const month = (index % 12) + 1;
+
+      const window = getCycleWindow(card.billingCycleDay, month, year);
+      if (card.createdAt > window.periodEnd) continue;
+
+      const result = await generateStatement(card, month, year);
+      if (result.created) {
+        created++;
+      } else {
+        skipped++;
+      }
+    }
+  }
+
+  logger.info(`Statement backfill: ${created} created, ${skipped} already present across ${cards.length} card(s)`);
+  return { cards: cards.length, created, skipped };
+}
+
+let running = false;
+
+export async function runStatementGeneration(now: Date = new Date()): Promise<void> {
+  if (running) {
+    logger.debug('Statement generation already in progress, skipping');
+    return;
+  }
+
+  running = true;
+  try {
+    const created = await generateDueStatements(now);
+    if (created > 0) {
+      logger.info(`Statement job: generated ${created} statement(s)`);
+    }
+  } catch (error) {
+    logger.error('Statement generation cycle failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startStatementJob(): NodeJS.Timeout {
+  logger.info(`Statement job scheduled every ${STATEMENT_INTERVAL_MS}ms`);
+  return setInterval(() => {
+    void runStatementGeneration();
+  }, STATEMENT_INTERVAL_MS);
+}
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { logger } from '../config/logger';
+import { verifyAddOnToken, verifyStepUpToken } from '../utils/jwt';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'secret';
 
@@ -69,6 +70,31 @@ export function authenticate(req: AuthRequest, res: Response, next: NextFunction
   }
 }
 
+export interface AddOnRequest extends Request {
+  addOnCardId?: number;
+}
+
+/**
+ * Sign-in for add-on card holders, with a token from
+ * POST /api/auth/add-on/login. These tokens are not accepted by
+ * authenticate, so add-on holders only reach the routes mounted with this.
+ */
+export function authenticateAddOn(req: AddOnRequest, res: Response, next: NextFunction) {
+  const token = req.headers.authorization?.split(' ')[1];
+  const addOnCardId = token ? verifyAddOnToken(token) : null;
+  if (addOnCardId === null) {
+    return res.status(401).json({ 
+      error: { 
+        code: 'UNAUTHORIZED', 
+        message: 'Invalid or expired add-on card token' 
+      } 
+    });
+  }
+
+  req.addOnCardId = addOnCardId;
+  next();
+}
+
 export function requireAdmin(req: AuthRequest, res: Response, next: NextFunction) {
   if (!req.user?.isAdmin) {
     return res.status(403).json({ 
@@ -81,6 +107,32 @@ export function requireAdmin(req: AuthRequest, res: Response, next: NextFunction
   next();
 }
 
+/**
+ * Require a step-up token (from POST /api/auth/step-up) issued to the
+ * signed-in user, in `X-Step-Up-Token`. Mount after authenticate.
+ */
+export function requireStepUp(req: AuthRequest, res: Response, next: NextFunction) {
+  if (!hasStepUp(req)) {
+    return res.status(401).json({ 
+      error: { 
+        code: 'STEP_UP_REQUIRED', 
+        message: 'Confirm your password to continue' 
+      } 
+    });
+  }
+  next();
+}
+
+/**
+ * True when the request carries a valid step-up token for the signed-in
+ * user, for routes that also accept other confirmation.
+ */
+export function hasStepUp(req: AuthRequest): boolean {
+  const token = req.header('X-Step-Up-Token');
+  const userId = token ? verifyStepUpToken(token) : null;
+  return userId !== null && userId === req.userId;
+}
+
 export function optionalAuth(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
   if (!authHeader) {
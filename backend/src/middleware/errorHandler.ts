@@ -78,6 +78,16 @@ export class UnauthorizedError extends Error {
   }
 }
 
+export class StepUpRequiredError extends Error {
+  statusCode = 401;
+  code = 'STEP_UP_REQUIRED';
+  
+  constructor(message: string) {
+    super(message);
+    this.name = 'StepUpRequiredError';
+  }
+}
+
 export class ForbiddenError extends Error {
   statusCode = 403;
   code = 'FORBIDDEN';
@@ -96,4 +106,54 @@ export class ConflictError extends Error {
     super(message);
     this.name = 'ConflictError';
   }
-}
\ No newline at end of file
+}
+
+export class InvalidPaymentTransitionError extends Error {
+  statusCode = 409;
+  code = 'INVALID_PAYMENT_TRANSITION';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPaymentTransitionError';
+  }
+}
+
+export class IdempotencyKeyReusedError extends Error {
+  statusCode = 422;
+  code = 'IDEMPOTENCY_KEY_REUSED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdempotencyKeyReusedError';
+  }
+}
+
+export class GatewayError extends Error {
+  statusCode = 502;
+  code = 'GATEWAY_ERROR';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+}
+
+export class GatewayTimeoutError extends Error {
+  statusCode = 504;
+  code = 'GATEWAY_TIMEOUT';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'GatewayTimeoutError';
+  }
+}
+
+export class CheckoutRequiredError extends Error {
+  statusCode = 422;
+  code = 'CHECKOUT_REQUIRED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'CheckoutRequiredError';
+  }
+}
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { AuthRequest } from './auth';
+import { ConflictError, IdempotencyKeyReusedError, ValidationError } from './errorHandler';
+
+const IDEMPOTENCY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24');
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * JSON with object keys sorted, so equal bodies hash the same.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function hashRequest(req: AuthRequest): string {
+  const file = req.file ? { name: req.file.originalname, size: req.file.size, type: req.file.mimetype } : null;
+  return crypto
+    .createHash('sha256')
+    .update(canonicalJson({ method: req.method, path: req.baseUrl + req.path, body: req.body ?? {}, file }))
+    .digest('hex');
+}
+
+/**
+ * Honour an `Idempotency-Key` header on a mutating endpoint. The first request
+ * with a key runs normally and its response is stored; retries with the same
+ * key and body get that response back (with `Idempotent-Replayed: true`), and
+ * the same key with a different body is rejected with 422. Server errors are
+ * not stored, so they can be retried. Requests without the header are not
+ * affected.
+ *
+ * Mount after `authenticate` (keys are per user) and after any multipart
+ * parser, so the body is available to hash.
+ */
+export function idempotent() {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const key = req.header('Idempotency-Key')?.trim();
+    if (!key) {
+      return next();
+    }
+
+    try {
+      if (key.length > MAX_KEY_LENGTH) {
+        throw new ValidationError(`Idempotency-Key cannot be longer than ${MAX_KEY_LENGTH} characters`);
+      }
+
+      const userId = req.userId!;
+      const requestHash = hashRequest(req);
+      const where = { userId_key: { userId, key } };
+
+      let existing = await prisma.idempotencyKey.findUnique({ where });
+      if (existing && existing.expiresAt < new Date()) {
+        await prisma.idempotencyKey.delete({ where });
+        existing = null;
+      }
+
+      if (existing) {
+        if (existing.requestHash !== requestHash) {
+          throw new IdempotencyKeyReusedError('Idempotency-Key was already used with a different request');
+        }
+        if (existing.status !== 'COMPLETED') {
+          throw new ConflictError('A request with this Idempotency-Key is still being processed');
+        }
+
+        logger.info(`Replaying response for Idempotency-Key ${key} (user ${userId})`);
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(existing.responseStatus ?? 200).json(existing.responseBody);
+      }
+
+      try {
+        await prisma.idempotencyKey.create({
+          data: {
+            key,
+            userId,
+            method: req.method,
+            path: req.baseUrl + req.path,
+            requestHash,
+            expiresAt: new Date(Date.now() + IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000),
+          },
+        });
+      } catch (error) {
+        // The same key arrived twice at once; the other request owns it
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          throw new ConflictError('A request with this Idempotency-Key is still being processed');
+        }
+        throw error;
+      }
+
+      let responseBody: unknown = null;
+      const json = res.json.bind(res);
+      res.json = (body: unknown) => {
+        responseBody = body === undefined ? null : JSON.parse(JSON.stringify(body)); // Snapshot as sent
+        return json(body);
+      };
+
+      // Keep what was sent; a server error or dropped connection frees the key
+      const record = async () => {
+        if (res.writableFinished && res.statusCode < 500) {
+          await prisma.idempotencyKey.update({
+            where,
+            data: {
+              status: 'COMPLETED',
+              responseStatus: res.statusCode,
+              responseBody: responseBody === null ? Prisma.JsonNull : (responseBody as Prisma.InputJsonValue),
+            },
+          });
+        } else {
+          await prisma.idempotencyKey.delete({ where });
+        }
+      };
+      res.on('close', () => {
+        record().catch(error => logger.error(`Failed to record Idempotency-Key ${key}:`, error));
+      });
+
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
@@ -0,0 +1,32 @@
+import { Response, NextFunction } from 'express';
+import { hmacSha256, signaturesMatch } from '../gateways/razorpayGateway';
+import { RawBodyRequest } from './rawBody';
+import { UnauthorizedError } from './errorHandler';
+
+const CARD_NETWORK_SECRET = process.env.CARD_NETWORK_SECRET || '';
+
+/**
+ * Signature the card network sends in `X-Network-Signature`: hex
+ * HMAC-SHA256 of the method, path and raw body.
+ */
+export function signNetworkRequest(method: string, path: string, rawBody: string, secret: string = CARD_NETWORK_SECRET): string {
+  return hmacSha256(secret, `${method.toUpperCase()} ${path}\n${rawBody}`);
+}
+
+/**
+ * Only let signed card network requests through. Mount on routes whose path
+ * is in RAW_BODY_PATHS so the signature covers the exact bytes sent.
+ */
+export function authenticateNetwork(req: RawBodyRequest, res: Response, next: NextFunction) {
+  if (!CARD_NETWORK_SECRET) {
+    return next(new UnauthorizedError('Card network access is not configured'));
+  }
+
+  const signature = req.header('X-Network-Signature');
+  const expected = signNetworkRequest(req.method, req.originalUrl, req.rawBody ?? '');
+  if (!signature || !signaturesMatch(expected, signature)) {
+    return next(new UnauthorizedError('Invalid network signature'));
+  }
+
+  next();
+}
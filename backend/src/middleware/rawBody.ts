@@ -0,0 +1,18 @@
+import { Request } from 'express';
+import { IncomingMessage, ServerResponse } from 'http';
+
+export interface RawBodyRequest extends Request {
+  rawBody?: string;
+}
+
+// Routes that verify a signature over the exact bytes they were sent
+const RAW_BODY_PATHS = ['/api/payments/razorpay/webhook', '/api/authorizations'];
+
+/**
+ * `verify` hook for express.json that keeps the raw body for signed requests.
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer) {
+  if (RAW_BODY_PATHS.some(path => req.url?.startsWith(path))) {
+    (req as RawBodyRequest).rawBody = buf.toString('utf8');
+  }
+}
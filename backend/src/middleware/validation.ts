@@ -71,7 +71,8 @@ export function validateQuery(schema: ZodTypeAny) {
         });
       }
 
-      req.query = result.data as any;
+      // Express 5 exposes req.query as a getter, so plain assignment is ignored
+      Object.defineProperty(req, 'query', { value: result.data, writable: true, configurable: true, enumerable: true });
       return next();
     } catch (error) {
       logger.error('Query validation error:', error);
@@ -0,0 +1,267 @@
+import { Router } from 'express';
+import { AddOnCard } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import { z } from 'zod';
+import prisma from '../config/database';
+import { authenticateAddOn, AddOnRequest } from '../middleware/auth';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { logger } from '../config/logger';
+import { UnauthorizedError } from '../middleware/errorHandler';
+import { formatAddOnCard, getAddOnMonthSpendById } from '../utils/addOnCards';
+import { storeAddOnPin } from '../utils/cardPin';
+import { toRupees } from '../utils/money';
+
+const router = Router();
+
+// Validation schemas
+const paginationSchema = z.object({
+  page: z.string().optional().transform(val => val ? parseInt(val) : 1),
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
+});
+
+const setPinSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  pin: z.string().regex(/^\d{4}$/, 'PIN must be 4 digits'),
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: z.string().min(8, 'New password must be at least 8 characters').max(100),
+});
+
+/**
+ * @swagger
+ * /api/add-on/card:
+ *   get:
+ *     summary: Get the signed-in add-on card
+ *     description: >
+ *       For the add-on card's holder. Shows the card, its controls and what
+ *       is left of its monthly sub-limit; nothing about the primary card's
+ *       balance or other cards.
+ *     tags: [Add-on Card Holder]
+ *     security:
+ *       - addOnAuth: []
+ *     responses:
+ *       200:
+ *         description: Add-on card retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/card', authenticateAddOn, async (req: AddOnRequest, res, next) => {
+  try {
+    const { card, ...addOnCard } = await findSignedInAddOnCard(req.addOnCardId!);
+    const spend = await getAddOnMonthSpendById(prisma, [addOnCard.id]);
+
+    res.json({
+      success: true,
+      data: {
+        ...formatAddOnCard(addOnCard, spend.get(addOnCard.id) ?? 0),
+        primaryCard: { last4: card.last4, cardType: card.cardType },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/add-on/transactions:
+ *   get:
+ *     summary: Get the transactions made with the signed-in add-on card
+ *     tags: [Add-on Card Holder]
+ *     security:
+ *       - addOnAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Transactions retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/transactions', authenticateAddOn, validateQuery(paginationSchema), async (req: AddOnRequest, res, next) => {
+  try {
+    const { page, limit } = req.query as any;
+    const skip = (page - 1) * limit;
+    const addOnCard = await findSignedInAddOnCard(req.addOnCardId!);
+
+    const [transactions, total] = await Promise.all([
+      prisma.transaction.findMany({
+        where: { addOnCardId: addOnCard.id },
+        orderBy: { date: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.transaction.count({ where: { addOnCardId: addOnCard.id } }),
+    ]);
+
+    res.json({
+      success: true,
+      data: transactions.map(transaction => ({
+        id: transaction.id,
+        date: transaction.date,
+        description: transaction.description || transaction.merchant,
+        merchant: transaction.merchant,
+        category: transaction.category,
+        type: transaction.type,
+        amount: toRupees(transaction.amountPaise),
+        status: transaction.status.toLowerCase(),
+      })),
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/add-on/pin:
+ *   put:
+ *     summary: Set the add-on card's PIN
+ *     description: >
+ *       Sets the PIN the add-on card needs at ATMs and shop terminals, or
+ *       replaces it, which also unlocks it after too many wrong PINs.
+ *       Confirmed with the add-on holder's password.
+ *     tags: [Add-on Card Holder]
+ *     security:
+ *       - addOnAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - pin
+ *             properties:
+ *               password:
+ *                 type: string
+ *               pin:
+ *                 type: string
+ *                 pattern: '^\d{4}$'
+ *     responses:
+ *       200:
+ *         description: PIN set successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.put('/pin', authenticateAddOn, validateBody(setPinSchema), async (req: AddOnRequest, res, next) => {
+  try {
+    const { password, pin } = req.body;
+    const addOnCard = await findSignedInAddOnCard(req.addOnCardId!);
+
+    if (!(await bcrypt.compare(password, addOnCard.passwordHash))) {
+      throw new UnauthorizedError('Incorrect password');
+    }
+
+    const updated = await storeAddOnPin(addOnCard.id, pin);
+
+    logger.info(`PIN ${addOnCard.pinHash ? 'changed' : 'set'} for add-on card ${addOnCard.id}`);
+
+    res.json({
+      success: true,
+      data: {
+        pinSet: true,
+        pinSetAt: updated.pinSetAt,
+      },
+      message: 'PIN set successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/add-on/password:
+ *   put:
+ *     summary: Change the add-on holder's password
+ *     tags: [Add-on Card Holder]
+ *     security:
+ *       - addOnAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 minLength: 8
+ *     responses:
+ *       200:
+ *         description: Password changed successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.put('/password', authenticateAddOn, validateBody(changePasswordSchema), async (req: AddOnRequest, res, next) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+    const addOnCard = await findSignedInAddOnCard(req.addOnCardId!);
+
+    if (!(await bcrypt.compare(currentPassword, addOnCard.passwordHash))) {
+      throw new UnauthorizedError('Current password is incorrect');
+    }
+
+    const saltRounds = parseInt(process.env.BCRYPT_SALT_ROUNDS || '10');
+    await prisma.addOnCard.update({
+      where: { id: addOnCard.id },
+      data: { passwordHash: await bcrypt.hash(newPassword, saltRounds) },
+    });
+
+    logger.info(`Password changed for add-on card ${addOnCard.id}`);
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Helper functions
+/**
+ * The add-on card a token was issued for. Its holder is signed out once it,
+ * or the card it belongs to, is closed.
+ */
+async function findSignedInAddOnCard(
+  addOnCardId: number
+): Promise<AddOnCard & { card: { last4: string; cardType: string; status: string } }> {
+  const addOnCard = await prisma.addOnCard.findUnique({
+    where: { id: addOnCardId },
+    include: { card: { select: { last4: true, cardType: true, status: true } } },
+  });
+
+  if (!addOnCard || addOnCard.status === 'CLOSED' || addOnCard.card.status === 'CLOSED') {
+    throw new UnauthorizedError('Add-on card is closed');
+  }
+  return addOnCard;
+}
+
+export default router;
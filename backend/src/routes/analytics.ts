@@ -2,6 +2,7 @@ import { Router } from 'express';
 import prisma from '../prisma';
 import { authenticate } from '../middleware/auth';
 import { logger } from '../config/logger';
+import { toRupees } from '../utils/money';
 
 const router = Router();
 
@@ -127,10 +128,10 @@ router.get('/summary', authenticate, async (req: any, res) => {
     const since = sixMonthsAgo(new Date());
     const tx = await prisma.transaction.findMany({
       where: { userId, date: { gte: since } },
-      select: { amount: true, category: true, date: true },
+      select: { amountPaise: true, category: true, date: true },
       orderBy: { date: 'asc' },
     });
-    const summary = computeSummary(tx as any);
+    const summary = computeSummary(tx.map(({ amountPaise, ...t }) => ({ ...t, amount: toRupees(amountPaise) })));
     res.json({ success: true, data: summary });
   } catch (err) {
     logger.error('Analytics summary error', err as any);
@@ -4,13 +4,18 @@ import { z } from 'zod';
 import prisma from '../config/database';
 import { logger } from '../config/logger';
 import { validateBody } from '../middleware/validation';
-import { authLimiter } from '../middleware/rateLimiter';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { authLimiter, strictLimiter } from '../middleware/rateLimiter';
 import { 
   generateAccessToken, 
   createRefreshToken, 
   validateRefreshToken, 
   revokeRefreshToken,
   revokeAllUserRefreshTokens,
+  generateStepUpToken,
+  stepUpExpiresInSeconds,
+  generateAddOnToken,
+  addOnTokenExpiresInSeconds,
   TokenPayload 
 } from '../utils/jwt';
 import { ConflictError, UnauthorizedError, ValidationError } from '../middleware/errorHandler';
@@ -33,6 +38,15 @@ const refreshSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required'),
 });
 
+const addOnLoginSchema = z.object({
+  email: z.string().email('Invalid email format').toLowerCase(),
+  password: z.string().min(1, 'Password is required'),
+});
+
+const stepUpSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+});
+
 /**
  * @swagger
  * /api/auth/register:
@@ -415,6 +429,166 @@ router.post('/logout', async (req, res, next) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/auth/step-up:
+ *   post:
+ *     summary: Confirm the password again before a sensitive action
+ *     description: >
+ *       Returns a short-lived step-up token. Endpoints that need one, such as
+ *       revealing card details, take it in the `X-Step-Up-Token` header.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Step-up token issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     stepUpToken:
+ *                       type: string
+ *                     expiresIn:
+ *                       type: integer
+ *                       description: Seconds the token is valid for
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/step-up', strictLimiter, authenticate, validateBody(stepUpSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { password } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        passwordHash: true,
+        password: true, // Legacy support
+      },
+    });
+
+    // Legacy plaintext passwords are upgraded at login, not accepted here
+    const hash = user?.passwordHash ?? user?.password;
+    const isValidPassword = hash ? await bcrypt.compare(password, hash) : false;
+    if (!isValidPassword) {
+      logger.warn(`Failed step-up for user ${userId}`);
+      throw new UnauthorizedError('Incorrect password');
+    }
+
+    logger.info(`Step-up issued for user ${userId}`);
+
+    res.json({
+      success: true,
+      data: {
+        stepUpToken: generateStepUpToken(userId),
+        expiresIn: stepUpExpiresInSeconds(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/add-on/login:
+ *   post:
+ *     summary: Sign in as the holder of an add-on card
+ *     description: >
+ *       Uses the email and password the primary cardholder set up for the
+ *       add-on card. The token returned only works for the /api/add-on
+ *       routes; there is no refresh token, so sign in again once it expires.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     accessToken:
+ *                       type: string
+ *                     expiresIn:
+ *                       type: integer
+ *                       description: Seconds the token is valid for
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/add-on/login', authLimiter, validateBody(addOnLoginSchema), async (req, res, next) => {
+  try {
+    const { email, password } = req.body;
+
+    const addOnCard = await prisma.addOnCard.findUnique({
+      where: { email },
+      include: { card: { select: { status: true } } },
+    });
+
+    // Closed add-on cards, or add-ons of a closed card, can't sign in
+    const isOpen = addOnCard !== null && addOnCard.status !== 'CLOSED' && addOnCard.card.status !== 'CLOSED';
+    const isValidPassword = isOpen ? await bcrypt.compare(password, addOnCard.passwordHash) : false;
+    if (!addOnCard || !isValidPassword) {
+      throw new UnauthorizedError('Invalid email or password');
+    }
+
+    logger.info(`Add-on card holder signed in: add-on card ${addOnCard.id}`);
+
+    res.json({
+      success: true,
+      data: {
+        accessToken: generateAddOnToken(addOnCard.id),
+        expiresIn: addOnTokenExpiresInSeconds(),
+        addOnCard: {
+          id: addOnCard.id,
+          holderName: addOnCard.holderName,
+          last4: addOnCard.last4,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * @swagger
  * /api/auth/logout-all:
@@ -0,0 +1,284 @@
+import { Router } from 'express';
+import { CardAuthorization } from '@prisma/client';
+import { z } from 'zod';
+import prisma from '../config/database';
+import { authenticateNetwork } from '../middleware/networkAuth';
+import { validateBody, validateParams } from '../middleware/validation';
+import { NotFoundError } from '../middleware/errorHandler';
+import {
+  AUTHORIZATION_CHANNELS,
+  authorizeTransaction,
+  captureAuthorization,
+  reverseAuthorization,
+} from '../utils/authorizations';
+import { HOME_COUNTRY } from '../utils/cardControls';
+import { hasAtMostTwoDecimals, toPaise, toRupees } from '../utils/money';
+
+const router = Router();
+
+// Every route here is called by the card network, not by cardholders
+router.use(authenticateNetwork);
+
+// Validation schemas
+const amountSchema = z.number().positive().max(1000000, 'Amount cannot exceed ₹10,00,000')
+  .refine(hasAtMostTwoDecimals, 'Amount cannot have more than 2 decimal places');
+
+const authorizeSchema = z.object({
+  reference: z.string().trim().min(1).max(64),
+  cardNumber: z.string().regex(/^\d{12,19}$/, 'Card number must be 12-19 digits'),
+  cvv: z.string().regex(/^\d{3}$/, 'CVV must be 3 digits').optional(),
+  pin: z.string().regex(/^\d{4}$/, 'PIN must be 4 digits').optional(),
+  amount: amountSchema,
+  merchant: z.string().trim().min(1).max(100),
+  category: z.string().trim().min(1).max(50).optional(),
+  channel: z.enum(AUTHORIZATION_CHANNELS).default('POS'),
+  country: z.string().regex(/^[A-Z]{2}$/, 'Country must be an ISO 3166-1 alpha-2 code').default(HOME_COUNTRY),
+});
+
+const captureSchema = z.object({
+  amount: amountSchema.optional(), // Defaults to the full amount held
+});
+
+const idParamSchema = z.object({
+  id: z.string().transform(val => parseInt(val)),
+});
+
+/**
+ * Utility: authorization -> API shape
+ */
+function formatAuthorization(authorization: CardAuthorization) {
+  return {
+    id: authorization.id,
+    reference: authorization.networkReference,
+    cardId: authorization.cardId,
+    virtualCardId: authorization.virtualCardId,
+    transactionId: authorization.transactionId,
+    amount: toRupees(authorization.amountPaise),
+    capturedAmount: toRupees(authorization.capturedPaise),
+    merchant: authorization.merchant,
+    category: authorization.category,
+    channel: authorization.channel.toLowerCase(),
+    country: authorization.country,
+    status: authorization.status.toLowerCase(),
+    declineReason: authorization.declineReason?.toLowerCase() ?? null,
+    expiresAt: authorization.expiresAt,
+    capturedAt: authorization.capturedAt,
+    reversedAt: authorization.reversedAt,
+    expiredAt: authorization.expiredAt,
+    createdAt: authorization.createdAt,
+  };
+}
+
+/**
+ * @swagger
+ * /api/authorizations:
+ *   post:
+ *     summary: Authorize a card transaction (card network)
+ *     description: >
+ *       Approves the amount and holds it against the card's available credit,
+ *       or declines it (card not active or expired, wrong CVV, PIN missing,
+ *       wrong or locked at a POS terminal or ATM, not allowed by the virtual
+ *       card charged, blocked by the cardholder's card controls, or not
+ *       enough credit). Declines are recorded and returned
+ *       with status "declined", not as errors. Retrying with the same
+ *       reference returns the original authorization.
+ *     tags: [Authorizations]
+ *     security:
+ *       - networkSignature: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reference, cardNumber, amount, merchant]
+ *             properties:
+ *               reference:
+ *                 type: string
+ *               cardNumber:
+ *                 type: string
+ *                 description: Number of a card or of one of its virtual cards
+ *               cvv:
+ *                 type: string
+ *                 description: Checked against the stored hash when sent
+ *               pin:
+ *                 type: string
+ *                 description: Required for POS and ATM charges to a card; wrong ones count towards locking the PIN
+ *               amount:
+ *                 type: number
+ *               merchant:
+ *                 type: string
+ *               category:
+ *                 type: string
+ *               channel:
+ *                 type: string
+ *                 enum: [POS, ONLINE, ATM, CONTACTLESS]
+ *               country:
+ *                 type: string
+ *                 description: Merchant country (ISO 3166-1 alpha-2); anything but IN is international
+ *     responses:
+ *       201:
+ *         description: Authorization approved or declined
+ *       200:
+ *         description: Authorization with this reference already recorded
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/', validateBody(authorizeSchema), async (req, res, next) => {
+  try {
+    const { reference, cardNumber, cvv, pin, amount, merchant, category, channel, country } = req.body;
+
+    const { authorization, duplicate } = await authorizeTransaction({
+      networkReference: reference,
+      cardNumber,
+      cvv,
+      pin,
+      amountPaise: toPaise(amount),
+      merchant,
+      category,
+      channel,
+      country,
+    });
+
+    const approved = authorization.status !== 'DECLINED';
+    res.status(duplicate ? 200 : 201).json({
+      success: true,
+      data: formatAuthorization(authorization),
+      message: duplicate
+        ? 'Authorization already recorded'
+        : approved ? 'Authorization approved' : 'Authorization declined',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/authorizations/{id}:
+ *   get:
+ *     summary: Get an authorization (card network)
+ *     tags: [Authorizations]
+ *     security:
+ *       - networkSignature: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Authorization retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id', validateParams(idParamSchema), async (req, res, next) => {
+  try {
+    const { id } = req.params as any;
+
+    const authorization = await prisma.cardAuthorization.findUnique({ where: { id } });
+    if (!authorization) {
+      throw new NotFoundError('Authorization not found');
+    }
+
+    res.json({
+      success: true,
+      data: formatAuthorization(authorization),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/authorizations/{id}/capture:
+ *   post:
+ *     summary: Capture (settle) a pending authorization (card network)
+ *     description: >
+ *       Settles the transaction for `amount` (at most the amount held; defaults
+ *       to all of it) and releases the rest of the hold.
+ *     tags: [Authorizations]
+ *     security:
+ *       - networkSignature: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Authorization captured
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Authorization is no longer pending
+ */
+router.post('/:id/capture', validateParams(idParamSchema), validateBody(captureSchema), async (req, res, next) => {
+  try {
+    const { id } = req.params as any;
+    const { amount } = req.body;
+
+    const authorization = await captureAuthorization(id, amount !== undefined ? toPaise(amount) : undefined);
+
+    res.json({
+      success: true,
+      data: formatAuthorization(authorization),
+      message: 'Authorization captured',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/authorizations/{id}/reverse:
+ *   post:
+ *     summary: Reverse a pending authorization and release its hold (card network)
+ *     tags: [Authorizations]
+ *     security:
+ *       - networkSignature: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Authorization reversed
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Authorization is no longer pending
+ */
+router.post('/:id/reverse', validateParams(idParamSchema), async (req, res, next) => {
+  try {
+    const { id } = req.params as any;
+
+    const authorization = await reverseAuthorization(id);
+
+    res.json({
+      success: true,
+      data: formatAuthorization(authorization),
+      message: 'Authorization reversed',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,16 +1,38 @@
 import { Router } from 'express';
+import { AddOnCard, Card, Prisma, VirtualCard } from '@prisma/client';
+import bcrypt from 'bcryptjs';
 import multer from 'multer';
 import path from 'path';
 import { z } from 'zod';
 import prisma from '../config/database';
-import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth';
+import { authenticate, hasStepUp, requireAdmin, requireStepUp, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { strictLimiter } from '../middleware/rateLimiter';
 import { validateBody, validateParams, validateQuery } from '../middleware/validation';
 import { logger } from '../config/logger';
-import { NotFoundError, ValidationError, ForbiddenError } from '../middleware/errorHandler';
+import { CheckoutRequiredError, ConflictError, NotFoundError, StepUpRequiredError, ValidationError, ForbiddenError } from '../middleware/errorHandler';
+import { getPaymentGateway } from '../gateways';
+import { formatRupees, hasAtMostTwoDecimals, Paise, toPaise, toRupees } from '../utils/money';
+import { getBalancesByCard, getCardBalances } from '../utils/ledger';
+import { getPendingHolds, getPendingHoldsByCard } from '../utils/authorizations';
+import { CardControls, getCardControls, getSpendUsage, validateSpendCaps } from '../utils/cardControls';
+import { getVirtualCardSpendById, isExpired } from '../utils/virtualCards';
+import { ADD_ON_RELATIONSHIPS, formatAddOnCard, getAddOnMonthSpendById, MAX_ADD_ON_CARDS } from '../utils/addOnCards';
+import { cardExpiry, issueCardCredentials } from '../utils/cardIssuing';
+import { decryptPan, EncryptedPan, verifyCardSecret } from '../utils/cardVault';
+import { storeCardPin, verifyCardPin } from '../utils/cardPin';
+import { issueOtp, verifyOtp } from '../utils/otp';
+import { replaceCard, REPORT_REASONS } from '../utils/cardReplacement';
+import { ClosureQuote, closeCard, describeClosureBlocker, getClosureQuote } from '../utils/cardClosure';
+import { renderNoDuesLetter, sendPdf } from '../utils/documents';
+import { formatLimitRequest, MAX_CREDIT_LIMIT_PAISE } from '../utils/creditLimits';
+import { generateStatement, getLatestClosedCycle } from '../jobs/statements';
 import { 
   createApplicationApprovedNotification, 
   createApplicationRejectedNotification,
   createCardBlockedNotification,
+  createCardClosedNotification,
+  createCardReplacedNotification,
   createCardUnblockedNotification 
 } from '../utils/notifications';
 import { logActivity, createActivityData } from '../utils/activityLogger';
@@ -62,10 +84,101 @@ const updateCardStatusSchema = z.object({
   status: z.enum(['ACTIVE', 'BLOCKED']),
 });
 
+const otpSchema = z.string().regex(/^\d{6}$/, 'Verification code must be 6 digits');
+
+const pinSchema = z.string().regex(/^\d{4}$/, 'PIN must be 4 digits');
+
+const activateCardSchema = z.object({
+  last4: z.string().regex(/^\d{4}$/, 'Last 4 digits must be 4 digits'),
+  cvv: z.string().regex(/^\d{3}$/, 'CVV must be 3 digits'),
+  otp: otpSchema,
+});
+
+// PIN changes send `otp` unless the request carries a step-up token
+const setPinSchema = z.object({
+  pin: pinSchema,
+  otp: otpSchema.optional(),
+});
+
+const changePinSchema = z.object({
+  currentPin: pinSchema,
+  newPin: pinSchema,
+  otp: otpSchema.optional(),
+});
+
+const resetPinSchema = z.object({
+  newPin: pinSchema,
+  otp: otpSchema.optional(),
+});
+
+const reportCardSchema = z.object({
+  reason: z.enum(REPORT_REASONS),
+});
+
 const updateAutopaySchema = z.object({
   enabled: z.boolean(),
+  mode: z.enum(['MINIMUM_DUE', 'FULL_BALANCE']).optional(),
+});
+
+const updateBillingCycleSchema = z.object({
+  cycleDay: z.number().int().min(1).max(28),
+});
+
+const limitRequestSchema = z.object({
+  requestedLimit: z.number().int().positive().max(toRupees(MAX_CREDIT_LIMIT_PAISE), 'Limit cannot exceed ₹10,00,000'),
+  annualIncome: z.number().int().min(50000).max(10000000),
 });
 
+const spendCapSchema = z.number().positive().max(1000000, 'Limit cannot exceed ₹10,00,000')
+  .refine(hasAtMostTwoDecimals, 'Limit cannot have more than 2 decimal places')
+  .nullable(); // null removes the cap
+
+const updateControlsSchema = z.object({
+  online: z.boolean().optional(),
+  international: z.boolean().optional(),
+  contactless: z.boolean().optional(),
+  atm: z.boolean().optional(),
+  perTransactionLimit: spendCapSchema.optional(),
+  dailyLimit: spendCapSchema.optional(),
+  monthlyLimit: spendCapSchema.optional(),
+  blockedCategories: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+}).refine(controls => Object.keys(controls).length > 0, { message: 'Provide at least one control to change' });
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const createVirtualCardSchema = z.object({
+  label: z.string().trim().min(1).max(50).optional(),
+  spendCap: z.number().positive().max(1000000, 'Spend cap cannot exceed ₹10,00,000')
+    .refine(hasAtMostTwoDecimals, 'Spend cap cannot have more than 2 decimal places')
+    .optional(),
+  expiryDate: dateSchema.optional(), // Last day it can be used
+  singleUse: z.boolean().default(false),
+  merchant: z.string().trim().min(1).max(100).optional(), // Lock to this merchant
+});
+
+const updateVirtualCardSchema = z.object({
+  status: z.enum(['ACTIVE', 'PAUSED']),
+});
+
+const createAddOnCardSchema = z.object({
+  holderName: z.string().trim().min(2).max(100),
+  relationship: z.enum(ADD_ON_RELATIONSHIPS),
+  email: z.string().email('Invalid email format').toLowerCase(),
+  password: z.string().min(8, 'Password must be at least 8 characters').max(100),
+  monthlyLimit: spendCapSchema.unwrap(),
+});
+
+const updateAddOnCardSchema = z.object({
+  status: z.enum(['ACTIVE', 'BLOCKED']).optional(),
+  monthlyLimit: spendCapSchema.unwrap().optional(),
+  online: z.boolean().optional(),
+  international: z.boolean().optional(),
+  contactless: z.boolean().optional(),
+  atm: z.boolean().optional(),
+  perTransactionLimit: spendCapSchema.optional(),
+  blockedCategories: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+}).refine(changes => Object.keys(changes).length > 0, { message: 'Provide at least one change' });
+
 const paginationSchema = z.object({
   page: z.string().optional().transform(val => val ? parseInt(val) : 1),
   limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
@@ -75,6 +188,16 @@ const idParamSchema = z.object({
   id: z.string().transform(val => parseInt(val)),
 });
 
+const virtualCardParamSchema = z.object({
+  id: z.string().transform(val => parseInt(val)),
+  virtualId: z.string().transform(val => parseInt(val)),
+});
+
+const addOnCardParamSchema = z.object({
+  id: z.string().transform(val => parseInt(val)),
+  addOnId: z.string().transform(val => parseInt(val)),
+});
+
 /**
  * @swagger
  * /api/cards/apply:
@@ -83,6 +206,8 @@ const idParamSchema = z.object({
  *     tags: [Cards]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -119,8 +244,10 @@ const idParamSchema = z.object({
  *         description: Application submitted successfully
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
  */
-router.post('/apply', authenticate, upload.single('document'), async (req: AuthRequest, res, next) => {
+router.post('/apply', authenticate, upload.single('document'), idempotent(), async (req: AuthRequest, res, next) => {
   try {
     const userId = req.userId!;
     
@@ -352,17 +479,15 @@ router.patch('/apply/:id/status', authenticate, requireAdmin, validateParams(idP
 
     // If approved, create a card
     if (status === 'APPROVED') {
-      const cardNumber = generateCardNumber();
-      const last4 = cardNumber.slice(-4);
-      
+      const { credentials } = issueCardCredentials(application.product);
+
       const card = await prisma.card.create({
         data: {
           userId: application.userId,
-          number: cardNumber,
-          last4,
+          ...credentials,
           cardType: application.product.toUpperCase(),
-          status: 'ACTIVE',
-          creditLimit: getCreditLimitByProduct(application.product),
+          status: 'INACTIVE', // Activated by the cardholder once it arrives
+          creditLimitPaise: getCreditLimitByProduct(application.product),
         },
       });
 
@@ -422,6 +547,8 @@ router.get('/', authenticate, async (req: AuthRequest, res, next) => {
       where: { userId },
       include: {
         rewards: true,
+        replacedBy: { select: { id: true } },
+        closure: { select: { id: true } },
         _count: {
           select: {
             transactions: true,
@@ -432,6 +559,9 @@ router.get('/', authenticate, async (req: AuthRequest, res, next) => {
       orderBy: { createdAt: 'desc' },
     });
 
+    const balances = await getBalancesByCard(prisma, cards.map(card => card.id));
+    const holds = await getPendingHoldsByCard(prisma, cards.map(card => card.id));
+
     res.json({
       success: true,
       data: cards.map(card => ({
@@ -440,8 +570,24 @@ router.get('/', authenticate, async (req: AuthRequest, res, next) => {
         last4: card.last4,
         cardType: card.cardType,
         status: card.status,
-        creditLimit: card.creditLimit,
+        creditLimit: toRupees(card.creditLimitPaise),
+        outstandingBalance: toRupees(balances.get(card.id)?.outstandingPaise),
+        pendingHolds: toRupees(holds.get(card.id)),
+        // Closed cards stay listed, read-only, with nothing left to spend
+        availableCredit: card.status === 'CLOSED' ? 0 : toRupees(
+          card.creditLimitPaise - (balances.get(card.id)?.outstandingPaise ?? 0) - (holds.get(card.id) ?? 0)
+        ),
         autopayEnabled: card.autopayEnabled,
+        autopayMode: card.autopayMode,
+        billingCycleDay: card.billingCycleDay,
+        activatedAt: card.activatedAt,
+        pinSet: card.pinHash !== null,
+        pinLocked: card.pinLockedAt !== null,
+        closedAt: card.closedAt,
+        closureReason: card.closureReason,
+        replacesCardId: card.replacesCardId,
+        replacedByCardId: card.replacedBy?.id ?? null,
+        noDuesLetterUrl: card.closure ? `/api/cards/${card.id}/no-dues-letter` : null,
         createdAt: card.createdAt,
         rewards: card.rewards[0] || { points: 0 },
         stats: {
@@ -487,6 +633,8 @@ router.get('/:id', authenticate, validateParams(idParamSchema), async (req: Auth
       },
       include: {
         rewards: true,
+        replacedBy: { select: { id: true } },
+        closure: { select: { id: true } },
       },
     });
 
@@ -494,6 +642,9 @@ router.get('/:id', authenticate, validateParams(idParamSchema), async (req: Auth
       throw new NotFoundError('Card not found');
     }
 
+    const { outstandingPaise } = await getCardBalances(prisma, card.id);
+    const pendingHoldsPaise = await getPendingHolds(prisma, card.id);
+
     res.json({
       success: true,
       data: {
@@ -502,8 +653,21 @@ router.get('/:id', authenticate, validateParams(idParamSchema), async (req: Auth
         last4: card.last4,
         cardType: card.cardType,
         status: card.status,
-        creditLimit: card.creditLimit,
+        creditLimit: toRupees(card.creditLimitPaise),
+        outstandingBalance: toRupees(outstandingPaise),
+        pendingHolds: toRupees(pendingHoldsPaise),
+        availableCredit: card.status === 'CLOSED' ? 0 : toRupees(card.creditLimitPaise - outstandingPaise - pendingHoldsPaise),
         autopayEnabled: card.autopayEnabled,
+        autopayMode: card.autopayMode,
+        billingCycleDay: card.billingCycleDay,
+        activatedAt: card.activatedAt,
+        pinSet: card.pinHash !== null,
+        pinLocked: card.pinLockedAt !== null,
+        closedAt: card.closedAt,
+        closureReason: card.closureReason,
+        replacesCardId: card.replacesCardId,
+        replacedByCardId: card.replacedBy?.id ?? null,
+        noDuesLetterUrl: card.closure ? `/api/cards/${card.id}/no-dues-letter` : null,
         createdAt: card.createdAt,
         rewards: card.rewards[0] || { points: 0 },
       },
@@ -538,7 +702,7 @@ router.get('/:id/status', authenticate, validateParams(idParamSchema), async (re
       success: true,
       data: {
         cardId: card.id,
-        status: card.status,                // ACTIVE | BLOCKED
+        status: card.status,                // ACTIVE | BLOCKED | INACTIVE | CLOSED
         cardType: card.cardType,
         cardNumber: `****-****-****-${card.last4}`,
         lastUpdated: card.updatedAt,
@@ -575,15 +739,21 @@ router.get('/:id/status', authenticate, validateParams(idParamSchema), async (re
  *             properties:
  *               enabled:
  *                 type: boolean
+ *               mode:
+ *                 type: string
+ *                 enum: [MINIMUM_DUE, FULL_BALANCE]
+ *                 description: Amount autopay collects before the due date
  *     responses:
  *       200:
  *         description: Autopay setting updated successfully
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
  */
 router.patch('/:id/autopay', authenticate, validateParams(idParamSchema), validateBody(updateAutopaySchema), async (req: AuthRequest, res, next) => {
   try {
     const userId = req.userId!;
     const { id } = req.params as any;
-    const { enabled } = req.body;
+    const { enabled, mode } = req.body;
 
     const card = await prisma.card.findFirst({
       where: {
@@ -596,9 +766,20 @@ router.patch('/:id/autopay', authenticate, validateParams(idParamSchema), valida
       throw new NotFoundError('Card not found');
     }
 
+    if (card.status === 'CLOSED') {
+      throw new ConflictError('Card is closed');
+    }
+
+    if (enabled && !getPaymentGateway().canChargeOffSession) {
+      throw new CheckoutRequiredError('Autopay is not available with the current payment gateway; pay your bill through checkout');
+    }
+
     const updatedCard = await prisma.card.update({
       where: { id },
-      data: { autopayEnabled: enabled },
+      data: {
+        autopayEnabled: enabled,
+        ...(mode && { autopayMode: mode }),
+      },
     });
 
     logger.info(`Autopay ${enabled ? 'enabled' : 'disabled'} for card ${id} by user ${userId}`);
@@ -608,6 +789,7 @@ router.patch('/:id/autopay', authenticate, validateParams(idParamSchema), valida
       data: {
         id: updatedCard.id,
         autopayEnabled: updatedCard.autopayEnabled,
+        autopayMode: updatedCard.autopayMode,
       },
       message: `Autopay ${enabled ? 'enabled' : 'disabled'} successfully`,
     });
@@ -618,9 +800,9 @@ router.patch('/:id/autopay', authenticate, validateParams(idParamSchema), valida
 
 /**
  * @swagger
- * /api/cards/{id}/status:
+ * /api/cards/{id}/billing-cycle:
  *   patch:
- *     summary: Update card status (block/unblock)
+ *     summary: Set the day of month the card's billing cycle closes
  *     tags: [Cards]
  *     security:
  *       - bearerAuth: []
@@ -637,20 +819,25 @@ router.patch('/:id/autopay', authenticate, validateParams(idParamSchema), valida
  *           schema:
  *             type: object
  *             required:
- *               - status
+ *               - cycleDay
  *             properties:
- *               status:
- *                 type: string
- *                 enum: [ACTIVE, BLOCKED]
+ *               cycleDay:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 28
  *     responses:
  *       200:
- *         description: Card status updated successfully
+ *         description: Billing cycle updated successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
  */
-router.patch('/:id/status', authenticate, validateParams(idParamSchema), validateBody(updateCardStatusSchema), async (req: AuthRequest, res, next) => {
+router.patch('/:id/billing-cycle', authenticate, validateParams(idParamSchema), validateBody(updateBillingCycleSchema), async (req: AuthRequest, res, next) => {
   try {
     const userId = req.userId!;
     const { id } = req.params as any;
-    const { status } = req.body;
+    const { cycleDay } = req.body;
 
     const card = await prisma.card.findFirst({
       where: {
@@ -663,59 +850,2120 @@ router.patch('/:id/status', authenticate, validateParams(idParamSchema), validat
       throw new NotFoundError('Card not found');
     }
 
+    if (card.status === 'CLOSED') {
+      throw new ConflictError('Card is closed');
+    }
+
     const updatedCard = await prisma.card.update({
       where: { id },
-      data: { status },
+      data: { billingCycleDay: cycleDay },
     });
 
-    // Send notification
-    if (status === 'BLOCKED') {
-      await createCardBlockedNotification(userId, card.last4);
-      // Log card blocked activity
-      await logActivity(userId, createActivityData.cardBlocked(card.last4, 'User requested'));
-    } else if (status === 'ACTIVE') {
-      await createCardUnblockedNotification(userId, card.last4);
-      // Log card unblocked activity
-      await logActivity(userId, createActivityData.cardUnblocked(card.last4));
-    }
-
-    logger.info(`Card ${id} status updated to ${status} by user ${userId}`);
+    logger.info(`Billing cycle day set to ${cycleDay} for card ${id} by user ${userId}`);
 
     res.json({
       success: true,
       data: {
         id: updatedCard.id,
-        status: updatedCard.status,
-        last4: updatedCard.last4,
-        cardType: updatedCard.cardType,
-        lastUpdated: updatedCard.updatedAt,
+        billingCycleDay: updatedCard.billingCycleDay,
       },
-      message: `Card ${status.toLowerCase()} successfully`,
+      message: `Billing cycle will now close on day ${cycleDay} of each month`,
     });
   } catch (error) {
     next(error);
   }
 });
 
-// Helper functions
-function generateCardNumber(): string {
-  // Generate a fake card number for demo purposes
-  const prefix = '4532'; // Visa prefix
-  const middle = Math.random().toString().slice(2, 10);
-  const checkDigit = Math.floor(Math.random() * 10);
-  return `${prefix}${middle}${checkDigit}`;
+/**
+ * @swagger
+ * /api/cards/{id}/limit-requests:
+ *   post:
+ *     summary: Request a higher credit limit
+ *     description: >
+ *       Sends the request, with the cardholder's current annual income, to
+ *       the admin review queue. A card can have one request under review at
+ *       a time.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - requestedLimit
+ *               - annualIncome
+ *             properties:
+ *               requestedLimit:
+ *                 type: integer
+ *                 description: Rupees; above the current limit, at most 1000000
+ *               annualIncome:
+ *                 type: integer
+ *                 description: Rupees
+ *     responses:
+ *       201:
+ *         description: Limit request submitted for review
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.post('/:id/limit-requests', authenticate, validateParams(idParamSchema), validateBody(limitRequestSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+    const { requestedLimit, annualIncome } = req.body;
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    if (card.status !== 'ACTIVE') {
+      throw new ConflictError('Only an active card can have its limit raised');
+    }
+
+    const requestedLimitPaise = toPaise(requestedLimit);
+    if (requestedLimitPaise <= card.creditLimitPaise) {
+      throw new ValidationError(`Requested limit must be above the current limit of ${formatRupees(card.creditLimitPaise)}`);
+    }
+
+    const pending = await prisma.limitRequest.findFirst({
+      where: { cardId: card.id, status: 'PENDING' },
+    });
+    if (pending) {
+      throw new ConflictError('A limit request for this card is already under review');
+    }
+
+    const limitRequest = await prisma.limitRequest.create({
+      data: {
+        userId,
+        cardId: card.id,
+        currentLimitPaise: card.creditLimitPaise,
+        requestedLimitPaise,
+        annualIncomePaise: toPaise(annualIncome),
+      },
+    });
+
+    await logActivity(userId, createActivityData.limitIncreaseRequested(card.last4, requestedLimitPaise));
+    logger.info(`Limit request ${limitRequest.id} for card ${id}: ${formatRupees(requestedLimitPaise)} by user ${userId}`);
+
+    res.status(201).json({
+      success: true,
+      data: formatLimitRequest(limitRequest),
+      message: 'Limit request submitted for review',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/limit-requests:
+ *   get:
+ *     summary: Get a card's limit requests, newest first
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Limit requests retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/limit-requests', authenticate, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    const limitRequests = await prisma.limitRequest.findMany({
+      where: { cardId: card.id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({
+      success: true,
+      data: limitRequests.map(formatLimitRequest),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/controls:
+ *   get:
+ *     summary: Get the card's usage toggles and spend caps
+ *     description: >
+ *       Also returns what was spent today and this month, counted as in the
+ *       daily and monthly caps. Cards that never changed their controls get
+ *       the defaults (everything on except international use, no caps).
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Card controls retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/controls', authenticate, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    const controls = await getCardControls(prisma, card.id);
+    const usage = await getSpendUsage(prisma, card.id);
+
+    res.json({
+      success: true,
+      data: formatControls(card.id, controls, usage),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/controls:
+ *   patch:
+ *     summary: Change the card's usage toggles, spend caps or blocked merchant categories
+ *     description: >
+ *       Only the fields sent are changed. Transactions that break a control
+ *       are declined when the card network asks to authorize them.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               online:
+ *                 type: boolean
+ *               international:
+ *                 type: boolean
+ *               contactless:
+ *                 type: boolean
+ *               atm:
+ *                 type: boolean
+ *               perTransactionLimit:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Largest single transaction; null removes the cap
+ *               dailyLimit:
+ *                 type: number
+ *                 nullable: true
+ *               monthlyLimit:
+ *                 type: number
+ *                 nullable: true
+ *               blockedCategories:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Merchant categories to decline (replaces the list)
+ *     responses:
+ *       200:
+ *         description: Card controls updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.patch('/:id/controls', authenticate, validateParams(idParamSchema), validateBody(updateControlsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+    const { online, international, contactless, atm, perTransactionLimit, dailyLimit, monthlyLimit, blockedCategories } = req.body;
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    if (card.status === 'CLOSED') {
+      throw new ConflictError('Card is closed');
+    }
+
+    const toCap = (limit: number | null | undefined) => (limit === undefined ? undefined : limit === null ? null : toPaise(limit));
+    const changes: Partial<CardControls> = {
+      onlineEnabled: online,
+      internationalEnabled: international,
+      contactlessEnabled: contactless,
+      atmEnabled: atm,
+      perTransactionLimitPaise: toCap(perTransactionLimit),
+      dailyLimitPaise: toCap(dailyLimit),
+      monthlyLimitPaise: toCap(monthlyLimit),
+      blockedCategories: blockedCategories && uniqueCategories(blockedCategories),
+    };
+
+    const current = await getCardControls(prisma, card.id);
+    validateSpendCaps({
+      perTransactionLimitPaise: changes.perTransactionLimitPaise !== undefined ? changes.perTransactionLimitPaise : current.perTransactionLimitPaise,
+      dailyLimitPaise: changes.dailyLimitPaise !== undefined ? changes.dailyLimitPaise : current.dailyLimitPaise,
+      monthlyLimitPaise: changes.monthlyLimitPaise !== undefined ? changes.monthlyLimitPaise : current.monthlyLimitPaise,
+    });
+
+    const controls = await prisma.cardControl.upsert({
+      where: { cardId: card.id },
+      create: { cardId: card.id, ...changes },
+      update: changes,
+    });
+    const usage = await getSpendUsage(prisma, card.id);
+
+    await logActivity(userId, createActivityData.cardControlsUpdated(card.last4, Object.keys(req.body)));
+    logger.info(`Card controls changed for card ${id} by user ${userId}: ${Object.keys(req.body).join(', ')}`);
+
+    res.json({
+      success: true,
+      data: formatControls(card.id, controls, usage),
+      message: 'Card controls updated successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/virtual:
+ *   post:
+ *     summary: Issue a virtual card on the card's credit line
+ *     description: >
+ *       The virtual card gets its own number and spends the card's credit
+ *       line. It can be capped, given an expiry date, used once or locked to
+ *       one merchant. The full number is returned here and by the reveal
+ *       endpoint; the CVV only here.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *                 example: Streaming subscription
+ *               spendCap:
+ *                 type: number
+ *                 description: Most the virtual card can spend in total
+ *               expiryDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Last day the virtual card can be used
+ *               singleUse:
+ *                 type: boolean
+ *                 default: false
+ *               merchant:
+ *                 type: string
+ *                 description: Only this merchant can charge the virtual card
+ *     responses:
+ *       201:
+ *         description: Virtual card issued successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/:id/virtual', authenticate, validateParams(idParamSchema), validateBody(createVirtualCardSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+    const { label, spendCap, expiryDate, singleUse, merchant } = req.body;
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    if (card.status !== 'ACTIVE') {
+      throw new ValidationError('Virtual cards can only be issued on an active card');
+    }
+
+    const spendCapPaise = spendCap !== undefined ? toPaise(spendCap) : null;
+    if (spendCapPaise !== null && spendCapPaise > card.creditLimitPaise) {
+      throw new ValidationError('Spend cap cannot be above the card\'s credit limit');
+    }
+
+    // Usable through the end of its expiry date
+    const expiresAt = expiryDate ? new Date(`${expiryDate}T23:59:59.999`) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new ValidationError('expiryDate cannot be in the past');
+    }
+
+    // The network expiry matches the chosen expiry date when there is one
+    const expiry = expiresAt ? { expiryMonth: expiresAt.getMonth() + 1, expiryYear: expiresAt.getFullYear() } : cardExpiry();
+    const { pan, cvv, credentials } = issueCardCredentials('VIRTUAL', expiry);
+    const virtualCard = await prisma.virtualCard.create({
+      data: {
+        cardId: card.id,
+        ...credentials,
+        label,
+        spendCapPaise,
+        singleUse,
+        lockedMerchant: merchant,
+        expiresAt,
+      },
+    });
+
+    await logActivity(userId, createActivityData.virtualCardIssued(card.last4, virtualCard.last4));
+    logger.info(`Virtual card ${virtualCard.id} issued on card ${card.id} by user ${userId}`);
+
+    res.status(201).json({
+      success: true,
+      data: { ...formatVirtualCard(virtualCard, 0), number: pan, cvv, expiryMonth: expiry.expiryMonth, expiryYear: expiry.expiryYear },
+      message: 'Virtual card issued successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/virtual:
+ *   get:
+ *     summary: List the card's virtual cards
+ *     description: Deleted virtual cards are left out.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Virtual cards retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/virtual', authenticate, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    const virtualCards = await prisma.virtualCard.findMany({
+      where: { cardId: card.id, status: { not: 'DELETED' } },
+      orderBy: { createdAt: 'desc' },
+    });
+    const spend = await getVirtualCardSpendById(prisma, virtualCards.map(virtualCard => virtualCard.id));
+
+    res.json({
+      success: true,
+      data: virtualCards.map(virtualCard => formatVirtualCard(virtualCard, spend.get(virtualCard.id) ?? 0)),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/virtual/{virtualId}:
+ *   patch:
+ *     summary: Pause or resume a virtual card
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: virtualId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [ACTIVE, PAUSED]
+ *     responses:
+ *       200:
+ *         description: Virtual card updated successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.patch('/:id/virtual/:virtualId', authenticate, validateParams(virtualCardParamSchema), validateBody(updateVirtualCardSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id, virtualId } = req.params as any;
+    const { status } = req.body;
+    const virtualCard = await findUserVirtualCard(id, virtualId, userId);
+
+    if (virtualCard.status === 'USED') {
+      throw new ConflictError('Single-use virtual card has already been used');
+    }
+    if (status === 'ACTIVE' && isExpired(virtualCard)) {
+      throw new ValidationError('Virtual card has expired');
+    }
+
+    const updated = await prisma.virtualCard.update({
+      where: { id: virtualCard.id },
+      data: { status },
+    });
+    const spend = await getVirtualCardSpendById(prisma, [updated.id]);
+
+    logger.info(`Virtual card ${updated.id} set to ${status} by user ${userId}`);
+
+    res.json({
+      success: true,
+      data: formatVirtualCard(updated, spend.get(updated.id) ?? 0),
+      message: `Virtual card ${status === 'PAUSED' ? 'paused' : 'resumed'} successfully`,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/virtual/{virtualId}:
+ *   delete:
+ *     summary: Delete a virtual card
+ *     description: >
+ *       The virtual card can no longer be charged. Authorizations already
+ *       held on it can still be captured.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: virtualId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Virtual card deleted successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id/virtual/:virtualId', authenticate, validateParams(virtualCardParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id, virtualId } = req.params as any;
+    const virtualCard = await findUserVirtualCard(id, virtualId, userId);
+
+    // Kept for the authorizations made with it
+    await prisma.virtualCard.update({
+      where: { id: virtualCard.id },
+      data: { status: 'DELETED', deletedAt: new Date() },
+    });
+
+    await logActivity(userId, createActivityData.virtualCardDeleted(virtualCard.last4));
+    logger.info(`Virtual card ${virtualCard.id} deleted by user ${userId}`);
+
+    res.json({
+      success: true,
+      message: 'Virtual card deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/add-ons:
+ *   post:
+ *     summary: Issue an add-on card for a family member
+ *     description: >
+ *       The add-on card gets its own number and spends the card's credit line
+ *       up to its monthly limit; what it spends is billed on the card's
+ *       statement. Its holder signs in at POST /api/auth/add-on/login with
+ *       the email and password given here, sets the add-on's PIN and can see
+ *       only the add-on card and its transactions. It expires with the card.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - holderName
+ *               - relationship
+ *               - email
+ *               - password
+ *               - monthlyLimit
+ *             properties:
+ *               holderName:
+ *                 type: string
+ *                 example: Asha Rao
+ *               relationship:
+ *                 type: string
+ *                 enum: [SPOUSE, PARENT, CHILD, SIBLING, OTHER]
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 description: The add-on holder's login
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *                 description: The add-on holder's first password
+ *               monthlyLimit:
+ *                 type: number
+ *                 description: Most the add-on card can spend in a calendar month
+ *     responses:
+ *       201:
+ *         description: Add-on card issued successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.post('/:id/add-ons', authenticate, validateParams(idParamSchema), validateBody(createAddOnCardSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+    const { holderName, relationship, email, password, monthlyLimit } = req.body;
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    if (card.status !== 'ACTIVE') {
+      throw new ValidationError('Add-on cards can only be issued on an active card');
+    }
+
+    const monthlyLimitPaise = toPaise(monthlyLimit);
+    if (monthlyLimitPaise > card.creditLimitPaise) {
+      throw new ValidationError('Monthly limit cannot be above the card\'s credit limit');
+    }
+
+    const openAddOnCards = await prisma.addOnCard.count({
+      where: { cardId: card.id, status: { not: 'CLOSED' } },
+    });
+    if (openAddOnCards >= MAX_ADD_ON_CARDS) {
+      throw new ConflictError(`A card can have at most ${MAX_ADD_ON_CARDS} add-on cards`);
+    }
+
+    const existing = await prisma.addOnCard.findUnique({ where: { email } });
+    if (existing) {
+      throw new ConflictError('An add-on card already uses this email');
+    }
+
+    const expiry = card.expiryMonth !== null && card.expiryYear !== null
+      ? { expiryMonth: card.expiryMonth, expiryYear: card.expiryYear }
+      : cardExpiry();
+    const { credentials } = issueCardCredentials(card.cardType, expiry);
+    const saltRounds = parseInt(process.env.BCRYPT_SALT_ROUNDS || '10');
+    const addOnCard = await prisma.addOnCard.create({
+      data: {
+        cardId: card.id,
+        holderName,
+        relationship,
+        email,
+        passwordHash: await bcrypt.hash(password, saltRounds),
+        ...credentials,
+        monthlyLimitPaise,
+      },
+    });
+
+    await logActivity(userId, createActivityData.addOnCardIssued(card.last4, addOnCard.last4, holderName));
+    logger.info(`Add-on card ${addOnCard.id} issued on card ${card.id} by user ${userId}`);
+
+    res.status(201).json({
+      success: true,
+      data: formatAddOnCard(addOnCard, 0),
+      message: 'Add-on card issued successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/add-ons:
+ *   get:
+ *     summary: List the card's add-on cards with what each spent this month
+ *     description: Closed add-on cards are left out.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Add-on cards retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/add-ons', authenticate, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    const addOnCards = await prisma.addOnCard.findMany({
+      where: { cardId: card.id, status: { not: 'CLOSED' } },
+      orderBy: { createdAt: 'asc' },
+    });
+    const spend = await getAddOnMonthSpendById(prisma, addOnCards.map(addOnCard => addOnCard.id));
+
+    res.json({
+      success: true,
+      data: addOnCards.map(addOnCard => formatAddOnCard(addOnCard, spend.get(addOnCard.id) ?? 0)),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/add-ons/{addOnId}:
+ *   patch:
+ *     summary: Block or unblock an add-on card, or change its limit and controls
+ *     description: >
+ *       The add-on card's own controls apply on top of the card's; its monthly
+ *       limit cannot be above the card's credit limit.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: addOnId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [ACTIVE, BLOCKED]
+ *               monthlyLimit:
+ *                 type: number
+ *               online:
+ *                 type: boolean
+ *               international:
+ *                 type: boolean
+ *               contactless:
+ *                 type: boolean
+ *               atm:
+ *                 type: boolean
+ *               perTransactionLimit:
+ *                 type: number
+ *                 nullable: true
+ *                 description: null removes the cap
+ *               blockedCategories:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Add-on card updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.patch('/:id/add-ons/:addOnId', authenticate, validateParams(addOnCardParamSchema), validateBody(updateAddOnCardSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id, addOnId } = req.params as any;
+    const { status, monthlyLimit, online, international, contactless, atm, perTransactionLimit, blockedCategories } = req.body;
+    const { card, ...addOnCard } = await findUserAddOnCard(id, addOnId, userId);
+
+    const changes = {
+      status,
+      monthlyLimitPaise: monthlyLimit !== undefined ? toPaise(monthlyLimit) : undefined,
+      onlineEnabled: online,
+      internationalEnabled: international,
+      contactlessEnabled: contactless,
+      atmEnabled: atm,
+      perTransactionLimitPaise: perTransactionLimit === undefined ? undefined : perTransactionLimit === null ? null : toPaise(perTransactionLimit),
+      blockedCategories: blockedCategories && uniqueCategories(blockedCategories),
+    };
+
+    const monthlyLimitPaise = changes.monthlyLimitPaise ?? addOnCard.monthlyLimitPaise;
+    if (monthlyLimitPaise > card.creditLimitPaise) {
+      throw new ValidationError('Monthly limit cannot be above the card\'s credit limit');
+    }
+    validateSpendCaps({
+      perTransactionLimitPaise: changes.perTransactionLimitPaise !== undefined ? changes.perTransactionLimitPaise : addOnCard.perTransactionLimitPaise,
+      dailyLimitPaise: null,
+      monthlyLimitPaise,
+    });
+
+    const updated = await updateOpenAddOnCard(addOnCard.id, changes);
+    const spend = await getAddOnMonthSpendById(prisma, [updated.id]);
+
+    await logActivity(userId, createActivityData.addOnCardUpdated(updated.last4, Object.keys(req.body)));
+    logger.info(`Add-on card ${updated.id} changed by user ${userId}: ${Object.keys(req.body).join(', ')}`);
+
+    res.json({
+      success: true,
+      data: formatAddOnCard(updated, spend.get(updated.id) ?? 0),
+      message: 'Add-on card updated successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/add-ons/{addOnId}:
+ *   delete:
+ *     summary: Close an add-on card
+ *     description: >
+ *       The add-on card can no longer be charged and its holder can no longer
+ *       sign in. What it spent stays on the card's statements, and
+ *       authorizations already held on it can still be captured.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: addOnId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Add-on card closed successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.delete('/:id/add-ons/:addOnId', authenticate, validateParams(addOnCardParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id, addOnId } = req.params as any;
+    const addOnCard = await findUserAddOnCard(id, addOnId, userId);
+
+    // Kept for the transactions made with it
+    await updateOpenAddOnCard(addOnCard.id, { status: 'CLOSED', closedAt: new Date() });
+
+    await logActivity(userId, createActivityData.addOnCardClosed(addOnCard.last4, addOnCard.holderName));
+    logger.info(`Add-on card ${addOnCard.id} closed by user ${userId}`);
+
+    res.json({
+      success: true,
+      message: 'Add-on card closed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/reveal:
+ *   post:
+ *     summary: Reveal the card's full number and expiry
+ *     description: >
+ *       Needs a step-up token from POST /api/auth/step-up in
+ *       `X-Step-Up-Token`. The CVV is stored hashed and cannot be revealed.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: header
+ *         name: X-Step-Up-Token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Card details revealed
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/:id/reveal', authenticate, requireStepUp, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    const details = revealDetails(card);
+
+    await logActivity(userId, createActivityData.cardDetailsRevealed(card.last4));
+    logger.info(`Card ${card.id} details revealed to user ${userId}`);
+
+    res.set('Cache-Control', 'no-store');
+    res.json({
+      success: true,
+      data: { id: card.id, last4: card.last4, ...details },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/virtual/{virtualId}/reveal:
+ *   post:
+ *     summary: Reveal a virtual card's full number and expiry
+ *     description: Needs a step-up token, like revealing the card's own details.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: virtualId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: header
+ *         name: X-Step-Up-Token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Virtual card details revealed
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/:id/virtual/:virtualId/reveal', authenticate, requireStepUp, validateParams(virtualCardParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id, virtualId } = req.params as any;
+    const virtualCard = await findUserVirtualCard(id, virtualId, userId);
+
+    const details = revealDetails(virtualCard);
+
+    await logActivity(userId, createActivityData.cardDetailsRevealed(virtualCard.last4));
+    logger.info(`Virtual card ${virtualCard.id} details revealed to user ${userId}`);
+
+    res.set('Cache-Control', 'no-store');
+    res.json({
+      success: true,
+      data: { id: virtualCard.id, last4: virtualCard.last4, ...details },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/status:
+ *   patch:
+ *     summary: Update card status (block/unblock)
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [ACTIVE, BLOCKED]
+ *     responses:
+ *       200:
+ *         description: Card status updated successfully
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.patch('/:id/status', authenticate, validateParams(idParamSchema), validateBody(updateCardStatusSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+    const { status } = req.body;
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    if (card.status === 'CLOSED') {
+      throw new ConflictError('Card is closed');
+    }
+
+    // Unblocking must not skip activation
+    if (card.status === 'INACTIVE') {
+      throw new ConflictError('Card has not been activated yet');
+    }
+
+    const updatedCard = await prisma.card.update({
+      where: { id },
+      data: { status },
+    });
+
+    // Send notification
+    if (status === 'BLOCKED') {
+      await createCardBlockedNotification(userId, card.last4);
+      // Log card blocked activity
+      await logActivity(userId, createActivityData.cardBlocked(card.last4, 'User requested'));
+    } else if (status === 'ACTIVE') {
+      await createCardUnblockedNotification(userId, card.last4);
+      // Log card unblocked activity
+      await logActivity(userId, createActivityData.cardUnblocked(card.last4));
+    }
+
+    logger.info(`Card ${id} status updated to ${status} by user ${userId}`);
+
+    res.json({
+      success: true,
+      data: {
+        id: updatedCard.id,
+        status: updatedCard.status,
+        last4: updatedCard.last4,
+        cardType: updatedCard.cardType,
+        lastUpdated: updatedCard.updatedAt,
+      },
+      message: `Card ${status.toLowerCase()} successfully`,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/activation/otp:
+ *   post:
+ *     summary: Send a verification code for activating a new card
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Code sent; only the latest code works
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.post('/:id/activation/otp', strictLimiter, authenticate, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+
+    const card = await findCardAwaitingActivation(id, userId);
+    const { expiresAt } = await issueOtp(userId, 'CARD_ACTIVATION', card.id);
+
+    res.json({
+      success: true,
+      data: { cardId: card.id, expiresAt },
+      message: 'Verification code sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/activate:
+ *   post:
+ *     summary: Activate a new card
+ *     description: >
+ *       Needs the last 4 digits and CVV printed on the card and a code from
+ *       /api/cards/{id}/activation/otp. The cardholder sets a PIN next.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - last4
+ *               - cvv
+ *               - otp
+ *             properties:
+ *               last4:
+ *                 type: string
+ *                 pattern: '^\d{4}$'
+ *               cvv:
+ *                 type: string
+ *                 pattern: '^\d{3}$'
+ *               otp:
+ *                 type: string
+ *                 pattern: '^\d{6}$'
+ *     responses:
+ *       200:
+ *         description: Card activated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.post('/:id/activate', strictLimiter, authenticate, validateParams(idParamSchema), validateBody(activateCardSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+    const { last4, cvv, otp } = req.body;
+
+    const card = await findCardAwaitingActivation(id, userId);
+
+    // The code is used up either way, so the card details can't be guessed
+    // more than once per code
+    if (!(await verifyOtp(userId, 'CARD_ACTIVATION', otp, card.id))) {
+      throw new ValidationError('Verification code is invalid or has expired');
+    }
+    if (last4 !== card.last4 || !card.cvvHash || !verifyCardSecret(cvv, card.cvvHash)) {
+      throw new ValidationError('Card details do not match; request a new code and try again');
+    }
+
+    const activated = await prisma.card.update({
+      where: { id: card.id },
+      data: { status: 'ACTIVE', activatedAt: new Date() },
+    });
+
+    await logActivity(userId, createActivityData.cardActivated(card.last4));
+    logger.info(`Card ${id} activated by user ${userId}`);
+
+    res.json({
+      success: true,
+      data: {
+        id: activated.id,
+        status: activated.status,
+        last4: activated.last4,
+        activatedAt: activated.activatedAt,
+        pinSet: activated.pinHash !== null,
+      },
+      message: 'Card activated successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/pin/otp:
+ *   post:
+ *     summary: Send a verification code for setting, changing or resetting a card PIN
+ *     description: >
+ *       The PIN endpoints accept this code in `otp`, or a step-up token
+ *       (from /api/auth/step-up) in `X-Step-Up-Token` instead.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Code sent; only the latest code works
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.post('/:id/pin/otp', strictLimiter, authenticate, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+
+    const card = await findCardForPin(id, userId);
+    const { expiresAt } = await issueOtp(userId, 'CARD_PIN', card.id);
+
+    res.json({
+      success: true,
+      data: { cardId: card.id, expiresAt },
+      message: 'Verification code sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/pin:
+ *   post:
+ *     summary: Set the PIN of a newly activated card
+ *     description: >
+ *       Needs a code from /api/cards/{id}/pin/otp in `otp` or a step-up
+ *       token in `X-Step-Up-Token`.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - pin
+ *             properties:
+ *               pin:
+ *                 type: string
+ *                 pattern: '^\d{4}$'
+ *               otp:
+ *                 type: string
+ *                 pattern: '^\d{6}$'
+ *     responses:
+ *       200:
+ *         description: PIN set
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Neither a verification code nor a step-up token was sent (code STEP_UP_REQUIRED)
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.post('/:id/pin', authenticate, validateParams(idParamSchema), validateBody(setPinSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+    const { pin, otp } = req.body;
+
+    const card = await findCardForPin(id, userId);
+
+    if (card.pinHash) {
+      throw new ConflictError('PIN is already set; change or reset it instead');
+    }
+
+    await confirmPinChange(req, card, otp);
+    const updated = await storeCardPin(card.id, pin);
+
+    await logActivity(userId, createActivityData.cardPinSet(card.last4));
+    logger.info(`PIN set for card ${id} by user ${userId}`);
+
+    res.json({
+      success: true,
+      data: {
+        id: updated.id,
+        pinSet: true,
+        pinSetAt: updated.pinSetAt,
+      },
+      message: 'PIN set successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/pin:
+ *   put:
+ *     summary: Change a card PIN
+ *     description: >
+ *       Needs the current PIN, and a code from /api/cards/{id}/pin/otp in
+ *       `otp` or a step-up token in `X-Step-Up-Token`. A wrong current PIN
+ *       counts towards locking the PIN, as at an ATM; a locked PIN can only
+ *       be reset.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPin
+ *               - newPin
+ *             properties:
+ *               currentPin:
+ *                 type: string
+ *                 pattern: '^\d{4}$'
+ *               newPin:
+ *                 type: string
+ *                 pattern: '^\d{4}$'
+ *               otp:
+ *                 type: string
+ *                 pattern: '^\d{6}$'
+ *     responses:
+ *       200:
+ *         description: PIN changed
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Neither a verification code nor a step-up token was sent (code STEP_UP_REQUIRED)
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.put('/:id/pin', authenticate, validateParams(idParamSchema), validateBody(changePinSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+    const { currentPin, newPin, otp } = req.body;
+
+    const card = await findCardForPin(id, userId);
+
+    if (!card.pinHash) {
+      throw new ConflictError('No PIN has been set yet');
+    }
+    if (card.pinLockedAt) {
+      throw new ConflictError('PIN is locked after too many wrong attempts; reset it instead');
+    }
+
+    await confirmPinChange(req, card, otp);
+
+    const pinCheck = await verifyCardPin(prisma, card, currentPin);
+    if (pinCheck === 'LOCKED') {
+      throw new ValidationError('Current PIN is incorrect; the PIN is now locked and has to be reset');
+    }
+    if (pinCheck !== 'OK') {
+      throw new ValidationError('Current PIN is incorrect');
+    }
+
+    const updated = await storeCardPin(card.id, newPin);
+
+    await logActivity(userId, createActivityData.cardPinChanged(card.last4));
+    logger.info(`PIN changed for card ${id} by user ${userId}`);
+
+    res.json({
+      success: true,
+      data: {
+        id: updated.id,
+        pinSet: true,
+        pinSetAt: updated.pinSetAt,
+      },
+      message: 'PIN changed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/pin/reset:
+ *   post:
+ *     summary: Reset a forgotten or locked card PIN
+ *     description: >
+ *       Replaces the PIN without the current one and unlocks it. Needs a
+ *       code from /api/cards/{id}/pin/otp in `otp` or a step-up token in
+ *       `X-Step-Up-Token`.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - newPin
+ *             properties:
+ *               newPin:
+ *                 type: string
+ *                 pattern: '^\d{4}$'
+ *               otp:
+ *                 type: string
+ *                 pattern: '^\d{6}$'
+ *     responses:
+ *       200:
+ *         description: PIN reset and unlocked
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Neither a verification code nor a step-up token was sent (code STEP_UP_REQUIRED)
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.post('/:id/pin/reset', authenticate, validateParams(idParamSchema), validateBody(resetPinSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+    const { newPin, otp } = req.body;
+
+    const card = await findCardForPin(id, userId);
+
+    if (!card.pinHash) {
+      throw new ConflictError('No PIN has been set yet');
+    }
+
+    await confirmPinChange(req, card, otp);
+    const updated = await storeCardPin(card.id, newPin);
+
+    const wasLocked = card.pinLockedAt !== null;
+    await logActivity(userId, createActivityData.cardPinReset(card.last4, wasLocked));
+    logger.info(`PIN reset for card ${id} by user ${userId}${wasLocked ? ' (was locked)' : ''}`);
+
+    res.json({
+      success: true,
+      data: {
+        id: updated.id,
+        pinSet: true,
+        pinLocked: false,
+        pinSetAt: updated.pinSetAt,
+      },
+      message: 'PIN reset successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/report:
+ *   post:
+ *     summary: Report a card lost, stolen, damaged or compromised
+ *     description: >
+ *       Closes the card permanently and issues a replacement with a new number.
+ *       The replacement keeps the credit limit, autopay, billing cycle, rewards,
+ *       controls, virtual and add-on cards and scheduled payments; the balance, unpaid
+ *       statements, payments in flight and pending holds move to it too.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [LOST, STOLEN, DAMAGED, COMPROMISED]
+ *     responses:
+ *       201:
+ *         description: Card closed and replacement issued
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.post('/:id/report', authenticate, validateParams(idParamSchema), validateBody(reportCardSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+    const { reason } = req.body;
+    const now = new Date();
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    if (card.status === 'CLOSED') {
+      throw new ConflictError('Card is already closed');
+    }
+
+    // Close the last billing cycle on this card before it goes; the
+    // replacement bills from the next one
+    const cycle = getLatestClosedCycle(card.billingCycleDay, now);
+    if (card.createdAt <= cycle.periodEnd) {
+      await generateStatement(card, cycle.month, cycle.year);
+    }
+
+    const { replacement, balanceMovedPaise, virtualCardsMoved, addOnCardsMoved, scheduledPaymentsMoved } = await prisma.$transaction(
+      (tx) => replaceCard(tx, card, reason, now)
+    );
+
+    await createCardReplacedNotification(userId, card.last4, replacement.last4);
+    await logActivity(userId, createActivityData.cardReported(card.last4, reason, replacement.last4));
+
+    logger.info(`Card ${id} reported ${reason} by user ${userId}, replaced by card ${replacement.id}`);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        reportedCard: {
+          id: card.id,
+          last4: card.last4,
+          status: 'CLOSED',
+          closureReason: reason,
+          closedAt: now,
+          replacedByCardId: replacement.id,
+        },
+        replacement: {
+          id: replacement.id,
+          number: `****-****-****-${replacement.last4}`,
+          last4: replacement.last4,
+          cardType: replacement.cardType,
+          status: replacement.status,
+          expiryMonth: replacement.expiryMonth,
+          expiryYear: replacement.expiryYear,
+          creditLimit: toRupees(replacement.creditLimitPaise),
+          autopayEnabled: replacement.autopayEnabled,
+          autopayMode: replacement.autopayMode,
+          billingCycleDay: replacement.billingCycleDay,
+          replacesCardId: replacement.replacesCardId,
+        },
+        balanceMoved: toRupees(balanceMovedPaise),
+        virtualCardsMoved,
+        addOnCardsMoved,
+        scheduledPaymentsMoved,
+      },
+      message: 'Card closed and replacement issued',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/closure:
+ *   get:
+ *     summary: Check whether the card can be closed and what closing it settles
+ *     description: >
+ *       Lists what has to happen first (OUTSTANDING_BALANCE, PENDING_HOLDS,
+ *       PAYMENTS_IN_FLIGHT) with the amount to pay off, and what the
+ *       cardholder gets back: reward points are converted or forfeited per
+ *       the closure policy, and any credit balance is refunded.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Closure quote retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.get('/:id/closure', authenticate, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    if (card.status === 'CLOSED') {
+      throw new ConflictError('Card is already closed');
+    }
+
+    const quote = await getClosureQuote(prisma, card.id);
+    const scheduledPayments = await prisma.scheduledPayment.count({
+      where: { cardId: card.id, status: { in: ['ACTIVE', 'PAUSED'] } },
+    });
+    const addOnCards = await prisma.addOnCard.count({
+      where: { cardId: card.id, status: { not: 'CLOSED' } },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        ...formatClosureQuote(quote),
+        canClose: quote.blockers.length === 0,
+        autopayEnabled: card.autopayEnabled,
+        scheduledPayments,
+        addOnCards,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/close:
+ *   post:
+ *     summary: Close the card
+ *     description: >
+ *       Needs a step-up token. Refused with 409 while a balance is owed,
+ *       transactions are pending or payments are being processed; see
+ *       /api/cards/{id}/closure for what to settle first. Converts or
+ *       forfeits reward points, refunds any credit balance, cancels autopay
+ *       and scheduled payments and closes the card's add-on and virtual
+ *       cards. The card stays visible, read-only, as CLOSED, and a no-dues
+ *       letter can be downloaded for it.
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: header
+ *         name: X-Step-Up-Token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Card closed
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.post('/:id/close', authenticate, requireStepUp, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+    const now = new Date();
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    if (card.status === 'CLOSED') {
+      throw new ConflictError('Card is already closed');
+    }
+
+    // Checked again when closing; this spares billing a cycle for a closure that can't happen
+    const quote = await getClosureQuote(prisma, card.id);
+    if (quote.blockers.length > 0) {
+      throw new ConflictError(describeClosureBlocker(quote.blockers[0], quote));
+    }
+
+    // Bill the last closed cycle before the card goes, so its statements are complete
+    const cycle = getLatestClosedCycle(card.billingCycleDay, now);
+    if (card.createdAt <= cycle.periodEnd) {
+      await generateStatement(card, cycle.month, cycle.year);
+    }
+
+    const closure = await prisma.$transaction((tx) => closeCard(tx, card, now));
+
+    await createCardClosedNotification(userId, card.last4, closure.refundPaise);
+    await logActivity(userId, createActivityData.cardClosed(card.last4, closure.refundPaise));
+
+    logger.info(`Card ${id} closed by user ${userId}; refund ${closure.refundPaise} paise, ${closure.rewardPoints} points ${closure.rewardsOutcome.toLowerCase()}`);
+
+    res.json({
+      success: true,
+      data: {
+        cardId: card.id,
+        last4: card.last4,
+        status: 'CLOSED',
+        closedAt: now,
+        rewardPoints: closure.rewardPoints,
+        rewardsOutcome: closure.rewardsOutcome,
+        rewardsValue: toRupees(closure.rewardsValuePaise),
+        refund: toRupees(closure.refundPaise),
+        autopayCancelled: closure.autopayCancelled,
+        scheduledPaymentsCancelled: closure.scheduledPaymentsCancelled,
+        addOnCardsClosed: closure.addOnCardsClosed,
+        noDuesLetterUrl: `/api/cards/${card.id}/no-dues-letter`,
+      },
+      message: 'Card closed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/cards/{id}/no-dues-letter:
+ *   get:
+ *     summary: Download the no-dues letter of a card closed by its holder
+ *     tags: [Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: No-dues letter
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/no-dues-letter', authenticate, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id,
+        userId,
+      },
+      include: { closure: true, user: { select: { name: true } } },
+    });
+
+    // Only cards their holder closed have one; reported cards were replaced instead
+    if (!card || !card.closure) {
+      throw new NotFoundError('No-dues letter not found');
+    }
+
+    sendPdf(res, `no-dues-letter-${card.last4}.pdf`, renderNoDuesLetter(card, card.closure, card.user.name));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Helper functions
+function formatControls(cardId: number, controls: CardControls, usage: { todayPaise: Paise; thisMonthPaise: Paise }) {
+  return {
+    cardId,
+    online: controls.onlineEnabled,
+    international: controls.internationalEnabled,
+    contactless: controls.contactlessEnabled,
+    atm: controls.atmEnabled,
+    perTransactionLimit: controls.perTransactionLimitPaise !== null ? toRupees(controls.perTransactionLimitPaise) : null,
+    dailyLimit: controls.dailyLimitPaise !== null ? toRupees(controls.dailyLimitPaise) : null,
+    monthlyLimit: controls.monthlyLimitPaise !== null ? toRupees(controls.monthlyLimitPaise) : null,
+    blockedCategories: controls.blockedCategories,
+    spentToday: toRupees(usage.todayPaise),
+    spentThisMonth: toRupees(usage.thisMonthPaise),
+  };
+}
+
+function formatClosureQuote(quote: ClosureQuote) {
+  return {
+    outstandingBalance: toRupees(quote.outstandingPaise),
+    creditBalance: toRupees(quote.creditBalancePaise),
+    pendingHolds: toRupees(quote.pendingHoldsPaise),
+    paymentsInFlight: quote.paymentsInFlight,
+    rewardPoints: quote.rewardPoints,
+    rewardsOutcome: quote.rewardsOutcome,
+    rewardsValue: toRupees(quote.rewardsValuePaise),
+    refund: toRupees(quote.refundPaise),
+    blockers: quote.blockers,
+  };
+}
+
+// One entry per category, whatever the case it was sent in
+function uniqueCategories(categories: string[]): string[] {
+  return categories.filter(
+    (category, index) => categories.findIndex(other => other.toLowerCase() === category.toLowerCase()) === index
+  );
+}
+
+async function findCardAwaitingActivation(cardId: number, userId: number): Promise<Card> {
+  const card = await prisma.card.findFirst({
+    where: {
+      id: cardId,
+      userId,
+    },
+  });
+
+  if (!card) {
+    throw new NotFoundError('Card not found');
+  }
+  if (card.status === 'CLOSED') {
+    throw new ConflictError('Card is closed');
+  }
+  if (card.status !== 'INACTIVE') {
+    throw new ConflictError('Card is already activated');
+  }
+  return card;
+}
+
+/**
+ * A card of the user's that can have a PIN: activated and not closed.
+ */
+async function findCardForPin(cardId: number, userId: number): Promise<Card> {
+  const card = await prisma.card.findFirst({
+    where: {
+      id: cardId,
+      userId,
+    },
+  });
+
+  if (!card) {
+    throw new NotFoundError('Card not found');
+  }
+  if (card.status === 'INACTIVE' || card.status === 'CLOSED') {
+    throw new ConflictError('Only an activated card can have a PIN');
+  }
+  return card;
+}
+
+/**
+ * Confirm a PIN change with the request's step-up token or, failing that,
+ * a code from /api/cards/{id}/pin/otp. Called once the rest of the request
+ * has been checked, so a code isn't used up on a request that fails anyway.
+ */
+async function confirmPinChange(req: AuthRequest, card: Card, otp: string | undefined): Promise<void> {
+  if (hasStepUp(req)) {
+    return;
+  }
+  if (otp === undefined) {
+    throw new StepUpRequiredError('Enter a verification code or confirm your password to continue');
+  }
+  if (!(await verifyOtp(req.userId!, 'CARD_PIN', otp, card.id))) {
+    throw new ValidationError('Verification code is invalid or has expired');
+  }
+}
+
+async function findUserVirtualCard(cardId: number, virtualId: number, userId: number): Promise<VirtualCard> {
+  const virtualCard = await prisma.virtualCard.findFirst({
+    where: {
+      id: virtualId,
+      cardId,
+      status: { not: 'DELETED' },
+      card: { userId },
+    },
+  });
+
+  if (!virtualCard) {
+    throw new NotFoundError('Virtual card not found');
+  }
+  return virtualCard;
+}
+
+async function findUserAddOnCard(cardId: number, addOnId: number, userId: number): Promise<AddOnCard & { card: Card }> {
+  const addOnCard = await prisma.addOnCard.findFirst({
+    where: {
+      id: addOnId,
+      cardId,
+      status: { not: 'CLOSED' },
+      card: { userId },
+    },
+    include: { card: true },
+  });
+
+  if (!addOnCard) {
+    throw new NotFoundError('Add-on card not found');
+  }
+  return addOnCard;
+}
+
+/**
+ * Update an add-on card unless it was closed in the meantime; closing is
+ * permanent.
+ */
+async function updateOpenAddOnCard(addOnCardId: number, data: Prisma.AddOnCardUpdateInput): Promise<AddOnCard> {
+  try {
+    return await prisma.addOnCard.update({
+      where: { id: addOnCardId, status: { not: 'CLOSED' } },
+      data,
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      throw new ConflictError('Add-on card is closed');
+    }
+    throw error;
+  }
+}
+
+function formatVirtualCard(virtualCard: VirtualCard, spentPaise: Paise) {
+  const expired = (virtualCard.status === 'ACTIVE' || virtualCard.status === 'PAUSED') && isExpired(virtualCard);
+  return {
+    id: virtualCard.id,
+    cardId: virtualCard.cardId,
+    number: `****-****-****-${virtualCard.last4}`,
+    last4: virtualCard.last4,
+    label: virtualCard.label,
+    status: expired ? 'expired' : virtualCard.status.toLowerCase(),
+    spendCap: virtualCard.spendCapPaise !== null ? toRupees(virtualCard.spendCapPaise) : null,
+    spent: toRupees(spentPaise),
+    singleUse: virtualCard.singleUse,
+    merchant: virtualCard.lockedMerchant,
+    expiresAt: virtualCard.expiresAt,
+    usedAt: virtualCard.usedAt,
+    createdAt: virtualCard.createdAt,
+  };
+}
+
+/**
+ * Full number and expiry of a card or virtual card, decrypted for the
+ * reveal endpoints.
+ */
+function revealDetails(record: { panCiphertext: string | null; panDataKey: string | null; expiryMonth: number | null; expiryYear: number | null }) {
+  if (!record.panCiphertext || !record.panDataKey) {
+    throw new ConflictError('Card details are not available for this card yet');
+  }
+  const number = decryptPan(record as EncryptedPan);
+  return {
+    number: number.replace(/(\d{4})(?=\d)/g, '$1 '),
+    expiryMonth: record.expiryMonth,
+    expiryYear: record.expiryYear,
+  };
 }
 
-function getCreditLimitByProduct(product: string): number {
+function getCreditLimitByProduct(product: string): Paise {
   switch (product.toUpperCase()) {
     case 'SILVER':
-      return 100000;
+      return toPaise(100000);
     case 'GOLD':
-      return 300000;
+      return toPaise(300000);
     case 'PLATINUM':
-      return 500000;
+      return toPaise(500000);
     default:
-      return 100000;
+      return toPaise(100000);
   }
 }
 
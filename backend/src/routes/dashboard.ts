@@ -2,6 +2,9 @@ import { Router } from 'express';
 import prisma from '../config/database';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { logger } from '../config/logger';
+import { sumPaise, toRupees } from '../utils/money';
+import { getBalancesByCard } from '../utils/ledger';
+import { getPendingHoldsByCard } from '../utils/authorizations';
 
 const router = Router();
 
@@ -32,12 +35,33 @@ const router = Router();
  *                       type: number
  *                     availableCredit:
  *                       type: number
+ *                     creditBalance:
+ *                       type: number
+ *                       description: Overpayments held on cards, offset against their next statements
+ *                     pendingHolds:
+ *                       type: number
+ *                       description: Authorized transactions not yet settled; already taken out of availableCredit
  *                     totalRewards:
  *                       type: number
  *                     cards:
  *                       type: array
  *                       items:
  *                         $ref: '#/components/schemas/Card'
+ *                     pendingActivations:
+ *                       type: array
+ *                       description: New cards still to be activated, or activated but without a PIN
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           cardId:
+ *                             type: integer
+ *                           last4:
+ *                             type: string
+ *                           cardType:
+ *                             type: string
+ *                           nextStep:
+ *                             type: string
+ *                             enum: [ACTIVATE, SET_PIN]
  *                     recentTransactions:
  *                       type: array
  *                       items:
@@ -51,25 +75,48 @@ router.get('/', authenticate, async (req: AuthRequest, res, next) => {
   try {
     const userId = req.userId!;
 
-    // Get user's cards with their details
+    // Get user's cards with their details; closed cards no longer count
     const cards = await prisma.card.findMany({
-      where: { userId },
+      where: { userId, status: { not: 'CLOSED' } },
       select: {
         id: true,
-        number: true,
         last4: true,
         cardType: true,
         status: true,
-        creditLimit: true,
+        creditLimitPaise: true,
         autopayEnabled: true,
+        activatedAt: true,
+        pinHash: true,
+        pinLockedAt: true,
         createdAt: true,
       },
     });
 
+    // Delivered cards waiting on the cardholder: activation first, then a PIN
+    const pendingActivations = cards
+      .filter(card => card.status === 'INACTIVE' || (card.activatedAt !== null && card.pinHash === null))
+      .map(card => ({
+        cardId: card.id,
+        last4: card.last4,
+        cardType: card.cardType,
+        nextStep: card.status === 'INACTIVE' ? 'ACTIVATE' : 'SET_PIN',
+      }));
+
     // Calculate totals
-    const totalCreditLimit = cards.reduce((sum, card) => sum + card.creditLimit, 0);
+    const totalCreditLimitPaise = sumPaise(cards.map(card => card.creditLimitPaise));
 
-    // Get outstanding balances from statements
+    // Outstanding balances come from the ledger
+    const balances = await getBalancesByCard(prisma, cards.map(card => card.id));
+    const netPaise = cards.map(card => balances.get(card.id)?.outstandingPaise ?? 0);
+    const outstandingPaise = sumPaise(netPaise.map(paise => Math.max(paise, 0)));
+    // A card in credit owes nothing; the credit stays on that card
+    const creditBalancePaise = sumPaise(netPaise.map(paise => Math.max(-paise, 0)));
+    // Authorized but not yet settled transactions hold credit too
+    const holds = await getPendingHoldsByCard(prisma, cards.map(card => card.id));
+    const pendingHoldsPaise = sumPaise([...holds.values()]);
+    const availableCreditPaise = totalCreditLimitPaise - sumPaise(netPaise) - pendingHoldsPaise;
+
+    // Unpaid statements for the upcoming dues list
     const statements = await prisma.statement.findMany({
       where: {
         card: {
@@ -91,9 +138,6 @@ router.get('/', authenticate, async (req: AuthRequest, res, next) => {
       },
     });
 
-    const outstandingBalance = statements.reduce((sum, statement) => sum + statement.balance, 0);
-    const availableCredit = totalCreditLimit - outstandingBalance;
-
     // Get total rewards
     const rewardsData = await prisma.reward.findMany({
       where: { userId },
@@ -110,6 +154,7 @@ router.get('/', authenticate, async (req: AuthRequest, res, next) => {
             cardType: true,
           },
         },
+        addOnCard: { select: { id: true, holderName: true, last4: true } },
       },
       orderBy: {
         date: 'desc',
@@ -128,32 +173,43 @@ router.get('/', authenticate, async (req: AuthRequest, res, next) => {
     res.json({
       success: true,
       data: {
-        outstandingBalance,
-        totalCreditLimit,
-        availableCredit,
+        outstandingBalance: toRupees(outstandingPaise),
+        totalCreditLimit: toRupees(totalCreditLimitPaise),
+        availableCredit: toRupees(availableCreditPaise),
+        creditBalance: toRupees(creditBalancePaise),
+        pendingHolds: toRupees(pendingHoldsPaise),
         totalRewards,
-        cards: cards.map(card => ({
+        cards: cards.map(({ creditLimitPaise, pinHash, pinLockedAt, ...card }) => ({
           ...card,
+          pendingActivation: card.status === 'INACTIVE',
+          pinSet: pinHash !== null,
+          pinLocked: pinLockedAt !== null,
           number: `****-****-****-${card.last4}`,
+          creditLimit: toRupees(creditLimitPaise),
+          outstandingBalance: toRupees(Math.max(balances.get(card.id)?.outstandingPaise ?? 0, 0)),
+          creditBalance: toRupees(Math.max(-(balances.get(card.id)?.outstandingPaise ?? 0), 0)),
+          pendingHolds: toRupees(holds.get(card.id)),
         })),
+        pendingActivations,
         recentTransactions: recentTransactions.map(transaction => ({
           id: transaction.id,
           date: transaction.date,
           description: transaction.description || transaction.merchant,
           category: transaction.category,
-          amount: transaction.amount,
+          amount: toRupees(transaction.amountPaise),
           status: transaction.status.toLowerCase(),
           card: {
             last4: transaction.card.last4,
             cardType: transaction.card.cardType,
           },
+          addOnCard: transaction.addOnCard ?? null,
         })),
         upcomingStatements: upcomingStatements.map(statement => ({
           id: statement.id,
           cardId: statement.cardId,
           dueDate: statement.dueDate,
-          balance: statement.balance,
-          minDue: statement.minDue,
+          balance: toRupees(statement.balancePaise),
+          minDue: toRupees(statement.minDuePaise),
           card: statement.card,
         })),
       },
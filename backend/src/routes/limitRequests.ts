@@ -0,0 +1,229 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import prisma from '../config/database';
+import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth';
+import { validateBody, validateQuery, validateParams } from '../middleware/validation';
+import { logger } from '../config/logger';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { formatLimitRequest, LIMIT_REQUEST_STATUSES, MAX_CREDIT_LIMIT_PAISE, raiseCreditLimit } from '../utils/creditLimits';
+import { formatRupees, toPaise, toRupees } from '../utils/money';
+import { createLimitRequestApprovedNotification, createLimitRequestRejectedNotification } from '../utils/notifications';
+import { logActivity, createActivityData } from '../utils/activityLogger';
+
+const router = Router();
+
+// Validation schemas
+const queueQuerySchema = z.object({
+  page: z.string().optional().transform(val => val ? parseInt(val) : 1),
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 20),
+  status: z.enum(LIMIT_REQUEST_STATUSES).default('PENDING'),
+});
+
+const idParamSchema = z.object({
+  id: z.string().transform(val => parseInt(val)),
+});
+
+const reviewSchema = z.object({
+  status: z.enum(['APPROVED', 'REJECTED']),
+  approvedLimit: z.number().int().positive().max(toRupees(MAX_CREDIT_LIMIT_PAISE), 'Limit cannot exceed ₹10,00,000').optional(),
+  reason: z.string().trim().min(1).max(500).optional(),
+}).refine(({ status, approvedLimit }) => status === 'APPROVED' || approvedLimit === undefined, {
+  message: 'approvedLimit is only for approvals',
+  path: ['approvedLimit'],
+});
+
+/**
+ * @swagger
+ * /api/limit-requests:
+ *   get:
+ *     summary: Limit increase requests to review, oldest first (Admin only)
+ *     tags: [Limit Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED]
+ *           default: PENDING
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Limit requests retrieved successfully
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/', authenticate, requireAdmin, validateQuery(queueQuerySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { page, limit, status } = req.query as any;
+    const skip = (page - 1) * limit;
+
+    const [limitRequests, total] = await Promise.all([
+      prisma.limitRequest.findMany({
+        where: { status },
+        orderBy: { createdAt: 'asc' },
+        skip,
+        take: limit,
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+          card: { select: { id: true, last4: true, cardType: true, status: true, creditLimitPaise: true } },
+        },
+      }),
+      prisma.limitRequest.count({ where: { status } }),
+    ]);
+
+    res.json({
+      success: true,
+      data: limitRequests.map(({ user, card, ...limitRequest }) => ({
+        ...formatLimitRequest(limitRequest),
+        user,
+        card: {
+          id: card.id,
+          last4: card.last4,
+          cardType: card.cardType,
+          status: card.status,
+          creditLimit: toRupees(card.creditLimitPaise),
+        },
+      })),
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/limit-requests/{id}/status:
+ *   patch:
+ *     summary: Approve or reject a limit increase request (Admin only)
+ *     description: >
+ *       An approval raises the card's limit to the requested one, or to
+ *       `approvedLimit` if given (above the current limit, at most what was
+ *       requested).
+ *     tags: [Limit Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               approvedLimit:
+ *                 type: integer
+ *                 description: Rupees
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Limit request reviewed
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.patch('/:id/status', authenticate, requireAdmin, validateParams(idParamSchema), validateBody(reviewSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params as any;
+    const { status, approvedLimit, reason } = req.body;
+
+    const limitRequest = await prisma.limitRequest.findUnique({
+      where: { id },
+      include: { card: true },
+    });
+
+    if (!limitRequest) {
+      throw new NotFoundError('Limit request not found');
+    }
+    if (limitRequest.status !== 'PENDING') {
+      throw new ConflictError('Limit request has already been reviewed');
+    }
+
+    const { card } = limitRequest;
+    const approvedLimitPaise = status === 'APPROVED'
+      ? (approvedLimit !== undefined ? toPaise(approvedLimit) : limitRequest.requestedLimitPaise)
+      : null;
+    if (approvedLimitPaise !== null) {
+      if (approvedLimitPaise > limitRequest.requestedLimitPaise) {
+        throw new ValidationError('Approved limit cannot be more than was requested');
+      }
+      if (approvedLimitPaise <= card.creditLimitPaise) {
+        throw new ValidationError(`Approved limit must be above the current limit of ${formatRupees(card.creditLimitPaise)}`);
+      }
+    }
+
+    const now = new Date();
+    const review = {
+      status,
+      approvedLimitPaise,
+      reason: reason ?? null,
+      reviewedBy: req.userId!,
+      reviewedAt: now,
+    };
+
+    await prisma.$transaction(async (tx) => {
+      // Only one review of a request goes through
+      const reviewed = await tx.limitRequest.updateMany({
+        where: { id, status: 'PENDING' },
+        data: review,
+      });
+      if (reviewed.count === 0) {
+        throw new ConflictError('Limit request has already been reviewed');
+      }
+
+      if (approvedLimitPaise !== null) {
+        await raiseCreditLimit(tx, card.id, approvedLimitPaise, now);
+      }
+    });
+
+    if (approvedLimitPaise !== null) {
+      await createLimitRequestApprovedNotification(limitRequest.userId, card.last4, approvedLimitPaise);
+      await logActivity(limitRequest.userId, createActivityData.creditLimitIncreased(card.last4, approvedLimitPaise, 'REQUEST'));
+    } else {
+      await createLimitRequestRejectedNotification(limitRequest.userId, card.last4, reason);
+    }
+
+    logger.info(`Limit request ${id} ${status.toLowerCase()} by admin ${req.userId}`);
+
+    res.json({
+      success: true,
+      data: formatLimitRequest({ ...limitRequest, ...review }),
+      message: `Limit request ${status.toLowerCase()} successfully`,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,153 @@
+import { Router } from 'express';
+import { Offer } from '@prisma/client';
+import { z } from 'zod';
+import prisma from '../config/database';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { validateParams } from '../middleware/validation';
+import { logger } from '../config/logger';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { raiseCreditLimit } from '../utils/creditLimits';
+import { toRupees } from '../utils/money';
+import { logActivity, createActivityData } from '../utils/activityLogger';
+
+const router = Router();
+
+// Validation schemas
+const idParamSchema = z.object({
+  id: z.string().transform(val => parseInt(val)),
+});
+
+/**
+ * @swagger
+ * /api/offers:
+ *   get:
+ *     summary: Get the offers open to the user, newest first
+ *     description: >
+ *       Includes pre-approved credit limit increases (type LIMIT_INCREASE)
+ *       made by the periodic limit review, which can be accepted.
+ *     tags: [Offers]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Offers retrieved successfully
+ */
+router.get('/', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const now = new Date();
+
+    const offers = await prisma.offer.findMany({
+      where: {
+        isActive: true,
+        OR: [{ userId }, { userId: null }],
+        AND: [{ OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] }],
+      },
+      orderBy: { createdAt: 'desc' },
+      include: { card: { select: { last4: true, creditLimitPaise: true } } },
+    });
+
+    res.json({
+      success: true,
+      data: offers.map(({ card, ...offer }) => ({
+        ...formatOffer(offer),
+        card: card && { last4: card.last4, creditLimit: toRupees(card.creditLimitPaise) },
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/offers/{id}/accept:
+ *   post:
+ *     summary: Accept a pre-approved credit limit increase
+ *     description: The card's limit is raised straight away.
+ *     tags: [Offers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Offer accepted and limit raised
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.post('/:id/accept', authenticate, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params as any;
+
+    const offer = await prisma.offer.findFirst({
+      where: {
+        id,
+        userId,
+        type: 'LIMIT_INCREASE',
+      },
+      include: { card: true },
+    });
+
+    if (!offer || !offer.card || offer.creditLimitPaise === null) {
+      throw new NotFoundError('Offer not found');
+    }
+
+    const now = new Date();
+    if (!offer.isActive || (offer.expiresAt && offer.expiresAt <= now)) {
+      throw new ConflictError('Offer is no longer available');
+    }
+
+    const { card, creditLimitPaise } = offer;
+    await prisma.$transaction(async (tx) => {
+      // Only one acceptance of an offer goes through
+      const accepted = await tx.offer.updateMany({
+        where: { id: offer.id, isActive: true },
+        data: { isActive: false, acceptedAt: now },
+      });
+      if (accepted.count === 0) {
+        throw new ConflictError('Offer is no longer available');
+      }
+
+      await raiseCreditLimit(tx, card.id, creditLimitPaise, now);
+    });
+
+    await logActivity(userId, createActivityData.creditLimitIncreased(card.last4, creditLimitPaise, 'OFFER'));
+    logger.info(`Limit offer ${id} accepted by user ${userId}; card ${card.id} limit now ${creditLimitPaise} paise`);
+
+    res.json({
+      success: true,
+      data: {
+        cardId: card.id,
+        creditLimit: toRupees(creditLimitPaise),
+        acceptedAt: now,
+      },
+      message: 'Credit limit increased',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Helper functions
+function formatOffer(offer: Offer) {
+  return {
+    id: offer.id,
+    type: offer.type,
+    title: offer.title,
+    description: offer.description,
+    cardId: offer.cardId,
+    creditLimit: offer.creditLimitPaise !== null ? toRupees(offer.creditLimitPaise) : null,
+    expiresAt: offer.expiresAt,
+    createdAt: offer.createdAt,
+  };
+}
+
+export default router;
@@ -1,37 +1,72 @@
 // backend/src/routes/payments.ts
 import { Router } from 'express';
+import { Payment, PaymentAdjustment, Prisma } from '@prisma/client';
 import { z } from 'zod';
 import prisma from '../config/database';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { ALLOW_OVERPAYMENT } from '../config/payments';
+import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth';
+import { RawBodyRequest } from '../middleware/rawBody';
+import { idempotent } from '../middleware/idempotency';
 import { validateBody, validateQuery } from '../middleware/validation';
 import { logger } from '../config/logger';
-import { NotFoundError, ValidationError, ForbiddenError } from '../middleware/errorHandler';
-import { createPaymentSuccessNotification, createPaymentFailedNotification } from '../utils/notifications';
-import { logActivity, createActivityData } from '../utils/activityLogger';
-import { razorpay, verifyRazorpaySignature } from '../config/razorpay';
+import { NotFoundError, ValidationError, ForbiddenError, ConflictError, CheckoutRequiredError } from '../middleware/errorHandler';
+import { processPayment } from '../utils/paymentProcessor';
+import { isOpenPaymentStatus, PAYMENT_STATUSES, paymentStateData, paymentTimeline, transitionPayment } from '../utils/paymentState';
+import { getPaymentGateway } from '../gateways';
+import { formatRupees, hasAtMostTwoDecimals, toPaise, toRupees } from '../utils/money';
+import { getCardBalances } from '../utils/ledger';
+import { recordGatewayEvent } from '../utils/gatewayWebhooks';
+import { refundPayment, reversePayment } from '../utils/paymentAdjustments';
+import { renderPaymentReceipt, sendPdf } from '../utils/documents';
 
 const router = Router();
 
 // Validation schemas
 const createPaymentSchema = z.object({
   cardId: z.number().int().positive(),
-  amount: z.number().positive().max(1000000, 'Amount cannot exceed ₹10,00,000'),
+  amount: z.number().positive().max(1000000, 'Amount cannot exceed ₹10,00,000')
+    .refine(hasAtMostTwoDecimals, 'Amount cannot have more than 2 decimal places'),
   method: z.enum(['bank', 'card', 'instant']),
 });
 
 const paymentQuerySchema = z.object({
   page: z.string().optional().transform(val => val ? parseInt(val) : 1),
   limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
-  status: z.enum(['PENDING', 'SUCCESS', 'FAILED']).optional(),
+  status: z.enum(PAYMENT_STATUSES).optional(),
   cardId: z.string().optional().transform(val => val ? parseInt(val) : undefined),
 });
 
-const webhookSchema = z.object({
-  paymentId: z.string(),
-  status: z.enum(['SUCCESS', 'FAILED']),
-  externalId: z.string().optional(),
+const createOrderSchema = z.object({
+  cardId: z.number().int().positive(),
+  amount: z.number().positive().max(1000000, 'Amount cannot exceed ₹10,00,000')
+    .refine(hasAtMostTwoDecimals, 'Amount cannot have more than 2 decimal places'),
+  currency: z.literal('INR').default('INR'),
+});
+
+const verifyOrderSchema = z.object({
+  razorpay_order_id: z.string().min(1),
+  razorpay_payment_id: z.string().min(1),
+  razorpay_signature: z.string().min(1),
+});
+
+const refundSchema = z.object({
+  amount: z.number().positive().max(1000000, 'Amount cannot exceed ₹10,00,000')
+    .refine(hasAtMostTwoDecimals, 'Amount cannot have more than 2 decimal places')
+    .optional(), // Defaults to everything not yet refunded
+  reason: z.string().trim().min(3).max(500),
 });
 
+const reversalSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+});
+
+const documentFormatSchema = z.object({
+  format: z.enum(['json', 'pdf']).default('json'),
+});
+
+// Payments that went through and can be filed with a PDF receipt
+const RECEIPT_STATUSES = ['SUCCESS', 'REFUNDED', 'REVERSED'];
+
 /**
  * Utility: normalize DB status -> API lowercase
  */
@@ -40,14 +75,37 @@ function normalizeStatus(status: string | null | undefined) {
   return String(status).toLowerCase();
 }
 
+/**
+ * Utility: refund/reversal -> API shape
+ */
+function formatAdjustment(adjustment: PaymentAdjustment) {
+  return {
+    id: adjustment.id,
+    type: adjustment.type.toLowerCase(),
+    status: adjustment.status.toLowerCase(),
+    amount: toRupees(adjustment.amountPaise),
+    reason: adjustment.reason,
+    gatewayRefundId: adjustment.gatewayRefundId,
+    createdAt: adjustment.createdAt,
+    processedAt: adjustment.processedAt,
+  };
+}
+
 /**
  * POST /api/payments
- * Create a payment
+ * Create a payment. It is queued as PENDING and settled by the payment worker.
  */
-router.post('/', authenticate, validateBody(createPaymentSchema), async (req: AuthRequest, res, next) => {
+router.post('/', authenticate, idempotent(), validateBody(createPaymentSchema), async (req: AuthRequest, res, next) => {
   try {
     const userId = req.userId!;
     const { cardId, amount, method } = req.body;
+    const amountPaise = toPaise(amount);
+    const idempotencyKey = req.header('Idempotency-Key')?.trim() || undefined;
+
+    // The payment worker charges the payer off-session, which not every gateway can do
+    if (!getPaymentGateway().canChargeOffSession) {
+      throw new CheckoutRequiredError('This payment has to be made through checkout (POST /api/payments/razorpay/create-order)');
+    }
 
     // Verify card ownership
     const card = await prisma.card.findFirst({
@@ -65,82 +123,36 @@ router.post('/', authenticate, validateBody(createPaymentSchema), async (req: Au
       throw new ForbiddenError('Card is not active');
     }
 
-    // Get outstanding balance across unpaid statements
-    const statements = await prisma.statement.findMany({
-      where: {
-        cardId,
-        isPaid: false,
-      },
-      orderBy: { dueDate: 'asc' }
-    });
-
-    const outstandingBalance = statements.reduce((sum, statement) => sum + (Number(statement.balance) || 0), 0);
+    // Outstanding balance from the card's ledger; paying more is only
+    // allowed when overpayments are held as credit balance
+    const { outstandingPaise } = await getCardBalances(prisma, cardId);
 
-    if (amount > outstandingBalance) {
-      throw new ValidationError(`Payment amount (₹${amount.toLocaleString()}) cannot exceed outstanding balance (₹${outstandingBalance.toLocaleString()})`);
+    if (!ALLOW_OVERPAYMENT && amountPaise > outstandingPaise) {
+      throw new ValidationError(`Payment amount (${formatRupees(amountPaise)}) cannot exceed outstanding balance (${formatRupees(outstandingPaise)})`);
     }
 
-    // Idempotency: attempt to read Idempotency-Key header if client supplies it
-    const idempotencyKey = (req.header('Idempotency-Key') || '').trim() || undefined;
-    if (idempotencyKey) {
-      // If you add idempotencyKey column later, prefer querying on that unique field.
-      // For now, try to find a recent payment with same key stored in metadata (if present).
-      try {
-        // safe guard: if you've added idempotencyKey to the Payment model in DB,
-        // this will work. If not, this will throw and we ignore (catch below).
-        const existing = await prisma.payment.findFirst({ where: { idempotencyKey } as any });
-        if (existing) {
-          // Return the existing payment response (idempotent)
-          // compute fresh newBalance: read statements again (may have changed)
-          const freshStatements = await prisma.statement.findMany({ where: { cardId, isPaid: false }});
-          const freshOutstanding = freshStatements.reduce((s, st) => s + (Number(st.balance) || 0), 0);
-
-          return res.status(200).json({
-            success: true,
-            data: {
-              paymentId: existing.id,
-              amount: existing.amount,
-              method: existing.method,
-              status: normalizeStatus(existing.status),
-              newBalance: freshOutstanding,
-              timestamp: existing.createdAt,
-            },
-            message: 'Idempotent: returning existing payment',
-          });
-        }
-      } catch (err) {
-        // If idempotencyKey field doesn't exist yet in DB, continue.
-        logger.debug('Idempotency check skipped (idempotencyKey field may not exist):', (err as any)?.message ?? err);
+    // Queued for the payment worker (src/jobs/paymentWorker.ts)
+    let payment: Payment;
+    try {
+      payment = await prisma.payment.create({
+        data: {
+          cardId,
+          userId,
+          amountPaise,
+          method,
+          ...paymentStateData('PENDING'),
+          // Replays are answered by the idempotency middleware; this guards the row itself
+          idempotencyKey: idempotencyKey ? `${userId}:${idempotencyKey}` : undefined,
+        },
+      });
+    } catch (error) {
+      // The stored response for the key has expired, but its payment remains
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('This Idempotency-Key was already used for an earlier payment; use a new key');
       }
+      throw error;
     }
 
-    // Create payment record (status = PENDING initially)
-    const payment = await prisma.payment.create({
-      data: {
-        cardId,
-        userId,
-        amount,
-        method,
-        status: 'PENDING',
-        // if idempotencyKey exists in schema, you could set it here:
-        // idempotencyKey: idempotencyKey || undefined,
-      },
-    });
-
-    // Decide whether to process immediately or keep pending:
-    // We keep the existing behaviour: simulate external processing asynchronously.
-    const isSuccess = Math.random() > 0.05; // 95% success rate
-    const finalStatus = isSuccess ? 'SUCCESS' : 'FAILED';
-
-    // Simulate processing asynchronously
-    setTimeout(async () => {
-      try {
-        await processPayment(payment.id, finalStatus, card.last4, userId, amount);
-      } catch (error) {
-        logger.error('Payment processing error:', error);
-      }
-    }, 1000 + Math.random() * 2000);
-
     logger.info(`Payment created: ${payment.id} for card ${cardId} by user ${userId}`);
 
     // Build response: include current outstanding (since payment is PENDING, balance unchanged)
@@ -148,10 +160,10 @@ router.post('/', authenticate, validateBody(createPaymentSchema), async (req: Au
       success: true,
       data: {
         paymentId: payment.id,
-        amount: payment.amount,
+        amount: toRupees(payment.amountPaise),
         method: payment.method,
         status: normalizeStatus(payment.status),
-        newBalance: outstandingBalance, // unchanged while pending
+        newBalance: toRupees(outstandingPaise), // unchanged while pending
         timestamp: payment.createdAt,
       },
       message: 'Payment initiated successfully',
@@ -198,7 +210,7 @@ router.get('/', authenticate, validateQuery(paymentQuerySchema), async (req: Aut
       success: true,
       data: payments.map(payment => ({
         id: payment.id,
-        amount: payment.amount,
+        amount: toRupees(payment.amountPaise),
         method: payment.method,
         status: normalizeStatus(payment.status),
         card: {
@@ -220,6 +232,19 @@ router.get('/', authenticate, validateQuery(paymentQuerySchema), async (req: Aut
   }
 });
 
+// GET /api/payments/options - what the configured gateway can do. Payments
+// made outside checkout (queued, scheduled, autopay) need off-session charges.
+router.get('/options', authenticate, (req: AuthRequest, res) => {
+  const gateway = getPaymentGateway();
+  res.json({
+    success: true,
+    data: {
+      gateway: gateway.name,
+      chargeOutsideCheckout: gateway.canChargeOffSession,
+    },
+  });
+});
+
 // GET /api/payments/:id - payment detail
 router.get('/:id', authenticate, async (req: AuthRequest, res, next) => {
   try {
@@ -230,6 +255,7 @@ router.get('/:id', authenticate, async (req: AuthRequest, res, next) => {
       where: { id: paymentId, userId },
       include: {
         card: { select: { last4: true, cardType: true } },
+        adjustments: { orderBy: { createdAt: 'asc' } },
       },
     });
 
@@ -241,13 +267,17 @@ router.get('/:id', authenticate, async (req: AuthRequest, res, next) => {
       success: true,
       data: {
         id: payment.id,
-        amount: payment.amount,
+        amount: toRupees(payment.amountPaise),
         method: payment.method,
         status: payment.status.toLowerCase(),
+        failureReason: payment.failureReason,
+        refundedAmount: toRupees(payment.refundedPaise),
+        adjustments: payment.adjustments.map(formatAdjustment),
         card: {
           last4: payment.card?.last4 ?? null,
           cardType: payment.card?.cardType ?? null,
         },
+        timeline: paymentTimeline(payment),
         createdAt: payment.createdAt,
         updatedAt: payment.updatedAt,
         externalId: payment.externalId || null,
@@ -258,16 +288,18 @@ router.get('/:id', authenticate, async (req: AuthRequest, res, next) => {
   }
 });
 
-// GET /api/payments/:id/receipt - simple JSON receipt
-router.get('/:id/receipt', authenticate, async (req: AuthRequest, res, next) => {
+// GET /api/payments/:id/receipt - simple JSON receipt, or a PDF with ?format=pdf
+router.get('/:id/receipt', authenticate, validateQuery(documentFormatSchema), async (req: AuthRequest, res, next) => {
   try {
     const userId = req.userId!;
     const paymentId = req.params.id;
+    const { format } = req.query as any;
 
     const payment = await prisma.payment.findFirst({
       where: { id: paymentId, userId },
       include: {
         card: { select: { last4: true, cardType: true } },
+        adjustments: { where: { status: { not: 'FAILED' } }, orderBy: { createdAt: 'asc' } },
       },
     });
 
@@ -275,16 +307,33 @@ router.get('/:id/receipt', authenticate, async (req: AuthRequest, res, next) =>
       throw new NotFoundError('Payment not found');
     }
 
+    if (format === 'pdf') {
+      if (!RECEIPT_STATUSES.includes(payment.status)) {
+        throw new ValidationError(`No receipt is available for a ${payment.status.toLowerCase()} payment`);
+      }
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+      return sendPdf(res, `receipt-${payment.id}.pdf`, renderPaymentReceipt(payment, user?.name ?? ''));
+    }
+
+    const receiptMessages: Record<string, string> = {
+      SUCCESS: payment.refundedPaise > 0 ? 'Payment processed successfully and partially refunded' : 'Payment processed successfully',
+      REFUNDED: 'Payment refunded',
+      REVERSED: 'Payment reversed',
+    };
+
     // Minimal receipt object — frontend displays whatever fields it needs
     const receipt = {
       paymentId: payment.id,
-      amount: payment.amount,
+      amount: toRupees(payment.amountPaise),
       method: payment.method,
       status: payment.status.toLowerCase(),
       cardLast4: payment.card?.last4 ?? null,
       timestamp: payment.createdAt,
+      settledAt: payment.succeededAt ?? payment.failedAt,
       externalId: payment.externalId || null,
-      message: payment.status === 'SUCCESS' ? 'Payment processed successfully' : 'Payment not completed',
+      refundedAmount: toRupees(payment.refundedPaise),
+      adjustments: payment.adjustments.map(formatAdjustment),
+      message: receiptMessages[payment.status] ?? 'Payment not completed',
     };
 
     res.json({
@@ -296,265 +345,265 @@ router.get('/:id/receipt', authenticate, async (req: AuthRequest, res, next) =>
   }
 });
 
-
 /**
- * POST /api/payments/webhook
- * External gateway sends updates here
+ * POST /api/payments/:id/refunds (admin)
+ * Refund a successful payment, in full or for `amount` rupees. Gateway
+ * payments are refunded through the gateway. The statements the payment paid
+ * are re-opened and the user is notified.
  */
-router.post('/webhook', validateBody(webhookSchema), async (req, res, next) => {
+router.post('/:id/refunds', authenticate, requireAdmin, idempotent(), validateBody(refundSchema), async (req: AuthRequest, res, next) => {
   try {
-    const { paymentId, status, externalId } = req.body;
+    const { amount, reason } = req.body;
 
-    const payment = await prisma.payment.findUnique({
-      where: { id: paymentId },
-      include: {
-        card: {
-          select: {
-            last4: true,
-          },
-        },
-      },
+    const adjustment = await refundPayment(req.params.id, {
+      amountPaise: amount !== undefined ? toPaise(amount) : undefined,
+      reason,
+      adminId: req.userId!,
     });
 
-    if (!payment) {
-      throw new NotFoundError('Payment not found');
-    }
+    logger.info(`Refund ${adjustment.id} of ${formatRupees(adjustment.amountPaise)} on payment ${req.params.id} by admin ${req.userId}`);
 
-    await processPayment(paymentId, status, payment.card.last4, payment.userId, payment.amount, externalId);
-
-    return res.json({ success: true, message: 'Webhook processed successfully' });
+    res.status(adjustment.status === 'PROCESSED' ? 201 : 202).json({
+      success: true,
+      data: formatAdjustment(adjustment),
+      message: adjustment.status === 'PROCESSED' ? 'Payment refunded' : 'Refund is being processed by the gateway',
+    });
   } catch (error) {
     next(error);
   }
 });
 
 /**
- * Core processing helper (unchanged logic, atomic):
- * - update payment status
- * - if success: apply amount to oldest unpaid statements (FIFO)
- * - send notifications
+ * POST /api/payments/:id/reversals (admin)
+ * Record that a successful payment bounced (e.g. a bank return). Whatever
+ * has not been refunded is reversed and owed again on the card.
  */
-async function processPayment(
-  paymentId: string,
-  status: 'SUCCESS' | 'FAILED',
-  cardLast4: string,
-  userId: number,
-  amount: number,
-  externalId?: string
-) {
+router.post('/:id/reversals', authenticate, requireAdmin, idempotent(), validateBody(reversalSchema), async (req: AuthRequest, res, next) => {
   try {
-    await prisma.$transaction(async (tx) => {
-      // Update payment record
-      const updatedPayment = await tx.payment.update({
-        where: { id: paymentId },
-        data: {
-          status,
-          externalId,
-        },
-      });
+    const adjustment = await reversePayment(req.params.id, {
+      reason: req.body.reason,
+      adminId: req.userId!,
+    });
 
-      if (status === 'SUCCESS') {
-        // Find unpaid statements and apply payment (oldest due first)
-        const statements = await tx.statement.findMany({
-          where: {
-            cardId: updatedPayment.cardId,
-            isPaid: false,
-          },
-          orderBy: {
-            dueDate: 'asc',
-          },
-        });
+    logger.info(`Payment ${req.params.id} reversed by admin ${req.userId}: ${adjustment.reason}`);
 
-        let remainingAmount = Number(amount);
-        for (const statement of statements) {
-          if (remainingAmount <= 0) break;
-
-          if (remainingAmount >= Number(statement.balance)) {
-            // pay off whole statement
-            const paymentToUse = Number(statement.balance);
-            await tx.statement.update({
-              where: { id: statement.id },
-              data: { isPaid: true, balance: 0 },
-            });
-            remainingAmount -= paymentToUse;
-          } else {
-            // partial payment
-            await tx.statement.update({
-              where: { id: statement.id },
-              data: { balance: Number(statement.balance) - remainingAmount },
-            });
-            remainingAmount = 0;
-          }
-        }
-
-        // success notification
-        await createPaymentSuccessNotification(userId, amount, cardLast4);
-        
-        // Log successful payment activity
-        await logActivity(userId, createActivityData.payment(amount, 'bank', 'SUCCESS'));
-      } else {
-        // failed notification
-        await createPaymentFailedNotification(userId, amount, cardLast4);
-        
-        // Log failed payment activity
-        await logActivity(userId, createActivityData.payment(amount, 'bank', 'FAILED'));
-      }
+    res.status(201).json({
+      success: true,
+      data: formatAdjustment(adjustment),
+      message: 'Payment reversed',
     });
-
-    logger.info(`Payment ${paymentId} processed with status ${status}`);
   } catch (error) {
-    logger.error(`Error processing payment ${paymentId}:`, error);
-    throw error;
+    next(error);
   }
-}
+});
 
 /**
  * POST /api/payments/razorpay/create-order
- * Create a Razorpay order
+ * Create a gateway order for a card payment. The payment is recorded before
+ * the order (CREATED) and becomes PENDING once the gateway has the order, so
+ * verification can only settle the card it was made for.
  */
-router.post('/razorpay/create-order', async (req, res, next) => {
+router.post('/razorpay/create-order', authenticate, idempotent(), validateBody(createOrderSchema), async (req: AuthRequest, res, next) => {
   try {
-    // For testing purposes, use a default userId when no auth
-    const userId = req.headers.authorization ? (req as AuthRequest).userId : 1;
-    const { amount, currency = 'INR' } = req.body;
-
-    if (!amount || amount <= 0) {
-      return res.status(400).json({
-        success: false,
-        message: 'Invalid amount',
-      });
+    const userId = req.userId!;
+    const { cardId, amount, currency } = req.body;
+    const amountPaise = toPaise(amount);
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id: cardId,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    if (card.status !== 'ACTIVE') {
+      throw new ForbiddenError('Card is not active');
     }
 
-    // Create Razorpay order
-    const order = await razorpay.orders.create({
-      amount: amount, // Amount in paise
-      currency: currency,
-      receipt: `receipt_${Date.now()}_${userId}`,
-      notes: {
-        userId: userId.toString(),
-        type: 'credit_card_payment',
+    const { outstandingPaise } = await getCardBalances(prisma, cardId);
+
+    if (!ALLOW_OVERPAYMENT && amountPaise > outstandingPaise) {
+      throw new ValidationError(`Payment amount (${formatRupees(amountPaise)}) cannot exceed outstanding balance (${formatRupees(outstandingPaise)})`);
+    }
+
+    let payment = await prisma.payment.create({
+      data: {
+        cardId,
+        userId,
+        amountPaise,
+        method: 'razorpay',
+        ...paymentStateData('CREATED'),
       },
     });
 
-    logger.info(`Razorpay order created: ${order.id} for user ${userId}`);
+    const gateway = getPaymentGateway();
+    let order;
+    try {
+      order = await gateway.createOrder({
+        amountPaise,
+        currency,
+        receipt: `receipt_${Date.now()}_${userId}`,
+        notes: {
+          userId: userId.toString(),
+          cardId: cardId.toString(),
+          paymentId: payment.id,
+          type: 'credit_card_payment',
+        },
+      });
+    } catch (error) {
+      await transitionPayment(prisma, payment.id, 'FAILED', {
+        failureReason: error instanceof Error ? error.message : 'Order could not be created',
+      });
+      throw error;
+    }
+
+    payment = await transitionPayment(prisma, payment.id, 'PENDING', { razorpayOrderId: order.id });
+
+    logger.info(`${gateway.name} order created: ${order.id} for card ${cardId} by user ${userId} (payment ${payment.id})`);
 
     res.json({
       success: true,
-      order: order,
+      order: {
+        id: order.id,
+        amount: order.amountPaise, // Checkout expects paise
+        currency: order.currency,
+        receipt: order.receipt,
+        status: order.status,
+      },
+      paymentId: payment.id,
     });
   } catch (error) {
-    logger.error('Error creating Razorpay order:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to create order',
-    });
+    next(error);
   }
 });
 
 /**
  * POST /api/payments/razorpay/verify
- * Verify Razorpay payment
+ * Verify a checkout response and settle the card through processPayment
  */
-router.post('/razorpay/verify', async (req, res, next) => {
+router.post('/razorpay/verify', authenticate, validateBody(verifyOrderSchema), async (req: AuthRequest, res, next) => {
   try {
-    // For testing purposes, use a default userId when no auth
-    const userId = req.headers.authorization ? (req as AuthRequest).userId : 1;
+    const userId = req.userId!;
     const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
 
-    if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
-      return res.status(400).json({
-        success: false,
-        message: 'Missing payment verification data',
-      });
+    const paymentRecord = await prisma.payment.findFirst({
+      where: { razorpayOrderId: razorpay_order_id, userId },
+      include: { card: { select: { last4: true } } },
+    });
+
+    if (!paymentRecord) {
+      throw new NotFoundError('Payment order not found');
     }
 
-    // Verify the payment signature
-    const isValidSignature = verifyRazorpaySignature(
-      razorpay_order_id,
-      razorpay_payment_id,
-      razorpay_signature
-    );
+    const gateway = getPaymentGateway();
+    if (!gateway.verifyPaymentSignature(razorpay_order_id, razorpay_payment_id, razorpay_signature)) {
+      logger.warn(`Invalid ${gateway.name} signature for order ${razorpay_order_id} by user ${userId}`);
+      throw new ValidationError('Invalid payment signature');
+    }
 
-    logger.info(`Signature verification result: ${isValidSignature} for order ${razorpay_order_id}`);
-    
-    // For testing purposes, we'll proceed even if signature verification fails
-    // In production, you should enforce this strictly
-    if (!isValidSignature) {
-      logger.warn(`Invalid Razorpay signature for order ${razorpay_order_id}, proceeding for testing`);
+    const respond = (status: string, message: string) =>
+      res.status(status === 'pending' ? 202 : 200).json({
+        success: true,
+        payment: {
+          id: paymentRecord.id,
+          amount: toRupees(paymentRecord.amountPaise),
+          method: paymentRecord.method,
+          status,
+          razorpayPaymentId: razorpay_payment_id,
+          razorpayOrderId: razorpay_order_id,
+        },
+        message,
+      });
+
+    // A retried verify for an order that was already settled
+    if (!isOpenPaymentStatus(paymentRecord.status)) {
+      if (paymentRecord.razorpayPaymentId !== razorpay_payment_id) {
+        throw new ConflictError('Payment order has already been settled');
+      }
+      return respond(normalizeStatus(paymentRecord.status)!, 'Payment already verified');
     }
 
-    // Get payment details from Razorpay
-    const payment = await razorpay.payments.fetch(razorpay_payment_id);
-    const order = await razorpay.orders.fetch(razorpay_order_id);
+    const payment = await gateway.fetchPayment(razorpay_payment_id);
+
+    if (payment.orderId !== razorpay_order_id || payment.amountPaise !== paymentRecord.amountPaise) {
+      throw new ValidationError('Payment does not match the order');
+    }
 
     logger.info(`Payment status: ${payment.status} for payment ${razorpay_payment_id}`);
-    
-    // For testing, accept multiple payment statuses
-    const validStatuses = ['captured', 'authorized'];
-    if (!validStatuses.includes(payment.status)) {
-      logger.warn(`Payment status ${payment.status} not in valid statuses, proceeding for testing`);
+
+    if (payment.status !== 'captured' && payment.status !== 'failed') {
+      // Not settled yet, authorized payments included (they can still be voided or
+      // expire uncaptured); the gateway webhook or the payment worker will finish it
+      if (paymentRecord.status === 'PENDING') {
+        await transitionPayment(prisma, paymentRecord.id, 'PROCESSING', { razorpayPaymentId: razorpay_payment_id });
+      } else {
+        await prisma.payment.update({
+          where: { id: paymentRecord.id },
+          data: { razorpayPaymentId: razorpay_payment_id },
+        });
+      }
+      return respond('pending', 'Payment is being confirmed');
     }
 
-    // Find user's card for the payment (optional for Razorpay payments)
-    const userCard = await prisma.card.findFirst({
-      where: { userId },
+    await prisma.payment.update({
+      where: { id: paymentRecord.id },
+      data: { razorpayPaymentId: razorpay_payment_id },
     });
 
-    // Create payment record in database (always create, even without card)
-    let paymentRecord;
-    try {
-      paymentRecord = await prisma.payment.create({
-        data: {
-          cardId: userCard?.id || null, // Use card ID if available, otherwise null
-          userId: userId,
-          amount: Number(payment.amount) / 100, // Convert from paise to rupees
-          method: 'razorpay',
-          status: 'SUCCESS',
-          externalId: razorpay_payment_id,
-          razorpayOrderId: razorpay_order_id,
-          razorpayPaymentId: razorpay_payment_id,
-        },
-      });
-      logger.info(`Payment record created in database: ${paymentRecord.id} for user ${userId}`);
-    } catch (dbError) {
-      logger.error(`Failed to create payment record in database:`, dbError);
-      throw new Error(`Database error: Failed to save payment record`);
+    const status = payment.status === 'failed' ? 'FAILED' : 'SUCCESS';
+    await processPayment(
+      paymentRecord.id,
+      status,
+      paymentRecord.card?.last4 ?? 'N/A',
+      userId,
+      paymentRecord.amountPaise,
+      razorpay_payment_id,
+      payment.errorDescription ?? undefined
+    );
+
+    logger.info(`${gateway.name} payment verified: ${razorpay_payment_id} for user ${userId} with status ${status}`);
+
+    if (status === 'FAILED') {
+      throw new ValidationError(payment.errorDescription || 'Payment failed');
     }
 
-    // Log activity
-    await logActivity(userId, createActivityData.payment(
-      payment.amount / 100,
-      'razorpay',
-      'SUCCESS'
-    ));
+    return respond('success', 'Payment verified successfully');
+  } catch (error) {
+    next(error);
+  }
+});
 
-    // Create success notification
-    await createPaymentSuccessNotification(
-      userId,
-      payment.amount / 100,
-      userCard?.last4 || 'N/A'
+/**
+ * POST /api/payments/razorpay/webhook
+ * Server-to-server gateway events. The signature is checked over the raw body
+ * and every event is stored once in GatewayEvent.
+ */
+router.post('/razorpay/webhook', async (req: RawBodyRequest, res, next) => {
+  try {
+    if (req.rawBody === undefined) {
+      throw new ValidationError('Webhook body must be JSON');
+    }
+
+    const gateway = getPaymentGateway();
+    const event = gateway.parseWebhook(
+      req.rawBody,
+      req.header('X-Razorpay-Signature'),
+      req.header('X-Razorpay-Event-Id')
     );
 
-    logger.info(`Razorpay payment verified: ${razorpay_payment_id} for user ${userId}`);
+    const { status, duplicate } = await recordGatewayEvent(gateway.name, event);
 
     res.json({
       success: true,
-      payment: {
-        id: paymentRecord.id,
-        amount: Number(payment.amount) / 100,
-        method: 'razorpay',
-        status: 'SUCCESS',
-        razorpayPaymentId: razorpay_payment_id,
-        razorpayOrderId: razorpay_order_id,
-      },
-      message: 'Payment verified successfully',
+      data: { eventId: event.id, type: event.type, status: status.toLowerCase(), duplicate },
+      message: duplicate ? 'Event already received' : 'Event processed',
     });
   } catch (error) {
-    logger.error('Error verifying Razorpay payment:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Payment verification failed',
-    });
+    next(error);
   }
 });
 
@@ -0,0 +1,244 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import prisma from '../config/database';
+import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth';
+import { validateBody, validateQuery, validateParams } from '../middleware/validation';
+import { logger } from '../config/logger';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { reconcilePayments } from '../jobs/reconciliation';
+import { parseSettlementCsv } from '../utils/settlementCsv';
+import { toRupees } from '../utils/money';
+
+const router = Router();
+
+// Settlement CSVs are read in memory; they are never written to disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'text/csv' || file.originalname.toLowerCase().endsWith('.csv')) {
+      cb(null, true);
+    } else {
+      cb(new ValidationError('Invalid file type. Only CSV files are allowed.'));
+    }
+  },
+});
+
+// Validation schemas
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const runSchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+}).refine(({ from, to }) => from <= to, { message: 'from must not be after to', path: ['to'] });
+
+const itemQuerySchema = z.object({
+  page: z.string().optional().transform(val => val ? parseInt(val) : 1),
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 20),
+  status: z.enum(['OPEN', 'RESOLVED']).optional(),
+  type: z.enum(['CAPTURED_BUT_PENDING', 'SUCCESS_BUT_MISSING', 'AMOUNT_MISMATCH', 'UNKNOWN_GATEWAY_PAYMENT']).optional(),
+});
+
+const idParamSchema = z.object({
+  id: z.string().transform(val => parseInt(val)),
+});
+
+const resolveItemSchema = z.object({
+  resolution: z.string().trim().min(1).max(500),
+});
+
+/**
+ * @swagger
+ * /api/reconciliation/runs:
+ *   post:
+ *     summary: Reconcile gateway payments for a date range (Admin only)
+ *     tags: [Reconciliation]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [from, to]
+ *             properties:
+ *               from:
+ *                 type: string
+ *                 example: '2025-09-01'
+ *               to:
+ *                 type: string
+ *                 example: '2025-09-30'
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: Settlement CSV to reconcile against instead of the gateway API
+ *     responses:
+ *       200:
+ *         description: Reconciliation completed
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post('/runs', authenticate, requireAdmin, upload.single('file'), validateBody(runSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const from = new Date(`${req.body.from}T00:00:00`);
+    const to = new Date(`${req.body.to}T23:59:59.999`);
+
+    const settlement = req.file ? parseSettlementCsv(req.file.buffer.toString('utf8')) : undefined;
+    const result = await reconcilePayments(from, to, settlement);
+
+    logger.info(`Reconciliation triggered by admin ${req.userId}`, result);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `${result.flagged} new item(s) flagged`,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/reconciliation/items:
+ *   get:
+ *     summary: List reconciliation items (Admin only)
+ *     tags: [Reconciliation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, RESOLVED]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [CAPTURED_BUT_PENDING, SUCCESS_BUT_MISSING, AMOUNT_MISMATCH, UNKNOWN_GATEWAY_PAYMENT]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Items retrieved successfully
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/items', authenticate, requireAdmin, validateQuery(itemQuerySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { page, limit, status, type } = req.query as any;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+    if (status) where.status = status;
+    if (type) where.type = type;
+
+    const [items, total] = await Promise.all([
+      prisma.reconciliationItem.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.reconciliationItem.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: items.map(({ expectedPaise, gatewayPaise, ...item }) => ({
+        ...item,
+        expectedAmount: expectedPaise === null ? null : toRupees(expectedPaise),
+        gatewayAmount: gatewayPaise === null ? null : toRupees(gatewayPaise),
+      })),
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/reconciliation/items/{id}/resolve:
+ *   patch:
+ *     summary: Resolve a reconciliation item (Admin only)
+ *     tags: [Reconciliation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [resolution]
+ *             properties:
+ *               resolution:
+ *                 type: string
+ *                 example: 'Settled manually after confirming capture with the gateway'
+ *     responses:
+ *       200:
+ *         description: Item resolved
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.patch('/items/:id/resolve', authenticate, requireAdmin, validateParams(idParamSchema), validateBody(resolveItemSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params as any;
+
+    const item = await prisma.reconciliationItem.findUnique({ where: { id } });
+    if (!item) {
+      throw new NotFoundError('Reconciliation item not found');
+    }
+    if (item.status === 'RESOLVED') {
+      throw new ConflictError('Reconciliation item is already resolved');
+    }
+
+    const resolved = await prisma.reconciliationItem.update({
+      where: { id },
+      data: {
+        status: 'RESOLVED',
+        resolution: req.body.resolution,
+        resolvedBy: req.userId,
+        resolvedAt: new Date(),
+      },
+    });
+
+    logger.info(`Reconciliation item ${id} resolved by admin ${req.userId}`);
+
+    res.json({
+      success: true,
+      data: resolved,
+      message: 'Reconciliation item resolved',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { z } from 'zod';
 import prisma from '../config/database';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
 import { validateQuery } from '../middleware/validation';
 import { logger } from '../config/logger';
 
@@ -157,6 +158,8 @@ router.get('/', authenticate, validateQuery(rewardsQuerySchema), async (req: Aut
  *     tags: [Rewards]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -183,8 +186,10 @@ router.get('/', authenticate, validateQuery(rewardsQuerySchema), async (req: Aut
  *         description: Reward redeemed successfully
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
  */
-router.post('/redeem', authenticate, async (req: AuthRequest, res, next) => {
+router.post('/redeem', authenticate, idempotent(), async (req: AuthRequest, res, next) => {
   try {
     const userId = req.userId!;
     const { offerId, pointsRequired, rewardType, rewardValue } = req.body;
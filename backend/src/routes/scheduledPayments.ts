@@ -0,0 +1,453 @@
+import { Router } from 'express';
+import { ScheduledPayment } from '@prisma/client';
+import { z } from 'zod';
+import prisma from '../config/database';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { validateBody, validateQuery, validateParams } from '../middleware/validation';
+import { logger } from '../config/logger';
+import { CheckoutRequiredError, ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { getPaymentGateway } from '../gateways';
+import { nextMonthlyRun, startOfDay } from '../jobs/scheduledPayments';
+import { formatRupees, hasAtMostTwoDecimals, toPaise, toRupees } from '../utils/money';
+
+const router = Router();
+
+/**
+ * Scheduled runs are charged off-session by the payment worker.
+ */
+function assertGatewayCanSchedule(): void {
+  if (!getPaymentGateway().canChargeOffSession) {
+    throw new CheckoutRequiredError('Scheduled payments are not available with the current payment gateway; pay through checkout');
+  }
+}
+
+// Validation schemas
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const amountSchema = z.number().positive().max(1000000, 'Amount cannot exceed ₹10,00,000')
+  .refine(hasAtMostTwoDecimals, 'Amount cannot have more than 2 decimal places');
+
+const methodSchema = z.enum(['bank', 'card', 'instant']);
+
+const createScheduledPaymentSchema = z.object({
+  cardId: z.number().int().positive(),
+  amount: amountSchema,
+  method: methodSchema,
+  frequency: z.enum(['ONCE', 'MONTHLY']).default('ONCE'),
+  startDate: dateSchema, // First (or only) run; monthly schedules repeat on this day of the month
+  endDate: dateSchema.optional(),
+}).refine(({ startDate, endDate }) => !endDate || startDate <= endDate, {
+  message: 'endDate must not be before startDate',
+  path: ['endDate'],
+});
+
+const updateScheduledPaymentSchema = z.object({
+  amount: amountSchema.optional(),
+  method: methodSchema.optional(),
+  nextRunDate: dateSchema.optional(),
+  endDate: dateSchema.nullable().optional(),
+  status: z.enum(['ACTIVE', 'PAUSED']).optional(),
+});
+
+const scheduledQuerySchema = z.object({
+  page: z.string().optional().transform(val => val ? parseInt(val) : 1),
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
+  status: z.enum(['ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED']).optional(),
+  cardId: z.string().optional().transform(val => val ? parseInt(val) : undefined),
+});
+
+const idParamSchema = z.object({
+  id: z.string().transform(val => parseInt(val)),
+});
+
+const parseDate = (date: string) => new Date(`${date}T00:00:00`);
+
+/**
+ * Utility: scheduled payment -> API shape
+ */
+function formatScheduledPayment(scheduled: ScheduledPayment) {
+  const open = scheduled.status === 'ACTIVE' || scheduled.status === 'PAUSED';
+  return {
+    id: scheduled.id,
+    cardId: scheduled.cardId,
+    amount: toRupees(scheduled.amountPaise),
+    method: scheduled.method,
+    frequency: scheduled.frequency.toLowerCase(),
+    dayOfMonth: scheduled.dayOfMonth,
+    nextRunDate: open ? scheduled.nextRunAt : null,
+    endDate: scheduled.endDate,
+    status: scheduled.status.toLowerCase(),
+    lastRunAt: scheduled.lastRunAt,
+    lastRunStatus: scheduled.lastRunStatus?.toLowerCase() ?? null,
+    lastRunNote: scheduled.lastRunNote,
+    lastPaymentId: scheduled.lastPaymentId,
+    createdAt: scheduled.createdAt,
+    updatedAt: scheduled.updatedAt,
+  };
+}
+
+async function findUserScheduledPayment(id: number, userId: number): Promise<ScheduledPayment> {
+  const scheduled = await prisma.scheduledPayment.findFirst({
+    where: { id, userId },
+  });
+
+  if (!scheduled) {
+    throw new NotFoundError('Scheduled payment not found');
+  }
+  return scheduled;
+}
+
+/**
+ * @swagger
+ * /api/payments/scheduled:
+ *   post:
+ *     summary: Schedule a payment for a later date, once or every month
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [cardId, amount, method, startDate]
+ *             properties:
+ *               cardId:
+ *                 type: integer
+ *               amount:
+ *                 type: number
+ *                 example: 5000
+ *               method:
+ *                 type: string
+ *                 enum: [bank, card, instant]
+ *               frequency:
+ *                 type: string
+ *                 enum: [ONCE, MONTHLY]
+ *                 default: ONCE
+ *               startDate:
+ *                 type: string
+ *                 example: '2025-11-01'
+ *               endDate:
+ *                 type: string
+ *                 description: Last day a monthly schedule may run
+ *     responses:
+ *       201:
+ *         description: Payment scheduled
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/', authenticate, validateBody(createScheduledPaymentSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { cardId, amount, method, frequency, startDate, endDate } = req.body;
+    assertGatewayCanSchedule();
+
+    const card = await prisma.card.findFirst({
+      where: {
+        id: cardId,
+        userId,
+      },
+    });
+
+    if (!card) {
+      throw new NotFoundError('Card not found');
+    }
+
+    if (card.status !== 'ACTIVE') {
+      throw new ForbiddenError('Card is not active');
+    }
+
+    const nextRunAt = parseDate(startDate);
+    if (nextRunAt < startOfDay(new Date())) {
+      throw new ValidationError('startDate cannot be in the past');
+    }
+
+    const scheduled = await prisma.scheduledPayment.create({
+      data: {
+        userId,
+        cardId,
+        amountPaise: toPaise(amount),
+        method,
+        frequency,
+        dayOfMonth: frequency === 'MONTHLY' ? nextRunAt.getDate() : null,
+        nextRunAt,
+        endDate: frequency === 'MONTHLY' && endDate ? parseDate(endDate) : null,
+      },
+    });
+
+    logger.info(`Scheduled payment ${scheduled.id} of ${formatRupees(scheduled.amountPaise)} (${frequency}) created for card ${cardId} by user ${userId}`);
+
+    res.status(201).json({
+      success: true,
+      data: formatScheduledPayment(scheduled),
+      message: 'Payment scheduled successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/payments/scheduled:
+ *   get:
+ *     summary: List the user's scheduled payments
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ACTIVE, PAUSED, COMPLETED, CANCELLED]
+ *       - in: query
+ *         name: cardId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Scheduled payments retrieved successfully
+ */
+router.get('/', authenticate, validateQuery(scheduledQuerySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { page, limit, status, cardId } = req.query as any;
+
+    const skip = (page - 1) * limit;
+
+    const where: any = { userId };
+    if (status) where.status = status;
+    if (cardId) where.cardId = cardId;
+
+    const [scheduled, total] = await Promise.all([
+      prisma.scheduledPayment.findMany({
+        where,
+        orderBy: { nextRunAt: 'asc' },
+        skip,
+        take: limit,
+      }),
+      prisma.scheduledPayment.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: scheduled.map(formatScheduledPayment),
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/payments/scheduled/{id}:
+ *   get:
+ *     summary: Get a scheduled payment with the payments it has made
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Scheduled payment retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id', authenticate, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params as any;
+    const scheduled = await findUserScheduledPayment(id, req.userId!);
+
+    const payments = await prisma.payment.findMany({
+      where: { scheduledPaymentId: scheduled.id },
+      orderBy: { createdAt: 'desc' },
+      take: 12,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        ...formatScheduledPayment(scheduled),
+        payments: payments.map(payment => ({
+          id: payment.id,
+          amount: toRupees(payment.amountPaise),
+          status: payment.status.toLowerCase(),
+          createdAt: payment.createdAt,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/payments/scheduled/{id}:
+ *   patch:
+ *     summary: Change, pause or resume a scheduled payment
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *               method:
+ *                 type: string
+ *                 enum: [bank, card, instant]
+ *               nextRunDate:
+ *                 type: string
+ *                 example: '2025-12-01'
+ *               endDate:
+ *                 type: string
+ *                 nullable: true
+ *               status:
+ *                 type: string
+ *                 enum: [ACTIVE, PAUSED]
+ *     responses:
+ *       200:
+ *         description: Scheduled payment updated
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.patch('/:id', authenticate, validateParams(idParamSchema), validateBody(updateScheduledPaymentSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params as any;
+    const { amount, method, nextRunDate, endDate, status } = req.body;
+    const scheduled = await findUserScheduledPayment(id, req.userId!);
+
+    if (scheduled.status === 'COMPLETED' || scheduled.status === 'CANCELLED') {
+      throw new ConflictError(`Scheduled payment is already ${scheduled.status.toLowerCase()}`);
+    }
+
+    const today = startOfDay(new Date());
+    let nextRunAt = nextRunDate ? parseDate(nextRunDate) : undefined;
+    if (nextRunAt && nextRunAt < today) {
+      throw new ValidationError('nextRunDate cannot be in the past');
+    }
+
+    // Resuming after the run date went by: monthly schedules pick up at their
+    // next run, a one-off payment needs a new date
+    const resuming = status === 'ACTIVE' && scheduled.status === 'PAUSED';
+    if (resuming) {
+      assertGatewayCanSchedule();
+    }
+    if (resuming && !nextRunAt && scheduled.nextRunAt < today) {
+      if (scheduled.frequency !== 'MONTHLY' || scheduled.dayOfMonth === null) {
+        throw new ValidationError('Choose a new nextRunDate to resume this payment');
+      }
+      nextRunAt = nextMonthlyRun(today, scheduled.dayOfMonth);
+    }
+
+    const updated = await prisma.scheduledPayment.update({
+      where: { id: scheduled.id },
+      data: {
+        ...(amount !== undefined && { amountPaise: toPaise(amount) }),
+        ...(method && { method }),
+        ...(nextRunAt && { nextRunAt }),
+        ...(endDate !== undefined && scheduled.frequency === 'MONTHLY' && { endDate: endDate ? parseDate(endDate) : null }),
+        ...(status && { status }),
+      },
+    });
+
+    logger.info(`Scheduled payment ${scheduled.id} updated by user ${req.userId}`);
+
+    res.json({
+      success: true,
+      data: formatScheduledPayment(updated),
+      message: 'Scheduled payment updated successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/payments/scheduled/{id}:
+ *   delete:
+ *     summary: Cancel a scheduled payment
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Scheduled payment cancelled
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         $ref: '#/components/responses/ConflictError'
+ */
+router.delete('/:id', authenticate, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params as any;
+    const scheduled = await findUserScheduledPayment(id, req.userId!);
+
+    if (scheduled.status === 'COMPLETED' || scheduled.status === 'CANCELLED') {
+      throw new ConflictError(`Scheduled payment is already ${scheduled.status.toLowerCase()}`);
+    }
+
+    // Kept for history; payments it already made are unaffected
+    const cancelled = await prisma.scheduledPayment.update({
+      where: { id: scheduled.id },
+      data: { status: 'CANCELLED' },
+    });
+
+    logger.info(`Scheduled payment ${scheduled.id} cancelled by user ${req.userId}`);
+
+    res.json({
+      success: true,
+      data: formatScheduledPayment(cancelled),
+      message: 'Scheduled payment cancelled',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
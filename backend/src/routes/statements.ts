@@ -1,10 +1,15 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import prisma from '../config/database';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { validateQuery, validateParams } from '../middleware/validation';
+import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth';
+import { validateBody, validateQuery, validateParams } from '../middleware/validation';
 import { logger } from '../config/logger';
 import { NotFoundError } from '../middleware/errorHandler';
+import { backfillStatements } from '../jobs/statements';
+import { getReplacedCardIds } from '../utils/cardReplacement';
+import { summarizeSpendByMember } from '../utils/addOnCards';
+import { toRupees } from '../utils/money';
+import { renderStatement, sendPdf } from '../utils/documents';
 
 const router = Router();
 
@@ -15,10 +20,25 @@ const statementQuerySchema = z.object({
   cardId: z.string().optional().transform(val => val ? parseInt(val) : undefined),
 });
 
+const documentFormatSchema = z.object({
+  format: z.enum(['json', 'pdf']).default('json'),
+});
+
 const idParamSchema = z.object({
   id: z.string().transform(val => parseInt(val)),
 });
 
+const billingMonthSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected YYYY-MM')
+  .transform(val => ({ year: parseInt(val.slice(0, 4)), month: parseInt(val.slice(5, 7)) }));
+
+const generateStatementsSchema = z.object({
+  cardId: z.number().int().positive().optional(),
+  from: billingMonthSchema.optional(),
+  to: billingMonthSchema.optional(),
+});
+
 /**
  * @swagger
  * /api/statements:
@@ -42,7 +62,7 @@ const idParamSchema = z.object({
  *         name: cardId
  *         schema:
  *           type: integer
- *         description: Filter by specific card
+ *         description: Filter by specific card, including the cards it replaced
  *     responses:
  *       200:
  *         description: Statements retrieved successfully
@@ -74,8 +94,10 @@ router.get('/', authenticate, validateQuery(statementQuerySchema), async (req: A
       },
     };
 
+    // A card's statements include those of the cards it replaced
     if (cardId) {
-      where.cardId = cardId;
+      const card = await prisma.card.findFirst({ where: { id: cardId, userId }, select: { replacesCardId: true } });
+      where.cardId = { in: [cardId, ...await getReplacedCardIds(prisma, card?.replacesCardId ?? null)] };
     }
 
     const [statements, total] = await Promise.all([
@@ -107,9 +129,13 @@ router.get('/', authenticate, validateQuery(statementQuerySchema), async (req: A
         cardId: statement.cardId,
         month: statement.month,
         year: statement.year,
+        periodStart: statement.periodStart,
+        periodEnd: statement.periodEnd,
         dueDate: statement.dueDate,
-        balance: statement.balance,
-        minDue: statement.minDue,
+        balance: toRupees(statement.balancePaise),
+        fees: toRupees(statement.feesPaise),
+        interest: toRupees(statement.interestPaise),
+        minDue: toRupees(statement.minDuePaise),
         isPaid: statement.isPaid,
         card: statement.card,
         createdAt: statement.createdAt,
@@ -133,6 +159,9 @@ router.get('/', authenticate, validateQuery(statementQuerySchema), async (req: A
  * /api/statements/{id}:
  *   get:
  *     summary: Get specific statement details
+ *     description: >
+ *       Lists the period's transactions, including those made with the card's
+ *       add-on cards, and what each card member spent.
  *     tags: [Statements]
  *     security:
  *       - bearerAuth: []
@@ -142,16 +171,32 @@ router.get('/', authenticate, validateQuery(statementQuerySchema), async (req: A
  *         required: true
  *         schema:
  *           type: integer
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, pdf]
+ *           default: json
+ *         description: pdf downloads the statement as a PDF document
  *     responses:
  *       200:
  *         description: Statement retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Statement'
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  */
-router.get('/:id', authenticate, validateParams(idParamSchema), async (req: AuthRequest, res, next) => {
+router.get('/:id', authenticate, validateParams(idParamSchema), validateQuery(documentFormatSchema), async (req: AuthRequest, res, next) => {
   try {
     const userId = req.userId!;
     const { id } = req.params as any;
+    const { format } = req.query as any;
 
     const statement = await prisma.statement.findFirst({
       where: {
@@ -166,7 +211,8 @@ router.get('/:id', authenticate, validateParams(idParamSchema), async (req: Auth
             id: true,
             last4: true,
             cardType: true,
-            creditLimit: true,
+            creditLimitPaise: true,
+            replacesCardId: true,
           },
         },
       },
@@ -176,35 +222,64 @@ router.get('/:id', authenticate, validateParams(idParamSchema), async (req: Auth
       throw new NotFoundError('Statement not found');
     }
 
-    // Get transactions for this statement period
-    const startDate = new Date(statement.year, statement.month - 1, 1);
-    const endDate = new Date(statement.year, statement.month, 0, 23, 59, 59);
+    // Get transactions for this statement period (legacy statements cover the calendar month)
+    const startDate = statement.periodStart ?? new Date(statement.year, statement.month - 1, 1);
+    const endDate = statement.periodEnd ?? new Date(statement.year, statement.month, 0, 23, 59, 59);
 
+    // A replacement card's statement also lists what the replaced card charged
+    const replacedCardIds = await getReplacedCardIds(prisma, statement.card.replacesCardId);
     const transactions = await prisma.transaction.findMany({
       where: {
-        cardId: statement.cardId,
+        cardId: { in: [statement.cardId, ...replacedCardIds] },
         date: {
           gte: startDate,
           lte: endDate,
         },
       },
+      include: {
+        addOnCard: { select: { id: true, holderName: true, last4: true } },
+      },
       orderBy: {
         date: 'desc',
       },
     });
 
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+    const holderName = user?.name ?? '';
+
+    if (format === 'pdf') {
+      const filename = `statement-${statement.card.last4}-${statement.year}-${String(statement.month).padStart(2, '0')}.pdf`;
+      return sendPdf(res, filename, renderStatement(statement, transactions, holderName));
+    }
+
+    const spendByCardMember = summarizeSpendByMember(transactions, { holderName, last4: statement.card.last4 });
+
+    const { balancePaise, feesPaise, interestPaise, minDuePaise, card, ...rest } = statement;
+    const { creditLimitPaise, ...cardFields } = card;
+
     res.json({
       success: true,
       data: {
-        ...statement,
+        ...rest,
+        balance: toRupees(balancePaise),
+        fees: toRupees(feesPaise),
+        interest: toRupees(interestPaise),
+        minDue: toRupees(minDuePaise),
+        card: { ...cardFields, creditLimit: toRupees(creditLimitPaise) },
         transactions: transactions.map(transaction => ({
           id: transaction.id,
           date: transaction.date,
           description: transaction.description || transaction.merchant,
           merchant: transaction.merchant,
           category: transaction.category,
-          amount: transaction.amount,
+          type: transaction.type,
+          amount: toRupees(transaction.amountPaise),
           status: transaction.status.toLowerCase(),
+          addOnCard: transaction.addOnCard ?? null,
+        })),
+        spendByCardMember: spendByCardMember.map(({ spentPaise, ...member }) => ({
+          ...member,
+          spent: toRupees(spentPaise),
         })),
       },
     });
@@ -213,4 +288,53 @@ router.get('/:id', authenticate, validateParams(idParamSchema), async (req: Auth
   }
 });
 
+/**
+ * @swagger
+ * /api/statements/generate:
+ *   post:
+ *     summary: Generate missing statements for closed billing cycles (Admin only)
+ *     tags: [Statements]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               cardId:
+ *                 type: integer
+ *                 description: Limit the backfill to one card
+ *               from:
+ *                 type: string
+ *                 example: '2025-01'
+ *                 description: First billing month (defaults to the card's issue month)
+ *               to:
+ *                 type: string
+ *                 example: '2025-06'
+ *                 description: Last billing month (defaults to the latest closed cycle)
+ *     responses:
+ *       200:
+ *         description: Backfill completed
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post('/generate', authenticate, requireAdmin, validateBody(generateStatementsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { cardId, from, to } = req.body;
+
+    const result = await backfillStatements({ cardId, from, to });
+
+    logger.info(`Statement backfill triggered by admin ${req.userId}`, result);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `${result.created} statement(s) generated`,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -2,10 +2,13 @@ import { Router } from 'express';
 import { z } from 'zod';
 import prisma from '../config/database';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
 import { validateQuery, validateParams, validateBody } from '../middleware/validation';
 import { logger } from '../config/logger';
 import { NotFoundError, ForbiddenError } from '../middleware/errorHandler';
 import { createDisputeCreatedNotification } from '../utils/notifications';
+import { toPaise, toRupees } from '../utils/money';
+import { getReplacedCardIds } from '../utils/cardReplacement';
 
 const router = Router();
 
@@ -21,6 +24,7 @@ const transactionQuerySchema = z.object({
   maxAmount: z.string().optional().transform(val => val ? parseFloat(val) : undefined),
   merchant: z.string().optional(),
   cardId: z.string().optional().transform(val => val ? parseInt(val) : undefined),
+  addOnCardId: z.string().optional().transform(val => val ? parseInt(val) : undefined),
   status: z.enum(['SUCCESS', 'PENDING', 'FAILED']).optional(),
   q: z.string().optional(), // Search query
 });
@@ -90,6 +94,12 @@ const createDisputeSchema = z.object({
  *         name: cardId
  *         schema:
  *           type: integer
+ *         description: Filter by card, including the cards it replaced
+ *       - in: query
+ *         name: addOnCardId
+ *         schema:
+ *           type: integer
+ *         description: Only what this add-on card of the user's cards spent
  *       - in: query
  *         name: status
  *         schema:
@@ -131,6 +141,7 @@ router.get('/', authenticate, validateQuery(transactionQuerySchema), async (req:
       maxAmount,
       merchant,
       cardId,
+      addOnCardId,
       status,
       q
     } = req.query as any;
@@ -142,9 +153,14 @@ router.get('/', authenticate, validateQuery(transactionQuerySchema), async (req:
       userId,
     };
 
-    // Card filter
+    // Card filter; a card's history includes the cards it replaced
     if (cardId) {
-      where.cardId = cardId;
+      const card = await prisma.card.findFirst({ where: { id: cardId, userId }, select: { replacesCardId: true } });
+      where.cardId = { in: [cardId, ...await getReplacedCardIds(prisma, card?.replacesCardId ?? null)] };
+    }
+
+    if (addOnCardId) {
+      where.addOnCardId = addOnCardId;
     }
 
     // Date range filter
@@ -156,9 +172,9 @@ router.get('/', authenticate, validateQuery(transactionQuerySchema), async (req:
 
     // Amount range filter
     if (minAmount !== undefined || maxAmount !== undefined) {
-      where.amount = {};
-      if (minAmount !== undefined) where.amount.gte = minAmount;
-      if (maxAmount !== undefined) where.amount.lte = maxAmount;
+      where.amountPaise = {};
+      if (minAmount !== undefined) where.amountPaise.gte = toPaise(minAmount);
+      if (maxAmount !== undefined) where.amountPaise.lte = toPaise(maxAmount);
     }
 
     // Merchant filter
@@ -196,7 +212,7 @@ router.get('/', authenticate, validateQuery(transactionQuerySchema), async (req:
 
     // Build order by
     const orderBy: any = {};
-    orderBy[sortBy] = order;
+    orderBy[sortBy === 'amount' ? 'amountPaise' : sortBy] = order;
 
     const [transactions, total] = await Promise.all([
       prisma.transaction.findMany({
@@ -209,6 +225,7 @@ router.get('/', authenticate, validateQuery(transactionQuerySchema), async (req:
               cardType: true,
             },
           },
+          addOnCard: { select: { id: true, holderName: true, last4: true } },
         },
         orderBy,
         skip,
@@ -225,13 +242,15 @@ router.get('/', authenticate, validateQuery(transactionQuerySchema), async (req:
         description: transaction.description || transaction.merchant,
         merchant: transaction.merchant,
         category: transaction.category,
-        amount: transaction.amount,
+        type: transaction.type,
+        amount: toRupees(transaction.amountPaise),
         status: transaction.status.toLowerCase(),
         card: {
           id: transaction.card.id,
           last4: transaction.card.last4,
           cardType: transaction.card.cardType,
         },
+        addOnCard: transaction.addOnCard ?? null,
         createdAt: transaction.createdAt,
       })),
       meta: {
@@ -285,6 +304,7 @@ router.get('/:id', authenticate, validateParams(idParamSchema), async (req: Auth
             cardType: true,
           },
         },
+        addOnCard: { select: { id: true, holderName: true, last4: true } },
         disputes: {
           orderBy: {
             createdAt: 'desc',
@@ -305,13 +325,15 @@ router.get('/:id', authenticate, validateParams(idParamSchema), async (req: Auth
         description: transaction.description || transaction.merchant,
         merchant: transaction.merchant,
         category: transaction.category,
-        amount: transaction.amount,
+        type: transaction.type,
+        amount: toRupees(transaction.amountPaise),
         status: transaction.status.toLowerCase(),
         card: {
           id: transaction.card.id,
           last4: transaction.card.last4,
           cardType: transaction.card.cardType,
         },
+        addOnCard: transaction.addOnCard ?? null,
         disputes: transaction.disputes,
         createdAt: transaction.createdAt,
       },
@@ -335,6 +357,7 @@ router.get('/:id', authenticate, validateParams(idParamSchema), async (req: Auth
  *         required: true
  *         schema:
  *           type: integer
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -355,8 +378,10 @@ router.get('/:id', authenticate, validateParams(idParamSchema), async (req: Auth
  *         $ref: '#/components/responses/ValidationError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
  */
-router.post('/:id/dispute', authenticate, validateParams(idParamSchema), validateBody(createDisputeSchema), async (req: AuthRequest, res, next) => {
+router.post('/:id/dispute', authenticate, idempotent(), validateParams(idParamSchema), validateBody(createDisputeSchema), async (req: AuthRequest, res, next) => {
   try {
     const userId = req.userId!;
     const { id } = req.params as any;
@@ -403,7 +428,7 @@ router.post('/:id/dispute', authenticate, validateParams(idParamSchema), validat
     await createDisputeCreatedNotification(
       userId,
       id,
-      Math.abs(transaction.amount)
+      Math.abs(transaction.amountPaise)
     );
 
     logger.info(`Dispute created: ${dispute.id} for transaction ${id} by user ${userId}`);
@@ -8,7 +8,7 @@ const options = {
     info: {
       title: 'CreditFlow API',
       version: '1.0.0',
-      description: 'Credit Card Management System API',
+      description: 'Credit Card Management System API. Monetary amounts are in rupees with at most 2 decimal places.',
       contact: {
         name: 'CreditFlow Team',
         email: 'api@creditflow.com',
@@ -29,6 +29,18 @@ const options = {
           scheme: 'bearer',
           bearerFormat: 'JWT',
         },
+        addOnAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Add-on card holder token from POST /api/auth/add-on/login',
+        },
+        networkSignature: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Network-Signature',
+          description: 'Hex HMAC-SHA256 of "<METHOD> <path>\\n<raw body>" with CARD_NETWORK_SECRET',
+        },
       },
       schemas: {
         User: {
@@ -65,7 +77,12 @@ const options = {
             cardType: { type: 'string', enum: ['STANDARD', 'GOLD', 'PLATINUM'] },
             status: { type: 'string', enum: ['ACTIVE', 'BLOCKED', 'INACTIVE'] },
             creditLimit: { type: 'number' },
+            outstandingBalance: { type: 'number', description: 'From the card ledger; negative when the card is in credit' },
+            pendingHolds: { type: 'number', description: 'Authorized transactions not yet captured' },
+            availableCredit: { type: 'number', description: 'Credit limit less the outstanding balance and pending holds' },
             autopayEnabled: { type: 'boolean' },
+            autopayMode: { type: 'string', enum: ['MINIMUM_DUE', 'FULL_BALANCE'] },
+            billingCycleDay: { type: 'integer', minimum: 1, maximum: 28 },
             createdAt: { type: 'string', format: 'date-time' },
           },
         },
@@ -77,6 +94,7 @@ const options = {
             description: { type: 'string' },
             merchant: { type: 'string' },
             category: { type: 'string' },
+            type: { type: 'string', enum: ['PURCHASE', 'REFUND', 'INTEREST', 'LATE_FEE', 'GST'] },
             amount: { type: 'number' },
             status: { type: 'string', enum: ['success', 'pending', 'failed'] },
             card: {
@@ -87,6 +105,16 @@ const options = {
                 cardType: { type: 'string' },
               },
             },
+            addOnCard: {
+              type: 'object',
+              nullable: true,
+              description: 'The add-on card it was made with; null when the primary cardholder made it',
+              properties: {
+                id: { type: 'integer' },
+                holderName: { type: 'string' },
+                last4: { type: 'string' },
+              },
+            },
             createdAt: { type: 'string', format: 'date-time' },
           },
         },
@@ -97,8 +125,12 @@ const options = {
             cardId: { type: 'integer' },
             month: { type: 'integer' },
             year: { type: 'integer' },
+            periodStart: { type: 'string', format: 'date-time', nullable: true },
+            periodEnd: { type: 'string', format: 'date-time', nullable: true },
             dueDate: { type: 'string', format: 'date-time' },
             balance: { type: 'number' },
+            fees: { type: 'number', description: 'Part of the balance that is fees and GST' },
+            interest: { type: 'number', description: 'Part of the balance that is interest' },
             minDue: { type: 'number' },
             isPaid: { type: 'boolean' },
             createdAt: { type: 'string', format: 'date-time' },
@@ -111,7 +143,7 @@ const options = {
             id: { type: 'string' },
             amount: { type: 'number' },
             method: { type: 'string', enum: ['bank', 'card', 'instant'] },
-            status: { type: 'string', enum: ['pending', 'success', 'failed'] },
+            status: { type: 'string', enum: ['created', 'pending', 'processing', 'success', 'failed', 'reversed', 'refunded'] },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' },
           },
@@ -201,6 +233,23 @@ const options = {
             },
           },
         },
+        IdempotencyKeyReused: {
+          description: 'Idempotency-Key already used with a different request',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/Error' },
+            },
+          },
+        },
+      },
+      parameters: {
+        IdempotencyKey: {
+          in: 'header',
+          name: 'Idempotency-Key',
+          required: false,
+          schema: { type: 'string', maxLength: 255 },
+          description: 'Retries with the same key and body replay the first response instead of repeating the operation',
+        },
       },
     },
     security: [
@@ -1,4 +1,5 @@
 import prisma from '../prisma';
+import { formatRupees, Paise, toRupees } from './money';
 
 export interface ActivityData {
   type: string;
@@ -44,7 +45,22 @@ export const ActivityTypes = {
   PAYMENT: 'PAYMENT',
   CARD_BLOCKED: 'CARD_BLOCKED',
   CARD_UNBLOCKED: 'CARD_UNBLOCKED',
+  CARD_REPORTED: 'CARD_REPORTED',
+  CARD_CLOSED: 'CARD_CLOSED',
+  CARD_ACTIVATED: 'CARD_ACTIVATED',
+  CARD_PIN_SET: 'CARD_PIN_SET',
+  CARD_PIN_CHANGED: 'CARD_PIN_CHANGED',
+  CARD_PIN_RESET: 'CARD_PIN_RESET',
+  CARD_CONTROLS_UPDATED: 'CARD_CONTROLS_UPDATED',
+  CARD_DETAILS_REVEALED: 'CARD_DETAILS_REVEALED',
+  VIRTUAL_CARD_ISSUED: 'VIRTUAL_CARD_ISSUED',
+  VIRTUAL_CARD_DELETED: 'VIRTUAL_CARD_DELETED',
+  ADD_ON_CARD_ISSUED: 'ADD_ON_CARD_ISSUED',
+  ADD_ON_CARD_UPDATED: 'ADD_ON_CARD_UPDATED',
+  ADD_ON_CARD_CLOSED: 'ADD_ON_CARD_CLOSED',
   CARD_APPLICATION: 'CARD_APPLICATION',
+  LIMIT_INCREASE_REQUESTED: 'LIMIT_INCREASE_REQUESTED',
+  CREDIT_LIMIT_INCREASED: 'CREDIT_LIMIT_INCREASED',
   PROFILE_UPDATE: 'PROFILE_UPDATE',
   PASSWORD_CHANGE: 'PASSWORD_CHANGE',
   LOGIN: 'LOGIN',
@@ -59,11 +75,11 @@ export const ActivityTypes = {
  * Helper function to create activity data for common activities
  */
 export const createActivityData = {
-  payment: (amount: number, method: string, status: 'SUCCESS' | 'FAILED' = 'SUCCESS') => ({
+  payment: (amountPaise: Paise, method: string, status: 'SUCCESS' | 'FAILED' = 'SUCCESS') => ({
     type: ActivityTypes.PAYMENT,
     title: 'Payment Made',
-    description: `Payment of ₹${amount.toLocaleString()} made via ${method}`,
-    metadata: { amount, method },
+    description: `Payment of ${formatRupees(amountPaise)} made via ${method}`,
+    metadata: { amount: toRupees(amountPaise), method },
     status,
   }),
 
@@ -81,6 +97,112 @@ export const createActivityData = {
     metadata: { cardNumber },
   }),
 
+  cardReported: (cardNumber: string, reason: string, replacementNumber: string) => ({
+    type: ActivityTypes.CARD_REPORTED,
+    title: 'Card Reported',
+    description: `Card ending in ${cardNumber} reported ${reason.toLowerCase()} and replaced by card ending in ${replacementNumber}`,
+    metadata: { cardNumber, reason, replacementNumber },
+  }),
+
+  cardClosed: (cardNumber: string, refundPaise: Paise) => ({
+    type: ActivityTypes.CARD_CLOSED,
+    title: 'Card Closed',
+    description: `Card ending in ${cardNumber} has been closed${refundPaise > 0 ? `; ${formatRupees(refundPaise)} will be refunded` : ''}`,
+    metadata: { cardNumber, refund: toRupees(refundPaise) },
+  }),
+
+  cardActivated: (cardNumber: string) => ({
+    type: ActivityTypes.CARD_ACTIVATED,
+    title: 'Card Activated',
+    description: `Card ending in ${cardNumber} has been activated`,
+    metadata: { cardNumber },
+  }),
+
+  cardPinSet: (cardNumber: string) => ({
+    type: ActivityTypes.CARD_PIN_SET,
+    title: 'Card PIN Set',
+    description: `PIN set for card ending in ${cardNumber}`,
+    metadata: { cardNumber },
+  }),
+
+  cardPinChanged: (cardNumber: string) => ({
+    type: ActivityTypes.CARD_PIN_CHANGED,
+    title: 'Card PIN Changed',
+    description: `PIN changed for card ending in ${cardNumber}`,
+    metadata: { cardNumber },
+  }),
+
+  cardPinReset: (cardNumber: string, wasLocked: boolean) => ({
+    type: ActivityTypes.CARD_PIN_RESET,
+    title: 'Card PIN Reset',
+    description: `PIN reset for card ending in ${cardNumber}${wasLocked ? ' and unlocked' : ''}`,
+    metadata: { cardNumber, wasLocked },
+  }),
+
+  cardControlsUpdated: (cardNumber: string, changes: string[]) => ({
+    type: ActivityTypes.CARD_CONTROLS_UPDATED,
+    title: 'Card Controls Updated',
+    description: `Card ending in ${cardNumber}: ${changes.join(', ')} changed`,
+    metadata: { cardNumber, changes },
+  }),
+
+  cardDetailsRevealed: (cardNumber: string) => ({
+    type: ActivityTypes.CARD_DETAILS_REVEALED,
+    title: 'Card Details Viewed',
+    description: `Full details of card ending in ${cardNumber} were viewed`,
+    metadata: { cardNumber },
+  }),
+
+  virtualCardIssued: (cardNumber: string, virtualCardNumber: string) => ({
+    type: ActivityTypes.VIRTUAL_CARD_ISSUED,
+    title: 'Virtual Card Issued',
+    description: `Virtual card ending in ${virtualCardNumber} issued on card ending in ${cardNumber}`,
+    metadata: { cardNumber, virtualCardNumber },
+  }),
+
+  virtualCardDeleted: (virtualCardNumber: string) => ({
+    type: ActivityTypes.VIRTUAL_CARD_DELETED,
+    title: 'Virtual Card Deleted',
+    description: `Virtual card ending in ${virtualCardNumber} has been deleted`,
+    metadata: { virtualCardNumber },
+  }),
+
+  addOnCardIssued: (cardNumber: string, addOnCardNumber: string, holderName: string) => ({
+    type: ActivityTypes.ADD_ON_CARD_ISSUED,
+    title: 'Add-on Card Issued',
+    description: `Add-on card ending in ${addOnCardNumber} issued to ${holderName} on card ending in ${cardNumber}`,
+    metadata: { cardNumber, addOnCardNumber, holderName },
+  }),
+
+  addOnCardUpdated: (addOnCardNumber: string, changes: string[]) => ({
+    type: ActivityTypes.ADD_ON_CARD_UPDATED,
+    title: 'Add-on Card Updated',
+    description: `Add-on card ending in ${addOnCardNumber}: ${changes.join(', ')} changed`,
+    metadata: { addOnCardNumber, changes },
+  }),
+
+  addOnCardClosed: (addOnCardNumber: string, holderName: string) => ({
+    type: ActivityTypes.ADD_ON_CARD_CLOSED,
+    title: 'Add-on Card Closed',
+    description: `Add-on card ending in ${addOnCardNumber} held by ${holderName} has been closed`,
+    metadata: { addOnCardNumber, holderName },
+  }),
+
+  limitIncreaseRequested: (cardNumber: string, requestedLimitPaise: Paise) => ({
+    type: ActivityTypes.LIMIT_INCREASE_REQUESTED,
+    title: 'Limit Increase Requested',
+    description: `Requested a credit limit of ${formatRupees(requestedLimitPaise)} for card ending in ${cardNumber}`,
+    metadata: { cardNumber, requestedLimit: toRupees(requestedLimitPaise) },
+    status: 'PENDING' as const,
+  }),
+
+  creditLimitIncreased: (cardNumber: string, creditLimitPaise: Paise, source: 'REQUEST' | 'OFFER') => ({
+    type: ActivityTypes.CREDIT_LIMIT_INCREASED,
+    title: 'Credit Limit Increased',
+    description: `Credit limit of card ending in ${cardNumber} raised to ${formatRupees(creditLimitPaise)}`,
+    metadata: { cardNumber, creditLimit: toRupees(creditLimitPaise), source },
+  }),
+
   cardApplication: (cardType: string, status: 'SUCCESS' | 'FAILED' = 'SUCCESS') => ({
     type: ActivityTypes.CARD_APPLICATION,
     title: 'Card Application',
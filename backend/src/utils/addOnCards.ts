@@ -0,0 +1,154 @@
+import { AddOnCard, Prisma, Transaction } from '@prisma/client';
+import { checkCardControls, ControlDeclineReason, ControlledTransaction, startOfMonth } from './cardControls';
+import { Paise, sumPaise, toRupees } from './money';
+
+// Add-on card lifecycle:
+//   ACTIVE <-> BLOCKED (by the primary cardholder)
+//   any -> CLOSED (permanent)
+// Only ACTIVE add-on cards can be charged, and only while the primary card can.
+export const ADD_ON_CARD_STATUSES = ['ACTIVE', 'BLOCKED', 'CLOSED'] as const;
+
+export type AddOnCardStatus = (typeof ADD_ON_CARD_STATUSES)[number];
+
+export const ADD_ON_RELATIONSHIPS = ['SPOUSE', 'PARENT', 'CHILD', 'SIBLING', 'OTHER'] as const;
+
+// Open (not closed) add-on cards a primary card can have
+export const MAX_ADD_ON_CARDS = parseInt(process.env.MAX_ADD_ON_CARDS || '3');
+
+export type AddOnCardDeclineReason = 'ADD_ON_CARD_NOT_ACTIVE' | 'ADD_ON_LIMIT_EXCEEDED';
+
+type AddOnCardClient = Prisma.TransactionClient;
+
+/**
+ * What add-on cards have spent since `since`, keyed by add-on card id:
+ * amounts still held plus what was captured.
+ */
+export async function getAddOnSpendById(client: AddOnCardClient, addOnCardIds: number[], since: Date): Promise<Map<number, Paise>> {
+  const spend = new Map<number, Paise>(addOnCardIds.map(id => [id, 0]));
+  if (addOnCardIds.length === 0) {
+    return spend;
+  }
+
+  const rows = await client.cardAuthorization.groupBy({
+    by: ['addOnCardId', 'status'],
+    where: { addOnCardId: { in: addOnCardIds }, status: { in: ['PENDING', 'CAPTURED'] }, createdAt: { gte: since } },
+    _sum: { amountPaise: true, capturedPaise: true },
+  });
+  for (const row of rows) {
+    if (row.addOnCardId === null) continue;
+    const amountPaise = row.status === 'CAPTURED' ? row._sum.capturedPaise : row._sum.amountPaise;
+    spend.set(row.addOnCardId, sumPaise([spend.get(row.addOnCardId), amountPaise]));
+  }
+  return spend;
+}
+
+/**
+ * What add-on cards have spent this calendar month, counted against their
+ * monthly sub-limits.
+ */
+export async function getAddOnMonthSpendById(
+  client: AddOnCardClient,
+  addOnCardIds: number[],
+  now: Date = new Date()
+): Promise<Map<number, Paise>> {
+  return getAddOnSpendById(client, addOnCardIds, startOfMonth(now));
+}
+
+/**
+ * Why an add-on card's own controls or monthly sub-limit refuse a charge,
+ * or null if they allow it. Its status is checked with the primary card's,
+ * and the primary card's controls and credit apply as to any charge on it.
+ */
+export async function checkAddOnCard(
+  client: AddOnCardClient,
+  addOnCard: AddOnCard,
+  transaction: ControlledTransaction,
+  now: Date = new Date()
+): Promise<ControlDeclineReason | AddOnCardDeclineReason | null> {
+  // The sub-limit is checked below against the add-on's own spend, not the card's
+  const controlDecline = await checkCardControls(
+    client,
+    addOnCard.cardId,
+    { ...addOnCard, dailyLimitPaise: null, monthlyLimitPaise: null },
+    transaction,
+    now
+  );
+  if (controlDecline) {
+    return controlDecline;
+  }
+
+  const spend = await getAddOnMonthSpendById(client, [addOnCard.id], now);
+  if ((spend.get(addOnCard.id) ?? 0) + transaction.amountPaise > addOnCard.monthlyLimitPaise) {
+    return 'ADD_ON_LIMIT_EXCEEDED';
+  }
+  return null;
+}
+
+/**
+ * An add-on card as shown to the primary cardholder and to its holder.
+ */
+export function formatAddOnCard(addOnCard: AddOnCard, spentThisMonthPaise: Paise) {
+  return {
+    id: addOnCard.id,
+    cardId: addOnCard.cardId,
+    holderName: addOnCard.holderName,
+    relationship: addOnCard.relationship,
+    email: addOnCard.email,
+    number: `****-****-****-${addOnCard.last4}`,
+    last4: addOnCard.last4,
+    expiryMonth: addOnCard.expiryMonth,
+    expiryYear: addOnCard.expiryYear,
+    status: addOnCard.status.toLowerCase(),
+    monthlyLimit: toRupees(addOnCard.monthlyLimitPaise),
+    spentThisMonth: toRupees(spentThisMonthPaise),
+    availableThisMonth: toRupees(Math.max(addOnCard.monthlyLimitPaise - spentThisMonthPaise, 0)),
+    controls: {
+      online: addOnCard.onlineEnabled,
+      international: addOnCard.internationalEnabled,
+      contactless: addOnCard.contactlessEnabled,
+      atm: addOnCard.atmEnabled,
+      perTransactionLimit: addOnCard.perTransactionLimitPaise !== null ? toRupees(addOnCard.perTransactionLimitPaise) : null,
+      blockedCategories: addOnCard.blockedCategories,
+    },
+    pinSet: addOnCard.pinHash !== null,
+    pinLocked: addOnCard.pinLockedAt !== null,
+    createdAt: addOnCard.createdAt,
+    closedAt: addOnCard.closedAt,
+  };
+}
+
+export interface CardMemberSpend {
+  addOnCardId: number | null; // null: the primary cardholder
+  holderName: string;
+  last4: string;
+  spentPaise: Paise;
+}
+
+type MemberTransaction = Pick<Transaction, 'amountPaise' | 'status' | 'addOnCardId'> & {
+  addOnCard?: Pick<AddOnCard, 'holderName' | 'last4'> | null;
+};
+
+/**
+ * Posted charges in a set of a card's transactions, split by who made them:
+ * the primary cardholder first, then each add-on holder who spent anything.
+ */
+export function summarizeSpendByMember(
+  transactions: MemberTransaction[],
+  primary: { holderName: string; last4: string }
+): CardMemberSpend[] {
+  const primaryMember: CardMemberSpend = { addOnCardId: null, ...primary, spentPaise: 0 };
+  const addOnMembers = new Map<number, CardMemberSpend>();
+  for (const transaction of transactions) {
+    if (transaction.status !== 'SUCCESS' || transaction.amountPaise >= 0) continue;
+
+    const { addOnCard, addOnCardId } = transaction;
+    let member = primaryMember;
+    if (addOnCard && addOnCardId !== null) {
+      member = addOnMembers.get(addOnCardId)
+        ?? { addOnCardId, holderName: addOnCard.holderName, last4: addOnCard.last4, spentPaise: 0 };
+      addOnMembers.set(addOnCardId, member);
+    }
+    member.spentPaise = sumPaise([member.spentPaise, -transaction.amountPaise]);
+  }
+  return [primaryMember, ...addOnMembers.values()];
+}
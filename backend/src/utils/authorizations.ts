@@ -0,0 +1,414 @@
+import { AddOnCard, Card, CardAuthorization, Prisma, VirtualCard } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { AddOnCardDeclineReason, checkAddOnCard } from './addOnCards';
+import { checkCardControls, ControlDeclineReason, getCardControls } from './cardControls';
+import { isCardExpired } from './cardIssuing';
+import { PinCheck, verifyAddOnPin, verifyCardPin } from './cardPin';
+import { hashPan, verifyCardSecret } from './cardVault';
+import { getCardBalances, postTransaction } from './ledger';
+import { formatRupees, Paise } from './money';
+import { checkVirtualCard, VirtualCardDeclineReason } from './virtualCards';
+
+const AUTHORIZATION_HOLD_DAYS = parseInt(process.env.AUTHORIZATION_HOLD_DAYS || '7');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Authorization lifecycle:
+//   PENDING -> CAPTURED | REVERSED | EXPIRED
+//   DECLINED (never held anything)
+// Only PENDING authorizations hold credit.
+export const AUTHORIZATION_STATUSES = ['PENDING', 'CAPTURED', 'REVERSED', 'EXPIRED', 'DECLINED'] as const;
+
+export type AuthorizationStatus = (typeof AUTHORIZATION_STATUSES)[number];
+
+export const AUTHORIZATION_CHANNELS = ['POS', 'ONLINE', 'ATM', 'CONTACTLESS'] as const;
+
+export type AuthorizationChannel = (typeof AUTHORIZATION_CHANNELS)[number];
+
+// Channels where the cardholder enters the card's PIN
+const PIN_CHANNELS: readonly AuthorizationChannel[] = ['POS', 'ATM'];
+
+export type DeclineReason =
+  | 'CARD_NOT_ACTIVE'
+  | 'CARD_EXPIRED'
+  | 'CVV_MISMATCH'
+  | 'PIN_REQUIRED'
+  | 'PIN_NOT_SET'
+  | 'PIN_LOCKED'
+  | 'INCORRECT_PIN'
+  | 'PIN_NOT_SUPPORTED'
+  | 'INSUFFICIENT_CREDIT'
+  | ControlDeclineReason
+  | VirtualCardDeclineReason
+  | AddOnCardDeclineReason;
+
+// Status of the authorization's Transaction in each state
+const TRANSACTION_STATUS: Record<AuthorizationStatus, 'SUCCESS' | 'PENDING' | 'FAILED'> = {
+  PENDING: 'PENDING',
+  CAPTURED: 'SUCCESS',
+  REVERSED: 'FAILED',
+  EXPIRED: 'FAILED',
+  DECLINED: 'FAILED',
+};
+
+const PIN_DECLINES: Record<Exclude<PinCheck, 'OK'>, DeclineReason> = {
+  NOT_SET: 'PIN_NOT_SET',
+  LOCKED: 'PIN_LOCKED',
+  INCORRECT: 'INCORRECT_PIN',
+};
+
+// Column recording when an authorization left PENDING
+const STATE_TIMESTAMPS = {
+  CAPTURED: 'capturedAt',
+  REVERSED: 'reversedAt',
+  EXPIRED: 'expiredAt',
+} as const;
+
+type AuthorizationClient = Prisma.TransactionClient;
+
+type ClosingStatus = keyof typeof STATE_TIMESTAMPS;
+
+export interface AuthorizationRequest {
+  networkReference: string;
+  cardNumber: string;
+  cvv?: string; // Sent for card-not-present transactions
+  pin?: string; // Entered at ATMs and POS terminals
+  amountPaise: Paise;
+  merchant: string;
+  category?: string;
+  channel?: AuthorizationChannel;
+  country?: string;
+}
+
+/**
+ * Credit held by pending authorizations, keyed by card id.
+ */
+export async function getPendingHoldsByCard(client: AuthorizationClient, cardIds: number[]): Promise<Map<number, Paise>> {
+  const holds = new Map<number, Paise>(cardIds.map(id => [id, 0]));
+  if (cardIds.length === 0) {
+    return holds;
+  }
+
+  const rows = await client.cardAuthorization.groupBy({
+    by: ['cardId'],
+    where: { cardId: { in: cardIds }, status: 'PENDING' },
+    _sum: { amountPaise: true },
+  });
+  for (const row of rows) {
+    holds.set(row.cardId, row._sum.amountPaise ?? 0);
+  }
+  return holds;
+}
+
+export async function getPendingHolds(client: AuthorizationClient, cardId: number): Promise<Paise> {
+  const holds = await getPendingHoldsByCard(client, [cardId]);
+  return holds.get(cardId) ?? 0;
+}
+
+interface ChargedCard {
+  card: Card;
+  virtualCard: VirtualCard | null;
+  addOnCard: AddOnCard | null;
+}
+
+/**
+ * The card a network card number charges, found by the number's keyed hash.
+ * A virtual or add-on card number charges the card it belongs to.
+ */
+async function findChargedCard(cardNumber: string): Promise<ChargedCard> {
+  const panHash = hashPan(cardNumber);
+  const card = await prisma.card.findUnique({ where: { panHash } });
+  if (card) {
+    return { card, virtualCard: null, addOnCard: null };
+  }
+
+  const virtual = await prisma.virtualCard.findUnique({
+    where: { panHash },
+    include: { card: true },
+  });
+  if (virtual) {
+    const { card: physicalCard, ...virtualCard } = virtual;
+    return { card: physicalCard, virtualCard, addOnCard: null };
+  }
+
+  const addOn = await prisma.addOnCard.findUnique({
+    where: { panHash },
+    include: { card: true },
+  });
+  if (!addOn) {
+    throw new NotFoundError('Card not found');
+  }
+  const { card: primaryCard, ...addOnCard } = addOn;
+  return { card: primaryCard, virtualCard: null, addOnCard };
+}
+
+/**
+ * Why an authorization should be declined, or null to approve it. The card
+ * (and an add-on card charged) must be active and unexpired, a CVV sent
+ * must match the number charged, the PIN of the card used must be entered
+ * correctly at an ATM or POS terminal (wrong ones count towards locking it),
+ * so a virtual card, which has none, can't be used there,
+ * a virtual card or an add-on card's own controls and sub-limit must also
+ * allow the charge, the cardholder's controls must allow the transaction,
+ * and the card must have room under its limit once what it owes and what is
+ * already held are taken out.
+ */
+async function checkAuthorization(
+  tx: AuthorizationClient,
+  { card, virtualCard, addOnCard }: ChargedCard,
+  request: AuthorizationRequest
+): Promise<DeclineReason | null> {
+  if (card.status !== 'ACTIVE') {
+    return 'CARD_NOT_ACTIVE';
+  }
+  if (addOnCard && addOnCard.status !== 'ACTIVE') {
+    return 'ADD_ON_CARD_NOT_ACTIVE';
+  }
+  if (isCardExpired(addOnCard ?? card)) {
+    return 'CARD_EXPIRED';
+  }
+
+  const { cvvHash } = virtualCard ?? addOnCard ?? card;
+  if (request.cvv !== undefined && cvvHash && !verifyCardSecret(request.cvv, cvvHash)) {
+    return 'CVV_MISMATCH';
+  }
+
+  if (request.channel && PIN_CHANNELS.includes(request.channel)) {
+    // Virtual cards have no PIN, so they can't be used where one is asked for
+    if (virtualCard) {
+      return 'PIN_NOT_SUPPORTED';
+    }
+    if (request.pin === undefined) {
+      return 'PIN_REQUIRED';
+    }
+    const pinCheck = addOnCard
+      ? await verifyAddOnPin(tx, addOnCard, request.pin)
+      : await verifyCardPin(tx, card, request.pin);
+    if (pinCheck !== 'OK') {
+      return PIN_DECLINES[pinCheck];
+    }
+  }
+
+  if (virtualCard) {
+    const virtualDecline = await checkVirtualCard(tx, virtualCard, request);
+    if (virtualDecline) {
+      return virtualDecline;
+    }
+  }
+  if (addOnCard) {
+    const addOnDecline = await checkAddOnCard(tx, addOnCard, request);
+    if (addOnDecline) {
+      return addOnDecline;
+    }
+  }
+
+  const controls = await getCardControls(tx, card.id);
+  const controlDecline = await checkCardControls(tx, card.id, controls, request);
+  if (controlDecline) {
+    return controlDecline;
+  }
+
+  const { outstandingPaise } = await getCardBalances(tx, card.id);
+  const heldPaise = await getPendingHolds(tx, card.id);
+  if (request.amountPaise > card.creditLimitPaise - outstandingPaise - heldPaise) {
+    return 'INSUFFICIENT_CREDIT';
+  }
+
+  return null;
+}
+
+function isDuplicateReference(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Approve or decline a card network authorization. An approved one holds
+ * the amount against the card's available credit and records a PENDING
+ * transaction (tagged with the add-on card, if one was used); a declined
+ * one records a FAILED transaction. Retries with the
+ * same network reference return the authorization already recorded. A
+ * single-use virtual card is used up by its first approved authorization.
+ */
+export async function authorizeTransaction(
+  request: AuthorizationRequest
+): Promise<{ authorization: CardAuthorization; duplicate: boolean }> {
+  const existing = await prisma.cardAuthorization.findUnique({
+    where: { networkReference: request.networkReference },
+  });
+  if (existing) {
+    return { authorization: existing, duplicate: true };
+  }
+
+  const chargedCard = await findChargedCard(request.cardNumber);
+  const { card, virtualCard, addOnCard } = chargedCard;
+
+  try {
+    const authorization = await prisma.$transaction(async (tx) => {
+      // Locks the card row, so concurrent authorizations on a card are
+      // checked one at a time against the holds already placed
+      await tx.card.update({ where: { id: card.id }, data: { updatedAt: new Date() } });
+
+      const declineReason = await checkAuthorization(tx, chargedCard, request);
+      const status: AuthorizationStatus = declineReason ? 'DECLINED' : 'PENDING';
+      const now = new Date();
+
+      const transaction = await tx.transaction.create({
+        data: {
+          cardId: card.id,
+          userId: card.userId,
+          amountPaise: -request.amountPaise,
+          merchant: request.merchant,
+          category: request.category,
+          date: now,
+          status: TRANSACTION_STATUS[status],
+          type: 'PURCHASE',
+          addOnCardId: addOnCard?.id,
+        },
+      });
+
+      const created = await tx.cardAuthorization.create({
+        data: {
+          cardId: card.id,
+          virtualCardId: virtualCard?.id,
+          addOnCardId: addOnCard?.id,
+          transactionId: transaction.id,
+          networkReference: request.networkReference,
+          amountPaise: request.amountPaise,
+          merchant: request.merchant,
+          category: request.category,
+          channel: request.channel,
+          country: request.country,
+          status,
+          declineReason,
+          expiresAt: new Date(now.getTime() + AUTHORIZATION_HOLD_DAYS * DAY_MS),
+        },
+      });
+
+      if (virtualCard?.singleUse && status === 'PENDING') {
+        await tx.virtualCard.update({
+          where: { id: virtualCard.id },
+          data: { status: 'USED', usedAt: now },
+        });
+      }
+      return created;
+    });
+
+    logger.info(
+      `Authorization ${authorization.id} for ${formatRupees(authorization.amountPaise)} on `
+      + `${virtualCard ? `virtual card ${virtualCard.last4} of ` : ''}`
+      + `${addOnCard ? `add-on card ${addOnCard.last4} of ` : ''}card ${card.last4}: `
+      + `${authorization.status}${authorization.declineReason ? ` (${authorization.declineReason})` : ''}`
+    );
+    return { authorization, duplicate: false };
+  } catch (error) {
+    // Lost a race with a retry of the same authorization
+    if (isDuplicateReference(error)) {
+      const authorization = await prisma.cardAuthorization.findUniqueOrThrow({
+        where: { networkReference: request.networkReference },
+      });
+      return { authorization, duplicate: true };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Move a pending authorization to a closing state and its transaction to
+ * the matching status. The update only matches while the authorization is
+ * PENDING, so a hold is released or captured once.
+ */
+async function closeAuthorization(
+  tx: AuthorizationClient,
+  authorization: CardAuthorization,
+  to: ClosingStatus,
+  data: Prisma.CardAuthorizationUncheckedUpdateInput = {},
+  at: Date = new Date()
+): Promise<CardAuthorization> {
+  try {
+    return await tx.cardAuthorization.update({
+      where: { id: authorization.id, status: 'PENDING' },
+      data: { ...data, status: to, [STATE_TIMESTAMPS[to]]: at },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      throw new ConflictError(`Authorization ${authorization.id} is no longer pending`);
+    }
+    throw error;
+  }
+}
+
+async function findPendingAuthorization(id: number): Promise<CardAuthorization> {
+  const authorization = await prisma.cardAuthorization.findUnique({ where: { id } });
+  if (!authorization) {
+    throw new NotFoundError('Authorization not found');
+  }
+  if (authorization.status !== 'PENDING') {
+    throw new ConflictError(`Authorization ${id} is already ${authorization.status.toLowerCase()}`);
+  }
+  return authorization;
+}
+
+/**
+ * Settle an authorization for the final amount (at most the amount held;
+ * the rest of the hold is released). The transaction becomes SUCCESS, dated
+ * at capture so it is billed in the cycle it settled in, and is posted to
+ * the ledger.
+ */
+export async function captureAuthorization(id: number, amountPaise?: Paise): Promise<CardAuthorization> {
+  const authorization = await findPendingAuthorization(id);
+  const capturedPaise = amountPaise ?? authorization.amountPaise;
+  if (capturedPaise > authorization.amountPaise) {
+    throw new ValidationError(
+      `Capture amount ${formatRupees(capturedPaise)} exceeds the authorized ${formatRupees(authorization.amountPaise)}`
+    );
+  }
+
+  const captured = await prisma.$transaction(async (tx) => {
+    const now = new Date();
+    const updated = await closeAuthorization(tx, authorization, 'CAPTURED', { capturedPaise }, now);
+    const transaction = await tx.transaction.update({
+      where: { id: authorization.transactionId },
+      data: { status: TRANSACTION_STATUS.CAPTURED, amountPaise: -capturedPaise, date: now },
+    });
+    await postTransaction(tx, transaction);
+    return updated;
+  });
+
+  logger.info(`Authorization ${id} captured for ${formatRupees(capturedPaise)}`);
+  return captured;
+}
+
+/**
+ * Cancel an authorization and release its hold. Nothing was posted for it,
+ * so the transaction is just marked FAILED.
+ */
+export async function reverseAuthorization(id: number): Promise<CardAuthorization> {
+  const authorization = await findPendingAuthorization(id);
+
+  const reversed = await prisma.$transaction(async (tx) => {
+    const updated = await closeAuthorization(tx, authorization, 'REVERSED');
+    await tx.transaction.update({
+      where: { id: authorization.transactionId },
+      data: { status: TRANSACTION_STATUS.REVERSED },
+    });
+    return updated;
+  });
+
+  logger.info(`Authorization ${id} reversed`);
+  return reversed;
+}
+
+/**
+ * Release one hold that was never captured.
+ */
+export async function expireAuthorization(authorization: CardAuthorization, now: Date = new Date()): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    await closeAuthorization(tx, authorization, 'EXPIRED', {}, now);
+    await tx.transaction.update({
+      where: { id: authorization.transactionId },
+      data: { status: TRANSACTION_STATUS.EXPIRED },
+    });
+  });
+}
@@ -0,0 +1,138 @@
+import { Card, CardClosure, Prisma } from '@prisma/client';
+import { ConflictError } from '../middleware/errorHandler';
+import { getPendingHolds } from './authorizations';
+import { getCardBalances, settleClosedCard } from './ledger';
+import { formatRupees, Paise } from './money';
+
+// What happens to reward points left on a card its holder closes: CONVERT
+// pays them out with the closure refund at REWARD_POINT_VALUE_PAISE each,
+// FORFEIT cancels them.
+export const CLOSURE_REWARDS_POLICY: 'CONVERT' | 'FORFEIT' =
+  process.env.CLOSURE_REWARDS_POLICY?.toUpperCase() === 'FORFEIT' ? 'FORFEIT' : 'CONVERT';
+
+// 5,000 points are worth ₹500, as when redeemed for cashback
+export const REWARD_POINT_VALUE_PAISE = parseInt(process.env.REWARD_POINT_VALUE_PAISE || '10');
+
+// What has to be settled before a card can be closed
+export type ClosureBlocker = 'OUTSTANDING_BALANCE' | 'PENDING_HOLDS' | 'PAYMENTS_IN_FLIGHT';
+
+type ClosureClient = Prisma.TransactionClient;
+
+export interface ClosureQuote {
+  outstandingPaise: Paise; // To pay off before closing; 0 when in credit
+  creditBalancePaise: Paise;
+  pendingHoldsPaise: Paise;
+  paymentsInFlight: number;
+  rewardPoints: number;
+  rewardsOutcome: 'CONVERTED' | 'FORFEITED';
+  rewardsValuePaise: Paise;
+  refundPaise: Paise; // Credit balance plus converted points, paid back on closure
+  blockers: ClosureBlocker[];
+}
+
+/**
+ * Where a card stands for closing: what still has to be paid or settle
+ * first, and what its holder gets back.
+ */
+export async function getClosureQuote(client: ClosureClient, cardId: number): Promise<ClosureQuote> {
+  const [balances, pendingHoldsPaise, paymentsInFlight, rewards] = await Promise.all([
+    getCardBalances(client, cardId),
+    getPendingHolds(client, cardId),
+    client.payment.count({ where: { cardId, status: { in: ['CREATED', 'PENDING', 'PROCESSING'] } } }),
+    client.reward.aggregate({ where: { cardId }, _sum: { points: true } }),
+  ]);
+
+  const rewardPoints = Math.max(rewards._sum.points ?? 0, 0);
+  const rewardsValuePaise = CLOSURE_REWARDS_POLICY === 'CONVERT' ? rewardPoints * REWARD_POINT_VALUE_PAISE : 0;
+  const creditBalancePaise = Math.max(-balances.outstandingPaise, 0);
+
+  const blockers: ClosureBlocker[] = [];
+  if (balances.outstandingPaise > 0) blockers.push('OUTSTANDING_BALANCE');
+  if (pendingHoldsPaise > 0) blockers.push('PENDING_HOLDS');
+  if (paymentsInFlight > 0) blockers.push('PAYMENTS_IN_FLIGHT');
+
+  return {
+    outstandingPaise: Math.max(balances.outstandingPaise, 0),
+    creditBalancePaise,
+    pendingHoldsPaise,
+    paymentsInFlight,
+    rewardPoints,
+    rewardsOutcome: CLOSURE_REWARDS_POLICY === 'CONVERT' ? 'CONVERTED' : 'FORFEITED',
+    rewardsValuePaise,
+    refundPaise: creditBalancePaise + rewardsValuePaise,
+    blockers,
+  };
+}
+
+/**
+ * Why a card can't be closed yet, as shown to its holder.
+ */
+export function describeClosureBlocker(blocker: ClosureBlocker, quote: ClosureQuote): string {
+  switch (blocker) {
+    case 'OUTSTANDING_BALANCE':
+      return `Pay the outstanding balance of ${formatRupees(quote.outstandingPaise)} before closing the card`;
+    case 'PENDING_HOLDS':
+      return `Wait for ${formatRupees(quote.pendingHoldsPaise)} of pending transactions to settle before closing the card`;
+    case 'PAYMENTS_IN_FLIGHT':
+      return 'Wait for payments still being processed to complete before closing the card';
+  }
+}
+
+/**
+ * Close a card at its holder's request. Refused while anything is owed on
+ * it, held on it or being paid towards it. Reward points are converted or
+ * forfeited per CLOSURE_REWARDS_POLICY, and any credit balance plus
+ * converted points is recorded as a refund. Autopay, scheduled payments and
+ * pending autopay runs are cancelled, and its add-on and virtual cards
+ * closed. The card stays, CLOSED, with its history.
+ */
+export async function closeCard(tx: ClosureClient, card: Card, now: Date = new Date()): Promise<CardClosure> {
+  // Also locks the card row against authorizations and a second closure
+  const closed = await tx.card.updateMany({
+    where: { id: card.id, status: { not: 'CLOSED' } },
+    data: { status: 'CLOSED', closedAt: now, closureReason: 'CARDHOLDER_REQUEST', autopayEnabled: false },
+  });
+  if (closed.count === 0) {
+    throw new ConflictError('Card is already closed');
+  }
+
+  const quote = await getClosureQuote(tx, card.id);
+  if (quote.blockers.length > 0) {
+    throw new ConflictError(describeClosureBlocker(quote.blockers[0], quote));
+  }
+
+  const from = { cardId: card.id };
+  await tx.reward.updateMany({ where: from, data: { points: 0 } });
+  const refundPaise = await settleClosedCard(tx, card.id, quote.rewardsValuePaise);
+
+  await tx.autopayRun.updateMany({
+    where: { ...from, status: { in: ['PENDING', 'RETRYING'] } },
+    data: { status: 'SKIPPED', lastError: 'Card closed' },
+  });
+  const scheduledPayments = await tx.scheduledPayment.updateMany({
+    where: { ...from, status: { in: ['ACTIVE', 'PAUSED'] } },
+    data: { status: 'CANCELLED' },
+  });
+  const addOnCards = await tx.addOnCard.updateMany({
+    where: { ...from, status: { not: 'CLOSED' } },
+    data: { status: 'CLOSED', closedAt: now },
+  });
+  await tx.virtualCard.updateMany({
+    where: { ...from, status: { in: ['ACTIVE', 'PAUSED'] } },
+    data: { status: 'DELETED', deletedAt: now },
+  });
+
+  return tx.cardClosure.create({
+    data: {
+      cardId: card.id,
+      rewardPoints: quote.rewardPoints,
+      rewardsOutcome: quote.rewardsOutcome,
+      rewardsValuePaise: quote.rewardsValuePaise,
+      refundPaise,
+      autopayCancelled: card.autopayEnabled,
+      scheduledPaymentsCancelled: scheduledPayments.count,
+      addOnCardsClosed: addOnCards.count,
+      createdAt: now,
+    },
+  });
+}
@@ -0,0 +1,148 @@
+import { CardControl, Prisma } from '@prisma/client';
+import { ValidationError } from '../middleware/errorHandler';
+import { formatRupees, Paise, sumPaise } from './money';
+
+// Country cards are issued in; merchants anywhere else are international
+export const HOME_COUNTRY = 'IN';
+
+export type ControlDeclineReason =
+  | 'ONLINE_DISABLED'
+  | 'INTERNATIONAL_DISABLED'
+  | 'CONTACTLESS_DISABLED'
+  | 'ATM_DISABLED'
+  | 'CATEGORY_BLOCKED'
+  | 'TRANSACTION_LIMIT_EXCEEDED'
+  | 'DAILY_LIMIT_EXCEEDED'
+  | 'MONTHLY_LIMIT_EXCEEDED';
+
+export type CardControls = Omit<CardControl, 'id' | 'cardId' | 'createdAt' | 'updatedAt'>;
+
+// What a card without a CardControl row gets (the column defaults)
+export const DEFAULT_CARD_CONTROLS: CardControls = {
+  onlineEnabled: true,
+  internationalEnabled: false,
+  contactlessEnabled: true,
+  atmEnabled: true,
+  perTransactionLimitPaise: null,
+  dailyLimitPaise: null,
+  monthlyLimitPaise: null,
+  blockedCategories: [],
+};
+
+// Channels a toggle can switch off; POS is always allowed
+const CHANNEL_TOGGLES: Record<string, ['onlineEnabled' | 'contactlessEnabled' | 'atmEnabled', ControlDeclineReason]> = {
+  ONLINE: ['onlineEnabled', 'ONLINE_DISABLED'],
+  CONTACTLESS: ['contactlessEnabled', 'CONTACTLESS_DISABLED'],
+  ATM: ['atmEnabled', 'ATM_DISABLED'],
+};
+
+type ControlsClient = Prisma.TransactionClient;
+
+export interface ControlledTransaction {
+  amountPaise: Paise;
+  channel?: string;
+  country?: string;
+  category?: string;
+}
+
+export async function getCardControls(client: ControlsClient, cardId: number): Promise<CardControls> {
+  const controls = await client.cardControl.findUnique({ where: { cardId } });
+  return controls ?? { ...DEFAULT_CARD_CONTROLS };
+}
+
+/**
+ * Reject spend caps that contradict each other: a per-transaction cap above
+ * the daily cap, or a daily cap above the monthly one.
+ */
+export function validateSpendCaps(
+  controls: Pick<CardControls, 'perTransactionLimitPaise' | 'dailyLimitPaise' | 'monthlyLimitPaise'>
+): void {
+  const { perTransactionLimitPaise, dailyLimitPaise, monthlyLimitPaise } = controls;
+  const widerCap = dailyLimitPaise ?? monthlyLimitPaise;
+  if (perTransactionLimitPaise !== null && widerCap !== null && perTransactionLimitPaise > widerCap) {
+    throw new ValidationError(
+      `Per-transaction limit ${formatRupees(perTransactionLimitPaise)} is above the ${dailyLimitPaise !== null ? 'daily' : 'monthly'} limit`
+    );
+  }
+  if (dailyLimitPaise !== null && monthlyLimitPaise !== null && dailyLimitPaise > monthlyLimitPaise) {
+    throw new ValidationError(`Daily limit ${formatRupees(dailyLimitPaise)} is above the monthly limit`);
+  }
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function startOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * What a card has spent through authorizations since `since`: amounts still
+ * held plus what was captured. Reversed, expired and declined ones don't count.
+ */
+export async function getAuthorizedSpend(client: ControlsClient, cardId: number, since: Date): Promise<Paise> {
+  const rows = await client.cardAuthorization.groupBy({
+    by: ['status'],
+    where: { cardId, status: { in: ['PENDING', 'CAPTURED'] }, createdAt: { gte: since } },
+    _sum: { amountPaise: true, capturedPaise: true },
+  });
+  return sumPaise(rows.map(row => (row.status === 'CAPTURED' ? row._sum.capturedPaise : row._sum.amountPaise)));
+}
+
+/**
+ * Spend so far today and this calendar month, for showing against the caps.
+ */
+export async function getSpendUsage(
+  client: ControlsClient,
+  cardId: number,
+  now: Date = new Date()
+): Promise<{ todayPaise: Paise; thisMonthPaise: Paise }> {
+  return {
+    todayPaise: await getAuthorizedSpend(client, cardId, startOfDay(now)),
+    thisMonthPaise: await getAuthorizedSpend(client, cardId, startOfMonth(now)),
+  };
+}
+
+/**
+ * The control a transaction breaks, or null if the cardholder's controls
+ * allow it. Toggles and blocked categories are checked before the spend caps.
+ */
+export async function checkCardControls(
+  client: ControlsClient,
+  cardId: number,
+  controls: CardControls,
+  transaction: ControlledTransaction,
+  now: Date = new Date()
+): Promise<ControlDeclineReason | null> {
+  const toggle = transaction.channel ? CHANNEL_TOGGLES[transaction.channel] : undefined;
+  if (toggle && !controls[toggle[0]]) {
+    return toggle[1];
+  }
+  if (!controls.internationalEnabled && (transaction.country ?? HOME_COUNTRY) !== HOME_COUNTRY) {
+    return 'INTERNATIONAL_DISABLED';
+  }
+
+  const category = (transaction.category ?? 'Others').toLowerCase();
+  if (controls.blockedCategories.some(blocked => blocked.toLowerCase() === category)) {
+    return 'CATEGORY_BLOCKED';
+  }
+
+  if (controls.perTransactionLimitPaise !== null && transaction.amountPaise > controls.perTransactionLimitPaise) {
+    return 'TRANSACTION_LIMIT_EXCEEDED';
+  }
+  if (controls.dailyLimitPaise !== null) {
+    const spentPaise = await getAuthorizedSpend(client, cardId, startOfDay(now));
+    if (spentPaise + transaction.amountPaise > controls.dailyLimitPaise) {
+      return 'DAILY_LIMIT_EXCEEDED';
+    }
+  }
+  if (controls.monthlyLimitPaise !== null) {
+    const spentPaise = await getAuthorizedSpend(client, cardId, startOfMonth(now));
+    if (spentPaise + transaction.amountPaise > controls.monthlyLimitPaise) {
+      return 'MONTHLY_LIMIT_EXCEEDED';
+    }
+  }
+
+  return null;
+}
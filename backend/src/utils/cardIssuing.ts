@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { encryptPan, EncryptedPan, hashCardSecret, hashPan } from './cardVault';
+
+// Issuer BINs (the first six digits) for each product; a card gets one of its
+// product's ranges at random. Virtual cards have their own range.
+export const CARD_BINS: Record<string, string[]> = {
+  SILVER: ['453201', '453202'],
+  GOLD: ['453211', '453212'],
+  PLATINUM: ['453221', '453222'],
+  VIRTUAL: ['453290'],
+};
+
+const DEFAULT_PRODUCT = 'SILVER';
+
+const CARD_NUMBER_LENGTH = 16;
+
+const CARD_VALIDITY_YEARS = parseInt(process.env.CARD_VALIDITY_YEARS || '5');
+
+export interface CardExpiry {
+  expiryMonth: number; // 1-12; the card works through the end of this month
+  expiryYear: number;
+}
+
+// What gets stored for an issued card; the PAN itself only encrypted
+export interface CardCredentials extends EncryptedPan, CardExpiry {
+  panHash: string;
+  last4: string;
+  cvvHash: string;
+}
+
+export interface IssuedCard {
+  pan: string;
+  cvv: string;
+  credentials: CardCredentials;
+}
+
+/**
+ * Luhn check digit for the digits before it.
+ */
+export function luhnCheckDigit(payload: string): string {
+  let sum = 0;
+  // Doubling starts from the rightmost payload digit, next to the check digit
+  for (let i = 0; i < payload.length; i++) {
+    let digit = Number(payload[payload.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+export function isLuhnValid(number: string): boolean {
+  return /^\d{2,19}$/.test(number) && luhnCheckDigit(number.slice(0, -1)) === number.slice(-1);
+}
+
+function randomDigits(count: number): string {
+  return Array.from({ length: count }, () => crypto.randomInt(10)).join('');
+}
+
+/**
+ * A 16-digit card number in one of the product's BIN ranges, with a Luhn
+ * check digit.
+ */
+export function generateCardNumber(product: string): string {
+  const bins = CARD_BINS[product.toUpperCase()] ?? CARD_BINS[DEFAULT_PRODUCT];
+  const bin = bins[crypto.randomInt(bins.length)];
+  const payload = bin + randomDigits(CARD_NUMBER_LENGTH - bin.length - 1);
+  return payload + luhnCheckDigit(payload);
+}
+
+export function generateCvv(): string {
+  return randomDigits(3);
+}
+
+/**
+ * Expiry CARD_VALIDITY_YEARS from the issue date, in the same month.
+ */
+export function cardExpiry(issuedAt: Date = new Date()): CardExpiry {
+  return {
+    expiryMonth: issuedAt.getMonth() + 1,
+    expiryYear: issuedAt.getFullYear() + CARD_VALIDITY_YEARS,
+  };
+}
+
+/**
+ * True once the month the card expires in has ended.
+ */
+export function isCardExpired(expiry: { expiryMonth: number | null; expiryYear: number | null }, now: Date = new Date()): boolean {
+  if (expiry.expiryMonth === null || expiry.expiryYear === null) {
+    return false;
+  }
+  // Month index expiryMonth is the month after expiry (Date months are 0-based)
+  return now >= new Date(expiry.expiryYear, expiry.expiryMonth, 1);
+}
+
+/**
+ * Everything stored for a new card number, plus the PAN and CVV in the
+ * clear for the one response that shows them. Only hashes of the CVV are
+ * kept, so it cannot be shown again.
+ */
+export function issueCardCredentials(product: string, expiry: CardExpiry = cardExpiry()): IssuedCard {
+  const pan = generateCardNumber(product);
+  const cvv = generateCvv();
+  return {
+    pan,
+    cvv,
+    credentials: {
+      panHash: hashPan(pan),
+      ...encryptPan(pan),
+      last4: pan.slice(-4),
+      cvvHash: hashCardSecret(cvv),
+      ...expiry,
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { AddOnCard, Card, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { hashCardSecret, verifyCardSecret } from './cardVault';
+
+const PIN_MAX_ATTEMPTS = parseInt(process.env.PIN_MAX_ATTEMPTS || '3');
+
+type PinClient = Prisma.TransactionClient;
+
+// Outcome of checking an entered PIN; LOCKED covers the attempt that locks it
+export type PinCheck = 'OK' | 'NOT_SET' | 'LOCKED' | 'INCORRECT';
+
+type PinState = Pick<Card, 'pinHash' | 'pinAttempts' | 'pinLockedAt'>;
+
+type PinAttemptUpdate = { pinAttempts: number | { increment: number } } | { pinLockedAt: Date };
+
+/**
+ * Check a PIN against a card's or add-on card's PIN, recording the attempt
+ * through `update`.
+ */
+async function checkPin(
+  state: PinState,
+  pin: string,
+  update: (data: PinAttemptUpdate) => Promise<{ pinAttempts: number }>
+): Promise<PinCheck> {
+  if (!state.pinHash) {
+    return 'NOT_SET';
+  }
+  if (state.pinLockedAt) {
+    return 'LOCKED';
+  }
+
+  if (verifyCardSecret(pin, state.pinHash)) {
+    if (state.pinAttempts > 0) {
+      await update({ pinAttempts: 0 });
+    }
+    return 'OK';
+  }
+
+  // Counted in the database so concurrent attempts can't each see the old count
+  const { pinAttempts } = await update({ pinAttempts: { increment: 1 } });
+  if (pinAttempts >= PIN_MAX_ATTEMPTS) {
+    await update({ pinLockedAt: new Date() });
+    return 'LOCKED';
+  }
+  return 'INCORRECT';
+}
+
+/**
+ * Check a PIN entered for the card and record the attempt. A correct PIN
+ * clears the count of wrong ones; PIN_MAX_ATTEMPTS wrong ones in a row lock
+ * the PIN until the cardholder resets it.
+ */
+export async function verifyCardPin(client: PinClient, card: Card, pin: string): Promise<PinCheck> {
+  return checkPin(card, pin, data => client.card.update({ where: { id: card.id }, data }));
+}
+
+/**
+ * Check a PIN entered for an add-on card, with the same lockout as a card's
+ * own PIN. The add-on holder unlocks it by setting a new one.
+ */
+export async function verifyAddOnPin(client: PinClient, addOnCard: AddOnCard, pin: string): Promise<PinCheck> {
+  return checkPin(addOnCard, pin, data => client.addOnCard.update({ where: { id: addOnCard.id }, data }));
+}
+
+/**
+ * Store a new PIN as a salted hash, unlocking it if it was locked.
+ */
+export async function storeCardPin(cardId: number, pin: string): Promise<Card> {
+  return prisma.card.update({
+    where: { id: cardId },
+    data: { pinHash: hashCardSecret(pin), pinSetAt: new Date(), pinAttempts: 0, pinLockedAt: null },
+  });
+}
+
+export async function storeAddOnPin(addOnCardId: number, pin: string): Promise<AddOnCard> {
+  return prisma.addOnCard.update({
+    where: { id: addOnCardId },
+    data: { pinHash: hashCardSecret(pin), pinSetAt: new Date(), pinAttempts: 0, pinLockedAt: null },
+  });
+}
@@ -0,0 +1,120 @@
+import { Card, Prisma } from '@prisma/client';
+import { ConflictError } from '../middleware/errorHandler';
+import { cardExpiry, issueCardCredentials } from './cardIssuing';
+import { transferCardBalances } from './ledger';
+import { Paise } from './money';
+
+// Why a card was reported. The reported card is closed for good either way.
+export const REPORT_REASONS = ['LOST', 'STOLEN', 'DAMAGED', 'COMPROMISED'] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+type ReplacementClient = Prisma.TransactionClient;
+
+export interface CardReplacement {
+  replacement: Card;
+  balanceMovedPaise: Paise;
+  virtualCardsMoved: number;
+  addOnCardsMoved: number;
+  scheduledPaymentsMoved: number;
+}
+
+/**
+ * Close a reported card and issue its replacement with a new number, to be
+ * activated when it arrives. The replacement keeps the account behind it:
+ * limit, autopay and billing cycle, rewards, controls, virtual and add-on
+ * cards and scheduled payments all move across, as does anything still open (unpaid
+ * statements and their autopay runs, payments in flight, pending holds) and
+ * the balance. Paid statements and settled transactions stay with the old
+ * card; `replacesCardId` links the two.
+ */
+export async function replaceCard(
+  tx: ReplacementClient,
+  card: Card,
+  reason: ReportReason,
+  now: Date = new Date()
+): Promise<CardReplacement> {
+  // Also locks the card row against authorizations and a second report
+  const closed = await tx.card.updateMany({
+    where: { id: card.id, status: { not: 'CLOSED' } },
+    data: { status: 'CLOSED', closedAt: now, closureReason: reason },
+  });
+  if (closed.count === 0) {
+    throw new ConflictError('Card is already closed');
+  }
+
+  const { credentials } = issueCardCredentials(card.cardType, cardExpiry(now));
+  const replacement = await tx.card.create({
+    data: {
+      userId: card.userId,
+      ...credentials,
+      cardType: card.cardType,
+      status: 'INACTIVE', // Activated by the cardholder once it arrives
+      creditLimitPaise: card.creditLimitPaise,
+      autopayEnabled: card.autopayEnabled,
+      autopayMode: card.autopayMode,
+      billingCycleDay: card.billingCycleDay,
+      replacesCardId: card.id,
+    },
+  });
+
+  const from = { cardId: card.id };
+  const to = { cardId: replacement.id };
+
+  await tx.reward.updateMany({ where: from, data: to });
+  await tx.cardControl.updateMany({ where: from, data: to });
+  const virtualCards = await tx.virtualCard.updateMany({
+    where: { ...from, status: { not: 'DELETED' } },
+    data: to,
+  });
+  // Add-on cards keep their own numbers; they work again once the replacement is activated
+  const addOnCards = await tx.addOnCard.updateMany({
+    where: { ...from, status: { not: 'CLOSED' } },
+    data: to,
+  });
+  const scheduledPayments = await tx.scheduledPayment.updateMany({
+    where: { ...from, status: { in: ['ACTIVE', 'PAUSED'] } },
+    data: to,
+  });
+
+  await tx.statement.updateMany({ where: { ...from, isPaid: false }, data: to });
+  await tx.autopayRun.updateMany({ where: { ...from, status: { in: ['PENDING', 'RETRYING'] } }, data: to });
+  await tx.payment.updateMany({ where: { ...from, status: { in: ['CREATED', 'PENDING', 'PROCESSING'] } }, data: to });
+
+  // Holds are captured or released on the card they sit on
+  const holds = await tx.cardAuthorization.findMany({
+    where: { ...from, status: 'PENDING' },
+    select: { id: true, transactionId: true },
+  });
+  if (holds.length > 0) {
+    await tx.cardAuthorization.updateMany({ where: { id: { in: holds.map(hold => hold.id) } }, data: to });
+    await tx.transaction.updateMany({ where: { id: { in: holds.map(hold => hold.transactionId) } }, data: to });
+  }
+
+  const balanceMovedPaise = await transferCardBalances(tx, card.id, replacement.id);
+
+  return {
+    replacement,
+    balanceMovedPaise,
+    virtualCardsMoved: virtualCards.count,
+    addOnCardsMoved: addOnCards.count,
+    scheduledPaymentsMoved: scheduledPayments.count,
+  };
+}
+
+/**
+ * Ids of the cards a card replaced, most recent first.
+ */
+export async function getReplacedCardIds(client: ReplacementClient, replacesCardId: number | null): Promise<number[]> {
+  const cardIds: number[] = [];
+  let previousId = replacesCardId;
+  while (previousId !== null && !cardIds.includes(previousId)) {
+    cardIds.push(previousId);
+    const previous = await client.card.findUnique({
+      where: { id: previousId },
+      select: { replacesCardId: true },
+    });
+    previousId = previous?.replacesCardId ?? null;
+  }
+  return cardIds;
+}
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../config/logger';
+
+// Key-encryption key (KEK): 32 random bytes, base64, in a file outside the
+// database. In development a missing file is created; in production it must
+// be provisioned (and would normally live in a KMS instead).
+const CARD_KEK_PATH = process.env.CARD_KEK_PATH || path.join(process.cwd(), 'keys', 'card-kek.key');
+
+const CIPHER = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+
+export interface EncryptedPan {
+  panCiphertext: string; // PAN sealed with the card's own data key
+  panDataKey: string; // That data key, sealed with the KEK
+}
+
+let kek: Buffer | null = null;
+
+function loadKek(): Buffer {
+  if (kek) {
+    return kek;
+  }
+
+  if (!fs.existsSync(CARD_KEK_PATH)) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(`Card KEK file ${CARD_KEK_PATH} is missing`);
+    }
+    fs.mkdirSync(path.dirname(CARD_KEK_PATH), { recursive: true });
+    fs.writeFileSync(CARD_KEK_PATH, crypto.randomBytes(KEY_BYTES).toString('base64'), { mode: 0o600 });
+    logger.warn(`Generated a development card KEK at ${CARD_KEK_PATH}`);
+  }
+
+  const key = Buffer.from(fs.readFileSync(CARD_KEK_PATH, 'utf8').trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Card KEK in ${CARD_KEK_PATH} must be ${KEY_BYTES} bytes, base64-encoded`);
+  }
+  kek = key;
+  return kek;
+}
+
+// Separate keys for separate jobs, all derived from the KEK
+function deriveKey(purpose: string): Buffer {
+  return crypto.createHmac('sha256', loadKek()).update(purpose).digest();
+}
+
+// iv.tag.ciphertext, each base64
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(CIPHER, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Envelope-encrypt a card number: a fresh data key encrypts the PAN and the
+ * KEK encrypts the data key.
+ */
+export function encryptPan(pan: string): EncryptedPan {
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  return {
+    panCiphertext: seal(dataKey, Buffer.from(pan, 'utf8')),
+    panDataKey: seal(loadKek(), dataKey),
+  };
+}
+
+export function decryptPan(encrypted: EncryptedPan): string {
+  const dataKey = open(loadKek(), encrypted.panDataKey);
+  return open(dataKey, encrypted.panCiphertext).toString('utf8');
+}
+
+/**
+ * Keyed hash of a card number, for finding a card by the number the card
+ * network sends without storing it in plaintext.
+ */
+export function hashPan(pan: string): string {
+  return crypto.createHmac('sha256', deriveKey('pan-lookup')).update(pan).digest('hex');
+}
+
+/**
+ * Salted, keyed hash of a short card secret such as a CVV: salt.hash, hex.
+ * The key keeps the few possible values from being tried offline.
+ */
+export function hashCardSecret(secret: string): string {
+  const salt = crypto.randomBytes(SALT_BYTES).toString('hex');
+  const hash = crypto.createHmac('sha256', deriveKey('card-secret')).update(`${salt}:${secret}`).digest('hex');
+  return `${salt}.${hash}`;
+}
+
+export function verifyCardSecret(secret: string, stored: string): boolean {
+  const [salt, hash] = stored.split('.');
+  if (!salt || !hash) {
+    return false;
+  }
+  const expected = crypto.createHmac('sha256', deriveKey('card-secret')).update(`${salt}:${secret}`).digest();
+  const actual = Buffer.from(hash, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
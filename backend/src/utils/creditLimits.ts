@@ -0,0 +1,54 @@
+import { LimitRequest, Prisma } from '@prisma/client';
+import { ConflictError } from '../middleware/errorHandler';
+import { Paise, toPaise, toRupees } from './money';
+
+// Highest limit a card can be raised to, by request or offer
+export const MAX_CREDIT_LIMIT_PAISE: Paise = toPaise(1000000);
+
+// Limit requests: PENDING -> APPROVED | REJECTED
+export const LIMIT_REQUEST_STATUSES = ['PENDING', 'APPROVED', 'REJECTED'] as const;
+
+export type LimitRequestStatus = (typeof LIMIT_REQUEST_STATUSES)[number];
+
+type LimitClient = Prisma.TransactionClient;
+
+/**
+ * Raise a card's credit limit. Refused if the card has been closed or its
+ * limit is already at least this high, so an approval and an accepted offer
+ * can't lower the limit one another set. Limit offers the new limit makes
+ * pointless are withdrawn.
+ */
+export async function raiseCreditLimit(
+  client: LimitClient,
+  cardId: number,
+  limitPaise: Paise,
+  now: Date = new Date()
+): Promise<void> {
+  const raised = await client.card.updateMany({
+    where: { id: cardId, status: { not: 'CLOSED' }, creditLimitPaise: { lt: limitPaise } },
+    data: { creditLimitPaise: limitPaise, creditLimitRaisedAt: now },
+  });
+  if (raised.count === 0) {
+    throw new ConflictError('Card is closed or its limit is already this high');
+  }
+
+  await client.offer.updateMany({
+    where: { cardId, type: 'LIMIT_INCREASE', isActive: true, creditLimitPaise: { lte: limitPaise } },
+    data: { isActive: false },
+  });
+}
+
+export function formatLimitRequest(request: LimitRequest) {
+  return {
+    id: request.id,
+    cardId: request.cardId,
+    status: request.status,
+    currentLimit: toRupees(request.currentLimitPaise),
+    requestedLimit: toRupees(request.requestedLimitPaise),
+    annualIncome: toRupees(request.annualIncomePaise),
+    approvedLimit: request.approvedLimitPaise !== null ? toRupees(request.approvedLimitPaise) : null,
+    reason: request.reason,
+    reviewedAt: request.reviewedAt,
+    createdAt: request.createdAt,
+  };
+}
@@ -0,0 +1,231 @@
+import { Response } from 'express';
+import { AddOnCard, Card, CardClosure, Payment, PaymentAdjustment, Statement, Transaction } from '@prisma/client';
+import { summarizeSpendByMember } from './addOnCards';
+import { PdfDocument } from './pdf';
+import { Paise, sumPaise } from './money';
+
+// Letterhead and footer text on every customer document
+const ISSUER_NAME = 'CreditFlow';
+const COMPUTER_GENERATED = 'This is a computer-generated document and does not require a signature.';
+
+/**
+ * Amount for documents: always two decimals, e.g. "Rs. 1,234.50".
+ */
+export function formatDocumentAmount(paise: Paise): string {
+  const rupees = (Math.abs(paise) / 100).toLocaleString('en-IN', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return `${paise < 0 ? '-' : ''}Rs. ${rupees}`;
+}
+
+function formatDocumentDate(date: Date | null | undefined): string {
+  if (!date) return '-';
+  return date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+function formatDocumentDateTime(date: Date | null | undefined): string {
+  if (!date) return '-';
+  return `${formatDocumentDate(date)} ${date.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+function letterhead(pdf: PdfDocument, title: string, holderName?: string): void {
+  pdf.text(ISSUER_NAME, { size: 18, bold: true });
+  pdf.text(title, { size: 13 });
+  if (holderName) {
+    pdf.text(holderName, { size: 10 });
+  }
+  pdf.rule().space(4);
+}
+
+/**
+ * Send a rendered PDF as a download.
+ */
+export function sendPdf(res: Response, filename: string, pdf: Buffer): void {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('Content-Length', pdf.length.toString());
+  res.end(pdf);
+}
+
+type ReceiptPayment = Payment & {
+  card: { last4: string; cardType: string } | null;
+  adjustments: PaymentAdjustment[];
+};
+
+/**
+ * Receipt for a completed payment, with any refunds or reversals made
+ * against it.
+ */
+export function renderPaymentReceipt(payment: ReceiptPayment, holderName: string): Buffer {
+  const pdf = new PdfDocument(`Payment receipt ${payment.id}`);
+  letterhead(pdf, 'Payment Receipt', holderName);
+
+  pdf.field('Receipt number', payment.id);
+  pdf.field('Payment date', formatDocumentDateTime(payment.createdAt));
+  pdf.field('Settled on', formatDocumentDateTime(payment.succeededAt));
+  pdf.field('Card', payment.card ? `${payment.card.cardType} ending ${payment.card.last4}` : '-');
+  pdf.field('Payment method', payment.method);
+  pdf.field('Reference', payment.razorpayPaymentId ?? payment.externalId ?? '-');
+  pdf.field('Status', payment.status.toLowerCase());
+  pdf.rule();
+  pdf.field('Amount paid', formatDocumentAmount(payment.amountPaise), { bold: true });
+
+  const adjustments = payment.adjustments.filter(adjustment => adjustment.status !== 'FAILED');
+  if (adjustments.length > 0) {
+    pdf.field('Refunded or reversed', formatDocumentAmount(-payment.refundedPaise));
+    pdf.field('Net amount paid', formatDocumentAmount(payment.amountPaise - payment.refundedPaise), { bold: true });
+
+    pdf.space().text('Refunds and reversals', { size: 11, bold: true });
+    pdf.table(
+      [
+        { header: 'Date', width: 90 },
+        { header: 'Type', width: 70 },
+        { header: 'Status', width: 70 },
+        { header: 'Reason', width: 165 },
+        { header: 'Amount', width: 100, align: 'right' },
+      ],
+      adjustments.map(adjustment => [
+        formatDocumentDate(adjustment.processedAt ?? adjustment.createdAt),
+        adjustment.type.toLowerCase(),
+        adjustment.status.toLowerCase(),
+        adjustment.reason,
+        formatDocumentAmount(adjustment.amountPaise),
+      ])
+    );
+  }
+
+  pdf.space(20).text(COMPUTER_GENERATED, { size: 8 });
+  return pdf.toBuffer();
+}
+
+type StatementDocument = Statement & {
+  card: { last4: string; cardType: string; creditLimitPaise: Paise };
+};
+
+type StatementTransaction = Transaction & {
+  addOnCard?: Pick<AddOnCard, 'holderName' | 'last4'> | null;
+};
+
+/**
+ * Monthly statement: the billing period, what is due and when, and every
+ * transaction in the period. Card transactions store charges as negative
+ * amounts; the document shows them as debits (Dr) and credits (Cr). Once
+ * an add-on card has been used, add-on holders' transactions carry their
+ * name and what each card member spent is totalled.
+ */
+export function renderStatement(statement: StatementDocument, transactions: StatementTransaction[], holderName: string): Buffer {
+  const periodStart = statement.periodStart ?? new Date(statement.year, statement.month - 1, 1);
+  const periodEnd = statement.periodEnd ?? new Date(statement.year, statement.month, 0);
+  const label = `${String(statement.month).padStart(2, '0')}/${statement.year}`;
+
+  const pdf = new PdfDocument(`Card statement ${label}`);
+  letterhead(pdf, `Card Statement ${label}`, holderName);
+
+  pdf.field('Card', `${statement.card.cardType} ending ${statement.card.last4}`);
+  pdf.field('Statement period', `${formatDocumentDate(periodStart)} to ${formatDocumentDate(periodEnd)}`);
+  pdf.field('Payment due date', formatDocumentDate(statement.dueDate));
+  pdf.field('Credit limit', formatDocumentAmount(statement.card.creditLimitPaise));
+  pdf.rule();
+
+  // Pending and failed transactions are listed but not totalled
+  const posted = transactions.filter(transaction => transaction.status === 'SUCCESS');
+  const charges = posted.filter(transaction => transaction.amountPaise < 0);
+  const credits = posted.filter(transaction => transaction.amountPaise > 0);
+  pdf.field('Purchases and charges', formatDocumentAmount(-sumPaise(charges.map(transaction => transaction.amountPaise))));
+  pdf.field('Refunds and credits', formatDocumentAmount(sumPaise(credits.map(transaction => transaction.amountPaise))));
+  pdf.field('Of the amount due: fees and GST', formatDocumentAmount(statement.feesPaise));
+  pdf.field('Of the amount due: interest', formatDocumentAmount(statement.interestPaise));
+  pdf.field(statement.isPaid ? 'Amount due (paid)' : 'Amount due', formatDocumentAmount(statement.balancePaise), { bold: true });
+  pdf.field('Minimum amount due', formatDocumentAmount(statement.isPaid ? 0 : statement.minDuePaise), { bold: true });
+
+  if (transactions.some(transaction => transaction.addOnCard)) {
+    pdf.space().text('Spend by card member', { size: 11, bold: true });
+    pdf.table(
+      [
+        { header: 'Card member', width: 200 },
+        { header: 'Card', width: 180 },
+        { header: 'Purchases', width: 115, align: 'right' },
+      ],
+      summarizeSpendByMember(transactions, { holderName, last4: statement.card.last4 }).map(member => [
+        member.holderName,
+        `ending ${member.last4}${member.addOnCardId !== null ? ' (add-on)' : ''}`,
+        formatDocumentAmount(member.spentPaise),
+      ])
+    );
+  }
+
+  pdf.space().text('Transactions', { size: 11, bold: true });
+  if (transactions.length === 0) {
+    pdf.text('No transactions in this period.', { size: 9 });
+  } else {
+    pdf.table(
+      [
+        { header: 'Date', width: 70 },
+        { header: 'Description', width: 200 },
+        { header: 'Category', width: 110 },
+        { header: 'Amount', width: 115, align: 'right' },
+      ],
+      transactions.map(transaction => [
+        formatDocumentDate(transaction.date),
+        [
+          transaction.description || transaction.merchant,
+          transaction.addOnCard ? ` [${transaction.addOnCard.holderName}]` : '',
+          transaction.status === 'SUCCESS' ? '' : ` (${transaction.status.toLowerCase()})`,
+        ].join(''),
+        transaction.category,
+        `${formatDocumentAmount(Math.abs(transaction.amountPaise))} ${transaction.amountPaise < 0 ? 'Dr' : 'Cr'}`,
+      ])
+    );
+  }
+
+  pdf.space(20).text(COMPUTER_GENERATED, { size: 8 });
+  return pdf.toBuffer();
+}
+
+type ClosedCard = Pick<Card, 'last4' | 'cardType' | 'createdAt' | 'closedAt'>;
+
+/**
+ * No-dues letter for a card its holder closed: confirms nothing is owed on
+ * it, and states what happened to its reward points and any refund due.
+ */
+export function renderNoDuesLetter(card: ClosedCard, closure: CardClosure, holderName: string): Buffer {
+  const pdf = new PdfDocument(`No-dues letter for card ending ${card.last4}`);
+  letterhead(pdf, 'No-Dues Letter', holderName);
+
+  pdf.field('Reference', `NDC-${closure.cardId}-${closure.id}`);
+  pdf.field('Date', formatDocumentDate(closure.createdAt));
+  pdf.field('Card', `${card.cardType} ending ${card.last4}`);
+  pdf.field('Opened on', formatDocumentDate(card.createdAt));
+  pdf.field('Closed on', formatDocumentDate(card.closedAt ?? closure.createdAt));
+  pdf.rule();
+
+  pdf.space().text('This is to certify that the card above was closed at the cardholder\'s request and');
+  pdf.text('that no dues are outstanding on it as of the date of this letter.');
+  pdf.space();
+  pdf.field('Amount outstanding', formatDocumentAmount(0), { bold: true });
+  pdf.field(
+    `Reward points ${closure.rewardsOutcome === 'CONVERTED' ? 'converted' : 'forfeited'}`,
+    closure.rewardPoints.toLocaleString('en-IN')
+  );
+  if (closure.rewardsOutcome === 'CONVERTED') {
+    pdf.field('Value of converted points', formatDocumentAmount(closure.rewardsValuePaise));
+  }
+  pdf.field('Refund due to the cardholder', formatDocumentAmount(closure.refundPaise), { bold: true });
+  if (closure.addOnCardsClosed > 0) {
+    pdf.field('Add-on cards closed', closure.addOnCardsClosed.toString());
+  }
+  if (closure.autopayCancelled || closure.scheduledPaymentsCancelled > 0) {
+    pdf.field('Autopay and scheduled payments', 'Cancelled');
+  }
+
+  pdf.space();
+  if (closure.refundPaise > 0) {
+    pdf.text('The refund will be credited to your registered bank account within 7 working days.');
+  }
+  pdf.text('The card can no longer be used. Its statements and transactions remain available');
+  pdf.text('in your account.');
+
+  pdf.space(20).text(COMPUTER_GENERATED, { size: 8 });
+  return pdf.toBuffer();
+}
@@ -0,0 +1,182 @@
+import { Prisma } from '@prisma/client';
+import { logger } from '../config/logger';
+import { getProductPricing, getLateFee, GST_RATE } from '../config/pricing';
+import { Paise, percentOf, sumPaise } from './money';
+import { postTransaction } from './ledger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FEE_MERCHANT = 'CreditFlow - Finance Charges';
+const FEE_CATEGORY = 'Fees & Charges';
+
+type StatementWithAllocations = Prisma.StatementGetPayload<{ include: { allocations: true } }>;
+
+export interface PostedCharge {
+  statementId: number;
+  type: 'INTEREST' | 'LATE_FEE' | 'GST';
+  amountPaise: Paise;
+}
+
+function statementLabel(statement: { month: number; year: number }): string {
+  return `${String(statement.month).padStart(2, '0')}/${statement.year}`;
+}
+
+/**
+ * Record a fee transaction and post it to the card's ledger.
+ */
+async function postCharge(
+  tx: Prisma.TransactionClient,
+  charge: { cardId: number; userId: number; amountPaise: Paise; type: PostedCharge['type']; description: string; date: Date }
+) {
+  const transaction = await tx.transaction.create({
+    data: {
+      ...charge,
+      merchant: FEE_MERCHANT,
+      category: FEE_CATEGORY,
+    },
+  });
+  await postTransaction(tx, transaction);
+}
+
+/**
+ * Statement balance at a point in time: today's balance plus every payment
+ * allocated to it after that moment.
+ */
+export function balanceAt(
+  statement: Pick<StatementWithAllocations, 'balancePaise' | 'allocations'>,
+  at: Date
+): Paise {
+  const paidAfter = sumPaise(
+    statement.allocations
+      .filter(allocation => allocation.createdAt > at)
+      .map(allocation => allocation.amountPaise)
+  );
+  return statement.balancePaise + paidAfter;
+}
+
+/**
+ * Interest between `from` and `to` on the statement's average daily balance.
+ */
+export function computeAverageDailyBalanceInterest(
+  statement: Pick<StatementWithAllocations, 'balancePaise' | 'allocations'>,
+  from: Date,
+  to: Date,
+  apr: number
+): Paise {
+  const days = Math.round((to.getTime() - from.getTime()) / DAY_MS);
+  if (days <= 0) return 0;
+
+  let total = 0;
+  for (let day = 1; day <= days; day++) {
+    total += balanceAt(statement, new Date(from.getTime() + day * DAY_MS));
+  }
+
+  const averageDailyBalance = total / days;
+  return Math.round((averageDailyBalance * (apr / 100) * days) / 365);
+}
+
+/**
+ * Post interest, late fees and GST for a card's overdue statements as fee
+ * transactions dated at the end of the cycle being closed, so they land on
+ * that (next) statement. Each statement is charged a late fee once, and
+ * interest only for days not already charged.
+ */
+export async function assessFinanceCharges(
+  tx: Prisma.TransactionClient,
+  card: { id: number; userId: number; cardType: string },
+  window: { periodStart: Date; periodEnd: Date }
+): Promise<PostedCharge[]> {
+  const pricing = getProductPricing(card.cardType);
+
+  const statements = await tx.statement.findMany({
+    where: {
+      cardId: card.id,
+      dueDate: { lt: window.periodEnd },
+      OR: [
+        { isPaid: false },
+        { updatedAt: { gte: window.periodStart } },
+      ],
+    },
+    include: { allocations: true },
+    orderBy: { dueDate: 'asc' },
+  });
+
+  const charges: PostedCharge[] = [];
+
+  for (const statement of statements) {
+    const deadline = new Date(statement.dueDate.getTime() + (pricing.gracePeriodDays + 1) * DAY_MS - 1);
+    if (deadline >= window.periodEnd) continue;
+
+    // Paid in full within the grace period: interest free, no late fee
+    const overdueBalance = balanceAt(statement, deadline);
+    if (overdueBalance <= 0) continue;
+
+    const statementDate = statement.periodEnd ?? new Date(statement.year, statement.month, 0, 23, 59, 59, 999);
+    const updates: Prisma.StatementUpdateInput = {};
+
+    if (!statement.lateFeeCharged) {
+      const billed = balanceAt(statement, statementDate);
+      const paidByDeadline = billed - overdueBalance;
+
+      if (paidByDeadline < statement.minDuePaise) {
+        const lateFee = getLateFee(overdueBalance);
+        if (lateFee > 0) {
+          const gst = percentOf(lateFee, GST_RATE);
+          charges.push({ statementId: statement.id, type: 'LATE_FEE', amountPaise: lateFee });
+          charges.push({ statementId: statement.id, type: 'GST', amountPaise: gst });
+
+          await postCharge(tx, {
+            cardId: card.id,
+            userId: card.userId,
+            amountPaise: -lateFee,
+            type: 'LATE_FEE',
+            description: `Late payment fee for ${statementLabel(statement)} statement`,
+            date: window.periodEnd,
+          });
+          await postCharge(tx, {
+            cardId: card.id,
+            userId: card.userId,
+            amountPaise: -gst,
+            type: 'GST',
+            description: `GST @${GST_RATE}% on late payment fee`,
+            date: window.periodEnd,
+          });
+        }
+      }
+      updates.lateFeeCharged = true;
+    }
+
+    const interestFrom = statement.interestChargedThrough ?? statementDate;
+    if (interestFrom < window.periodEnd) {
+      const interest = computeAverageDailyBalanceInterest(statement, interestFrom, window.periodEnd, pricing.apr);
+      if (interest > 0) {
+        charges.push({ statementId: statement.id, type: 'INTEREST', amountPaise: interest });
+
+        await postCharge(tx, {
+          cardId: card.id,
+          userId: card.userId,
+          amountPaise: -interest,
+          type: 'INTEREST',
+          description: `Interest @${pricing.apr}% p.a. on ${statementLabel(statement)} statement`,
+          date: window.periodEnd,
+        });
+      }
+      // Settled statements drop out once their last interest is posted
+      if (interest > 0 || !statement.isPaid) {
+        updates.interestChargedThrough = window.periodEnd;
+      }
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await tx.statement.update({
+        where: { id: statement.id },
+        data: updates,
+      });
+    }
+  }
+
+  if (charges.length > 0) {
+    logger.info(`Finance charges posted for card ${card.id}`, { charges });
+  }
+
+  return charges;
+}
@@ -0,0 +1,149 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { GatewayWebhookEvent } from '../gateways';
+import { applyGatewayRefund } from './paymentAdjustments';
+import { processPayment } from './paymentProcessor';
+import { canTransitionPayment } from './paymentState';
+
+export type GatewayEventStatus = 'RECEIVED' | 'PROCESSED' | 'IGNORED' | 'FAILED';
+
+interface HandledEvent {
+  status: 'PROCESSED' | 'IGNORED';
+  paymentId: string | null;
+  note?: string;
+}
+
+/**
+ * The Payment an event is about: by gateway order id, or by gateway payment
+ * id when the event carries only a refund.
+ */
+async function findPayment(event: GatewayWebhookEvent) {
+  const include = { card: { select: { last4: true } } };
+  if (event.payment?.orderId) {
+    return prisma.payment.findFirst({ where: { razorpayOrderId: event.payment.orderId }, include });
+  }
+  const gatewayPaymentId = event.payment?.id ?? event.refund?.paymentId;
+  if (gatewayPaymentId) {
+    // Payments charged off-session only have the gateway id as externalId
+    return prisma.payment.findFirst({
+      where: { OR: [{ razorpayPaymentId: gatewayPaymentId }, { externalId: gatewayPaymentId }] },
+      include,
+    });
+  }
+  return null;
+}
+
+type MatchedPayment = NonNullable<Awaited<ReturnType<typeof findPayment>>>;
+
+async function settle(payment: MatchedPayment, event: GatewayWebhookEvent, status: 'SUCCESS' | 'FAILED'): Promise<HandledEvent> {
+  const gatewayPayment = event.payment!;
+
+  // A failed attempt can be followed by a successful one on the same order
+  if (!canTransitionPayment(payment.status, status)) {
+    return { status: 'IGNORED', paymentId: payment.id, note: `Payment already ${payment.status}` };
+  }
+
+  if (gatewayPayment.amountPaise !== payment.amountPaise) {
+    logger.warn(`Gateway amount ${gatewayPayment.amountPaise} does not match payment ${payment.id} (${payment.amountPaise})`);
+    return { status: 'IGNORED', paymentId: payment.id, note: 'Amount does not match the payment' };
+  }
+
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: { razorpayPaymentId: gatewayPayment.id },
+  });
+  await processPayment(
+    payment.id,
+    status,
+    payment.card?.last4 ?? 'N/A',
+    payment.userId,
+    payment.amountPaise,
+    gatewayPayment.id,
+    gatewayPayment.errorDescription ?? undefined
+  );
+
+  return { status: 'PROCESSED', paymentId: payment.id };
+}
+
+async function applyRefund(payment: MatchedPayment, event: GatewayWebhookEvent): Promise<HandledEvent> {
+  const note = await applyGatewayRefund(payment, event.refund!);
+  return note
+    ? { status: 'IGNORED', paymentId: payment.id, note }
+    : { status: 'PROCESSED', paymentId: payment.id };
+}
+
+async function handleGatewayEvent(event: GatewayWebhookEvent): Promise<HandledEvent> {
+  const handled = ['payment.captured', 'payment.failed', 'refund.processed'];
+  if (!handled.includes(event.type)) {
+    return { status: 'IGNORED', paymentId: null, note: `Unhandled event type ${event.type}` };
+  }
+
+  const payment = await findPayment(event);
+  if (!payment) {
+    return { status: 'IGNORED', paymentId: null, note: 'No matching payment' };
+  }
+
+  switch (event.type) {
+    case 'payment.captured':
+      return settle(payment, event, 'SUCCESS');
+    case 'payment.failed':
+      return settle(payment, event, 'FAILED');
+    default:
+      return event.refund
+        ? applyRefund(payment, event)
+        : { status: 'IGNORED', paymentId: payment.id, note: 'Refund event without a refund' };
+  }
+}
+
+/**
+ * Store a webhook delivery and apply it once. Deliveries of an event that was
+ * already stored are acknowledged without reprocessing, except ones that
+ * failed before, which are retried.
+ */
+export async function recordGatewayEvent(
+  provider: string,
+  event: GatewayWebhookEvent
+): Promise<{ status: GatewayEventStatus; duplicate: boolean }> {
+  let stored = await prisma.gatewayEvent.findUnique({
+    where: { provider_eventId: { provider, eventId: event.id } },
+  });
+  if (stored && stored.status !== 'FAILED') {
+    return { status: stored.status as GatewayEventStatus, duplicate: true };
+  }
+
+  if (!stored) {
+    try {
+      stored = await prisma.gatewayEvent.create({
+        data: {
+          provider,
+          eventId: event.id,
+          type: event.type,
+          payload: event.payload as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      // Delivered twice at the same time; the other request handles it
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { status: 'RECEIVED', duplicate: true };
+      }
+      throw error;
+    }
+  }
+
+  try {
+    const result = await handleGatewayEvent(event);
+    await prisma.gatewayEvent.update({
+      where: { id: stored.id },
+      data: { status: result.status, paymentId: result.paymentId, error: result.note ?? null, processedAt: new Date() },
+    });
+    logger.info(`${provider} event ${event.id} (${event.type}) ${result.status.toLowerCase()}${result.note ? `: ${result.note}` : ''}`);
+    return { status: result.status, duplicate: false };
+  } catch (error) {
+    await prisma.gatewayEvent.update({
+      where: { id: stored.id },
+      data: { status: 'FAILED', error: error instanceof Error ? error.message : String(error) },
+    });
+    throw error;
+  }
+}
@@ -11,6 +11,14 @@ if (!JWT_SECRET) {
 
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
 const REFRESH_TOKEN_EXPIRES_IN = process.env.REFRESH_TOKEN_EXPIRES_IN || '7d';
+const STEP_UP_EXPIRES_IN = process.env.STEP_UP_EXPIRES_IN || '5m';
+const ADD_ON_TOKEN_EXPIRES_IN = process.env.ADD_ON_TOKEN_EXPIRES_IN || '1h';
+
+// Step-up tokens get a key of their own so one can never pass as an access token
+const STEP_UP_SECRET = crypto.createHmac('sha256', JWT_SECRET).update('step-up').digest();
+
+// Add-on holder tokens too, so they only open the /api/add-on routes
+const ADD_ON_SECRET = crypto.createHmac('sha256', JWT_SECRET).update('add-on').digest();
 
 export interface TokenPayload {
   userId: number;
@@ -85,6 +93,67 @@ export function verifyAccessToken(token: string): TokenPayload | null {
   }
 }
 
+/**
+ * Short-lived proof that the user just re-entered their password, for
+ * sensitive actions such as revealing card details.
+ */
+export function generateStepUpToken(userId: number): string {
+  return jwt.sign({ sub: String(userId), scope: 'step-up' }, STEP_UP_SECRET, {
+    expiresIn: STEP_UP_EXPIRES_IN as jwt.SignOptions['expiresIn'],
+  });
+}
+
+/**
+ * The user id a step-up token was issued to, or null if it is invalid or expired.
+ */
+export function verifyStepUpToken(token: string): number | null {
+  try {
+    const payload = jwt.verify(token, STEP_UP_SECRET);
+    if (typeof payload === 'string' || payload.scope !== 'step-up' || !payload.sub || !/^\d+$/.test(payload.sub)) {
+      return null;
+    }
+    return parseInt(payload.sub, 10);
+  } catch (err) {
+    logger.debug('Step-up token verification failed:', err);
+    return null;
+  }
+}
+
+export function stepUpExpiresInSeconds(): number {
+  return parseExpirationTime(STEP_UP_EXPIRES_IN) / 1000;
+}
+
+/**
+ * Sign-in token for an add-on card's holder. It names the add-on card, not
+ * a user, and is only accepted by authenticateAddOn.
+ */
+export function generateAddOnToken(addOnCardId: number): string {
+  return jwt.sign({ sub: String(addOnCardId), scope: 'add-on' }, ADD_ON_SECRET, {
+    expiresIn: ADD_ON_TOKEN_EXPIRES_IN as jwt.SignOptions['expiresIn'],
+  });
+}
+
+/**
+ * The add-on card id an add-on token was issued for, or null if it is
+ * invalid or expired.
+ */
+export function verifyAddOnToken(token: string): number | null {
+  try {
+    const payload = jwt.verify(token, ADD_ON_SECRET);
+    if (typeof payload === 'string' || payload.scope !== 'add-on' || !payload.sub || !/^\d+$/.test(payload.sub)) {
+      return null;
+    }
+    return parseInt(payload.sub, 10);
+  } catch (err) {
+    logger.debug('Add-on token verification failed:', err);
+    return null;
+  }
+}
+
+export function addOnTokenExpiresInSeconds(): number {
+  return parseExpirationTime(ADD_ON_TOKEN_EXPIRES_IN) / 1000;
+}
+
 export function generateRefreshToken(): string {
   return crypto.randomBytes(40).toString('hex');
 }
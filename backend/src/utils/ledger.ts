@@ -0,0 +1,375 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { AllocationBucket, PAYMENT_ALLOCATION_ORDER } from '../config/payments';
+import { Paise, sumPaise } from './money';
+
+// Accounts that make up what a cardholder owes. Receivables carry debit
+// balances; CREDIT_BALANCE is money we owe the cardholder (a credit balance).
+export const CARD_ACCOUNTS = ['PRINCIPAL', 'INTEREST', 'FEES', 'CREDIT_BALANCE'] as const;
+
+export type CardAccount = (typeof CARD_ACCOUNTS)[number];
+
+// Counterparts for card postings
+export type ContraAccount =
+  | 'MERCHANT_SETTLEMENT' // purchases and merchant refunds
+  | 'PAYMENT_CLEARING' // money received from the cardholder
+  | 'INTEREST_INCOME'
+  | 'FEE_INCOME'
+  | 'GST_PAYABLE'
+  | 'CARD_TRANSFER' // balances moved from a card to its replacement
+  | 'REWARDS_REDEEMED' // reward points converted to money
+  | 'REFUNDS_PAYABLE'; // owed back to the holder of a closed card
+
+export type LedgerAccount = CardAccount | ContraAccount;
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  amountPaise: Paise; // Debit positive, credit negative
+}
+
+export interface CardBalances {
+  principalPaise: Paise;
+  interestPaise: Paise;
+  feesPaise: Paise;
+  creditBalancePaise: Paise; // Shown as a positive amount
+  outstandingPaise: Paise; // Receivables net of credit balance; negative when in credit
+}
+
+type LedgerClient = Prisma.TransactionClient;
+
+const EMPTY_BALANCES: CardBalances = {
+  principalPaise: 0,
+  interestPaise: 0,
+  feesPaise: 0,
+  creditBalancePaise: 0,
+  outstandingPaise: 0,
+};
+
+/**
+ * Post one balanced journal. Throws if the lines don't sum to zero.
+ */
+export async function postJournal(
+  tx: LedgerClient,
+  journal: {
+    cardId: number;
+    lines: LedgerLine[];
+    description?: string;
+    transactionId?: number;
+    paymentId?: string;
+    postedAt?: Date;
+  }
+): Promise<string> {
+  const lines = journal.lines.filter(line => line.amountPaise !== 0);
+  const net = sumPaise(lines.map(line => line.amountPaise));
+  if (net !== 0) {
+    throw new Error(`Unbalanced ledger journal for card ${journal.cardId}: off by ${net} paise`);
+  }
+
+  const journalId = randomUUID();
+  if (lines.length === 0) {
+    return journalId;
+  }
+
+  await tx.ledgerEntry.createMany({
+    data: lines.map(line => ({
+      journalId,
+      cardId: journal.cardId,
+      account: line.account,
+      amountPaise: line.amountPaise,
+      description: journal.description,
+      transactionId: journal.transactionId,
+      paymentId: journal.paymentId,
+      postedAt: journal.postedAt,
+    })),
+  });
+
+  return journalId;
+}
+
+function toCardBalances(sums: Partial<Record<string, Paise>>): CardBalances {
+  const principalPaise = sums.PRINCIPAL ?? 0;
+  const interestPaise = sums.INTEREST ?? 0;
+  const feesPaise = sums.FEES ?? 0;
+  const creditBalancePaise = -(sums.CREDIT_BALANCE ?? 0);
+  return {
+    principalPaise,
+    interestPaise,
+    feesPaise,
+    creditBalancePaise,
+    outstandingPaise: principalPaise + interestPaise + feesPaise - creditBalancePaise,
+  };
+}
+
+/**
+ * Current balances for several cards, keyed by card id. Cards without any
+ * postings get zero balances.
+ */
+export async function getBalancesByCard(tx: LedgerClient, cardIds: number[]): Promise<Map<number, CardBalances>> {
+  const balances = new Map<number, CardBalances>(cardIds.map(id => [id, { ...EMPTY_BALANCES }]));
+  if (cardIds.length === 0) {
+    return balances;
+  }
+
+  const rows = await tx.ledgerEntry.groupBy({
+    by: ['cardId', 'account'],
+    where: {
+      cardId: { in: cardIds },
+      account: { in: [...CARD_ACCOUNTS] },
+    },
+    _sum: { amountPaise: true },
+  });
+
+  const sumsByCard = new Map<number, Record<string, Paise>>();
+  for (const row of rows) {
+    const sums = sumsByCard.get(row.cardId) ?? {};
+    sums[row.account] = row._sum.amountPaise ?? 0;
+    sumsByCard.set(row.cardId, sums);
+  }
+
+  for (const [cardId, sums] of sumsByCard) {
+    balances.set(cardId, toCardBalances(sums));
+  }
+  return balances;
+}
+
+export async function getCardBalances(tx: LedgerClient, cardId: number): Promise<CardBalances> {
+  const balances = await getBalancesByCard(tx, [cardId]);
+  return balances.get(cardId) ?? { ...EMPTY_BALANCES };
+}
+
+export interface ActivityByAccount {
+  principalPaise: Paise; // Purchases net of refunds and credits; negative when credits won
+  interestPaise: Paise;
+  feesPaise: Paise;
+}
+
+/**
+ * Net charges (net of refunds and credits) posted from card transactions in
+ * a window, split by what they are. Payments are excluded; this is what a
+ * statement bills. Refunds that overflowed into a credit balance count
+ * against principal. Pass several card ids to include the cards a card
+ * replaced.
+ */
+export async function getTransactionActivity(
+  tx: LedgerClient,
+  cardId: number | number[],
+  from: Date,
+  to: Date
+): Promise<ActivityByAccount> {
+  const rows = await tx.ledgerEntry.groupBy({
+    by: ['account'],
+    where: {
+      cardId: Array.isArray(cardId) ? { in: cardId } : cardId,
+      account: { in: [...CARD_ACCOUNTS] },
+      transactionId: { not: null },
+      postedAt: { gte: from, lte: to },
+    },
+    _sum: { amountPaise: true },
+  });
+
+  const sums: Partial<Record<string, Paise>> = {};
+  for (const row of rows) {
+    sums[row.account] = row._sum.amountPaise ?? 0;
+  }
+  return {
+    principalPaise: (sums.PRINCIPAL ?? 0) + (sums.CREDIT_BALANCE ?? 0),
+    interestPaise: sums.INTEREST ?? 0,
+    feesPaise: sums.FEES ?? 0,
+  };
+}
+
+/**
+ * Spread a credit over card accounts in order, up to each account's balance.
+ * Whatever is left lands in CREDIT_BALANCE.
+ */
+function creditLines(balances: CardBalances, amountPaise: Paise, order: AllocationBucket[]): LedgerLine[] {
+  const available: Record<AllocationBucket, Paise> = {
+    PRINCIPAL: balances.principalPaise,
+    INTEREST: balances.interestPaise,
+    FEES: balances.feesPaise,
+  };
+
+  const lines: LedgerLine[] = [];
+  let remaining = amountPaise;
+  for (const account of order) {
+    const applied = Math.min(remaining, Math.max(available[account], 0));
+    if (applied > 0) {
+      lines.push({ account, amountPaise: -applied });
+      remaining -= applied;
+    }
+  }
+  if (remaining > 0) {
+    lines.push({ account: 'CREDIT_BALANCE', amountPaise: -remaining });
+  }
+  return lines;
+}
+
+const CHARGE_ACCOUNTS: Record<string, [CardAccount, ContraAccount]> = {
+  INTEREST: ['INTEREST', 'INTEREST_INCOME'],
+  LATE_FEE: ['FEES', 'FEE_INCOME'],
+  GST: ['FEES', 'GST_PAYABLE'],
+};
+
+/**
+ * Post a successful card transaction. Charges (negative amounts) debit the
+ * card account for their type; refunds and credits reduce principal first and
+ * any excess becomes a credit balance.
+ */
+export async function postTransaction(
+  tx: LedgerClient,
+  transaction: { id: number; cardId: number; amountPaise: Paise; type: string; merchant: string; date: Date }
+): Promise<string> {
+  const journal = {
+    cardId: transaction.cardId,
+    transactionId: transaction.id,
+    description: transaction.merchant,
+    postedAt: transaction.date,
+  };
+
+  if (transaction.amountPaise < 0) {
+    const charge = -transaction.amountPaise;
+    const [account, contra] = CHARGE_ACCOUNTS[transaction.type] ?? ['PRINCIPAL', 'MERCHANT_SETTLEMENT'];
+    return postJournal(tx, {
+      ...journal,
+      lines: [
+        { account, amountPaise: charge },
+        { account: contra, amountPaise: -charge },
+      ],
+    });
+  }
+
+  const balances = await getCardBalances(tx, transaction.cardId);
+  return postJournal(tx, {
+    ...journal,
+    lines: [
+      { account: 'MERCHANT_SETTLEMENT', amountPaise: transaction.amountPaise },
+      ...creditLines(balances, transaction.amountPaise, ['PRINCIPAL']),
+    ],
+  });
+}
+
+/**
+ * Post a successful payment across receivables in PAYMENT_ALLOCATION_ORDER
+ * (fees, interest, principal by default); any excess is held as a credit
+ * balance.
+ */
+export async function postPayment(
+  tx: LedgerClient,
+  payment: { id: string; cardId: number; amountPaise: Paise; method: string }
+): Promise<string> {
+  const balances = await getCardBalances(tx, payment.cardId);
+  return postJournal(tx, {
+    cardId: payment.cardId,
+    paymentId: payment.id,
+    description: `Payment via ${payment.method}`,
+    lines: [
+      { account: 'PAYMENT_CLEARING', amountPaise: payment.amountPaise },
+      ...creditLines(balances, payment.amountPaise, PAYMENT_ALLOCATION_ORDER),
+    ],
+  });
+}
+
+/**
+ * Post money returned to the payer for a payment, or taken back by a
+ * reversal. It comes out of any credit balance first; the rest is owed again
+ * as principal.
+ */
+export async function postPaymentRefund(
+  tx: LedgerClient,
+  refund: { paymentId: string; cardId: number; amountPaise: Paise; description?: string }
+): Promise<string> {
+  const balances = await getCardBalances(tx, refund.cardId);
+  const fromCredit = Math.min(refund.amountPaise, Math.max(balances.creditBalancePaise, 0));
+  return postJournal(tx, {
+    cardId: refund.cardId,
+    paymentId: refund.paymentId,
+    description: refund.description ?? 'Payment refunded',
+    lines: [
+      { account: 'CREDIT_BALANCE', amountPaise: fromCredit },
+      { account: 'PRINCIPAL', amountPaise: refund.amountPaise - fromCredit },
+      { account: 'PAYMENT_CLEARING', amountPaise: -refund.amountPaise },
+    ],
+  });
+}
+
+/**
+ * Use a card's credit balance to pay down what it owes, in
+ * PAYMENT_ALLOCATION_ORDER. Run when a statement closes so an overpayment
+ * offsets the charges it bills. Returns the amount applied.
+ */
+export async function applyCreditBalance(tx: LedgerClient, cardId: number, balances: CardBalances): Promise<Paise> {
+  const receivablePaise = Math.max(balances.principalPaise, 0)
+    + Math.max(balances.interestPaise, 0)
+    + Math.max(balances.feesPaise, 0);
+  const appliedPaise = Math.min(Math.max(balances.creditBalancePaise, 0), receivablePaise);
+  if (appliedPaise <= 0) {
+    return 0;
+  }
+
+  await postJournal(tx, {
+    cardId,
+    description: 'Credit balance applied',
+    lines: [
+      { account: 'CREDIT_BALANCE', amountPaise: appliedPaise },
+      ...creditLines(balances, appliedPaise, PAYMENT_ALLOCATION_ORDER),
+    ],
+  });
+  return appliedPaise;
+}
+
+/**
+ * Move everything a card owes (or is owed) to another card, account by
+ * account: one journal empties the old card and a matching one fills the new
+ * card. Neither is tied to a transaction, so statements don't bill the move
+ * again. Returns the outstanding amount moved.
+ */
+export async function transferCardBalances(tx: LedgerClient, fromCardId: number, toCardId: number): Promise<Paise> {
+  const balances = await getCardBalances(tx, fromCardId);
+  const moved: LedgerLine[] = [
+    { account: 'PRINCIPAL', amountPaise: balances.principalPaise },
+    { account: 'INTEREST', amountPaise: balances.interestPaise },
+    { account: 'FEES', amountPaise: balances.feesPaise },
+    { account: 'CREDIT_BALANCE', amountPaise: -balances.creditBalancePaise },
+  ];
+
+  await postJournal(tx, {
+    cardId: fromCardId,
+    description: 'Balance moved to replacement card',
+    lines: [
+      ...moved.map(line => ({ account: line.account, amountPaise: -line.amountPaise })),
+      { account: 'CARD_TRANSFER', amountPaise: balances.outstandingPaise },
+    ],
+  });
+  await postJournal(tx, {
+    cardId: toCardId,
+    description: 'Balance moved from replaced card',
+    lines: [...moved, { account: 'CARD_TRANSFER', amountPaise: -balances.outstandingPaise }],
+  });
+  return balances.outstandingPaise;
+}
+
+/**
+ * Settle a card being closed with nothing left owing: any credit balance,
+ * plus what its converted reward points were worth, becomes a refund owed to
+ * the cardholder, leaving every card account at zero. Returns the refund.
+ */
+export async function settleClosedCard(tx: LedgerClient, cardId: number, rewardsValuePaise: Paise): Promise<Paise> {
+  // A credit balance not yet set against what the card owes is used for that first
+  await applyCreditBalance(tx, cardId, await getCardBalances(tx, cardId));
+  const balances = await getCardBalances(tx, cardId);
+  if (balances.outstandingPaise > 0) {
+    throw new Error(`Card ${cardId} still owes ${balances.outstandingPaise} paise and cannot be settled`);
+  }
+
+  const refundPaise = balances.creditBalancePaise + rewardsValuePaise;
+  await postJournal(tx, {
+    cardId,
+    description: 'Refund on card closure',
+    lines: [
+      { account: 'CREDIT_BALANCE', amountPaise: balances.creditBalancePaise },
+      { account: 'REWARDS_REDEEMED', amountPaise: rewardsValuePaise },
+      { account: 'REFUNDS_PAYABLE', amountPaise: -refundPaise },
+    ],
+  });
+  return refundPaise;
+}
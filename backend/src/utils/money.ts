@@ -0,0 +1,47 @@
+// Money helpers. Amounts are stored and computed as integer paise
+// (1 rupee = 100 paise); rupees only appear at the API boundary.
+
+export type Paise = number;
+
+/**
+ * Convert a rupee amount from a request body into integer paise.
+ */
+export function toPaise(rupees: number): Paise {
+  return Math.round(rupees * 100);
+}
+
+/**
+ * Convert stored paise into rupees for API responses.
+ */
+export function toRupees(paise: Paise | null | undefined): number {
+  return (paise ?? 0) / 100;
+}
+
+/**
+ * Human-readable rupee amount for notifications and logs, e.g. "₹1,234.50".
+ */
+export function formatRupees(paise: Paise): string {
+  const fractionDigits = paise % 100 === 0 ? 0 : 2;
+  return `₹${toRupees(paise).toLocaleString('en-IN', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  })}`;
+}
+
+/**
+ * `percent` of an amount, rounded to the nearest paisa.
+ */
+export function percentOf(paise: Paise, percent: number): Paise {
+  return Math.round((paise * percent) / 100);
+}
+
+export function sumPaise(values: Array<Paise | null | undefined>): Paise {
+  return values.reduce<Paise>((sum, value) => sum + (value ?? 0), 0);
+}
+
+/**
+ * True when a rupee amount has no fractional paise (for request validation).
+ */
+export function hasAtMostTwoDecimals(rupees: number): boolean {
+  return Math.abs(rupees * 100 - Math.round(rupees * 100)) < 1e-6;
+}
@@ -1,15 +1,26 @@
 import prisma from '../config/database';
 import { logger } from '../config/logger';
+import { formatRupees, Paise } from './money';
 
 export enum NotificationType {
   PAYMENT_SUCCESS = 'PAYMENT_SUCCESS',
   PAYMENT_FAILED = 'PAYMENT_FAILED',
+  PAYMENT_REFUNDED = 'PAYMENT_REFUNDED',
+  PAYMENT_REVERSED = 'PAYMENT_REVERSED',
   CARD_BLOCKED = 'CARD_BLOCKED',
   CARD_UNBLOCKED = 'CARD_UNBLOCKED',
+  CARD_REPLACED = 'CARD_REPLACED',
+  CARD_CLOSED = 'CARD_CLOSED',
+  VERIFICATION_CODE = 'VERIFICATION_CODE',
   APPLICATION_APPROVED = 'APPLICATION_APPROVED',
   APPLICATION_REJECTED = 'APPLICATION_REJECTED',
+  LIMIT_REQUEST_APPROVED = 'LIMIT_REQUEST_APPROVED',
+  LIMIT_REQUEST_REJECTED = 'LIMIT_REQUEST_REJECTED',
+  LIMIT_OFFER = 'LIMIT_OFFER',
   STATEMENT_GENERATED = 'STATEMENT_GENERATED',
   PAYMENT_DUE = 'PAYMENT_DUE',
+  AUTOPAY_FAILED = 'AUTOPAY_FAILED',
+  SCHEDULED_PAYMENT_SKIPPED = 'SCHEDULED_PAYMENT_SKIPPED',
   DISPUTE_CREATED = 'DISPUTE_CREATED',
   DISPUTE_RESOLVED = 'DISPUTE_RESOLVED',
 }
@@ -41,27 +52,54 @@ export async function createNotification(data: CreateNotificationData): Promise<
 
 export async function createPaymentSuccessNotification(
   userId: number,
-  amount: number,
+  amountPaise: Paise,
   cardLast4: string
 ): Promise<void> {
   await createNotification({
     userId,
     type: NotificationType.PAYMENT_SUCCESS,
     title: 'Payment Successful',
-    message: `Your payment of ₹${amount.toLocaleString()} for card ending in ${cardLast4} was processed successfully.`,
+    message: `Your payment of ${formatRupees(amountPaise)} for card ending in ${cardLast4} was processed successfully.`,
   });
 }
 
 export async function createPaymentFailedNotification(
   userId: number,
-  amount: number,
+  amountPaise: Paise,
   cardLast4: string
 ): Promise<void> {
   await createNotification({
     userId,
     type: NotificationType.PAYMENT_FAILED,
     title: 'Payment Failed',
-    message: `Your payment of ₹${amount.toLocaleString()} for card ending in ${cardLast4} could not be processed. Please try again.`,
+    message: `Your payment of ${formatRupees(amountPaise)} for card ending in ${cardLast4} could not be processed. Please try again.`,
+  });
+}
+
+export async function createPaymentRefundedNotification(
+  userId: number,
+  amountPaise: Paise,
+  cardLast4: string
+): Promise<void> {
+  await createNotification({
+    userId,
+    type: NotificationType.PAYMENT_REFUNDED,
+    title: 'Payment Refunded',
+    message: `${formatRupees(amountPaise)} of your payment for card ending in ${cardLast4} has been refunded. The amount has been added back to your card balance.`,
+  });
+}
+
+export async function createPaymentReversedNotification(
+  userId: number,
+  amountPaise: Paise,
+  cardLast4: string,
+  reason: string
+): Promise<void> {
+  await createNotification({
+    userId,
+    type: NotificationType.PAYMENT_REVERSED,
+    title: 'Payment Reversed',
+    message: `Your payment of ${formatRupees(amountPaise)} for card ending in ${cardLast4} was reversed (${reason}). The amount is due again on your card.`,
   });
 }
 
@@ -89,6 +127,32 @@ export async function createCardUnblockedNotification(
   });
 }
 
+export async function createCardReplacedNotification(
+  userId: number,
+  cardLast4: string,
+  replacementLast4: string
+): Promise<void> {
+  await createNotification({
+    userId,
+    type: NotificationType.CARD_REPLACED,
+    title: 'Replacement Card Issued',
+    message: `Your card ending in ${cardLast4} has been closed. Your replacement card ending in ${replacementLast4} will be delivered within 7-10 business days; activate it when it arrives.`,
+  });
+}
+
+export async function createCardClosedNotification(
+  userId: number,
+  cardLast4: string,
+  refundPaise: Paise
+): Promise<void> {
+  await createNotification({
+    userId,
+    type: NotificationType.CARD_CLOSED,
+    title: 'Card Closed',
+    message: `Your card ending in ${cardLast4} has been closed and nothing is due on it. ${refundPaise > 0 ? `${formatRupees(refundPaise)} will be refunded to you within 7 working days. ` : ''}Your no-dues letter is ready to download.`,
+  });
+}
+
 export async function createApplicationApprovedNotification(
   userId: number,
   cardType: string
@@ -97,7 +161,7 @@ export async function createApplicationApprovedNotification(
     userId,
     type: NotificationType.APPLICATION_APPROVED,
     title: 'Application Approved',
-    message: `Congratulations! Your ${cardType} card application has been approved. Your card will be delivered within 7-10 business days.`,
+    message: `Congratulations! Your ${cardType} card application has been approved. Your card will be delivered within 7-10 business days; activate it when it arrives.`,
   });
 }
 
@@ -113,17 +177,56 @@ export async function createApplicationRejectedNotification(
   });
 }
 
+export async function createLimitRequestApprovedNotification(
+  userId: number,
+  cardLast4: string,
+  limitPaise: Paise
+): Promise<void> {
+  await createNotification({
+    userId,
+    type: NotificationType.LIMIT_REQUEST_APPROVED,
+    title: 'Credit Limit Increased',
+    message: `Your request was approved. The credit limit of your card ending in ${cardLast4} is now ${formatRupees(limitPaise)}.`,
+  });
+}
+
+export async function createLimitRequestRejectedNotification(
+  userId: number,
+  cardLast4: string,
+  reason?: string
+): Promise<void> {
+  await createNotification({
+    userId,
+    type: NotificationType.LIMIT_REQUEST_REJECTED,
+    title: 'Limit Request Update',
+    message: `We're unable to raise the credit limit of your card ending in ${cardLast4} at this time${reason ? `: ${reason}` : '.'}`,
+  });
+}
+
+export async function createLimitOfferNotification(
+  userId: number,
+  cardLast4: string,
+  limitPaise: Paise
+): Promise<void> {
+  await createNotification({
+    userId,
+    type: NotificationType.LIMIT_OFFER,
+    title: 'Pre-approved Limit Increase',
+    message: `Your card ending in ${cardLast4} is pre-approved for a credit limit of ${formatRupees(limitPaise)}. Accept the offer to use it.`,
+  });
+}
+
 export async function createStatementGeneratedNotification(
   userId: number,
   cardLast4: string,
   dueDate: Date,
-  amount: number
+  amountPaise: Paise
 ): Promise<void> {
   await createNotification({
     userId,
     type: NotificationType.STATEMENT_GENERATED,
     title: 'Statement Ready',
-    message: `Your statement for card ending in ${cardLast4} is ready. Amount due: ₹${amount.toLocaleString()} by ${dueDate.toLocaleDateString()}.`,
+    message: `Your statement for card ending in ${cardLast4} is ready. Amount due: ${formatRupees(amountPaise)} by ${dueDate.toLocaleDateString()}.`,
   });
 }
 
@@ -131,39 +234,67 @@ export async function createPaymentDueNotification(
   userId: number,
   cardLast4: string,
   dueDate: Date,
-  amount: number
+  amountPaise: Paise
 ): Promise<void> {
   await createNotification({
     userId,
     type: NotificationType.PAYMENT_DUE,
     title: 'Payment Due Soon',
-    message: `Your payment of ₹${amount.toLocaleString()} for card ending in ${cardLast4} is due on ${dueDate.toLocaleDateString()}.`,
+    message: `Your payment of ${formatRupees(amountPaise)} for card ending in ${cardLast4} is due on ${dueDate.toLocaleDateString()}.`,
+  });
+}
+
+export async function createAutopayFailedNotification(
+  userId: number,
+  cardLast4: string,
+  dueDate: Date,
+  amountPaise: Paise
+): Promise<void> {
+  await createNotification({
+    userId,
+    type: NotificationType.AUTOPAY_FAILED,
+    title: 'Autopay Failed',
+    message: `We couldn't collect your autopay of ${formatRupees(amountPaise)} for card ending in ${cardLast4}. Please pay manually before ${dueDate.toLocaleDateString()} to avoid late fees.`,
+  });
+}
+
+export async function createScheduledPaymentSkippedNotification(
+  userId: number,
+  cardLast4: string,
+  amountPaise: Paise,
+  reason: string
+): Promise<void> {
+  await createNotification({
+    userId,
+    type: NotificationType.SCHEDULED_PAYMENT_SKIPPED,
+    title: 'Scheduled Payment Skipped',
+    message: `Your scheduled payment of ${formatRupees(amountPaise)} for card ending in ${cardLast4} was not made: ${reason}.`,
   });
 }
 
 export async function createDisputeCreatedNotification(
   userId: number,
   transactionId: number,
-  amount: number
+  amountPaise: Paise
 ): Promise<void> {
   await createNotification({
     userId,
     type: NotificationType.DISPUTE_CREATED,
     title: 'Dispute Created',
-    message: `Your dispute for transaction of ₹${amount.toLocaleString()} has been created. We'll investigate and get back to you within 5-7 business days.`,
+    message: `Your dispute for transaction of ${formatRupees(amountPaise)} has been created. We'll investigate and get back to you within 5-7 business days.`,
   });
 }
 
 export async function createDisputeResolvedNotification(
   userId: number,
   transactionId: number,
-  amount: number,
+  amountPaise: Paise,
   resolution: string
 ): Promise<void> {
   await createNotification({
     userId,
     type: NotificationType.DISPUTE_RESOLVED,
     title: 'Dispute Resolved',
-    message: `Your dispute for transaction of ₹${amount.toLocaleString()} has been resolved: ${resolution}`,
+    message: `Your dispute for transaction of ${formatRupees(amountPaise)} has been resolved: ${resolution}`,
   });
 }
\ No newline at end of file
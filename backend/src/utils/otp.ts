@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import prisma from '../config/database';
+import { hashCardSecret, verifyCardSecret } from './cardVault';
+import { NotificationType } from './notifications';
+
+// What a one-time code can be used for; a code only works for its purpose
+export const OTP_PURPOSES = ['CARD_ACTIVATION', 'CARD_PIN'] as const;
+
+export type OtpPurpose = (typeof OTP_PURPOSES)[number];
+
+const OTP_LENGTH = 6;
+const OTP_EXPIRES_MINUTES = parseInt(process.env.OTP_EXPIRES_MINUTES || '10');
+const OTP_MAX_ATTEMPTS = parseInt(process.env.OTP_MAX_ATTEMPTS || '5');
+
+function generateOtp(): string {
+  return Array.from({ length: OTP_LENGTH }, () => crypto.randomInt(10)).join('');
+}
+
+const PURPOSE_TEXT: Record<OtpPurpose, string> = {
+  CARD_ACTIVATION: 'activate your card',
+  CARD_PIN: 'set or change your card PIN',
+};
+
+/**
+ * A channel that gets codes to the user. Sending throws if the code could
+ * not be delivered, so the request asking for it fails too.
+ */
+export interface OtpSender {
+  readonly name: string;
+  send(userId: number, purpose: OtpPurpose, code: string): Promise<void>;
+}
+
+function otpMessage(purpose: OtpPurpose, code: string): string {
+  return `Your code to ${PURPOSE_TEXT[purpose]} is ${code}. It expires in ${OTP_EXPIRES_MINUTES} minutes. Never share it with anyone.`;
+}
+
+/**
+ * Emails codes to the user's login address. The code travels outside the
+ * app, so a stolen session alone is not enough to use it.
+ */
+export class EmailOtpSender implements OtpSender {
+  readonly name = 'email';
+
+  constructor(private readonly transport: Pick<Transporter, 'sendMail'>, private readonly from: string) {}
+
+  async send(userId: number, purpose: OtpPurpose, code: string): Promise<void> {
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { email: true } });
+    await this.transport.sendMail({
+      from: this.from,
+      to: user.email,
+      subject: 'Your CreditFlow verification code',
+      text: otpMessage(purpose, code),
+    });
+  }
+}
+
+/**
+ * Delivers codes as in-app notifications, where anyone holding the session
+ * can read them. Development and test only.
+ */
+export class NotificationOtpSender implements OtpSender {
+  readonly name = 'notification';
+
+  async send(userId: number, purpose: OtpPurpose, code: string): Promise<void> {
+    // Not createNotification, which swallows failures
+    await prisma.notification.create({
+      data: {
+        userId,
+        type: NotificationType.VERIFICATION_CODE,
+        title: 'Verification Code',
+        message: otpMessage(purpose, code),
+      },
+    });
+  }
+}
+
+const IN_APP_OTP_ENVIRONMENTS = ['development', 'test'];
+
+// OTP_DELIVERY=email|notification. Codes are emailed unless this is a
+// development or test server, where they go to in-app notifications.
+const OTP_DELIVERY =
+  process.env.OTP_DELIVERY || (IN_APP_OTP_ENVIRONMENTS.includes(process.env.NODE_ENV ?? '') ? 'notification' : 'email');
+
+function createOtpSender(provider: string): OtpSender {
+  switch (provider) {
+    case 'email': {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST must be set to email verification codes');
+      }
+      const port = parseInt(process.env.SMTP_PORT || '587');
+      const transport = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+      });
+      return new EmailOtpSender(transport, process.env.FROM_EMAIL || 'noreply@creditflow.com');
+    }
+    case 'notification':
+      // A code shown in the app proves nothing about who holds the session
+      if (!IN_APP_OTP_ENVIRONMENTS.includes(process.env.NODE_ENV ?? '')) {
+        throw new Error('OTP_DELIVERY=notification is only allowed in development and test');
+      }
+      return new NotificationOtpSender();
+    default:
+      throw new Error(`Unknown OTP_DELIVERY "${provider}"`);
+  }
+}
+
+// Created on load, so a server without a way to send codes fails to start
+let otpSender: OtpSender = createOtpSender(OTP_DELIVERY);
+
+/**
+ * Swap the channel codes are sent through (tests capture codes this way).
+ */
+export function setOtpSender(next: OtpSender): void {
+  otpSender = next;
+}
+
+/**
+ * Issue and send a new code. Codes issued earlier for the same purpose and
+ * card stop working.
+ */
+export async function issueOtp(userId: number, purpose: OtpPurpose, cardId?: number): Promise<{ expiresAt: Date }> {
+  const now = new Date();
+
+  await prisma.otpChallenge.updateMany({
+    where: { userId, purpose, cardId: cardId ?? null, consumedAt: null },
+    data: { consumedAt: now },
+  });
+
+  const code = generateOtp();
+  const expiresAt = new Date(now.getTime() + OTP_EXPIRES_MINUTES * 60 * 1000);
+  await prisma.otpChallenge.create({
+    data: { userId, cardId, purpose, codeHash: hashCardSecret(code), expiresAt },
+  });
+
+  await otpSender.send(userId, purpose, code);
+  return { expiresAt };
+}
+
+/**
+ * Check a code against the latest one issued and use it up if it matches.
+ * Wrong codes count against the code; after OTP_MAX_ATTEMPTS it stops
+ * working and a new one has to be requested.
+ */
+export async function verifyOtp(userId: number, purpose: OtpPurpose, code: string, cardId?: number): Promise<boolean> {
+  const now = new Date();
+  const challenge = await prisma.otpChallenge.findFirst({
+    where: { userId, purpose, cardId: cardId ?? null, consumedAt: null, expiresAt: { gt: now } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!challenge || challenge.attempts >= OTP_MAX_ATTEMPTS) {
+    return false;
+  }
+
+  if (!verifyCardSecret(code, challenge.codeHash)) {
+    await prisma.otpChallenge.update({
+      where: { id: challenge.id },
+      data: { attempts: { increment: 1 } },
+    });
+    return false;
+  }
+
+  // Only one request gets to use a code
+  const consumed = await prisma.otpChallenge.updateMany({
+    where: { id: challenge.id, consumedAt: null },
+    data: { consumedAt: now },
+  });
+  return consumed.count === 1;
+}
@@ -0,0 +1,293 @@
+import { Payment, PaymentAdjustment, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { AllocationBucket, PAYMENT_ALLOCATION_ORDER } from '../config/payments';
+import { GatewayRefund, getPaymentGateway } from '../gateways';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { postPaymentRefund } from './ledger';
+import { formatRupees, Paise, sumPaise } from './money';
+import { createPaymentRefundedNotification, createPaymentReversedNotification } from './notifications';
+import { transitionPayment } from './paymentState';
+
+export type PaymentAdjustmentType = 'REFUND' | 'REVERSAL';
+
+export type PaymentAdjustmentStatus = 'PENDING' | 'PROCESSED' | 'FAILED';
+
+type AdjustmentClient = Prisma.TransactionClient;
+
+type PaymentWithCard = Prisma.PaymentGetPayload<{ include: { card: { select: { last4: true } } } }>;
+
+/**
+ * Put the share of an adjustment that had paid statements back on those
+ * statements, newest due date first and in the reverse of the allocation
+ * order within a statement. Whatever the payment left as credit balance
+ * (beyond its allocations) is taken back before any statement.
+ */
+async function reopenStatements(tx: AdjustmentClient, payment: Payment, amountPaise: Paise): Promise<void> {
+  const allocations = await tx.paymentAllocation.findMany({
+    where: { paymentId: payment.id },
+    include: { statement: true },
+  });
+
+  type Covered = { statement: (typeof allocations)[number]['statement']; bucket: AllocationBucket; amountPaise: Paise };
+  const byStatementBucket = new Map<string, Covered>();
+  for (const allocation of allocations) {
+    const key = `${allocation.statementId}:${allocation.bucket}`;
+    const entry = byStatementBucket.get(key)
+      ?? { statement: allocation.statement, bucket: allocation.bucket as AllocationBucket, amountPaise: 0 };
+    entry.amountPaise += allocation.amountPaise;
+    byStatementBucket.set(key, entry);
+  }
+
+  const allocatedPaise = sumPaise([...byStatementBucket.values()].map(entry => entry.amountPaise));
+  const unallocatedPaise = Math.max(payment.amountPaise - payment.refundedPaise - allocatedPaise, 0);
+  let remaining = amountPaise - unallocatedPaise;
+
+  const newestFirst = [...byStatementBucket.values()]
+    .filter(entry => entry.amountPaise > 0)
+    .sort((a, b) => b.statement.dueDate.getTime() - a.statement.dueDate.getTime()
+      || PAYMENT_ALLOCATION_ORDER.indexOf(b.bucket) - PAYMENT_ALLOCATION_ORDER.indexOf(a.bucket));
+
+  for (const { statement, bucket, amountPaise: coveredPaise } of newestFirst) {
+    if (remaining <= 0) break;
+
+    const share = Math.min(remaining, coveredPaise);
+    await tx.statement.update({
+      where: { id: statement.id },
+      data: {
+        balancePaise: { increment: share },
+        ...(bucket === 'FEES' ? { feesPaise: { increment: share } } : {}),
+        ...(bucket === 'INTEREST' ? { interestPaise: { increment: share } } : {}),
+        isPaid: false,
+      },
+    });
+    await tx.paymentAllocation.create({
+      data: { paymentId: payment.id, statementId: statement.id, bucket, amountPaise: -share },
+    });
+    remaining -= share;
+  }
+}
+
+/**
+ * Apply a PENDING adjustment once: move the payment, re-open the statements it
+ * paid, post it to the ledger and notify the user. Returns false when the
+ * adjustment was already applied (for example by the gateway's webhook).
+ */
+async function applyAdjustment(payment: PaymentWithCard, adjustment: PaymentAdjustment): Promise<boolean> {
+  const applied = await prisma.$transaction(async (tx) => {
+    try {
+      await tx.paymentAdjustment.update({
+        where: { id: adjustment.id, status: 'PENDING' },
+        data: { status: 'PROCESSED', processedAt: new Date(), error: null },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return false;
+      }
+      throw error;
+    }
+
+    if (adjustment.type === 'REVERSAL') {
+      await transitionPayment(tx, payment.id, 'REVERSED');
+    } else {
+      // Incremented in place so concurrent refunds both count
+      const refunded = await tx.payment.update({
+        where: { id: payment.id },
+        data: { refundedPaise: { increment: adjustment.amountPaise } },
+      });
+      if (refunded.refundedPaise >= refunded.amountPaise) {
+        await transitionPayment(tx, payment.id, 'REFUNDED');
+      }
+    }
+
+    await reopenStatements(tx, payment, adjustment.amountPaise);
+
+    if (payment.cardId) {
+      await postPaymentRefund(tx, {
+        paymentId: payment.id,
+        cardId: payment.cardId,
+        amountPaise: adjustment.amountPaise,
+        description: adjustment.type === 'REVERSAL' ? 'Payment reversed' : 'Payment refunded',
+      });
+    }
+    return true;
+  });
+
+  if (!applied) {
+    return false;
+  }
+
+  const cardLast4 = payment.card?.last4 ?? 'N/A';
+  if (adjustment.type === 'REVERSAL') {
+    await createPaymentReversedNotification(payment.userId, adjustment.amountPaise, cardLast4, adjustment.reason);
+  } else {
+    await createPaymentRefundedNotification(payment.userId, adjustment.amountPaise, cardLast4);
+  }
+
+  logger.info(`${adjustment.type === 'REVERSAL' ? 'Reversal' : 'Refund'} ${adjustment.id} of ${formatRupees(adjustment.amountPaise)} applied to payment ${payment.id}`);
+  return true;
+}
+
+async function findSettledPayment(paymentId: string): Promise<PaymentWithCard> {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: { card: { select: { last4: true } } },
+  });
+
+  if (!payment) {
+    throw new NotFoundError('Payment not found');
+  }
+  if (payment.status !== 'SUCCESS') {
+    throw new ValidationError(`Only successful payments can be adjusted; this payment is ${payment.status.toLowerCase()}`);
+  }
+  return payment;
+}
+
+/**
+ * What is left to refund: the payment less processed refunds and refunds
+ * still waiting on the gateway.
+ */
+async function getRefundablePaise(payment: Payment): Promise<Paise> {
+  const pending = await prisma.paymentAdjustment.findMany({
+    where: { paymentId: payment.id, status: 'PENDING' },
+  });
+  return payment.amountPaise - payment.refundedPaise - sumPaise(pending.map(adjustment => adjustment.amountPaise));
+}
+
+/**
+ * Refund a successful payment in full or in part through the gateway that
+ * charged it: at checkout (razorpayPaymentId) or off-session by
+ * chargePayment (externalId). A refund the gateway has not processed yet
+ * stays PENDING until its refund.processed webhook arrives.
+ */
+export async function refundPayment(
+  paymentId: string,
+  options: { amountPaise?: Paise; reason: string; adminId: number }
+): Promise<PaymentAdjustment> {
+  const payment = await findSettledPayment(paymentId);
+
+  // Recording a refund the gateway never makes would tell the user they were paid back
+  const gatewayPaymentId = payment.razorpayPaymentId ?? payment.externalId;
+  if (!gatewayPaymentId) {
+    throw new ConflictError(`Payment ${paymentId} has no gateway payment to refund`);
+  }
+
+  const refundablePaise = await getRefundablePaise(payment);
+  const amountPaise = options.amountPaise ?? refundablePaise;
+  if (amountPaise <= 0 || amountPaise > refundablePaise) {
+    throw new ValidationError(`Refund amount (${formatRupees(amountPaise)}) must be between ₹0.01 and the refundable ${formatRupees(refundablePaise)}`);
+  }
+
+  let adjustment = await prisma.paymentAdjustment.create({
+    data: {
+      paymentId,
+      type: 'REFUND',
+      amountPaise,
+      reason: options.reason,
+      createdBy: options.adminId,
+    },
+  });
+
+  const gateway = getPaymentGateway();
+  let refund: GatewayRefund;
+  try {
+    refund = await gateway.refund(gatewayPaymentId, {
+      amountPaise,
+      notes: { paymentId, adjustmentId: adjustment.id.toString() },
+    });
+  } catch (error) {
+    await prisma.paymentAdjustment.update({
+      where: { id: adjustment.id },
+      data: { status: 'FAILED', error: error instanceof Error ? error.message : String(error) },
+    });
+    throw error;
+  }
+
+  adjustment = await prisma.paymentAdjustment.update({
+    where: { id: adjustment.id },
+    data: {
+      gatewayRefundId: refund.id,
+      ...(refund.status === 'failed' ? { status: 'FAILED', error: 'Refund failed at the gateway' } : {}),
+    },
+  });
+  if (refund.status !== 'processed') {
+    logger.info(`Refund ${adjustment.id} for payment ${paymentId} is ${refund.status} at ${gateway.name} (${refund.id})`);
+    return adjustment;
+  }
+
+  await applyAdjustment(payment, adjustment);
+  return prisma.paymentAdjustment.findUniqueOrThrow({ where: { id: adjustment.id } });
+}
+
+/**
+ * Record that money for a successful payment never arrived or was taken back
+ * (a bank return, a chargeback). Whatever has not been refunded is reversed.
+ */
+export async function reversePayment(
+  paymentId: string,
+  options: { reason: string; adminId: number }
+): Promise<PaymentAdjustment> {
+  const payment = await findSettledPayment(paymentId);
+
+  const reversiblePaise = await getRefundablePaise(payment);
+  if (reversiblePaise <= 0) {
+    throw new ValidationError('Nothing left to reverse on this payment');
+  }
+
+  const adjustment = await prisma.paymentAdjustment.create({
+    data: {
+      paymentId,
+      type: 'REVERSAL',
+      amountPaise: reversiblePaise,
+      reason: options.reason,
+      createdBy: options.adminId,
+    },
+  });
+
+  await applyAdjustment(payment, adjustment);
+  return prisma.paymentAdjustment.findUniqueOrThrow({ where: { id: adjustment.id } });
+}
+
+/**
+ * Apply a refund the gateway reports as processed. Refunds we started are
+ * matched by gateway refund id; ones made elsewhere (e.g. the gateway
+ * dashboard) are recorded here. Returns a note when nothing was applied.
+ */
+export async function applyGatewayRefund(payment: PaymentWithCard, refund: GatewayRefund): Promise<string | null> {
+  let adjustment = await prisma.paymentAdjustment.findUnique({ where: { gatewayRefundId: refund.id } })
+    // Our refund call may not have stored the refund id yet
+    ?? await prisma.paymentAdjustment.findFirst({
+      where: { paymentId: payment.id, type: 'REFUND', status: 'PENDING', gatewayRefundId: null, amountPaise: refund.amountPaise },
+      orderBy: { createdAt: 'asc' },
+    });
+
+  if (adjustment?.status === 'PROCESSED') {
+    return 'Refund already applied';
+  }
+
+  if (payment.status !== 'SUCCESS') {
+    return `Cannot refund a ${payment.status} payment`;
+  }
+  if (payment.refundedPaise + refund.amountPaise > payment.amountPaise) {
+    return 'Refund exceeds the payment amount';
+  }
+
+  if (adjustment) {
+    adjustment = await prisma.paymentAdjustment.update({
+      where: { id: adjustment.id },
+      data: { gatewayRefundId: refund.id, status: 'PENDING', error: null },
+    });
+  } else {
+    adjustment = await prisma.paymentAdjustment.create({
+      data: {
+        paymentId: payment.id,
+        type: 'REFUND',
+        amountPaise: refund.amountPaise,
+        reason: 'Refunded at the gateway',
+        gatewayRefundId: refund.id,
+      },
+    });
+  }
+
+  return (await applyAdjustment(payment, adjustment)) ? null : 'Refund already applied';
+}
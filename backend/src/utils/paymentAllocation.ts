@@ -0,0 +1,108 @@
+import { Prisma, Statement } from '@prisma/client';
+import { AllocationBucket, PAYMENT_ALLOCATION_ORDER } from '../config/payments';
+import { Paise, sumPaise } from './money';
+
+type StatementBalance = Pick<Statement, 'id' | 'balancePaise' | 'feesPaise' | 'interestPaise'>;
+
+export interface PlannedAllocation {
+  statementId: number;
+  bucket: AllocationBucket;
+  amountPaise: Paise;
+}
+
+/**
+ * What a statement still owes in each bucket. Principal is whatever part of
+ * the balance is not fees or interest, so statements billed before the
+ * split existed are all principal.
+ */
+export function statementBuckets(statement: Omit<StatementBalance, 'id'>): Record<AllocationBucket, Paise> {
+  const balancePaise = Math.max(statement.balancePaise, 0);
+  const feesPaise = Math.min(Math.max(statement.feesPaise, 0), balancePaise);
+  const interestPaise = Math.min(Math.max(statement.interestPaise, 0), balancePaise - feesPaise);
+  return {
+    FEES: feesPaise,
+    INTEREST: interestPaise,
+    PRINCIPAL: balancePaise - feesPaise - interestPaise,
+  };
+}
+
+/**
+ * Split a payment over unpaid statements (oldest due date first): each bucket
+ * in PAYMENT_ALLOCATION_ORDER is cleared across every statement before the
+ * next bucket is touched. Returns what is left once everything is paid.
+ */
+export function planAllocations(
+  statements: StatementBalance[],
+  amountPaise: Paise
+): { allocations: PlannedAllocation[]; unallocatedPaise: Paise } {
+  const owed = new Map(statements.map(statement => [statement.id, statementBuckets(statement)]));
+  const allocations: PlannedAllocation[] = [];
+  let remaining = amountPaise;
+
+  for (const bucket of PAYMENT_ALLOCATION_ORDER) {
+    for (const statement of statements) {
+      if (remaining <= 0) break;
+
+      const buckets = owed.get(statement.id)!;
+      const applied = Math.min(remaining, buckets[bucket]);
+      if (applied > 0) {
+        allocations.push({ statementId: statement.id, bucket, amountPaise: applied });
+        buckets[bucket] -= applied;
+        remaining -= applied;
+      }
+    }
+  }
+
+  return { allocations, unallocatedPaise: remaining };
+}
+
+/**
+ * Apply a successful payment to a card's unpaid statements, recording each
+ * statement's share per bucket as a PaymentAllocation. The unallocated
+ * remainder is returned; the ledger already holds it as a credit balance.
+ * The card's statements stay locked until the transaction ends, so a
+ * concurrent payment or refund waits instead of planning from the same
+ * balances.
+ */
+export async function allocatePayment(
+  tx: Prisma.TransactionClient,
+  payment: { id: string; cardId: number },
+  amountPaise: Paise
+): Promise<Paise> {
+  // Paid statements too: a refund may re-open one while we plan
+  await tx.$queryRaw`SELECT id FROM "Statement" WHERE "cardId" = ${payment.cardId} ORDER BY id FOR UPDATE`;
+  const statements = await tx.statement.findMany({
+    where: { cardId: payment.cardId, isPaid: false },
+    orderBy: { dueDate: 'asc' },
+  });
+
+  const { allocations, unallocatedPaise } = planAllocations(statements, amountPaise);
+
+  for (const statement of statements) {
+    const shares = allocations.filter(allocation => allocation.statementId === statement.id);
+    if (shares.length === 0) continue;
+
+    const paid = (bucket: AllocationBucket) =>
+      sumPaise(shares.filter(share => share.bucket === bucket).map(share => share.amountPaise));
+    const allocatedPaise = sumPaise(shares.map(share => share.amountPaise));
+
+    // planAllocations never takes more than a bucket holds, so these stay at or above zero
+    await tx.statement.update({
+      where: { id: statement.id },
+      data: {
+        balancePaise: { decrement: allocatedPaise },
+        feesPaise: { decrement: paid('FEES') },
+        interestPaise: { decrement: paid('INTEREST') },
+        isPaid: statement.balancePaise - allocatedPaise <= 0,
+      },
+    });
+
+    for (const share of shares) {
+      await tx.paymentAllocation.create({
+        data: { paymentId: payment.id, statementId: statement.id, bucket: share.bucket, amountPaise: share.amountPaise },
+      });
+    }
+  }
+
+  return unallocatedPaise;
+}
@@ -0,0 +1,59 @@
+import { Payment } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { GatewayPayment, getPaymentGateway } from '../gateways';
+import { GatewayTimeoutError } from '../middleware/errorHandler';
+import { processPayment } from './paymentProcessor';
+
+// PENDING: the gateway has not decided yet, or could not be asked
+export type ChargeOutcome = 'SUCCESS' | 'FAILED' | 'PENDING';
+
+type ChargeablePayment = Pick<Payment, 'id' | 'userId' | 'amountPaise' | 'method' | 'externalId'>;
+
+/**
+ * Charge a payment made without the payer at checkout (queued payments,
+ * autopay) through the payment gateway, and settle it with the outcome. A
+ * payment charged before (it has an externalId) is looked up rather than
+ * charged again. A PENDING payment stays PROCESSING to be looked up later.
+ */
+export async function chargePayment(payment: ChargeablePayment, cardLast4: string): Promise<ChargeOutcome> {
+  const gateway = getPaymentGateway();
+
+  let charge: GatewayPayment;
+  try {
+    charge = payment.externalId
+      ? await gateway.fetchPayment(payment.externalId)
+      : await gateway.charge({
+        amountPaise: payment.amountPaise,
+        receipt: payment.id,
+        method: payment.method,
+        notes: { paymentId: payment.id },
+      });
+  } catch (error) {
+    // Only a charge the gateway refused is known not to have been made
+    if (payment.externalId || error instanceof GatewayTimeoutError) {
+      logger.warn(`Could not get the outcome of payment ${payment.id} from ${gateway.name}:`, error);
+      return 'PENDING';
+    }
+    const reason = error instanceof Error ? error.message : 'Payment gateway error';
+    await processPayment(payment.id, 'FAILED', cardLast4, payment.userId, payment.amountPaise, undefined, reason);
+    return 'FAILED';
+  }
+
+  if (charge.status === 'captured') {
+    await processPayment(payment.id, 'SUCCESS', cardLast4, payment.userId, payment.amountPaise, charge.id);
+    return 'SUCCESS';
+  }
+  if (charge.status === 'failed') {
+    const reason = charge.errorDescription ?? 'Payment declined by the gateway';
+    await processPayment(payment.id, 'FAILED', cardLast4, payment.userId, payment.amountPaise, charge.id, reason);
+    return 'FAILED';
+  }
+
+  // Remembered so picking the payment up again looks the charge up
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: { externalId: charge.id },
+  });
+  return 'PENDING';
+}
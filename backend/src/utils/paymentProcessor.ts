@@ -0,0 +1,69 @@
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { createPaymentSuccessNotification, createPaymentFailedNotification } from './notifications';
+import { logActivity, createActivityData } from './activityLogger';
+import { formatRupees, Paise } from './money';
+import { postPayment } from './ledger';
+import { allocatePayment } from './paymentAllocation';
+import { transitionPayment } from './paymentState';
+
+/**
+ * Core processing helper (atomic):
+ * - move the payment to SUCCESS or FAILED (throws InvalidPaymentTransitionError
+ *   when it is already settled)
+ * - if success: post it to the card's ledger and allocate it to unpaid
+ *   statements by bucket (see allocatePayment); anything left over stays on
+ *   the card as a credit balance
+ * - send notifications
+ */
+export async function processPayment(
+  paymentId: string,
+  status: 'SUCCESS' | 'FAILED',
+  cardLast4: string,
+  userId: number,
+  amountPaise: Paise,
+  externalId?: string,
+  failureReason?: string
+) {
+  try {
+    await prisma.$transaction(async (tx) => {
+      const updatedPayment = await transitionPayment(tx, paymentId, status, {
+        externalId,
+        failureReason: status === 'FAILED' ? failureReason ?? null : null,
+      });
+
+      if (status === 'SUCCESS') {
+        if (updatedPayment.cardId) {
+          await postPayment(tx, {
+            id: updatedPayment.id,
+            cardId: updatedPayment.cardId,
+            amountPaise,
+            method: updatedPayment.method,
+          });
+
+          const creditPaise = await allocatePayment(tx, { id: paymentId, cardId: updatedPayment.cardId }, amountPaise);
+          if (creditPaise > 0) {
+            logger.info(`Payment ${paymentId} left ${formatRupees(creditPaise)} as credit balance on card ${updatedPayment.cardId}`);
+          }
+        }
+
+        // success notification
+        await createPaymentSuccessNotification(userId, amountPaise, cardLast4);
+
+        // Log successful payment activity
+        await logActivity(userId, createActivityData.payment(amountPaise, updatedPayment.method, 'SUCCESS'));
+      } else {
+        // failed notification
+        await createPaymentFailedNotification(userId, amountPaise, cardLast4);
+
+        // Log failed payment activity
+        await logActivity(userId, createActivityData.payment(amountPaise, updatedPayment.method, 'FAILED'));
+      }
+    });
+
+    logger.info(`Payment ${paymentId} processed with status ${status}`);
+  } catch (error) {
+    logger.error(`Error processing payment ${paymentId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,86 @@
+import { Prisma } from '@prisma/client';
+import { InvalidPaymentTransitionError } from '../middleware/errorHandler';
+
+// Payment lifecycle:
+//   CREATED -> PENDING -> PROCESSING -> SUCCESS -> REFUNDED | REVERSED
+//                 \            \-> FAILED
+//                  \-> SUCCESS | FAILED (gateway settled it directly)
+// A FAILED payment can still become SUCCESS when the gateway reports a late capture.
+export const PAYMENT_STATUSES = ['CREATED', 'PENDING', 'PROCESSING', 'SUCCESS', 'FAILED', 'REVERSED', 'REFUNDED'] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+// Not settled yet; the payment worker keeps an eye on these
+export const OPEN_PAYMENT_STATUSES: PaymentStatus[] = ['CREATED', 'PENDING', 'PROCESSING'];
+
+const TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  CREATED: ['PENDING', 'FAILED'],
+  PENDING: ['PROCESSING', 'SUCCESS', 'FAILED'],
+  PROCESSING: ['SUCCESS', 'FAILED'],
+  SUCCESS: ['REVERSED', 'REFUNDED'],
+  FAILED: ['SUCCESS'],
+  REVERSED: [],
+  REFUNDED: [],
+};
+
+// Column recording when a payment entered each state
+const STATE_TIMESTAMPS = {
+  CREATED: 'createdAt',
+  PENDING: 'pendingAt',
+  PROCESSING: 'processingAt',
+  SUCCESS: 'succeededAt',
+  FAILED: 'failedAt',
+  REVERSED: 'reversedAt',
+  REFUNDED: 'refundedAt',
+} as const satisfies Record<PaymentStatus, keyof Prisma.PaymentUncheckedCreateInput>;
+
+type PaymentClient = Prisma.TransactionClient;
+
+export function isOpenPaymentStatus(status: string): boolean {
+  return OPEN_PAYMENT_STATUSES.includes(status as PaymentStatus);
+}
+
+export function canTransitionPayment(from: string, to: PaymentStatus): boolean {
+  return TRANSITIONS[from as PaymentStatus]?.includes(to) ?? false;
+}
+
+/**
+ * Status plus its timestamp, for creating a payment directly in a state.
+ */
+export function paymentStateData(status: PaymentStatus, at: Date = new Date()) {
+  return { status, [STATE_TIMESTAMPS[status]]: at };
+}
+
+/**
+ * Move a payment to `to`, stamping the time it got there. The update only
+ * matches while the payment is in a state that may move to `to`, so two
+ * workers cannot both settle the same payment.
+ */
+export async function transitionPayment(
+  client: PaymentClient,
+  paymentId: string,
+  to: PaymentStatus,
+  data: Prisma.PaymentUncheckedUpdateInput = {}
+) {
+  const from = PAYMENT_STATUSES.filter(status => TRANSITIONS[status].includes(to));
+  try {
+    return await client.payment.update({
+      where: { id: paymentId, status: { in: from } },
+      data: { ...data, ...paymentStateData(to) },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      throw new InvalidPaymentTransitionError(`Payment ${paymentId} cannot move to ${to}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * State timestamps for API responses, keyed by lowercase status.
+ */
+export function paymentTimeline(payment: Record<(typeof STATE_TIMESTAMPS)[PaymentStatus], Date | null>) {
+  return Object.fromEntries(
+    PAYMENT_STATUSES.map(status => [status.toLowerCase(), payment[STATE_TIMESTAMPS[status]] ?? null])
+  ) as Record<Lowercase<PaymentStatus>, Date | null>;
+}
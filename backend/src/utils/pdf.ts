@@ -0,0 +1,229 @@
+// Minimal PDF writer for server-rendered documents (receipts, statements).
+// Text only, in the standard Helvetica fonts, on A4 pages; enough for
+// tabular financial documents without a rendering dependency.
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+
+export const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const BOLD_WIDTH_FACTOR = 1.08; // Helvetica-Bold runs slightly wider
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+  x?: number; // Offset from the left margin
+  width?: number; // Box the text is right-aligned or truncated in
+}
+
+export interface PdfColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Limit text to what the standard fonts can show (WinAnsi). The rupee sign
+ * becomes "Rs." and anything else outside Latin-1 becomes "?".
+ */
+function toWinAnsi(value: string): string {
+  return value
+    .replace(/₹\s?/g, 'Rs. ')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function escapePdfString(value: string): string {
+  return value.replace(/[\\()]/g, char => `\\${char}`);
+}
+
+export function textWidth(value: string, size: number, bold = false): number {
+  let units = 0;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units * size * (bold ? BOLD_WIDTH_FACTOR : 1)) / 1000;
+}
+
+/**
+ * Shorten text with "..." until it fits `width`.
+ */
+function fitText(value: string, width: number, size: number, bold: boolean): string {
+  if (textWidth(value, size, bold) <= width) {
+    return value;
+  }
+  let fitted = value;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, bold) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+}
+
+/**
+ * A document laid out top to bottom. Content flows onto a new page when
+ * the current one is full; tables repeat their header row.
+ */
+export class PdfDocument {
+  private pages: string[][] = [[]];
+  private cursorY = PAGE_HEIGHT - MARGIN;
+
+  constructor(private readonly title: string) {}
+
+  private get page(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private ensureSpace(height: number): boolean {
+    if (this.cursorY - height >= MARGIN + FOOTER_HEIGHT) {
+      return false;
+    }
+    this.pages.push([]);
+    this.cursorY = PAGE_HEIGHT - MARGIN;
+    return true;
+  }
+
+  private drawText(value: string, y: number, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const boxWidth = options.width ?? CONTENT_WIDTH - (options.x ?? 0);
+    const text = fitText(toWinAnsi(value), boxWidth, size, bold);
+
+    let x = MARGIN + (options.x ?? 0);
+    if (options.align === 'right') {
+      x += boxWidth - textWidth(text, size, bold);
+    }
+
+    this.page.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(x)} ${formatNumber(y)} Td (${escapePdfString(text)}) Tj ET`
+    );
+  }
+
+  /**
+   * One line of text; `x`/`width` place it within the content area.
+   */
+  text(value: string, options: PdfTextOptions = {}): this {
+    const size = options.size ?? 10;
+    const lineHeight = size * 1.5;
+    this.ensureSpace(lineHeight);
+    this.cursorY -= lineHeight;
+    this.drawText(value, this.cursorY, options);
+    return this;
+  }
+
+  /**
+   * A label on the left with its value right-aligned on the same line.
+   */
+  field(label: string, value: string, options: { bold?: boolean } = {}): this {
+    const lineHeight = 15;
+    this.ensureSpace(lineHeight);
+    this.cursorY -= lineHeight;
+    this.drawText(label, this.cursorY, { width: CONTENT_WIDTH / 2, bold: options.bold });
+    this.drawText(value, this.cursorY, { x: CONTENT_WIDTH / 2, width: CONTENT_WIDTH / 2, align: 'right', bold: options.bold });
+    return this;
+  }
+
+  /**
+   * Horizontal line across the content area.
+   */
+  rule(): this {
+    this.ensureSpace(8);
+    this.cursorY -= 8;
+    this.page.push(`0.5 w ${MARGIN} ${this.cursorY} m ${PAGE_WIDTH - MARGIN} ${this.cursorY} l S`);
+    return this;
+  }
+
+  space(height = 10): this {
+    this.cursorY -= height;
+    return this;
+  }
+
+  table(columns: PdfColumn[], rows: string[][]): this {
+    const rowHeight = 14;
+    const drawRow = (cells: string[], bold: boolean) => {
+      let x = 0;
+      cells.forEach((cell, index) => {
+        const column = columns[index];
+        this.drawText(cell, this.cursorY, { x, width: column.width - 4, align: column.align, size: 9, bold });
+        x += column.width;
+      });
+    };
+    const drawHeader = () => {
+      this.cursorY -= rowHeight;
+      drawRow(columns.map(column => column.header), true);
+      this.rule();
+    };
+
+    this.ensureSpace(rowHeight * 3);
+    drawHeader();
+    for (const row of rows) {
+      if (this.ensureSpace(rowHeight)) {
+        drawHeader();
+      }
+      this.cursorY -= rowHeight;
+      drawRow(row, false);
+    }
+    return this;
+  }
+
+  /**
+   * Serialize the document, numbering pages in the footer.
+   */
+  toBuffer(): Buffer {
+    const pageCount = this.pages.length;
+    const objects: string[] = [];
+    const addObject = (body: string) => objects.push(body);
+
+    // 1: catalog, 2: page tree, 3/4: fonts, 5: info; pages follow in pairs
+    const pageIds = this.pages.map((_, index) => 6 + index * 2);
+    addObject('<< /Type /Catalog /Pages 2 0 R >>');
+    addObject(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+    addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    addObject(`<< /Title (${escapePdfString(toWinAnsi(this.title))}) /Producer (CreditFlow) >>`);
+
+    this.pages.forEach((operations, index) => {
+      const footer = `Page ${index + 1} of ${pageCount}`;
+      const footerX = PAGE_WIDTH - MARGIN - textWidth(footer, 8);
+      const content = [
+        ...operations,
+        `BT /F1 8 Tf ${formatNumber(footerX)} ${MARGIN - 20} Td (${footer}) Tj ET`,
+      ].join('\n');
+
+      addObject(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      addObject(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(Buffer.byteLength(output, 'latin1'));
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
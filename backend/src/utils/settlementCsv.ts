@@ -0,0 +1,107 @@
+import { GatewayPayment, GatewayPaymentStatus } from '../gateways';
+import { ValidationError } from '../middleware/errorHandler';
+import { hasAtMostTwoDecimals, toPaise } from './money';
+
+const PAYMENT_STATUSES: GatewayPaymentStatus[] = ['created', 'pending', 'authorized', 'captured', 'failed', 'refunded'];
+
+/**
+ * Split one CSV line, honouring double-quoted fields and "" escapes.
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+function parseCreatedAt(value: string | undefined, line: number): Date {
+  const date = value && /^\d+$/.test(value) ? new Date(parseInt(value) * 1000) : new Date(value ?? '');
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Settlement CSV line ${line}: invalid created_at "${value}"`);
+  }
+  return date;
+}
+
+/**
+ * Read a gateway settlement export into gateway payments. Each row needs a
+ * payment id (`payment_id` or `entity_id`), an `amount` in rupees and a
+ * `created_at` (unix seconds or an ISO date). Rows
+ * whose `type` is not `payment` (refunds, adjustments) are skipped, and rows
+ * count as captured unless a `status` column says otherwise.
+ */
+export function parseSettlementCsv(csv: string): GatewayPayment[] {
+  const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const header = splitCsvLine(lines[0] ?? '').map(column => column.toLowerCase());
+
+  const column = (...names: string[]) => header.findIndex(name => names.includes(name));
+  const idColumn = column('payment_id', 'entity_id');
+  const amountColumn = column('amount');
+  const createdColumn = column('created_at');
+  if (idColumn === -1 || amountColumn === -1 || createdColumn === -1) {
+    throw new ValidationError('Settlement CSV needs payment_id (or entity_id), amount and created_at columns');
+  }
+  const orderColumn = column('order_id');
+  const typeColumn = column('type');
+  const statusColumn = column('status');
+  const methodColumn = column('method');
+  const currencyColumn = column('currency');
+
+  const payments: GatewayPayment[] = [];
+  lines.slice(1).forEach((text, index) => {
+    const line = index + 2;
+    if (!text.trim()) return;
+
+    const fields = splitCsvLine(text);
+    const value = (columnIndex: number) => (columnIndex === -1 ? undefined : fields[columnIndex] || undefined);
+
+    const type = value(typeColumn)?.toLowerCase();
+    if (type && type !== 'payment') return;
+
+    const id = value(idColumn);
+    const amount = Number(value(amountColumn)?.replace(/,/g, ''));
+    if (!id || !Number.isFinite(amount) || amount < 0 || !hasAtMostTwoDecimals(amount)) {
+      throw new ValidationError(`Settlement CSV line ${line}: needs a payment id and an amount in rupees`);
+    }
+
+    const status = (value(statusColumn)?.toLowerCase() ?? 'captured') as GatewayPaymentStatus;
+    if (!PAYMENT_STATUSES.includes(status)) {
+      throw new ValidationError(`Settlement CSV line ${line}: unknown status "${status}"`);
+    }
+
+    payments.push({
+      id,
+      orderId: value(orderColumn) ?? null,
+      amountPaise: toPaise(amount),
+      amountRefundedPaise: 0,
+      currency: value(currencyColumn) ?? 'INR',
+      status,
+      method: value(methodColumn) ?? null,
+      errorDescription: null,
+      createdAt: parseCreatedAt(value(createdColumn), line),
+    });
+  });
+
+  return payments;
+}
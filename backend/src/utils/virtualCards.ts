@@ -0,0 +1,79 @@
+import { Prisma, VirtualCard } from '@prisma/client';
+import { Paise, sumPaise } from './money';
+
+// Virtual card lifecycle:
+//   ACTIVE <-> PAUSED
+//   ACTIVE -> USED (single-use cards, on their first approved authorization)
+//   any -> DELETED
+// Only ACTIVE virtual cards can be charged.
+export const VIRTUAL_CARD_STATUSES = ['ACTIVE', 'PAUSED', 'USED', 'DELETED'] as const;
+
+export type VirtualCardStatus = (typeof VIRTUAL_CARD_STATUSES)[number];
+
+export type VirtualCardDeclineReason =
+  | 'VIRTUAL_CARD_NOT_ACTIVE'
+  | 'VIRTUAL_CARD_EXPIRED'
+  | 'MERCHANT_NOT_ALLOWED'
+  | 'SPEND_CAP_EXCEEDED';
+
+type VirtualCardClient = Prisma.TransactionClient;
+
+export function isExpired(virtualCard: Pick<VirtualCard, 'expiresAt'>, now: Date = new Date()): boolean {
+  return virtualCard.expiresAt !== null && virtualCard.expiresAt <= now;
+}
+
+/**
+ * What virtual cards have spent, keyed by virtual card id: amounts still
+ * held plus what was captured.
+ */
+export async function getVirtualCardSpendById(client: VirtualCardClient, virtualCardIds: number[]): Promise<Map<number, Paise>> {
+  const spend = new Map<number, Paise>(virtualCardIds.map(id => [id, 0]));
+  if (virtualCardIds.length === 0) {
+    return spend;
+  }
+
+  const rows = await client.cardAuthorization.groupBy({
+    by: ['virtualCardId', 'status'],
+    where: { virtualCardId: { in: virtualCardIds }, status: { in: ['PENDING', 'CAPTURED'] } },
+    _sum: { amountPaise: true, capturedPaise: true },
+  });
+  for (const row of rows) {
+    if (row.virtualCardId === null) continue;
+    const amountPaise = row.status === 'CAPTURED' ? row._sum.capturedPaise : row._sum.amountPaise;
+    spend.set(row.virtualCardId, sumPaise([spend.get(row.virtualCardId), amountPaise]));
+  }
+  return spend;
+}
+
+export async function getVirtualCardSpend(client: VirtualCardClient, virtualCardId: number): Promise<Paise> {
+  const spend = await getVirtualCardSpendById(client, [virtualCardId]);
+  return spend.get(virtualCardId) ?? 0;
+}
+
+/**
+ * Why a virtual card can't take a charge, or null if it can. The card it
+ * belongs to is checked separately, like any charge on that card.
+ */
+export async function checkVirtualCard(
+  client: VirtualCardClient,
+  virtualCard: VirtualCard,
+  charge: { amountPaise: Paise; merchant: string },
+  now: Date = new Date()
+): Promise<VirtualCardDeclineReason | null> {
+  if (virtualCard.status !== 'ACTIVE') {
+    return 'VIRTUAL_CARD_NOT_ACTIVE';
+  }
+  if (isExpired(virtualCard, now)) {
+    return 'VIRTUAL_CARD_EXPIRED';
+  }
+  if (virtualCard.lockedMerchant && virtualCard.lockedMerchant.toLowerCase() !== charge.merchant.trim().toLowerCase()) {
+    return 'MERCHANT_NOT_ALLOWED';
+  }
+  if (virtualCard.spendCapPaise !== null) {
+    const spentPaise = await getVirtualCardSpend(client, virtualCard.id);
+    if (spentPaise + charge.amountPaise > virtualCard.spendCapPaise) {
+      return 'SPEND_CAP_EXCEEDED';
+    }
+  }
+  return null;
+}
@@ -0,0 +1,261 @@
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
+import app from '../src/index';
+import prisma from '../src/config/database';
+import { signNetworkRequest } from '../src/middleware/networkAuth';
+import { hashCardSecret } from '../src/utils/cardVault';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const authToken = jwt.sign(
+  { userId: 1, email: 'test@example.com', name: 'Test User', isAdmin: false },
+  process.env.JWT_SECRET || 'test-secret'
+);
+
+const card = {
+  id: 1,
+  userId: 1,
+  number: '4532211234569012',
+  last4: '9012',
+  cardType: 'GOLD',
+  status: 'ACTIVE',
+  creditLimitPaise: 10000000, // ₹1,00,000
+  expiryMonth: 10,
+  expiryYear: 2030,
+  cvvHash: null,
+  pinHash: hashCardSecret('4821'),
+  pinAttempts: 0,
+  pinLockedAt: null,
+};
+
+const buildAddOnCard = (overrides: Record<string, any> = {}) => ({
+  id: 5,
+  cardId: 1,
+  holderName: 'Asha Sharma',
+  relationship: 'SPOUSE',
+  email: 'asha@example.com',
+  passwordHash: 'hashed',
+  panHash: 'pan-hash',
+  panCiphertext: 'ciphertext',
+  panDataKey: 'data-key',
+  last4: '3344',
+  expiryMonth: 10,
+  expiryYear: 2030,
+  cvvHash: hashCardSecret('123'),
+  status: 'ACTIVE',
+  monthlyLimitPaise: 2000000, // ₹20,000
+  onlineEnabled: true,
+  internationalEnabled: false,
+  contactlessEnabled: true,
+  atmEnabled: false,
+  perTransactionLimitPaise: null,
+  blockedCategories: [],
+  pinHash: hashCardSecret('1357'),
+  pinSetAt: new Date(2025, 10, 1),
+  pinAttempts: 0,
+  pinLockedAt: null,
+  closedAt: null,
+  createdAt: new Date(2025, 10, 1),
+  updatedAt: new Date(2025, 10, 1),
+  ...overrides,
+});
+
+describe('Add-on cards', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.$transaction as jest.Mock).mockImplementation((cb: any) => cb(mockPrisma));
+    (mockPrisma.cardAuthorization.groupBy as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('POST /api/cards/:id/add-ons', () => {
+    const body = {
+      holderName: 'Asha Sharma',
+      relationship: 'SPOUSE',
+      email: 'Asha@Example.com',
+      password: 'family-pass-1',
+      monthlyLimit: 20000,
+    };
+
+    beforeEach(() => {
+      mockPrisma.card.findFirst.mockResolvedValue(card as any);
+      (mockPrisma.addOnCard.count as jest.Mock).mockResolvedValue(0);
+      (mockPrisma.addOnCard.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.addOnCard.create as jest.Mock).mockImplementation(({ data }: any) =>
+        Promise.resolve(buildAddOnCard(data))
+      );
+    });
+
+    it('issues an add-on card with its own number, expiring with the card', async () => {
+      const response = await request(app)
+        .post('/api/cards/1/add-ons')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(body);
+
+      expect(response.status).toBe(201);
+      const { data } = (mockPrisma.addOnCard.create as jest.Mock).mock.calls[0][0];
+      expect(data).toMatchObject({
+        cardId: 1,
+        holderName: 'Asha Sharma',
+        email: 'asha@example.com',
+        expiryMonth: 10,
+        expiryYear: 2030,
+        monthlyLimitPaise: 2000000,
+      });
+      expect(data.last4).toHaveLength(4);
+      expect(data.last4).not.toBe('9012');
+      await expect(bcrypt.compare('family-pass-1', data.passwordHash)).resolves.toBe(true);
+      expect(response.body.data).toMatchObject({ holderName: 'Asha Sharma', monthlyLimit: 20000, spentThisMonth: 0 });
+      expect(response.body.data).not.toHaveProperty('passwordHash');
+    });
+
+    it('refuses a sub-limit above the credit limit, a fourth add-on or an email in use', async () => {
+      const tooHigh = await request(app)
+        .post('/api/cards/1/add-ons')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ ...body, monthlyLimit: 200000 });
+      expect(tooHigh.status).toBe(400);
+
+      (mockPrisma.addOnCard.count as jest.Mock).mockResolvedValueOnce(3);
+      const tooMany = await request(app)
+        .post('/api/cards/1/add-ons')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(body);
+      expect(tooMany.status).toBe(409);
+
+      (mockPrisma.addOnCard.findUnique as jest.Mock).mockResolvedValueOnce(buildAddOnCard());
+      const emailInUse = await request(app)
+        .post('/api/cards/1/add-ons')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(body);
+      expect(emailInUse.status).toBe(409);
+      expect(mockPrisma.addOnCard.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/cards/:id/add-ons/:addOnId', () => {
+    beforeEach(() => {
+      (mockPrisma.addOnCard.findFirst as jest.Mock).mockResolvedValue({ ...buildAddOnCard(), card });
+      (mockPrisma.addOnCard.update as jest.Mock).mockImplementation(({ data }: any) =>
+        Promise.resolve(buildAddOnCard(data))
+      );
+    });
+
+    it('blocks the add-on card and changes its limits', async () => {
+      const response = await request(app)
+        .patch('/api/cards/1/add-ons/5')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: 'BLOCKED', monthlyLimit: 15000, perTransactionLimit: 5000 });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.addOnCard.update).toHaveBeenCalledWith({
+        where: { id: 5, status: { not: 'CLOSED' } },
+        data: expect.objectContaining({ status: 'BLOCKED', monthlyLimitPaise: 1500000, perTransactionLimitPaise: 500000 }),
+      });
+      expect(response.body.data).toMatchObject({ status: 'blocked', monthlyLimit: 15000 });
+    });
+
+    it('refuses a per-transaction cap above the monthly sub-limit', async () => {
+      const response = await request(app)
+        .patch('/api/cards/1/add-ons/5')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ perTransactionLimit: 25000 });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.addOnCard.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/authorizations with an add-on card', () => {
+    const addOnNumber = '4532219876543344';
+    const body = { reference: 'NET-2001', cardNumber: addOnNumber, pin: '1357', amount: 2500, merchant: 'Croma', category: 'Electronics' };
+    const path = '/api/authorizations';
+
+    const signedPost = (payload: Record<string, unknown>) =>
+      request(app)
+        .post(path)
+        .set('X-Network-Signature', signNetworkRequest('POST', path, JSON.stringify(payload), process.env.CARD_NETWORK_SECRET!))
+        .send(payload);
+
+    beforeEach(() => {
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+        { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 0 } },
+      ]);
+      (mockPrisma.cardControl.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.cardAuthorization.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.virtualCard.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.addOnCard.findUnique as jest.Mock).mockResolvedValue({ ...buildAddOnCard(), card });
+      (mockPrisma.transaction.create as jest.Mock).mockResolvedValue({ id: 41 });
+      (mockPrisma.cardAuthorization.create as jest.Mock).mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 8, capturedPaise: 0, createdAt: new Date(), ...data })
+      );
+    });
+
+    it('charges the primary card and records which add-on card was used', async () => {
+      const response = await signedPost(body);
+
+      expect(response.body.data).toMatchObject({ status: 'pending', cardId: 1 });
+      expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ cardId: 1, addOnCardId: 5 }),
+      });
+      expect(mockPrisma.cardAuthorization.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ cardId: 1, addOnCardId: 5 }),
+      });
+    });
+
+    it('declines a blocked add-on card or one past its monthly sub-limit', async () => {
+      (mockPrisma.addOnCard.findUnique as jest.Mock).mockResolvedValueOnce({ ...buildAddOnCard({ status: 'BLOCKED' }), card });
+      const blocked = await signedPost(body);
+      expect(blocked.body.data.declineReason).toBe('add_on_card_not_active');
+
+      // ₹19,000 already spent this month; ₹2,500 more passes the ₹20,000 sub-limit
+      (mockPrisma.cardAuthorization.groupBy as jest.Mock).mockResolvedValue([
+        { addOnCardId: 5, status: 'CAPTURED', _sum: { amountPaise: 1900000, capturedPaise: 1900000 } },
+      ]);
+      const overLimit = await signedPost({ ...body, reference: 'NET-2002' });
+      expect(overLimit.body.data.declineReason).toBe('add_on_limit_exceeded');
+    });
+  });
+
+  describe('add-on holder login', () => {
+    beforeEach(async () => {
+      (mockPrisma.addOnCard.findUnique as jest.Mock).mockResolvedValue({
+        ...buildAddOnCard({ passwordHash: await bcrypt.hash('family-pass-1', 4) }),
+        card,
+      });
+    });
+
+    it('signs the holder in to their add-on card only', async () => {
+      const login = await request(app)
+        .post('/api/auth/add-on/login')
+        .send({ email: 'asha@example.com', password: 'family-pass-1' });
+
+      expect(login.status).toBe(200);
+      const token = login.body.data.accessToken;
+
+      const own = await request(app).get('/api/add-on/card').set('Authorization', `Bearer ${token}`);
+      expect(own.status).toBe(200);
+      expect(own.body.data).toMatchObject({ holderName: 'Asha Sharma', last4: '3344', primaryCard: { last4: '9012' } });
+
+      const cards = await request(app).get('/api/cards').set('Authorization', `Bearer ${token}`);
+      expect(cards.status).toBe(401);
+    });
+
+    it('refuses a wrong password or a closed add-on card', async () => {
+      const wrongPassword = await request(app)
+        .post('/api/auth/add-on/login')
+        .send({ email: 'asha@example.com', password: 'not-the-password' });
+      expect(wrongPassword.status).toBe(401);
+
+      (mockPrisma.addOnCard.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...buildAddOnCard({ status: 'CLOSED', passwordHash: await bcrypt.hash('family-pass-1', 4) }),
+        card,
+      });
+      const closed = await request(app)
+        .post('/api/auth/add-on/login')
+        .send({ email: 'asha@example.com', password: 'family-pass-1' });
+      expect(closed.status).toBe(401);
+    });
+  });
+});
@@ -2,6 +2,7 @@ import request from 'supertest';
 import bcrypt from 'bcryptjs';
 import app from '../src/index';
 import prisma from '../src/config/database';
+import { generateAccessToken, verifyStepUpToken } from '../src/utils/jwt';
 
 const mockPrisma = prisma as jest.Mocked<typeof prisma>;
 
@@ -131,6 +132,52 @@ describe('Auth Routes', () => {
     });
   });
 
+  describe('POST /api/auth/step-up', () => {
+    const accessToken = generateAccessToken({ userId: 1, email: 'test@example.com', name: 'Test User', isAdmin: false });
+
+    beforeEach(async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 1,
+        passwordHash: await bcrypt.hash('password123', 10),
+        password: null,
+      } as any);
+    });
+
+    it('issues a step-up token for the right password', async () => {
+      const response = await request(app)
+        .post('/api/auth/step-up')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'password123' });
+
+      expect(response.status).toBe(200);
+      expect(verifyStepUpToken(response.body.data.stepUpToken)).toBe(1);
+      expect(response.body.data.expiresIn).toBe(300);
+    });
+
+    it('rejects a wrong password', async () => {
+      const response = await request(app)
+        .post('/api/auth/step-up')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'wrongpassword' });
+
+      expect(response.status).toBe(401);
+      expect(response.body.data).toBeUndefined();
+    });
+
+    it('issues tokens that do not work as access tokens', async () => {
+      const stepUp = await request(app)
+        .post('/api/auth/step-up')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'password123' });
+
+      const response = await request(app)
+        .get('/api/cards')
+        .set('Authorization', `Bearer ${stepUp.body.data.stepUpToken}`);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
   describe('POST /api/auth/logout', () => {
     it('should logout user successfully', async () => {
       const response = await request(app)
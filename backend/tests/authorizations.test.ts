@@ -0,0 +1,374 @@
+import request from 'supertest';
+import { Prisma } from '@prisma/client';
+import app from '../src/index';
+import prisma from '../src/config/database';
+import { signNetworkRequest } from '../src/middleware/networkAuth';
+import { expireStaleAuthorizations } from '../src/jobs/authorizationHolds';
+import { hashCardSecret } from '../src/utils/cardVault';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const secret = process.env.CARD_NETWORK_SECRET!;
+
+const card = {
+  id: 1,
+  userId: 1,
+  number: '4532211234569012',
+  last4: '9012',
+  status: 'ACTIVE',
+  creditLimitPaise: 10000000, // ₹1,00,000
+  expiryMonth: 10,
+  expiryYear: 2030,
+  cvvHash: null,
+  pinHash: hashCardSecret('4821'),
+  pinAttempts: 0,
+  pinLockedAt: null,
+};
+
+const buildAuthorization = (overrides: Record<string, any> = {}) => ({
+  id: 7,
+  cardId: 1,
+  transactionId: 40,
+  networkReference: 'NET-1001',
+  amountPaise: 250000,
+  capturedPaise: 0,
+  merchant: 'Croma',
+  category: 'Electronics',
+  channel: 'POS',
+  status: 'PENDING',
+  declineReason: null,
+  expiresAt: new Date(2025, 10, 8),
+  capturedAt: null,
+  reversedAt: null,
+  expiredAt: null,
+  createdAt: new Date(2025, 10, 1),
+  updatedAt: new Date(2025, 10, 1),
+  ...overrides,
+});
+
+const signedPost = (path: string, body?: Record<string, unknown>) => {
+  const rawBody = body ? JSON.stringify(body) : '';
+  const req = request(app)
+    .post(path)
+    .set('X-Network-Signature', signNetworkRequest('POST', path, rawBody, secret));
+  return body ? req.send(body) : req;
+};
+
+describe('Card authorizations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.$transaction as jest.Mock).mockImplementation((cb: any) => cb(mockPrisma));
+    (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+      { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 9000000 } },
+    ]);
+    (mockPrisma.cardAuthorization.groupBy as jest.Mock).mockResolvedValue([]);
+    (mockPrisma.cardControl.findUnique as jest.Mock).mockResolvedValue(null);
+  });
+
+  describe('POST /api/authorizations', () => {
+    const body = { reference: 'NET-1001', cardNumber: card.number, pin: '4821', amount: 2500, merchant: 'Croma', category: 'Electronics' };
+
+    beforeEach(() => {
+      (mockPrisma.cardAuthorization.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue(card);
+      (mockPrisma.transaction.create as jest.Mock).mockResolvedValue({ id: 40 });
+      (mockPrisma.cardAuthorization.create as jest.Mock).mockImplementation(({ data }: any) =>
+        Promise.resolve(buildAuthorization(data))
+      );
+    });
+
+    it('rejects requests without a valid network signature', async () => {
+      const response = await request(app)
+        .post('/api/authorizations')
+        .set('X-Network-Signature', 'not-a-signature')
+        .send(body);
+
+      expect(response.status).toBe(401);
+      expect(mockPrisma.cardAuthorization.create).not.toHaveBeenCalled();
+    });
+
+    it('approves an authorization and holds the amount as a pending transaction', async () => {
+      const response = await signedPost('/api/authorizations', body);
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({ status: 'pending', amount: 2500, channel: 'pos', declineReason: null });
+      expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ cardId: 1, userId: 1, amountPaise: -250000, status: 'PENDING', type: 'PURCHASE' }),
+      });
+      // Nothing is posted until capture
+      expect(mockPrisma.ledgerEntry.createMany).not.toHaveBeenCalled();
+    });
+
+    it('declines when existing holds leave too little credit', async () => {
+      // ₹90,000 owed and ₹8,000 held leaves ₹2,000 of a ₹1,00,000 limit
+      (mockPrisma.cardAuthorization.groupBy as jest.Mock).mockResolvedValue([
+        { cardId: 1, _sum: { amountPaise: 800000 } },
+      ]);
+
+      const response = await signedPost('/api/authorizations', body);
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({ status: 'declined', declineReason: 'insufficient_credit' });
+      expect(response.body.message).toBe('Authorization declined');
+      expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'FAILED' }),
+      });
+    });
+
+    it('declines on a card that is not active', async () => {
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue({ ...card, status: 'BLOCKED' });
+
+      const response = await signedPost('/api/authorizations', body);
+
+      expect(response.body.data).toMatchObject({ status: 'declined', declineReason: 'card_not_active' });
+    });
+
+    it('declines a wrong CVV and an expired card', async () => {
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue({ ...card, cvvHash: hashCardSecret('123') });
+      const wrongCvv = await signedPost('/api/authorizations', { ...body, cvv: '321' });
+      expect(wrongCvv.body.data.declineReason).toBe('cvv_mismatch');
+
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue({ ...card, expiryMonth: 1, expiryYear: 2020 });
+      const expired = await signedPost('/api/authorizations', { ...body, reference: 'NET-1002' });
+      expect(expired.body.data.declineReason).toBe('card_expired');
+    });
+
+    it('needs the right PIN at a POS terminal or ATM and locks it after repeated wrong ones', async () => {
+      const noPin = await signedPost('/api/authorizations', { ...body, pin: undefined, channel: 'ATM' });
+      expect(noPin.body.data.declineReason).toBe('pin_required');
+
+      (mockPrisma.card.update as jest.Mock).mockResolvedValueOnce({}).mockResolvedValueOnce({ ...card, pinAttempts: 3 });
+      const wrongPin = await signedPost('/api/authorizations', { ...body, reference: 'NET-1002', pin: '0000' });
+      expect(wrongPin.body.data.declineReason).toBe('pin_locked');
+      expect(mockPrisma.card.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { pinAttempts: { increment: 1 } } });
+      expect(mockPrisma.card.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { pinLockedAt: expect.any(Date) } });
+
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue({ ...card, pinAttempts: 3, pinLockedAt: new Date() });
+      const locked = await signedPost('/api/authorizations', { ...body, reference: 'NET-1003' });
+      expect(locked.body.data.declineReason).toBe('pin_locked');
+
+      // No PIN is asked for online
+      const online = await signedPost('/api/authorizations', { ...body, reference: 'NET-1004', pin: undefined, channel: 'ONLINE' });
+      expect(online.body.data.status).toBe('pending');
+    });
+
+    it('declines what the cardholder has switched off in the card controls', async () => {
+      (mockPrisma.cardControl.findUnique as jest.Mock).mockResolvedValue({
+        onlineEnabled: false,
+        internationalEnabled: false,
+        contactlessEnabled: true,
+        atmEnabled: true,
+        perTransactionLimitPaise: null,
+        dailyLimitPaise: null,
+        monthlyLimitPaise: null,
+        blockedCategories: [],
+      });
+
+      const online = await signedPost('/api/authorizations', { ...body, channel: 'ONLINE' });
+      const abroad = await signedPost('/api/authorizations', { ...body, reference: 'NET-1002', country: 'US' });
+
+      expect(online.body.data).toMatchObject({ status: 'declined', declineReason: 'online_disabled' });
+      expect(abroad.body.data).toMatchObject({ status: 'declined', declineReason: 'international_disabled', country: 'US' });
+    });
+
+    it('declines once the daily spend cap would be passed', async () => {
+      (mockPrisma.cardControl.findUnique as jest.Mock).mockResolvedValue({
+        onlineEnabled: true,
+        internationalEnabled: false,
+        contactlessEnabled: true,
+        atmEnabled: true,
+        perTransactionLimitPaise: null,
+        dailyLimitPaise: 500000,
+        monthlyLimitPaise: null,
+        blockedCategories: ['electronics'],
+      });
+
+      const blocked = await signedPost('/api/authorizations', body);
+      expect(blocked.body.data.declineReason).toBe('category_blocked');
+
+      // ₹3,000 already spent today; ₹2,500 more passes the ₹5,000 cap
+      (mockPrisma.cardAuthorization.groupBy as jest.Mock).mockResolvedValue([
+        { status: 'CAPTURED', _sum: { amountPaise: 300000, capturedPaise: 300000 } },
+      ]);
+      const capped = await signedPost('/api/authorizations', { ...body, reference: 'NET-1002', category: 'Shopping' });
+      expect(capped.body.data.declineReason).toBe('daily_limit_exceeded');
+    });
+
+    it('charges a virtual card to its card and uses up a single-use one', async () => {
+      const virtualCard = {
+        id: 3,
+        cardId: 1,
+        number: '4532987654321',
+        last4: '4321',
+        status: 'ACTIVE',
+        spendCapPaise: 300000,
+        singleUse: true,
+        lockedMerchant: 'croma',
+        expiresAt: null,
+      };
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.virtualCard.findUnique as jest.Mock).mockResolvedValue({ ...virtualCard, card });
+
+      const response = await signedPost('/api/authorizations', { ...body, cardNumber: virtualCard.number, channel: 'ONLINE' });
+
+      expect(response.body.data).toMatchObject({ status: 'pending', cardId: 1, virtualCardId: 3 });
+      expect(mockPrisma.virtualCard.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: { status: 'USED', usedAt: expect.any(Date) },
+      });
+    });
+
+    it('declines a virtual card charged by another merchant or past its spend cap', async () => {
+      const virtualCard = {
+        id: 3,
+        cardId: 1,
+        number: '4532987654321',
+        last4: '4321',
+        status: 'ACTIVE',
+        spendCapPaise: 300000,
+        singleUse: false,
+        lockedMerchant: 'Netflix',
+        expiresAt: null,
+      };
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.virtualCard.findUnique as jest.Mock).mockResolvedValue({ ...virtualCard, card });
+
+      const otherMerchant = await signedPost('/api/authorizations', { ...body, cardNumber: virtualCard.number, channel: 'ONLINE' });
+      expect(otherMerchant.body.data.declineReason).toBe('merchant_not_allowed');
+
+      // ₹1,000 already spent; ₹2,500 more passes the ₹3,000 cap
+      (mockPrisma.cardAuthorization.groupBy as jest.Mock).mockResolvedValue([
+        { virtualCardId: 3, status: 'CAPTURED', _sum: { amountPaise: 100000, capturedPaise: 100000 } },
+      ]);
+      const capped = await signedPost('/api/authorizations', {
+        ...body,
+        reference: 'NET-1002',
+        cardNumber: virtualCard.number,
+        channel: 'ONLINE',
+        merchant: 'Netflix',
+      });
+      expect(capped.body.data.declineReason).toBe('spend_cap_exceeded');
+      expect(mockPrisma.virtualCard.update).not.toHaveBeenCalled();
+    });
+
+    it('declines a virtual card at a POS terminal or ATM, which would need a PIN', async () => {
+      const virtualCard = {
+        id: 3,
+        cardId: 1,
+        number: '4532987654321',
+        last4: '4321',
+        status: 'ACTIVE',
+        spendCapPaise: null,
+        singleUse: false,
+        lockedMerchant: null,
+        expiresAt: null,
+      };
+      (mockPrisma.card.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.virtualCard.findUnique as jest.Mock).mockResolvedValue({ ...virtualCard, card });
+
+      const response = await signedPost('/api/authorizations', {
+        ...body,
+        cardNumber: virtualCard.number,
+        pin: undefined,
+        channel: 'ATM',
+      });
+
+      expect(response.body.data).toMatchObject({ status: 'declined', declineReason: 'pin_not_supported' });
+      expect(mockPrisma.cardAuthorization.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'DECLINED', declineReason: 'PIN_NOT_SUPPORTED' }),
+      });
+    });
+
+    it('returns the recorded authorization for a retried reference', async () => {
+      (mockPrisma.cardAuthorization.findUnique as jest.Mock).mockResolvedValue(buildAuthorization());
+
+      const response = await signedPost('/api/authorizations', body);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.id).toBe(7);
+      expect(mockPrisma.transaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/authorizations/:id/capture', () => {
+    beforeEach(() => {
+      (mockPrisma.cardAuthorization.findUnique as jest.Mock).mockResolvedValue(buildAuthorization());
+      (mockPrisma.cardAuthorization.update as jest.Mock).mockImplementation(({ data }: any) =>
+        Promise.resolve(buildAuthorization(data))
+      );
+      (mockPrisma.transaction.update as jest.Mock).mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 40, cardId: 1, type: 'PURCHASE', merchant: 'Croma', ...data })
+      );
+    });
+
+    it('settles for a smaller final amount and posts it to the ledger', async () => {
+      const response = await signedPost('/api/authorizations/7/capture', { amount: 2000 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ status: 'captured', capturedAmount: 2000 });
+      expect(mockPrisma.cardAuthorization.update).toHaveBeenCalledWith({
+        where: { id: 7, status: 'PENDING' },
+        data: expect.objectContaining({ status: 'CAPTURED', capturedPaise: 200000 }),
+      });
+      expect(mockPrisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 40 },
+        data: expect.objectContaining({ status: 'SUCCESS', amountPaise: -200000 }),
+      });
+      expect(mockPrisma.ledgerEntry.createMany).toHaveBeenCalled();
+    });
+
+    it('refuses to capture more than was authorized', async () => {
+      const response = await signedPost('/api/authorizations/7/capture', { amount: 3000 });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.cardAuthorization.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses to capture an authorization that is no longer pending', async () => {
+      (mockPrisma.cardAuthorization.findUnique as jest.Mock).mockResolvedValue(buildAuthorization({ status: 'REVERSED' }));
+
+      const response = await signedPost('/api/authorizations/7/capture');
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('POST /api/authorizations/:id/reverse', () => {
+    it('releases the hold and fails the transaction', async () => {
+      (mockPrisma.cardAuthorization.findUnique as jest.Mock).mockResolvedValue(buildAuthorization());
+      (mockPrisma.cardAuthorization.update as jest.Mock).mockImplementation(({ data }: any) =>
+        Promise.resolve(buildAuthorization(data))
+      );
+
+      const response = await signedPost('/api/authorizations/7/reverse');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe('reversed');
+      expect(mockPrisma.transaction.update).toHaveBeenCalledWith({ where: { id: 40 }, data: { status: 'FAILED' } });
+      expect(mockPrisma.ledgerEntry.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireStaleAuthorizations', () => {
+    it('expires holds past their expiry and skips ones settled in the meantime', async () => {
+      const now = new Date(2025, 10, 9);
+      (mockPrisma.cardAuthorization.findMany as jest.Mock).mockResolvedValue([
+        buildAuthorization({ id: 7, transactionId: 40 }),
+        buildAuthorization({ id: 8, transactionId: 41 }),
+      ]);
+      (mockPrisma.cardAuthorization.update as jest.Mock)
+        .mockResolvedValueOnce(buildAuthorization({ status: 'EXPIRED' }))
+        .mockRejectedValueOnce(new Prisma.PrismaClientKnownRequestError('Record not found', { code: 'P2025', clientVersion: 'test' }));
+
+      const expired = await expireStaleAuthorizations(now);
+
+      expect(expired).toBe(1);
+      expect(mockPrisma.cardAuthorization.update).toHaveBeenCalledWith({
+        where: { id: 7, status: 'PENDING' },
+        data: { status: 'EXPIRED', expiredAt: now },
+      });
+      expect(mockPrisma.transaction.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.transaction.update).toHaveBeenCalledWith({ where: { id: 40 }, data: { status: 'FAILED' } });
+    });
+  });
+});
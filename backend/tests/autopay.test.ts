@@ -0,0 +1,220 @@
+import prisma from '../src/config/database';
+import { FakePaymentGateway, RazorpayGateway, setPaymentGateway } from '../src/gateways';
+import { computeAutopayAmount, executeDueAutopayRuns, scheduleAutopayRuns } from '../src/jobs/autopay';
+import { processPayment } from '../src/utils/paymentProcessor';
+import { createAutopayFailedNotification } from '../src/utils/notifications';
+
+jest.mock('../src/utils/paymentProcessor', () => ({
+  processPayment: jest.fn(),
+}));
+
+jest.mock('../src/utils/notifications', () => ({
+  createAutopayFailedNotification: jest.fn(),
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockProcessPayment = processPayment as jest.Mock;
+
+const buildRun = (overrides: Record<string, any> = {}) => ({
+  id: 7,
+  cardId: 1,
+  statementId: 3,
+  mode: 'MINIMUM_DUE',
+  status: 'PENDING',
+  attempts: 0,
+  lastPaymentId: null,
+  lastError: null,
+  nextAttemptAt: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  statement: {
+    id: 3,
+    cardId: 1,
+    balancePaise: 4532000,
+    minDuePaise: 226600,
+    isPaid: false,
+    dueDate: new Date(),
+  },
+  card: {
+    id: 1,
+    userId: 1,
+    last4: '9012',
+    status: 'ACTIVE',
+    autopayEnabled: true,
+  },
+  ...overrides,
+});
+
+describe('Autopay job', () => {
+  let gateway: FakePaymentGateway;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    gateway = new FakePaymentGateway();
+    setPaymentGateway(gateway);
+    (mockPrisma.payment.create as jest.Mock).mockImplementation(({ data }: { data: object }) =>
+      Promise.resolve({ id: 'pay_auto', externalId: null, ...data })
+    );
+  });
+
+  describe('computeAutopayAmount', () => {
+    it('collects the minimum due by default', () => {
+      expect(computeAutopayAmount({ balancePaise: 4532000, minDuePaise: 226600 }, 'MINIMUM_DUE')).toBe(226600);
+    });
+
+    it('collects the full balance when chosen', () => {
+      expect(computeAutopayAmount({ balancePaise: 4532000, minDuePaise: 226600 }, 'FULL_BALANCE')).toBe(4532000);
+    });
+
+    it('never collects more than the remaining balance', () => {
+      expect(computeAutopayAmount({ balancePaise: 100000, minDuePaise: 226600 }, 'MINIMUM_DUE')).toBe(100000);
+    });
+  });
+
+  describe('scheduleAutopayRuns', () => {
+    it('creates one run per statement using the card mode', async () => {
+      (mockPrisma.statement.findMany as jest.Mock).mockResolvedValue([
+        { id: 3, cardId: 1, card: { autopayMode: 'FULL_BALANCE' } },
+      ]);
+      (mockPrisma.autopayRun.createMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const count = await scheduleAutopayRuns(new Date());
+
+      expect(count).toBe(1);
+      expect(mockPrisma.autopayRun.createMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: [expect.objectContaining({ statementId: 3, mode: 'FULL_BALANCE' })],
+          skipDuplicates: true,
+        })
+      );
+    });
+  });
+
+  describe('executeDueAutopayRuns', () => {
+    it('charges an autopay payment through the gateway and marks the run successful', async () => {
+      (mockPrisma.autopayRun.findMany as jest.Mock).mockResolvedValue([buildRun()]);
+
+      await executeDueAutopayRuns(new Date());
+
+      expect(mockPrisma.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amountPaise: 226600, method: 'autopay', idempotencyKey: 'autopay_7_1' }),
+      });
+      expect(mockProcessPayment).toHaveBeenCalledWith('pay_auto', 'SUCCESS', '9012', 1, 226600, 'pay_fake_1');
+      expect(mockPrisma.autopayRun.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ status: 'SUCCESS', attempts: 1 }),
+      });
+    });
+
+    it('schedules a retry after a failed attempt', async () => {
+      (mockPrisma.autopayRun.findMany as jest.Mock).mockResolvedValue([buildRun()]);
+      gateway.setOutcome('failure');
+
+      await executeDueAutopayRuns(new Date());
+
+      expect(mockPrisma.autopayRun.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ status: 'RETRYING', attempts: 1 }),
+      });
+      expect(createAutopayFailedNotification).not.toHaveBeenCalled();
+    });
+
+    it('gives up and notifies the user once attempts are exhausted', async () => {
+      (mockPrisma.autopayRun.findMany as jest.Mock).mockResolvedValue([buildRun({ status: 'RETRYING', attempts: 2 })]);
+      gateway.setOutcome('failure');
+
+      await executeDueAutopayRuns(new Date());
+
+      expect(mockPrisma.autopayRun.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ status: 'FAILED', attempts: 3 }),
+      });
+      expect(createAutopayFailedNotification).toHaveBeenCalledWith(1, '9012', expect.any(Date), 226600);
+    });
+
+    it('waits for a charge the gateway has not decided and looks it up on the next cycle', async () => {
+      (mockPrisma.autopayRun.findMany as jest.Mock).mockResolvedValue([buildRun()]);
+      gateway.setOutcome('timeout');
+
+      await executeDueAutopayRuns(new Date());
+
+      expect(mockProcessPayment).not.toHaveBeenCalled();
+      expect(mockPrisma.autopayRun.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { lastPaymentId: 'pay_auto' },
+      });
+
+      (mockPrisma.autopayRun.findMany as jest.Mock).mockResolvedValue([buildRun({ lastPaymentId: 'pay_auto' })]);
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue({
+        id: 'pay_auto', userId: 1, amountPaise: 226600, method: 'autopay', status: 'PROCESSING', externalId: 'pay_fake_1',
+      });
+      gateway.resolvePayment('pay_fake_1', 'captured');
+
+      await executeDueAutopayRuns(new Date());
+
+      expect(mockPrisma.payment.create).toHaveBeenCalledTimes(1);
+      expect(mockProcessPayment).toHaveBeenCalledWith('pay_auto', 'SUCCESS', '9012', 1, 226600, 'pay_fake_1');
+      expect(mockPrisma.autopayRun.update).toHaveBeenLastCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ status: 'SUCCESS', attempts: 1 }),
+      });
+    });
+
+    it('retries an attempt that errored with the same payment instead of charging twice', async () => {
+      (mockPrisma.autopayRun.findMany as jest.Mock).mockResolvedValue([buildRun()]);
+      mockProcessPayment.mockRejectedValueOnce(new Error('Database unavailable'));
+
+      await executeDueAutopayRuns(new Date());
+
+      expect(mockPrisma.autopayRun.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ status: 'RETRYING', attempts: 1, lastPaymentId: 'pay_auto', lastError: 'Database unavailable' }),
+      });
+
+      (mockPrisma.autopayRun.findMany as jest.Mock).mockResolvedValue([
+        buildRun({ status: 'RETRYING', attempts: 1, lastPaymentId: 'pay_auto' }),
+      ]);
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue({
+        id: 'pay_auto', userId: 1, amountPaise: 226600, method: 'autopay', status: 'PROCESSING', externalId: null,
+      });
+
+      await executeDueAutopayRuns(new Date());
+
+      expect(mockPrisma.payment.create).toHaveBeenCalledTimes(1);
+      expect(await gateway.listPayments(new Date(0), new Date())).toHaveLength(1);
+      expect(mockProcessPayment).toHaveBeenLastCalledWith('pay_auto', 'SUCCESS', '9012', 1, 226600, 'pay_fake_1');
+      expect(mockPrisma.autopayRun.update).toHaveBeenLastCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ status: 'SUCCESS', attempts: 2 }),
+      });
+    });
+
+    it('fails the run at once, without retries, when the gateway cannot charge outside checkout', async () => {
+      setPaymentGateway(new RazorpayGateway({ keyId: 'rzp_test', keySecret: 'secret', webhookSecret: 'whsec' }));
+      (mockPrisma.autopayRun.findMany as jest.Mock).mockResolvedValue([buildRun()]);
+
+      await executeDueAutopayRuns(new Date());
+
+      expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+      expect(mockPrisma.autopayRun.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { status: 'FAILED', lastError: 'The razorpay gateway cannot charge outside checkout' },
+      });
+      expect(createAutopayFailedNotification).toHaveBeenCalledWith(1, '9012', expect.any(Date), 226600);
+    });
+
+    it('skips statements that were paid in the meantime', async () => {
+      const run = buildRun();
+      run.statement.isPaid = true;
+      (mockPrisma.autopayRun.findMany as jest.Mock).mockResolvedValue([run]);
+
+      await executeDueAutopayRuns(new Date());
+
+      expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+      expect(mockPrisma.autopayRun.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { status: 'SKIPPED' },
+      });
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import app from '../src/index';
+import prisma from '../src/config/database';
+import { generateStepUpToken } from '../src/utils/jwt';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const authToken = jwt.sign(
+  { userId: 1, email: 'test@example.com', name: 'Test User', isAdmin: false },
+  process.env.JWT_SECRET || 'test-secret'
+);
+
+const card = {
+  id: 1,
+  userId: 1,
+  last4: '9012',
+  cardType: 'GOLD',
+  status: 'ACTIVE',
+  creditLimitPaise: 30000000,
+  autopayEnabled: true,
+  autopayMode: 'FULL_BALANCE',
+  billingCycleDay: 15,
+  replacesCardId: null,
+  createdAt: new Date(),
+  closedAt: null,
+};
+
+const closePost = () =>
+  request(app)
+    .post('/api/cards/1/close')
+    .set('Authorization', `Bearer ${authToken}`)
+    .set('X-Step-Up-Token', generateStepUpToken(1));
+
+describe('Card closure', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.$transaction as jest.Mock).mockImplementation((cb: any) => cb(mockPrisma));
+    mockPrisma.card.findFirst.mockResolvedValue(card as any);
+    (mockPrisma.card.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    // ₹150 overpaid, nothing owed
+    (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+      { cardId: 1, account: 'CREDIT_BALANCE', _sum: { amountPaise: -15000 } },
+    ]);
+    (mockPrisma.cardAuthorization.groupBy as jest.Mock).mockResolvedValue([]);
+    (mockPrisma.payment.count as jest.Mock).mockResolvedValue(0);
+    (mockPrisma.reward.aggregate as jest.Mock).mockResolvedValue({ _sum: { points: 5000 } });
+    (mockPrisma.reward.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (mockPrisma.autopayRun.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+    (mockPrisma.scheduledPayment.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+    (mockPrisma.addOnCard.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (mockPrisma.virtualCard.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+    (mockPrisma.cardClosure.create as jest.Mock).mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: 3, ...data })
+    );
+  });
+
+  describe('GET /api/cards/:id/closure', () => {
+    it('quotes the balance to pay off before the card can be closed', async () => {
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+        { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 1250000 } },
+      ]);
+      (mockPrisma.scheduledPayment.count as jest.Mock).mockResolvedValue(1);
+      (mockPrisma.addOnCard.count as jest.Mock).mockResolvedValue(0);
+
+      const response = await request(app)
+        .get('/api/cards/1/closure')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        canClose: false,
+        blockers: ['OUTSTANDING_BALANCE'],
+        outstandingBalance: 12500,
+        rewardPoints: 5000,
+        rewardsOutcome: 'CONVERTED',
+        rewardsValue: 500,
+        scheduledPayments: 1,
+      });
+    });
+  });
+
+  describe('POST /api/cards/:id/close', () => {
+    it('refunds the credit balance and converted points, cancels payments and closes add-on cards', async () => {
+      const response = await closePost();
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.card.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, status: { not: 'CLOSED' } },
+        data: expect.objectContaining({ status: 'CLOSED', closureReason: 'CARDHOLDER_REQUEST', autopayEnabled: false }),
+      });
+      expect(mockPrisma.reward.updateMany).toHaveBeenCalledWith({ where: { cardId: 1 }, data: { points: 0 } });
+      expect(mockPrisma.ledgerEntry.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([
+          expect.objectContaining({ account: 'CREDIT_BALANCE', amountPaise: 15000 }),
+          expect.objectContaining({ account: 'REWARDS_REDEEMED', amountPaise: 50000 }),
+          expect.objectContaining({ account: 'REFUNDS_PAYABLE', amountPaise: -65000 }),
+        ]),
+      });
+      expect(mockPrisma.scheduledPayment.updateMany).toHaveBeenCalledWith({
+        where: { cardId: 1, status: { in: ['ACTIVE', 'PAUSED'] } },
+        data: { status: 'CANCELLED' },
+      });
+      expect(mockPrisma.addOnCard.updateMany).toHaveBeenCalledWith({
+        where: { cardId: 1, status: { not: 'CLOSED' } },
+        data: { status: 'CLOSED', closedAt: expect.any(Date) },
+      });
+      expect(response.body.data).toMatchObject({
+        status: 'CLOSED',
+        refund: 650,
+        rewardsOutcome: 'CONVERTED',
+        autopayCancelled: true,
+        scheduledPaymentsCancelled: 2,
+        addOnCardsClosed: 1,
+        noDuesLetterUrl: '/api/cards/1/no-dues-letter',
+      });
+    });
+
+    it('refuses while a balance is owed or holds are pending', async () => {
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+        { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 1250000 } },
+      ]);
+      const owing = await closePost();
+      expect(owing.status).toBe(409);
+      expect(owing.body.error.message).toContain('₹12,500');
+
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.cardAuthorization.groupBy as jest.Mock).mockResolvedValue([
+        { cardId: 1, _sum: { amountPaise: 250000 } },
+      ]);
+      const holding = await closePost();
+      expect(holding.status).toBe(409);
+      expect(mockPrisma.cardClosure.create).not.toHaveBeenCalled();
+    });
+
+    it('needs a step-up token', async () => {
+      const response = await request(app)
+        .post('/api/cards/1/close')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(401);
+      expect(mockPrisma.card.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closed cards', () => {
+    const closedCard = { ...card, status: 'CLOSED', closedAt: new Date(), autopayEnabled: false };
+
+    it('are read-only', async () => {
+      mockPrisma.card.findFirst.mockResolvedValue(closedCard as any);
+
+      const autopay = await request(app)
+        .patch('/api/cards/1/autopay')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ enabled: true });
+      expect(autopay.status).toBe(409);
+      expect(mockPrisma.card.update).not.toHaveBeenCalled();
+    });
+
+    it('have a no-dues letter once closed by their holder', async () => {
+      mockPrisma.card.findFirst.mockResolvedValue({
+        ...closedCard,
+        user: { name: 'Test User' },
+        closure: {
+          id: 3,
+          cardId: 1,
+          rewardPoints: 5000,
+          rewardsOutcome: 'CONVERTED',
+          rewardsValuePaise: 50000,
+          refundPaise: 65000,
+          autopayCancelled: true,
+          scheduledPaymentsCancelled: 2,
+          addOnCardsClosed: 1,
+          createdAt: new Date(),
+        },
+      } as any);
+
+      const response = await request(app)
+        .get('/api/cards/1/no-dues-letter')
+        .set('Authorization', `Bearer ${authToken}`)
+        .buffer(true)
+        .parse((res, done) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => done(null, Buffer.concat(chunks)));
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/pdf');
+      expect(response.body.subarray(0, 5).toString()).toBe('%PDF-');
+
+      mockPrisma.card.findFirst.mockResolvedValue({ ...closedCard, user: { name: 'Test User' }, closure: null } as any);
+      const reported = await request(app)
+        .get('/api/cards/1/no-dues-letter')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(reported.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { CARD_BINS, generateCardNumber, isCardExpired, isLuhnValid, issueCardCredentials, luhnCheckDigit } from '../src/utils/cardIssuing';
+import { decryptPan, encryptPan, hashPan, verifyCardSecret } from '../src/utils/cardVault';
+
+describe('Card issuing', () => {
+  it('computes Luhn check digits', () => {
+    expect(luhnCheckDigit('453201511283036')).toBe('6');
+    expect(isLuhnValid('4532015112830366')).toBe(true);
+    expect(isLuhnValid('4532015112830367')).toBe(false);
+  });
+
+  it('issues Luhn-valid 16-digit numbers in the product BIN ranges', () => {
+    for (const product of ['Silver', 'GOLD', 'Platinum']) {
+      const number = generateCardNumber(product);
+      expect(number).toHaveLength(16);
+      expect(isLuhnValid(number)).toBe(true);
+      expect(CARD_BINS[product.toUpperCase()]).toContain(number.slice(0, 6));
+    }
+  });
+
+  it('treats a card as valid through the end of its expiry month', () => {
+    const expiry = { expiryMonth: 3, expiryYear: 2030 };
+    expect(isCardExpired(expiry, new Date(2030, 2, 31, 23, 59))).toBe(false);
+    expect(isCardExpired(expiry, new Date(2030, 3, 1))).toBe(true);
+  });
+
+  it('stores only the encrypted number and a hash of the CVV', () => {
+    const { pan, cvv, credentials } = issueCardCredentials('GOLD', { expiryMonth: 10, expiryYear: 2030 });
+
+    expect(Object.values(credentials)).not.toContain(pan);
+    expect(credentials.cvvHash).not.toContain(cvv);
+    expect(credentials.last4).toBe(pan.slice(-4));
+    expect(credentials.panHash).toBe(hashPan(pan));
+    expect(decryptPan(credentials)).toBe(pan);
+    expect(verifyCardSecret(cvv, credentials.cvvHash)).toBe(true);
+    expect(verifyCardSecret(cvv === '000' ? '001' : '000', credentials.cvvHash)).toBe(false);
+  });
+
+  it('encrypts each number with its own data key', () => {
+    const first = encryptPan('4532015112830366');
+    const second = encryptPan('4532015112830366');
+
+    expect(first.panDataKey).not.toBe(second.panDataKey);
+    expect(first.panCiphertext).not.toBe(second.panCiphertext);
+    expect(decryptPan(second)).toBe('4532015112830366');
+  });
+});
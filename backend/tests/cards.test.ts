@@ -2,6 +2,10 @@ import request from 'supertest';
 import app from '../src/index';
 import prisma from '../src/config/database';
 import jwt from 'jsonwebtoken';
+import { encryptPan, hashCardSecret, verifyCardSecret } from '../src/utils/cardVault';
+import { generateStepUpToken } from '../src/utils/jwt';
+import { logger } from '../src/config/logger';
+import { FakePaymentGateway, RazorpayGateway, setPaymentGateway } from '../src/gateways';
 
 const mockPrisma = prisma as jest.Mocked<typeof prisma>;
 
@@ -90,7 +94,7 @@ describe('Cards Routes', () => {
           last4: '9012',
           cardType: 'PLATINUM',
           status: 'ACTIVE',
-          creditLimit: 500000,
+          creditLimitPaise: 50000000,
           autopayEnabled: false,
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -103,6 +107,9 @@ describe('Cards Routes', () => {
       ];
 
       mockPrisma.card.findMany.mockResolvedValue(mockCards as any);
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+        { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 4532000 } },
+      ]);
 
       const response = await request(app)
         .get('/api/cards')
@@ -113,6 +120,38 @@ describe('Cards Routes', () => {
       expect(response.body.data).toHaveLength(1);
       expect(response.body.data[0].number).toBe('****-****-****-9012');
       expect(response.body.data[0].last4).toBe('9012');
+      expect(response.body.data[0].outstandingBalance).toBe(45320);
+      expect(response.body.data[0].availableCredit).toBe(454680);
+    });
+
+    it('should take pending authorization holds out of available credit', async () => {
+      mockPrisma.card.findMany.mockResolvedValue([
+        {
+          id: 1,
+          userId: 1,
+          last4: '9012',
+          cardType: 'PLATINUM',
+          status: 'ACTIVE',
+          creditLimitPaise: 50000000,
+          createdAt: new Date(),
+          rewards: [],
+          _count: { transactions: 0, payments: 0 },
+        },
+      ] as any);
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+        { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 4532000 } },
+      ]);
+      (mockPrisma.cardAuthorization.groupBy as jest.Mock).mockResolvedValueOnce([
+        { cardId: 1, _sum: { amountPaise: 500000 } },
+      ]);
+
+      const response = await request(app)
+        .get('/api/cards')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data[0].pendingHolds).toBe(5000);
+      expect(response.body.data[0].availableCredit).toBe(449680);
     });
 
     it('should return 401 without authentication', async () => {
@@ -132,7 +171,7 @@ describe('Cards Routes', () => {
         last4: '9012',
         cardType: 'PLATINUM',
         status: 'ACTIVE',
-        creditLimit: 500000,
+        creditLimitPaise: 50000000,
         autopayEnabled: false,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -166,4 +205,634 @@ describe('Cards Routes', () => {
       expect(response.body.error.code).toBe('NOT_FOUND');
     });
   });
+
+  describe('PATCH /api/cards/:id/autopay', () => {
+    it('cannot be turned on when the gateway cannot charge outside checkout', async () => {
+      (mockPrisma.card.findFirst as jest.Mock).mockResolvedValue({ id: 1, userId: 1, status: 'ACTIVE', autopayEnabled: false });
+      setPaymentGateway(new RazorpayGateway({ keyId: 'rzp_test', keySecret: 'secret', webhookSecret: 'whsec' }));
+
+      const response = await request(app)
+        .patch('/api/cards/1/autopay')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ enabled: true });
+      setPaymentGateway(new FakePaymentGateway());
+
+      expect(response.status).toBe(422);
+      expect(response.body.error.code).toBe('CHECKOUT_REQUIRED');
+      expect(mockPrisma.card.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('/api/cards/:id/controls', () => {
+    const mockCard = {
+      id: 1,
+      userId: 1,
+      number: '4532123456789012',
+      last4: '9012',
+      cardType: 'PLATINUM',
+      status: 'ACTIVE',
+      creditLimitPaise: 50000000,
+    };
+
+    beforeEach(() => {
+      mockPrisma.card.findFirst.mockResolvedValue(mockCard as any);
+      (mockPrisma.cardControl.findUnique as jest.Mock).mockResolvedValue(null);
+    });
+
+    it('returns the default controls with what was spent against the caps', async () => {
+      (mockPrisma.cardAuthorization.groupBy as jest.Mock).mockResolvedValue([
+        { status: 'CAPTURED', _sum: { amountPaise: 100000, capturedPaise: 90000 } },
+        { status: 'PENDING', _sum: { amountPaise: 50000, capturedPaise: 0 } },
+      ]);
+
+      const response = await request(app)
+        .get('/api/cards/1/controls')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        online: true,
+        international: false,
+        contactless: true,
+        atm: true,
+        dailyLimit: null,
+        blockedCategories: [],
+        spentToday: 1400,
+      });
+    });
+
+    it('changes only the controls sent', async () => {
+      (mockPrisma.cardControl.upsert as jest.Mock).mockImplementation(({ update }: any) =>
+        Promise.resolve({ onlineEnabled: true, contactlessEnabled: true, atmEnabled: true, perTransactionLimitPaise: null, monthlyLimitPaise: null, ...update })
+      );
+
+      const response = await request(app)
+        .patch('/api/cards/1/controls')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ international: true, dailyLimit: 25000, blockedCategories: ['Gambling', 'gambling', 'Travel'] });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.cardControl.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { cardId: 1 },
+        update: expect.objectContaining({
+          internationalEnabled: true,
+          dailyLimitPaise: 2500000,
+          blockedCategories: ['Gambling', 'Travel'],
+          onlineEnabled: undefined,
+        }),
+      }));
+      expect(response.body.data).toMatchObject({ international: true, dailyLimit: 25000 });
+    });
+
+    it('rejects a daily limit above the monthly limit', async () => {
+      (mockPrisma.cardControl.findUnique as jest.Mock).mockResolvedValue({
+        onlineEnabled: true,
+        internationalEnabled: false,
+        contactlessEnabled: true,
+        atmEnabled: true,
+        perTransactionLimitPaise: null,
+        dailyLimitPaise: null,
+        monthlyLimitPaise: 1000000,
+        blockedCategories: [],
+      });
+
+      const response = await request(app)
+        .patch('/api/cards/1/controls')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ dailyLimit: 20000 });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.cardControl.upsert).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for a card the user does not own', async () => {
+      mockPrisma.card.findFirst.mockResolvedValue(null);
+
+      const response = await request(app)
+        .patch('/api/cards/999/controls')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ atm: false });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('/api/cards/:id/virtual', () => {
+    const mockCard = {
+      id: 1,
+      userId: 1,
+      number: '4532123456789012',
+      last4: '9012',
+      cardType: 'PLATINUM',
+      status: 'ACTIVE',
+      creditLimitPaise: 50000000,
+    };
+
+    const buildVirtualCard = (overrides: Record<string, any> = {}) => ({
+      id: 3,
+      cardId: 1,
+      number: '4532987654321',
+      last4: '4321',
+      label: 'Streaming',
+      status: 'ACTIVE',
+      spendCapPaise: 100000,
+      singleUse: false,
+      lockedMerchant: null,
+      expiresAt: null,
+      usedAt: null,
+      deletedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockPrisma.card.findFirst.mockResolvedValue(mockCard as any);
+    });
+
+    it('issues a capped, merchant-locked virtual card and returns its CVV once', async () => {
+      (mockPrisma.virtualCard.create as jest.Mock).mockImplementation(({ data }: any) =>
+        Promise.resolve(buildVirtualCard(data))
+      );
+
+      const response = await request(app)
+        .post('/api/cards/1/virtual')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ label: 'Streaming', spendCap: 649, merchant: 'Netflix' });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.virtualCard.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ cardId: 1, spendCapPaise: 64900, singleUse: false, lockedMerchant: 'Netflix', expiresAt: null }),
+      });
+      expect(response.body.data).toMatchObject({ status: 'active', spendCap: 649, spent: 0, merchant: 'Netflix' });
+      expect(response.body.data.number).toMatch(/^453290\d{10}$/);
+      expect(response.body.data.cvv).toMatch(/^\d{3}$/);
+      expect(mockPrisma.virtualCard.create).toHaveBeenCalledWith({
+        data: expect.not.objectContaining({ number: expect.anything() }),
+      });
+    });
+
+    it('refuses to issue on a blocked card or past its expiry date', async () => {
+      mockPrisma.card.findFirst.mockResolvedValueOnce({ ...mockCard, status: 'BLOCKED' } as any);
+      const blocked = await request(app)
+        .post('/api/cards/1/virtual')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ singleUse: true });
+
+      const expired = await request(app)
+        .post('/api/cards/1/virtual')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ expiryDate: '2020-01-31' });
+
+      expect(blocked.status).toBe(400);
+      expect(expired.status).toBe(400);
+      expect(mockPrisma.virtualCard.create).not.toHaveBeenCalled();
+    });
+
+    it('lists virtual cards with what each has spent', async () => {
+      (mockPrisma.virtualCard.findMany as jest.Mock).mockResolvedValue([
+        buildVirtualCard(),
+        buildVirtualCard({ id: 4, expiresAt: new Date(2020, 0, 31) }),
+      ]);
+      (mockPrisma.cardAuthorization.groupBy as jest.Mock).mockResolvedValue([
+        { virtualCardId: 3, status: 'CAPTURED', _sum: { amountPaise: 64900, capturedPaise: 64900 } },
+      ]);
+
+      const response = await request(app)
+        .get('/api/cards/1/virtual')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data[0]).toMatchObject({ id: 3, spent: 649, number: '****-****-****-4321' });
+      expect(response.body.data[1]).toMatchObject({ id: 4, status: 'expired', spent: 0 });
+    });
+
+    it('pauses a virtual card but will not resume a used single-use one', async () => {
+      (mockPrisma.virtualCard.findFirst as jest.Mock).mockResolvedValue(buildVirtualCard());
+      (mockPrisma.virtualCard.update as jest.Mock).mockImplementation(({ data }: any) =>
+        Promise.resolve(buildVirtualCard(data))
+      );
+
+      const paused = await request(app)
+        .patch('/api/cards/1/virtual/3')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: 'PAUSED' });
+
+      expect(paused.status).toBe(200);
+      expect(paused.body.data.status).toBe('paused');
+
+      (mockPrisma.virtualCard.findFirst as jest.Mock).mockResolvedValue(buildVirtualCard({ singleUse: true, status: 'USED' }));
+      const used = await request(app)
+        .patch('/api/cards/1/virtual/3')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: 'ACTIVE' });
+
+      expect(used.status).toBe(409);
+    });
+
+    it('deletes a virtual card', async () => {
+      (mockPrisma.virtualCard.findFirst as jest.Mock).mockResolvedValue(buildVirtualCard());
+
+      const response = await request(app)
+        .delete('/api/cards/1/virtual/3')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.virtualCard.findFirst).toHaveBeenCalledWith({
+        where: { id: 3, cardId: 1, status: { not: 'DELETED' }, card: { userId: 1 } },
+      });
+      expect(mockPrisma.virtualCard.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: { status: 'DELETED', deletedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('POST /api/cards/:id/reveal', () => {
+    const pan = '4532211234569012';
+
+    beforeEach(() => {
+      mockPrisma.card.findFirst.mockResolvedValue({
+        id: 1,
+        userId: 1,
+        last4: '9012',
+        status: 'ACTIVE',
+        ...encryptPan(pan),
+        expiryMonth: 10,
+        expiryYear: 2030,
+      } as any);
+    });
+
+    it('needs a step-up token for the signed-in user', async () => {
+      const missing = await request(app)
+        .post('/api/cards/1/reveal')
+        .set('Authorization', `Bearer ${authToken}`);
+      const otherUser = await request(app)
+        .post('/api/cards/1/reveal')
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('X-Step-Up-Token', generateStepUpToken(2));
+
+      expect(missing.status).toBe(401);
+      expect(missing.body.error.code).toBe('STEP_UP_REQUIRED');
+      expect(otherUser.status).toBe(401);
+      expect(mockPrisma.card.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('decrypts the card number after step-up', async () => {
+      const response = await request(app)
+        .post('/api/cards/1/reveal')
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('X-Step-Up-Token', generateStepUpToken(1));
+
+      expect(response.status).toBe(200);
+      expect(response.headers['cache-control']).toBe('no-store');
+      expect(response.body.data).toMatchObject({ number: '4532 2112 3456 9012', expiryMonth: 10, expiryYear: 2030 });
+      expect(response.body.data.cvv).toBeUndefined();
+    });
+  });
+
+  describe('POST /api/cards/:id/report', () => {
+    const mockCard = {
+      id: 1,
+      userId: 1,
+      last4: '9012',
+      cardType: 'GOLD',
+      status: 'BLOCKED',
+      creditLimitPaise: 30000000,
+      autopayEnabled: true,
+      autopayMode: 'FULL_BALANCE',
+      billingCycleDay: 15,
+      replacesCardId: null,
+      createdAt: new Date(),
+    };
+
+    beforeEach(() => {
+      mockPrisma.card.findFirst.mockResolvedValue(mockCard as any);
+      (mockPrisma.$transaction as jest.Mock).mockImplementation((callback: any) => callback(mockPrisma));
+      (mockPrisma.card.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (mockPrisma.card.create as jest.Mock).mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 2, createdAt: new Date(), updatedAt: new Date(), ...data })
+      );
+      for (const model of ['reward', 'cardControl', 'statement', 'autopayRun', 'payment', 'cardAuthorization', 'transaction'] as const) {
+        ((mockPrisma as any)[model].updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      }
+      (mockPrisma.virtualCard.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+      (mockPrisma.scheduledPayment.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (mockPrisma.cardAuthorization.findMany as jest.Mock).mockResolvedValue([{ id: 7, transactionId: 70 }]);
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+        { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 1250000 } },
+        { cardId: 1, account: 'FEES', _sum: { amountPaise: 50000 } },
+      ]);
+    });
+
+    it('closes the card and moves the account to a replacement', async () => {
+      const response = await request(app)
+        .post('/api/cards/1/report')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ reason: 'STOLEN' });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.card.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, status: { not: 'CLOSED' } },
+        data: expect.objectContaining({ status: 'CLOSED', closureReason: 'STOLEN' }),
+      });
+      expect(mockPrisma.card.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          cardType: 'GOLD',
+          creditLimitPaise: 30000000,
+          autopayEnabled: true,
+          autopayMode: 'FULL_BALANCE',
+          billingCycleDay: 15,
+          replacesCardId: 1,
+        }),
+      });
+      expect(mockPrisma.reward.updateMany).toHaveBeenCalledWith({ where: { cardId: 1 }, data: { cardId: 2 } });
+      expect(mockPrisma.scheduledPayment.updateMany).toHaveBeenCalledWith({
+        where: { cardId: 1, status: { in: ['ACTIVE', 'PAUSED'] } },
+        data: { cardId: 2 },
+      });
+      expect(mockPrisma.transaction.updateMany).toHaveBeenCalledWith({ where: { id: { in: [70] } }, data: { cardId: 2 } });
+      expect(mockPrisma.ledgerEntry.createMany).toHaveBeenLastCalledWith({
+        data: expect.arrayContaining([
+          expect.objectContaining({ cardId: 2, account: 'PRINCIPAL', amountPaise: 1250000 }),
+          expect.objectContaining({ cardId: 2, account: 'FEES', amountPaise: 50000 }),
+          expect.objectContaining({ cardId: 2, account: 'CARD_TRANSFER', amountPaise: -1300000 }),
+        ]),
+      });
+      expect(response.body.data.reportedCard).toMatchObject({ id: 1, status: 'CLOSED', closureReason: 'STOLEN', replacedByCardId: 2 });
+      expect(response.body.data.replacement).toMatchObject({ id: 2, status: 'INACTIVE', creditLimit: 300000, replacesCardId: 1 });
+      expect(response.body.data.replacement.number).toMatch(/^\*{4}-\*{4}-\*{4}-\d{4}$/);
+      expect(response.body.data).toMatchObject({ balanceMoved: 13000, virtualCardsMoved: 2, scheduledPaymentsMoved: 1 });
+    });
+
+    it('refuses a card that is already closed', async () => {
+      mockPrisma.card.findFirst.mockResolvedValue({ ...mockCard, status: 'CLOSED' } as any);
+
+      const response = await request(app)
+        .post('/api/cards/1/report')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ reason: 'LOST' });
+
+      expect(response.status).toBe(409);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects an unknown reason', async () => {
+      const response = await request(app)
+        .post('/api/cards/1/report')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ reason: 'MISPLACED' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('card activation', () => {
+    const mockCard = {
+      id: 1,
+      userId: 1,
+      last4: '9012',
+      cardType: 'GOLD',
+      status: 'INACTIVE',
+      cvvHash: hashCardSecret('123'),
+      pinHash: null,
+      activatedAt: null,
+    };
+
+    beforeEach(() => {
+      mockPrisma.card.findFirst.mockResolvedValue(mockCard as any);
+      (mockPrisma.card.update as jest.Mock).mockImplementation(({ data }: any) => Promise.resolve({ ...mockCard, ...data }));
+      (mockPrisma.otpChallenge.findFirst as jest.Mock).mockResolvedValue({
+        id: 5,
+        userId: 1,
+        cardId: 1,
+        purpose: 'CARD_ACTIVATION',
+        codeHash: hashCardSecret('654321'),
+        attempts: 0,
+      });
+      (mockPrisma.otpChallenge.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    });
+
+    it('sends a code for an inactive card only', async () => {
+      const sent = await request(app)
+        .post('/api/cards/1/activation/otp')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      mockPrisma.card.findFirst.mockResolvedValueOnce({ ...mockCard, status: 'ACTIVE' } as any);
+      const active = await request(app)
+        .post('/api/cards/1/activation/otp')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(sent.status).toBe(200);
+      expect(mockPrisma.otpChallenge.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 1, cardId: 1, purpose: 'CARD_ACTIVATION', codeHash: expect.any(String) }),
+      });
+      expect(active.status).toBe(409);
+    });
+
+    it('sends the code as a notification and never logs it', async () => {
+      await request(app)
+        .post('/api/cards/1/activation/otp')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      const { data: challenge } = (mockPrisma.otpChallenge.create as jest.Mock).mock.calls[0][0];
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 1, type: 'VERIFICATION_CODE' }),
+      });
+      const { data: notification } = (mockPrisma.notification.create as jest.Mock).mock.calls[0][0];
+      const code = notification.message.match(/\d{6}/)[0];
+      expect(verifyCardSecret(code, challenge.codeHash)).toBe(true);
+
+      const logged = Object.values(logger).flatMap((log) => (log as jest.Mock).mock.calls.flat()).join(' ');
+      expect(logged).not.toContain(code);
+    });
+
+    it('activates with the last 4 digits, CVV and code', async () => {
+      const response = await request(app)
+        .post('/api/cards/1/activate')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ last4: '9012', cvv: '123', otp: '654321' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.card.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { status: 'ACTIVE', activatedAt: expect.any(Date) },
+      });
+      expect(response.body.data).toMatchObject({ status: 'ACTIVE', pinSet: false });
+    });
+
+    it('counts a wrong code and leaves the card inactive', async () => {
+      const response = await request(app)
+        .post('/api/cards/1/activate')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ last4: '9012', cvv: '123', otp: '111111' });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.otpChallenge.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { attempts: { increment: 1 } },
+      });
+      expect(mockPrisma.card.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses the wrong CVV even with a good code', async () => {
+      const response = await request(app)
+        .post('/api/cards/1/activate')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ last4: '9012', cvv: '999', otp: '654321' });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.card.update).not.toHaveBeenCalled();
+    });
+
+    it('sets the first PIN once the card is active', async () => {
+      mockPrisma.card.findFirst.mockResolvedValue({ ...mockCard, status: 'ACTIVE' } as any);
+
+      const response = await request(app)
+        .post('/api/cards/1/pin')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ pin: '4821', otp: '654321' });
+
+      expect(response.status).toBe(200);
+      const { data } = (mockPrisma.card.update as jest.Mock).mock.calls[0][0];
+      expect(verifyCardSecret('4821', data.pinHash)).toBe(true);
+
+      mockPrisma.card.findFirst.mockResolvedValue({ ...mockCard, status: 'ACTIVE', pinHash: data.pinHash } as any);
+      const again = await request(app)
+        .post('/api/cards/1/pin')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ pin: '1234', otp: '654321' });
+      expect(again.status).toBe(409);
+    });
+
+    it('does not let an inactive card be unblocked into use', async () => {
+      const response = await request(app)
+        .patch('/api/cards/1/status')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: 'ACTIVE' });
+
+      expect(response.status).toBe(409);
+      expect(mockPrisma.card.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('card PIN', () => {
+    const mockCard = {
+      id: 1,
+      userId: 1,
+      last4: '9012',
+      status: 'ACTIVE',
+      pinHash: hashCardSecret('4821'),
+      pinAttempts: 0,
+      pinLockedAt: null,
+    };
+
+    beforeEach(() => {
+      mockPrisma.card.findFirst.mockResolvedValue(mockCard as any);
+      (mockPrisma.card.update as jest.Mock).mockImplementation(({ data }: any) => Promise.resolve({ ...mockCard, ...data }));
+      (mockPrisma.otpChallenge.findFirst as jest.Mock).mockResolvedValue({
+        id: 6,
+        userId: 1,
+        cardId: 1,
+        purpose: 'CARD_PIN',
+        codeHash: hashCardSecret('246810'),
+        attempts: 0,
+      });
+      (mockPrisma.otpChallenge.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    });
+
+    it('needs a code or a step-up token to set a PIN', async () => {
+      mockPrisma.card.findFirst.mockResolvedValue({ ...mockCard, pinHash: null } as any);
+
+      const unconfirmed = await request(app)
+        .post('/api/cards/1/pin')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ pin: '1357' });
+      expect(unconfirmed.status).toBe(401);
+      expect(unconfirmed.body.error.code).toBe('STEP_UP_REQUIRED');
+      expect(mockPrisma.card.update).not.toHaveBeenCalled();
+
+      const steppedUp = await request(app)
+        .post('/api/cards/1/pin')
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('X-Step-Up-Token', generateStepUpToken(1))
+        .send({ pin: '1357' });
+      expect(steppedUp.status).toBe(200);
+      expect(mockPrisma.otpChallenge.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('changes the PIN with the current one and a code', async () => {
+      const response = await request(app)
+        .put('/api/cards/1/pin')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ currentPin: '4821', newPin: '1357', otp: '246810' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.otpChallenge.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ purpose: 'CARD_PIN', cardId: 1 }),
+      }));
+      const { data } = (mockPrisma.card.update as jest.Mock).mock.calls[0][0];
+      expect(verifyCardSecret('1357', data.pinHash)).toBe(true);
+      expect(data).toMatchObject({ pinAttempts: 0, pinLockedAt: null });
+    });
+
+    it('counts a wrong current PIN and locks the PIN at the limit', async () => {
+      (mockPrisma.card.update as jest.Mock).mockResolvedValueOnce({ ...mockCard, pinAttempts: 1 });
+      const wrong = await request(app)
+        .put('/api/cards/1/pin')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ currentPin: '0000', newPin: '1357', otp: '246810' });
+
+      expect(wrong.status).toBe(400);
+      expect(mockPrisma.card.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { pinAttempts: { increment: 1 } },
+      });
+      expect(mockPrisma.card.update).toHaveBeenCalledTimes(1);
+
+      (mockPrisma.card.update as jest.Mock).mockResolvedValueOnce({ ...mockCard, pinAttempts: 3 });
+      const locking = await request(app)
+        .put('/api/cards/1/pin')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ currentPin: '0000', newPin: '1357', otp: '246810' });
+
+      expect(locking.status).toBe(400);
+      expect(mockPrisma.card.update).toHaveBeenLastCalledWith({
+        where: { id: 1 },
+        data: { pinLockedAt: expect.any(Date) },
+      });
+    });
+
+    it('refuses to change a locked PIN but resets and unlocks it', async () => {
+      mockPrisma.card.findFirst.mockResolvedValue({ ...mockCard, pinAttempts: 3, pinLockedAt: new Date() } as any);
+
+      const change = await request(app)
+        .put('/api/cards/1/pin')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ currentPin: '4821', newPin: '1357', otp: '246810' });
+      expect(change.status).toBe(409);
+      expect(mockPrisma.otpChallenge.findFirst).not.toHaveBeenCalled();
+
+      const reset = await request(app)
+        .post('/api/cards/1/pin/reset')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ newPin: '1357', otp: '246810' });
+
+      expect(reset.status).toBe(200);
+      expect(reset.body.data.pinLocked).toBe(false);
+      const { data } = (mockPrisma.card.update as jest.Mock).mock.calls[0][0];
+      expect(verifyCardSecret('1357', data.pinHash)).toBe(true);
+      expect(data).toMatchObject({ pinAttempts: 0, pinLockedAt: null });
+    });
+
+    it('rejects a wrong code without touching the PIN', async () => {
+      const response = await request(app)
+        .post('/api/cards/1/pin/reset')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ newPin: '1357', otp: '111111' });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.card.update).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { formatDocumentAmount, renderStatement } from '../src/utils/documents';
+import { PdfDocument } from '../src/utils/pdf';
+
+const statement = {
+  id: 10,
+  cardId: 1,
+  month: 3,
+  year: 2025,
+  periodStart: new Date(2025, 1, 16),
+  periodEnd: new Date(2025, 2, 15, 23, 59, 59, 999),
+  dueDate: new Date(2025, 3, 4),
+  balancePaise: 498000,
+  feesPaise: 59000,
+  interestPaise: 0,
+  minDuePaise: 24900,
+  isPaid: false,
+  interestChargedThrough: null,
+  lateFeeCharged: false,
+  createdAt: new Date(2025, 2, 16),
+  updatedAt: new Date(2025, 2, 16),
+  card: { last4: '9012', cardType: 'PLATINUM', creditLimitPaise: 50000000 },
+};
+
+const transaction = (id: number, amountPaise: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  userId: 1,
+  cardId: 1,
+  date: new Date(2025, 2, id),
+  merchant: `Merchant ${id}`,
+  category: 'Shopping',
+  description: null,
+  amountPaise,
+  type: 'PURCHASE',
+  status: 'SUCCESS',
+  createdAt: new Date(2025, 2, id),
+  updatedAt: new Date(2025, 2, id),
+  ...overrides,
+});
+
+// Every xref entry must point at the start of its object
+const expectValidXref = (pdf: string) => {
+  const xrefAt = parseInt(pdf.slice(pdf.lastIndexOf('startxref') + 10));
+  const [, count] = pdf.slice(xrefAt).split('\n')[1].split(' ').map(Number);
+  const entries = pdf.slice(xrefAt).split('\n').slice(3, 2 + count);
+  entries.forEach((entry, index) => {
+    const offset = parseInt(entry.slice(0, 10));
+    expect(pdf.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+  });
+};
+
+describe('Documents', () => {
+  describe('formatDocumentAmount', () => {
+    it('always shows two decimals in rupees', () => {
+      expect(formatDocumentAmount(123450)).toBe('Rs. 1,234.50');
+      expect(formatDocumentAmount(-5000)).toBe('-Rs. 50.00');
+    });
+  });
+
+  describe('PdfDocument', () => {
+    it('writes a well-formed PDF', () => {
+      const pdf = new PdfDocument('Test').text('Hello (world) ₹100').toBuffer().toString('latin1');
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(pdf).toContain('(Hello \\(world\\) Rs. 100) Tj');
+      expectValidXref(pdf);
+    });
+
+    it('continues long tables on new pages', () => {
+      const rows = Array.from({ length: 120 }, (_, index) => [`Row ${index}`, `${index}`]);
+      const pdf = new PdfDocument('Long')
+        .table([{ header: 'Name', width: 300 }, { header: 'Value', width: 195, align: 'right' }], rows)
+        .toBuffer()
+        .toString('latin1');
+
+      expect(pdf).toContain('/Count 3');
+      expect(pdf).toContain('(Page 3 of 3)');
+      expect(pdf.match(/\(Name\) Tj/g)).toHaveLength(3);
+      expectValidXref(pdf);
+    });
+  });
+
+  describe('renderStatement', () => {
+    it('lists the period\'s transactions with totals, minimum due and due date', () => {
+      const pdf = renderStatement(
+        statement as any,
+        [
+          transaction(2, -500000, { description: 'Laptop' }),
+          transaction(5, 61000, { description: 'Laptop refund' }),
+          transaction(9, -59000, { type: 'LATE_FEE', category: 'Fees & Charges' }),
+          transaction(12, -20000, { status: 'FAILED' }),
+        ] as any,
+        'Test User'
+      ).toString('latin1');
+
+      expect(pdf).toContain('(Card Statement 03/2025) Tj');
+      expect(pdf).toContain('(Test User) Tj');
+      expect(pdf).toContain('(04 Apr 2025) Tj');
+      expect(pdf).toContain('(Rs. 5,590.00) Tj'); // charges, without the failed one
+      expect(pdf).toContain('(Rs. 610.00) Tj');
+      expect(pdf).toContain('(Rs. 4,980.00) Tj');
+      expect(pdf).toContain('(Rs. 249.00) Tj');
+      expect(pdf).toContain('(Rs. 5,000.00 Dr) Tj');
+      expect(pdf).toContain('(Rs. 610.00 Cr) Tj');
+      expect(pdf).toContain('(Merchant 12 \\(failed\\)) Tj');
+      expectValidXref(pdf);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import prisma from '../src/config/database';
+import { assessFinanceCharges, balanceAt, computeAverageDailyBalanceInterest } from '../src/utils/financeCharges';
+import { getLateFee, getProductPricing } from '../src/config/pricing';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const card = { id: 1, userId: 1, cardType: 'PLATINUM' };
+
+// Cycle closing 15 Apr 2025; the March statement was due 4 Apr
+const window = {
+  periodStart: new Date(2025, 2, 16),
+  periodEnd: new Date(2025, 3, 15, 23, 59, 59, 999),
+};
+
+const buildStatement = (overrides: Record<string, any> = {}) => ({
+  id: 3,
+  cardId: 1,
+  month: 3,
+  year: 2025,
+  periodStart: new Date(2025, 1, 16),
+  periodEnd: new Date(2025, 2, 15, 23, 59, 59, 999),
+  dueDate: new Date(2025, 3, 4),
+  balancePaise: 3650000,
+  minDuePaise: 182500,
+  isPaid: false,
+  interestChargedThrough: null,
+  lateFeeCharged: false,
+  allocations: [] as Array<{ amountPaise: number; createdAt: Date }>,
+  ...overrides,
+});
+
+describe('Finance charges', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.transaction.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 50, ...data }));
+  });
+
+  describe('pricing', () => {
+    it('prices Silver cards as STANDARD', () => {
+      expect(getProductPricing('SILVER')).toEqual(getProductPricing('STANDARD'));
+    });
+
+    it('picks the late fee slab for the overdue balance', () => {
+      expect(getLateFee(40000)).toBe(0);
+      expect(getLateFee(3650000)).toBe(110000);
+      expect(getLateFee(8000000)).toBe(130000);
+    });
+  });
+
+  describe('balanceAt', () => {
+    it('adds back payments allocated after the point in time', () => {
+      const statement = buildStatement({
+        balancePaise: 1000000,
+        allocations: [{ amountPaise: 500000, createdAt: new Date(2025, 3, 10) }],
+      });
+
+      expect(balanceAt(statement, new Date(2025, 3, 1))).toBe(1500000);
+      expect(balanceAt(statement, new Date(2025, 3, 12))).toBe(1000000);
+    });
+  });
+
+  describe('computeAverageDailyBalanceInterest', () => {
+    it('charges APR pro-rata on a constant balance', () => {
+      const statement = buildStatement({ balancePaise: 3650000 });
+      const from = new Date(2025, 2, 15);
+      const to = new Date(2025, 3, 14);
+
+      // 36,500 * 36% * 30 / 365
+      expect(computeAverageDailyBalanceInterest(statement, from, to, 36)).toBe(108000);
+    });
+
+    it('uses the lower balance for days after a payment', () => {
+      const from = new Date(2025, 2, 15);
+      const to = new Date(2025, 3, 14);
+      const paidMidway = buildStatement({
+        balancePaise: 0,
+        allocations: [{ amountPaise: 3650000, createdAt: new Date(2025, 2, 29, 12) }],
+      });
+
+      expect(computeAverageDailyBalanceInterest(paidMidway, from, to, 36)).toBe(50400);
+    });
+  });
+
+  describe('assessFinanceCharges', () => {
+    it('posts interest, late fee and GST when the minimum was not paid', async () => {
+      (mockPrisma.statement.findMany as jest.Mock).mockResolvedValue([buildStatement()]);
+
+      const charges = await assessFinanceCharges(mockPrisma as any, card, window);
+
+      expect(charges.map(charge => charge.type)).toEqual(['LATE_FEE', 'GST', 'INTEREST']);
+      expect(charges[0].amountPaise).toBe(110000);
+      expect(charges[1].amountPaise).toBe(19800);
+      expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amountPaise: -110000, type: 'LATE_FEE', date: window.periodEnd }),
+      });
+      expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amountPaise: -19800, type: 'GST', date: window.periodEnd }),
+      });
+      expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'INTEREST', date: window.periodEnd }),
+      });
+      // Each charge is posted to the ledger against its card account
+      expect(mockPrisma.ledgerEntry.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ account: 'FEES', amountPaise: 110000 }),
+          expect.objectContaining({ account: 'FEE_INCOME', amountPaise: -110000 }),
+        ],
+      });
+      expect(mockPrisma.statement.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: { lateFeeCharged: true, interestChargedThrough: window.periodEnd },
+      });
+    });
+
+    it('skips the late fee but charges interest when the minimum was paid on time', async () => {
+      (mockPrisma.statement.findMany as jest.Mock).mockResolvedValue([
+        buildStatement({
+          balancePaise: 3000000,
+          allocations: [{ amountPaise: 650000, createdAt: new Date(2025, 3, 1) }],
+        }),
+      ]);
+
+      const charges = await assessFinanceCharges(mockPrisma as any, card, window);
+
+      expect(charges.map(charge => charge.type)).toEqual(['INTEREST']);
+      expect(mockPrisma.transaction.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves statements paid in full within the grace period alone', async () => {
+      (mockPrisma.statement.findMany as jest.Mock).mockResolvedValue([
+        buildStatement({
+          balancePaise: 0,
+          isPaid: true,
+          allocations: [{ amountPaise: 3650000, createdAt: new Date(2025, 3, 6) }],
+        }),
+      ]);
+
+      const charges = await assessFinanceCharges(mockPrisma as any, card, window);
+
+      expect(charges).toEqual([]);
+      expect(mockPrisma.statement.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import app from '../src/index';
+import prisma from '../src/config/database';
+
+jest.mock('../src/utils/paymentProcessor', () => ({
+  ...jest.requireActual('../src/utils/paymentProcessor'),
+  processPayment: jest.fn(),
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const authToken = jwt.sign(
+  { userId: 1, email: 'test@example.com', name: 'Test User', isAdmin: false },
+  process.env.JWT_SECRET || 'test-secret'
+);
+
+// The key is recorded once the response has been flushed
+const responseRecorded = () => new Promise(resolve => setTimeout(resolve, 20));
+
+const pay = (body: Record<string, unknown> = { cardId: 1, amount: 5000, method: 'bank' }, key: string | null = 'key-1') => {
+  const req = request(app).post('/api/payments').set('Authorization', `Bearer ${authToken}`);
+  if (key) req.set('Idempotency-Key', key);
+  return req.send(body);
+};
+
+describe('Idempotency middleware', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.card.findFirst.mockResolvedValue({ id: 1, userId: 1, last4: '9012', status: 'ACTIVE' } as any);
+    (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+      { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 4532000 } },
+    ]);
+    (mockPrisma.payment.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'pay_123', ...data, createdAt: new Date() })
+    );
+    (mockPrisma.idempotencyKey.findUnique as jest.Mock).mockResolvedValue(null);
+    (mockPrisma.idempotencyKey.create as jest.Mock).mockResolvedValue({});
+    (mockPrisma.idempotencyKey.update as jest.Mock).mockResolvedValue({});
+    (mockPrisma.idempotencyKey.delete as jest.Mock).mockResolvedValue({});
+  });
+
+  it('leaves requests without a key alone', async () => {
+    const response = await pay(undefined, null);
+
+    expect(response.status).toBe(201);
+    expect(mockPrisma.idempotencyKey.findUnique).not.toHaveBeenCalled();
+    expect(mockPrisma.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ idempotencyKey: undefined }),
+    });
+  });
+
+  it('stores the key, request hash and response of the first request', async () => {
+    const response = await pay();
+    await responseRecorded();
+
+    expect(response.status).toBe(201);
+    expect(mockPrisma.idempotencyKey.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        key: 'key-1',
+        userId: 1,
+        method: 'POST',
+        path: '/api/payments/',
+        requestHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+      }),
+    });
+    expect(mockPrisma.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ idempotencyKey: '1:key-1' }),
+    });
+    expect(mockPrisma.idempotencyKey.update).toHaveBeenCalledWith({
+      where: { userId_key: { userId: 1, key: 'key-1' } },
+      data: expect.objectContaining({
+        status: 'COMPLETED',
+        responseStatus: 201,
+        responseBody: expect.objectContaining({ success: true }),
+      }),
+    });
+  });
+
+  it('replays the stored response for a retry', async () => {
+    await pay();
+    const { requestHash } = (mockPrisma.idempotencyKey.create as jest.Mock).mock.calls[0][0].data;
+    jest.clearAllMocks();
+    (mockPrisma.idempotencyKey.findUnique as jest.Mock).mockResolvedValue({
+      status: 'COMPLETED',
+      requestHash,
+      responseStatus: 201,
+      responseBody: { success: true, data: { paymentId: 'pay_123' } },
+      expiresAt: new Date(Date.now() + 60000),
+    });
+
+    // Same body with keys in a different order
+    const response = await pay({ method: 'bank', amount: 5000, cardId: 1 });
+
+    expect(response.status).toBe(201);
+    expect(response.headers['idempotent-replayed']).toBe('true');
+    expect(response.body.data.paymentId).toBe('pay_123');
+    expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects the same key with a different body', async () => {
+    (mockPrisma.idempotencyKey.findUnique as jest.Mock).mockResolvedValue({
+      status: 'COMPLETED',
+      requestHash: 'another-request',
+      expiresAt: new Date(Date.now() + 60000),
+    });
+
+    const response = await pay({ cardId: 1, amount: 100, method: 'bank' });
+
+    expect(response.status).toBe(422);
+    expect(response.body.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('reports a request that is still in flight', async () => {
+    await pay();
+    const { requestHash } = (mockPrisma.idempotencyKey.create as jest.Mock).mock.calls[0][0].data;
+    (mockPrisma.idempotencyKey.findUnique as jest.Mock).mockResolvedValue({
+      status: 'IN_PROGRESS',
+      requestHash,
+      expiresAt: new Date(Date.now() + 60000),
+    });
+
+    const response = await pay();
+
+    expect(response.status).toBe(409);
+  });
+
+  it('refuses a key reused after its stored response expired, as its payment still exists', async () => {
+    (mockPrisma.idempotencyKey.findUnique as jest.Mock).mockResolvedValue({
+      status: 'COMPLETED',
+      requestHash: 'earlier-request',
+      expiresAt: new Date(Date.now() - 60000),
+    });
+    (mockPrisma.payment.create as jest.Mock).mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed on the fields: (`idempotencyKey`)', { code: 'P2002', clientVersion: 'test' })
+    );
+
+    const response = await pay();
+
+    expect(mockPrisma.idempotencyKey.delete).toHaveBeenCalledWith({ where: { userId_key: { userId: 1, key: 'key-1' } } });
+    expect(response.status).toBe(409);
+    expect(response.body.error.code).toBe('CONFLICT');
+  });
+
+  it('frees the key when the request fails on the server', async () => {
+    (mockPrisma.payment.create as jest.Mock).mockRejectedValue(new Error('database down'));
+
+    const response = await pay();
+    await responseRecorded();
+
+    expect(response.status).toBe(500);
+    expect(mockPrisma.idempotencyKey.delete).toHaveBeenCalledWith({ where: { userId_key: { userId: 1, key: 'key-1' } } });
+    expect(mockPrisma.idempotencyKey.update).not.toHaveBeenCalled();
+  });
+});
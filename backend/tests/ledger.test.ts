@@ -0,0 +1,175 @@
+import prisma from '../src/config/database';
+import { applyCreditBalance, getCardBalances, postJournal, postPayment, postPaymentRefund, postTransaction } from '../src/utils/ledger';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const mockBalances = (sums: Record<string, number>) =>
+  (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue(
+    Object.entries(sums).map(([account, amountPaise]) => ({ cardId: 1, account, _sum: { amountPaise } }))
+  );
+
+const postedLines = () =>
+  (mockPrisma.ledgerEntry.createMany as jest.Mock).mock.calls[0][0].data.map(
+    (entry: { account: string; amountPaise: number }) => [entry.account, entry.amountPaise]
+  );
+
+describe('Ledger', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('postJournal', () => {
+    it('rejects journals that do not balance', async () => {
+      await expect(
+        postJournal(mockPrisma as any, {
+          cardId: 1,
+          lines: [
+            { account: 'PRINCIPAL', amountPaise: 1000 },
+            { account: 'MERCHANT_SETTLEMENT', amountPaise: -900 },
+          ],
+        })
+      ).rejects.toThrow('Unbalanced ledger journal');
+      expect(mockPrisma.ledgerEntry.createMany).not.toHaveBeenCalled();
+    });
+
+    it('writes every line under one journal id', async () => {
+      await postJournal(mockPrisma as any, {
+        cardId: 1,
+        lines: [
+          { account: 'PRINCIPAL', amountPaise: 1000 },
+          { account: 'MERCHANT_SETTLEMENT', amountPaise: -1000 },
+        ],
+      });
+
+      const { data } = (mockPrisma.ledgerEntry.createMany as jest.Mock).mock.calls[0][0];
+      expect(data).toHaveLength(2);
+      expect(data[0].journalId).toBe(data[1].journalId);
+    });
+  });
+
+  describe('getCardBalances', () => {
+    it('nets receivables against the credit balance', async () => {
+      mockBalances({ PRINCIPAL: 500000, INTEREST: 12000, FEES: 59000, CREDIT_BALANCE: -20000 });
+
+      const balances = await getCardBalances(mockPrisma as any, 1);
+
+      expect(balances).toEqual({
+        principalPaise: 500000,
+        interestPaise: 12000,
+        feesPaise: 59000,
+        creditBalancePaise: 20000,
+        outstandingPaise: 551000,
+      });
+    });
+
+    it('returns zero balances for a card without postings', async () => {
+      mockBalances({});
+
+      const balances = await getCardBalances(mockPrisma as any, 1);
+
+      expect(balances.outstandingPaise).toBe(0);
+    });
+  });
+
+  describe('postTransaction', () => {
+    it('debits principal for a purchase', async () => {
+      await postTransaction(mockPrisma as any, {
+        id: 7, cardId: 1, amountPaise: -48000, type: 'PURCHASE', merchant: 'Swiggy', date: new Date(),
+      });
+
+      expect(postedLines()).toEqual([['PRINCIPAL', 48000], ['MERCHANT_SETTLEMENT', -48000]]);
+    });
+
+    it('debits the fee account for GST', async () => {
+      await postTransaction(mockPrisma as any, {
+        id: 8, cardId: 1, amountPaise: -19800, type: 'GST', merchant: 'CreditFlow', date: new Date(),
+      });
+
+      expect(postedLines()).toEqual([['FEES', 19800], ['GST_PAYABLE', -19800]]);
+    });
+
+    it('turns a refund larger than principal into a credit balance', async () => {
+      mockBalances({ PRINCIPAL: 30000 });
+
+      await postTransaction(mockPrisma as any, {
+        id: 9, cardId: 1, amountPaise: 50000, type: 'REFUND', merchant: 'Apple', date: new Date(),
+      });
+
+      expect(postedLines()).toEqual([
+        ['MERCHANT_SETTLEMENT', 50000],
+        ['PRINCIPAL', -30000],
+        ['CREDIT_BALANCE', -20000],
+      ]);
+    });
+  });
+
+  describe('postPayment', () => {
+    it('settles fees, then interest, then principal', async () => {
+      mockBalances({ PRINCIPAL: 500000, INTEREST: 12000, FEES: 59000 });
+
+      await postPayment(mockPrisma as any, { id: 'pay_1', cardId: 1, amountPaise: 100000, method: 'bank' });
+
+      expect(postedLines()).toEqual([
+        ['PAYMENT_CLEARING', 100000],
+        ['FEES', -59000],
+        ['INTEREST', -12000],
+        ['PRINCIPAL', -29000],
+      ]);
+    });
+
+    it('holds an overpayment as a credit balance', async () => {
+      mockBalances({ PRINCIPAL: 30000 });
+
+      await postPayment(mockPrisma as any, { id: 'pay_1', cardId: 1, amountPaise: 100000, method: 'bank' });
+
+      expect(postedLines()).toEqual([
+        ['PAYMENT_CLEARING', 100000],
+        ['PRINCIPAL', -30000],
+        ['CREDIT_BALANCE', -70000],
+      ]);
+    });
+  });
+
+  describe('applyCreditBalance', () => {
+    it('pays down receivables with the credit balance', async () => {
+      mockBalances({ PRINCIPAL: 200000, FEES: 5900, CREDIT_BALANCE: -50000 });
+      const balances = await getCardBalances(mockPrisma as any, 1);
+
+      const applied = await applyCreditBalance(mockPrisma as any, 1, balances);
+
+      expect(applied).toBe(50000);
+      expect(postedLines()).toEqual([
+        ['CREDIT_BALANCE', 50000],
+        ['FEES', -5900],
+        ['PRINCIPAL', -44100],
+      ]);
+    });
+
+    it('keeps credit beyond what the card owes', async () => {
+      mockBalances({ PRINCIPAL: 20000, CREDIT_BALANCE: -50000 });
+      const balances = await getCardBalances(mockPrisma as any, 1);
+
+      const applied = await applyCreditBalance(mockPrisma as any, 1, balances);
+
+      expect(applied).toBe(20000);
+      expect(postedLines()).toEqual([
+        ['CREDIT_BALANCE', 20000],
+        ['PRINCIPAL', -20000],
+      ]);
+    });
+  });
+
+  describe('postPaymentRefund', () => {
+    it('takes the refund out of the credit balance before principal', async () => {
+      mockBalances({ CREDIT_BALANCE: -20000 });
+
+      await postPaymentRefund(mockPrisma as any, { paymentId: 'pay_1', cardId: 1, amountPaise: 50000 });
+
+      expect(postedLines()).toEqual([
+        ['CREDIT_BALANCE', 20000],
+        ['PRINCIPAL', 30000],
+        ['PAYMENT_CLEARING', -50000],
+      ]);
+    });
+  });
+});
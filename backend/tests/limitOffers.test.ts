@@ -0,0 +1,147 @@
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import app from '../src/index';
+import prisma from '../src/config/database';
+import { generateLimitOffers, reviewCardLimit } from '../src/jobs/limitOffers';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const now = new Date(2025, 10, 15);
+
+const card = {
+  id: 1,
+  userId: 1,
+  last4: '9012',
+  creditLimitPaise: 10000000, // ₹1,00,000
+  creditLimitRaisedAt: null,
+};
+
+// Six months of ₹40,000 balances, all paid on time
+const buildStatements = (overrides: Record<string, any> = {}) =>
+  Array.from({ length: 6 }, (_, index) => ({
+    balancePaise: 4000000,
+    isPaid: index > 0,
+    dueDate: index === 0 ? new Date(2025, 10, 25) : new Date(2025, 10 - index, 25),
+    lateFeeCharged: false,
+    ...overrides,
+  }));
+
+describe('Limit reviews', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.$transaction as jest.Mock).mockImplementation((cb: any) => cb(mockPrisma));
+    (mockPrisma.statement.findMany as jest.Mock).mockResolvedValue(buildStatements());
+  });
+
+  describe('reviewCardLimit', () => {
+    it('offers 25% more, in whole thousands, to a well-used card paid on time', async () => {
+      await expect(reviewCardLimit(card, now)).resolves.toBe(12500000);
+    });
+
+    it('offers nothing after a late payment, on light use or soon after an increase', async () => {
+      (mockPrisma.statement.findMany as jest.Mock).mockResolvedValueOnce(buildStatements({ lateFeeCharged: true }));
+      await expect(reviewCardLimit(card, now)).resolves.toBeNull();
+
+      (mockPrisma.statement.findMany as jest.Mock).mockResolvedValueOnce(buildStatements({ balancePaise: 1000000 }));
+      await expect(reviewCardLimit(card, now)).resolves.toBeNull();
+
+      (mockPrisma.statement.findMany as jest.Mock).mockResolvedValueOnce(buildStatements().slice(0, 3));
+      await expect(reviewCardLimit(card, now)).resolves.toBeNull();
+
+      await expect(reviewCardLimit({ ...card, creditLimitRaisedAt: new Date(2025, 8, 1) }, now)).resolves.toBeNull();
+    });
+  });
+
+  describe('generateLimitOffers', () => {
+    it('withdraws expired offers and makes one for each qualifying card', async () => {
+      mockPrisma.card.findMany.mockResolvedValue([card, { ...card, id: 2, last4: '3456' }] as any);
+      (mockPrisma.statement.findMany as jest.Mock)
+        .mockResolvedValueOnce(buildStatements())
+        .mockResolvedValueOnce(buildStatements({ lateFeeCharged: true }));
+
+      const offered = await generateLimitOffers(now);
+
+      expect(offered).toBe(1);
+      expect(mockPrisma.offer.updateMany).toHaveBeenCalledWith({
+        where: { type: 'LIMIT_INCREASE', isActive: true, expiresAt: { lte: now } },
+        data: { isActive: false },
+      });
+      expect(mockPrisma.card.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          status: 'ACTIVE',
+          limitRequests: { none: { status: 'PENDING' } },
+          offers: { none: { type: 'LIMIT_INCREASE', isActive: true } },
+        },
+      }));
+      expect(mockPrisma.offer.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.offer.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 1,
+          cardId: 1,
+          type: 'LIMIT_INCREASE',
+          creditLimitPaise: 12500000,
+          expiresAt: new Date(2025, 11, 15),
+        }),
+      });
+    });
+  });
+
+  describe('offers', () => {
+    const authToken = jwt.sign(
+      { userId: 1, email: 'test@example.com', name: 'Test User', isAdmin: false },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    const offer = {
+      id: 3,
+      userId: 1,
+      cardId: 1,
+      type: 'LIMIT_INCREASE',
+      title: 'Pre-approved credit limit increase',
+      description: 'Raise the limit',
+      creditLimitPaise: 12500000,
+      isActive: true,
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      acceptedAt: null,
+      createdAt: now,
+      updatedAt: now,
+      card: { ...card, status: 'ACTIVE' },
+    };
+
+    it('lists the open offers with the card they raise', async () => {
+      (mockPrisma.offer.findMany as jest.Mock).mockResolvedValue([offer]);
+
+      const response = await request(app).get('/api/offers').set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data[0]).toMatchObject({
+        type: 'LIMIT_INCREASE',
+        creditLimit: 125000,
+        card: { last4: '9012', creditLimit: 100000 },
+      });
+    });
+
+    it('raises the limit when an offer is accepted, once', async () => {
+      (mockPrisma.offer.findFirst as jest.Mock).mockResolvedValue(offer);
+      (mockPrisma.offer.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (mockPrisma.card.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const accepted = await request(app).post('/api/offers/3/accept').set('Authorization', `Bearer ${authToken}`);
+
+      expect(accepted.status).toBe(200);
+      expect(mockPrisma.offer.updateMany).toHaveBeenCalledWith({
+        where: { id: 3, isActive: true },
+        data: { isActive: false, acceptedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.card.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, status: { not: 'CLOSED' }, creditLimitPaise: { lt: 12500000 } },
+        data: { creditLimitPaise: 12500000, creditLimitRaisedAt: expect.any(Date) },
+      });
+      expect(accepted.body.data.creditLimit).toBe(125000);
+
+      (mockPrisma.offer.findFirst as jest.Mock).mockResolvedValue({ ...offer, isActive: false });
+      const again = await request(app).post('/api/offers/3/accept').set('Authorization', `Bearer ${authToken}`);
+      expect(again.status).toBe(409);
+    });
+  });
+});
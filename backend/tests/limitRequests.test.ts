@@ -0,0 +1,169 @@
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import app from '../src/index';
+import prisma from '../src/config/database';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const userToken = jwt.sign(
+  { userId: 1, email: 'test@example.com', name: 'Test User', isAdmin: false },
+  process.env.JWT_SECRET || 'test-secret'
+);
+const adminToken = jwt.sign(
+  { userId: 9, email: 'admin@example.com', name: 'Admin', isAdmin: true },
+  process.env.JWT_SECRET || 'test-secret'
+);
+
+const card = {
+  id: 1,
+  userId: 1,
+  last4: '9012',
+  cardType: 'GOLD',
+  status: 'ACTIVE',
+  creditLimitPaise: 30000000, // ₹3,00,000
+};
+
+const buildLimitRequest = (overrides: Record<string, any> = {}) => ({
+  id: 4,
+  userId: 1,
+  cardId: 1,
+  currentLimitPaise: 30000000,
+  requestedLimitPaise: 50000000,
+  annualIncomePaise: 180000000,
+  status: 'PENDING',
+  approvedLimitPaise: null,
+  reason: null,
+  reviewedBy: null,
+  reviewedAt: null,
+  createdAt: new Date(2025, 10, 1),
+  updatedAt: new Date(2025, 10, 1),
+  ...overrides,
+});
+
+describe('Credit limit requests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.$transaction as jest.Mock).mockImplementation((cb: any) => cb(mockPrisma));
+  });
+
+  describe('POST /api/cards/:id/limit-requests', () => {
+    beforeEach(() => {
+      mockPrisma.card.findFirst.mockResolvedValue(card as any);
+      (mockPrisma.limitRequest.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.limitRequest.create as jest.Mock).mockImplementation(({ data }: any) =>
+        Promise.resolve(buildLimitRequest(data))
+      );
+    });
+
+    it('queues a request for a higher limit with the income declared', async () => {
+      const response = await request(app)
+        .post('/api/cards/1/limit-requests')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ requestedLimit: 500000, annualIncome: 1800000 });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.limitRequest.create).toHaveBeenCalledWith({
+        data: {
+          userId: 1,
+          cardId: 1,
+          currentLimitPaise: 30000000,
+          requestedLimitPaise: 50000000,
+          annualIncomePaise: 180000000,
+        },
+      });
+      expect(response.body.data).toMatchObject({ status: 'PENDING', currentLimit: 300000, requestedLimit: 500000 });
+    });
+
+    it('refuses a limit that is not higher, or a second request under review', async () => {
+      const notHigher = await request(app)
+        .post('/api/cards/1/limit-requests')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ requestedLimit: 300000, annualIncome: 1800000 });
+      expect(notHigher.status).toBe(400);
+
+      (mockPrisma.limitRequest.findFirst as jest.Mock).mockResolvedValue(buildLimitRequest());
+      const second = await request(app)
+        .post('/api/cards/1/limit-requests')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ requestedLimit: 500000, annualIncome: 1800000 });
+      expect(second.status).toBe(409);
+      expect(mockPrisma.limitRequest.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('admin review', () => {
+    beforeEach(() => {
+      (mockPrisma.limitRequest.findUnique as jest.Mock).mockResolvedValue({ ...buildLimitRequest(), card });
+      (mockPrisma.limitRequest.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (mockPrisma.card.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (mockPrisma.offer.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+    });
+
+    it('lists pending requests oldest first for admins only', async () => {
+      (mockPrisma.limitRequest.findMany as jest.Mock).mockResolvedValue([
+        { ...buildLimitRequest(), user: { id: 1, name: 'Test User', email: 'test@example.com' }, card },
+      ]);
+      (mockPrisma.limitRequest.count as jest.Mock).mockResolvedValue(1);
+
+      const forbidden = await request(app).get('/api/limit-requests').set('Authorization', `Bearer ${userToken}`);
+      const response = await request(app).get('/api/limit-requests').set('Authorization', `Bearer ${adminToken}`);
+
+      expect(forbidden.status).toBe(403);
+      expect(response.status).toBe(200);
+      expect(mockPrisma.limitRequest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: 'PENDING' }, orderBy: { createdAt: 'asc' } })
+      );
+      expect(response.body.data[0]).toMatchObject({ requestedLimit: 500000, card: { last4: '9012', creditLimit: 300000 } });
+    });
+
+    it('approves a lower limit than requested and raises the card to it', async () => {
+      const response = await request(app)
+        .patch('/api/limit-requests/4/status')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ status: 'APPROVED', approvedLimit: 400000 });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.limitRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 4, status: 'PENDING' },
+        data: expect.objectContaining({ status: 'APPROVED', approvedLimitPaise: 40000000, reviewedBy: 9 }),
+      });
+      expect(mockPrisma.card.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, status: { not: 'CLOSED' }, creditLimitPaise: { lt: 40000000 } },
+        data: { creditLimitPaise: 40000000, creditLimitRaisedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 1, type: 'LIMIT_REQUEST_APPROVED' }),
+      });
+      expect(response.body.data).toMatchObject({ status: 'APPROVED', approvedLimit: 400000 });
+    });
+
+    it('rejects with a reason and leaves the limit alone', async () => {
+      const response = await request(app)
+        .patch('/api/limit-requests/4/status')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ status: 'REJECTED', reason: 'Income does not support the limit' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.card.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'LIMIT_REQUEST_REJECTED' }),
+      });
+    });
+
+    it('refuses an approval above the request or a request already reviewed', async () => {
+      const tooHigh = await request(app)
+        .patch('/api/limit-requests/4/status')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ status: 'APPROVED', approvedLimit: 600000 });
+      expect(tooHigh.status).toBe(400);
+
+      (mockPrisma.limitRequest.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+      const raced = await request(app)
+        .patch('/api/limit-requests/4/status')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ status: 'APPROVED' });
+      expect(raced.status).toBe(409);
+      expect(mockPrisma.card.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
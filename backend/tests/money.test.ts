@@ -0,0 +1,34 @@
+import { formatRupees, hasAtMostTwoDecimals, percentOf, sumPaise, toPaise, toRupees } from '../src/utils/money';
+
+describe('Money helpers', () => {
+  it('converts rupees to paise without float drift', () => {
+    expect(toPaise(0.1 + 0.2)).toBe(30);
+    expect(toPaise(1234.56)).toBe(123456);
+    expect(toPaise(-480)).toBe(-48000);
+  });
+
+  it('converts paise back to rupees', () => {
+    expect(toRupees(123456)).toBe(1234.56);
+    expect(toRupees(null)).toBe(0);
+  });
+
+  it('rounds percentages to the nearest paisa', () => {
+    expect(percentOf(110000, 18)).toBe(19800);
+    expect(percentOf(333, 5)).toBe(17);
+  });
+
+  it('sums amounts, treating missing values as zero', () => {
+    expect(sumPaise([4532000, null, 10, undefined])).toBe(4532010);
+  });
+
+  it('rejects amounts with fractional paise', () => {
+    expect(hasAtMostTwoDecimals(5000.25)).toBe(true);
+    expect(hasAtMostTwoDecimals(0.07)).toBe(true);
+    expect(hasAtMostTwoDecimals(10.005)).toBe(false);
+  });
+
+  it('formats amounts for messages', () => {
+    expect(formatRupees(4532050)).toBe('₹45,320.50');
+    expect(formatRupees(10000000)).toBe('₹1,00,000');
+  });
+});
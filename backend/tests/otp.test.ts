@@ -0,0 +1,65 @@
+import prisma from '../src/config/database';
+import { EmailOtpSender } from '../src/utils/otp';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('One-time codes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('EmailOtpSender', () => {
+    it('emails the code to the user\'s login address', async () => {
+      (mockPrisma.user.findUniqueOrThrow as jest.Mock).mockResolvedValue({ email: 'user@example.com' });
+      const transport = { sendMail: jest.fn().mockResolvedValue({}) };
+
+      await new EmailOtpSender(transport, 'noreply@creditflow.com').send(1, 'CARD_PIN', '123456');
+
+      expect(mockPrisma.user.findUniqueOrThrow).toHaveBeenCalledWith({ where: { id: 1 }, select: { email: true } });
+      expect(transport.sendMail).toHaveBeenCalledWith(expect.objectContaining({
+        from: 'noreply@creditflow.com',
+        to: 'user@example.com',
+        text: expect.stringContaining('set or change your card PIN is 123456'),
+      }));
+      expect(mockPrisma.notification.create).not.toHaveBeenCalled();
+    });
+
+    it('fails when the mail server does not take the message', async () => {
+      (mockPrisma.user.findUniqueOrThrow as jest.Mock).mockResolvedValue({ email: 'user@example.com' });
+      const transport = { sendMail: jest.fn().mockRejectedValue(new Error('connection refused')) };
+
+      await expect(new EmailOtpSender(transport, 'noreply@creditflow.com').send(1, 'CARD_ACTIVATION', '123456'))
+        .rejects.toThrow('connection refused');
+    });
+  });
+
+  describe('OTP_DELIVERY', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    const loadOtp = () => jest.isolateModulesAsync(async () => {
+      await import('../src/utils/otp');
+    });
+
+    it('refuses in-app codes outside development and test', async () => {
+      process.env.NODE_ENV = 'production';
+      process.env.OTP_DELIVERY = 'notification';
+
+      await expect(loadOtp()).rejects.toThrow('OTP_DELIVERY=notification is only allowed in development and test');
+    });
+
+    it('emails codes in production, and needs a mail server to do it', async () => {
+      process.env.NODE_ENV = 'production';
+      delete process.env.OTP_DELIVERY;
+      delete process.env.SMTP_HOST;
+
+      await expect(loadOtp()).rejects.toThrow('SMTP_HOST must be set to email verification codes');
+
+      process.env.SMTP_HOST = 'smtp.example.com';
+      await expect(loadOtp()).resolves.toBeUndefined();
+    });
+  });
+});
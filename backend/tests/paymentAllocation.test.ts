@@ -0,0 +1,117 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../src/config/database';
+import { allocatePayment, planAllocations, statementBuckets } from '../src/utils/paymentAllocation';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const statement = (id: number, balancePaise: number, parts: { feesPaise?: number; interestPaise?: number } = {}) => ({
+  id,
+  balancePaise,
+  feesPaise: parts.feesPaise ?? 0,
+  interestPaise: parts.interestPaise ?? 0,
+});
+
+describe('Payment allocation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('statementBuckets', () => {
+    it('treats whatever is not fees or interest as principal', () => {
+      expect(statementBuckets(statement(1, 100000, { feesPaise: 5900, interestPaise: 12000 }))).toEqual({
+        FEES: 5900,
+        INTEREST: 12000,
+        PRINCIPAL: 82100,
+      });
+      expect(statementBuckets(statement(1, 100000))).toEqual({ FEES: 0, INTEREST: 0, PRINCIPAL: 100000 });
+    });
+  });
+
+  describe('planAllocations', () => {
+    it('clears fees on every statement before interest, and interest before principal', () => {
+      const { allocations, unallocatedPaise } = planAllocations(
+        [
+          statement(1, 300000, { interestPaise: 10000 }),
+          statement(2, 200000, { feesPaise: 59000, interestPaise: 8000 }),
+        ],
+        100000
+      );
+
+      expect(allocations).toEqual([
+        { statementId: 2, bucket: 'FEES', amountPaise: 59000 },
+        { statementId: 1, bucket: 'INTEREST', amountPaise: 10000 },
+        { statementId: 2, bucket: 'INTEREST', amountPaise: 8000 },
+        { statementId: 1, bucket: 'PRINCIPAL', amountPaise: 23000 },
+      ]);
+      expect(unallocatedPaise).toBe(0);
+    });
+
+    it('returns what is left once every statement is paid', () => {
+      const { unallocatedPaise } = planAllocations([statement(1, 30000)], 100000);
+
+      expect(unallocatedPaise).toBe(70000);
+    });
+  });
+
+  describe('allocatePayment', () => {
+    it('updates each statement and records its share per bucket', async () => {
+      (mockPrisma.statement.findMany as jest.Mock).mockResolvedValue([
+        statement(1, 60000, { feesPaise: 5900, interestPaise: 4100 }),
+        statement(2, 200000),
+      ]);
+
+      const creditPaise = await allocatePayment(mockPrisma as any, { id: 'pay_1', cardId: 1 }, 100000);
+
+      expect(creditPaise).toBe(0);
+      expect(mockPrisma.statement.findMany).toHaveBeenCalledWith({
+        where: { cardId: 1, isPaid: false },
+        orderBy: { dueDate: 'asc' },
+      });
+      expect(mockPrisma.statement.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          balancePaise: { decrement: 60000 },
+          feesPaise: { decrement: 5900 },
+          interestPaise: { decrement: 4100 },
+          isPaid: true,
+        },
+      });
+      expect(mockPrisma.statement.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: {
+          balancePaise: { decrement: 40000 },
+          feesPaise: { decrement: 0 },
+          interestPaise: { decrement: 0 },
+          isPaid: false,
+        },
+      });
+      expect((mockPrisma.paymentAllocation.create as jest.Mock).mock.calls.map(([{ data }]) => data)).toEqual([
+        { paymentId: 'pay_1', statementId: 1, bucket: 'FEES', amountPaise: 5900 },
+        { paymentId: 'pay_1', statementId: 1, bucket: 'INTEREST', amountPaise: 4100 },
+        { paymentId: 'pay_1', statementId: 1, bucket: 'PRINCIPAL', amountPaise: 50000 },
+        { paymentId: 'pay_1', statementId: 2, bucket: 'PRINCIPAL', amountPaise: 40000 },
+      ]);
+    });
+
+    it('locks the card\'s statements before reading their balances', async () => {
+      (mockPrisma.statement.findMany as jest.Mock).mockResolvedValue([statement(1, 30000)]);
+
+      await allocatePayment(mockPrisma as unknown as Prisma.TransactionClient, { id: 'pay_1', cardId: 1 }, 10000);
+
+      const [[sql, cardId]] = (mockPrisma.$queryRaw as jest.Mock).mock.calls;
+      expect(sql.join('?')).toContain('FOR UPDATE');
+      expect(cardId).toBe(1);
+      expect((mockPrisma.$queryRaw as jest.Mock).mock.invocationCallOrder[0])
+        .toBeLessThan((mockPrisma.statement.findMany as jest.Mock).mock.invocationCallOrder[0]);
+    });
+
+    it('leaves an overpayment unallocated', async () => {
+      (mockPrisma.statement.findMany as jest.Mock).mockResolvedValue([statement(1, 30000)]);
+
+      const creditPaise = await allocatePayment(mockPrisma as any, { id: 'pay_1', cardId: 1 }, 100000);
+
+      expect(creditPaise).toBe(70000);
+      expect(mockPrisma.paymentAllocation.create).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { FakePaymentGateway, RazorpayGateway } from '../src/gateways';
+import { hmacSha256 } from '../src/gateways/razorpayGateway';
+
+describe('Payment gateway', () => {
+  let gateway: FakePaymentGateway;
+
+  beforeEach(() => {
+    gateway = new FakePaymentGateway('test_secret');
+  });
+
+  describe('FakePaymentGateway', () => {
+    it('creates orders with sequential ids', async () => {
+      const first = await gateway.createOrder({ amountPaise: 50000, receipt: 'r1' });
+      const second = await gateway.createOrder({ amountPaise: 75000, receipt: 'r2' });
+
+      expect(first).toEqual(expect.objectContaining({ id: 'order_fake_1', amountPaise: 50000, currency: 'INR', status: 'created' }));
+      expect(second.id).toBe('order_fake_2');
+    });
+
+    it('captures payments by default and signs them like Razorpay', async () => {
+      const order = await gateway.createOrder({ amountPaise: 50000, receipt: 'r1' });
+
+      const { payment, signature } = gateway.simulateCheckout(order.id);
+
+      expect(payment.status).toBe('captured');
+      expect(signature).toBe(hmacSha256('test_secret', `${order.id}|${payment.id}`));
+      expect(gateway.verifyPaymentSignature(order.id, payment.id, signature)).toBe(true);
+      expect(gateway.verifyPaymentSignature(order.id, payment.id, 'forged')).toBe(false);
+    });
+
+    it('plays queued outcomes before the default', async () => {
+      const order = await gateway.createOrder({ amountPaise: 50000, receipt: 'r1' });
+      gateway.queueOutcomes('failure', 'timeout');
+
+      const failed = gateway.simulateCheckout(order.id).payment;
+      const pending = gateway.simulateCheckout(order.id).payment;
+      const captured = gateway.simulateCheckout(order.id).payment;
+
+      expect(failed.status).toBe('failed');
+      expect(failed.errorDescription).toBeTruthy();
+      expect(pending.status).toBe('pending');
+      expect(captured.status).toBe('captured');
+    });
+
+    it('times out fetching a pending payment until it is resolved', async () => {
+      const order = await gateway.createOrder({ amountPaise: 50000, receipt: 'r1' });
+      gateway.setOutcome('timeout');
+      const { payment } = gateway.simulateCheckout(order.id);
+
+      await expect(gateway.fetchPayment(payment.id)).rejects.toMatchObject({ statusCode: 504, code: 'GATEWAY_TIMEOUT' });
+
+      gateway.resolvePayment(payment.id, 'captured');
+      await expect(gateway.fetchPayment(payment.id)).resolves.toMatchObject({ status: 'captured' });
+    });
+
+    it('tracks partial and full refunds', async () => {
+      const order = await gateway.createOrder({ amountPaise: 50000, receipt: 'r1' });
+      const { payment } = gateway.simulateCheckout(order.id);
+
+      const partial = await gateway.refund(payment.id, { amountPaise: 20000 });
+      expect(partial).toEqual(expect.objectContaining({ paymentId: payment.id, amountPaise: 20000, status: 'processed' }));
+      await expect(gateway.fetchPayment(payment.id)).resolves.toMatchObject({ status: 'captured', amountRefundedPaise: 20000 });
+
+      await gateway.refund(payment.id);
+      await expect(gateway.fetchPayment(payment.id)).resolves.toMatchObject({ status: 'refunded', amountRefundedPaise: 50000 });
+      await expect(gateway.refund(payment.id, { amountPaise: 100 })).rejects.toThrow('cannot be refunded');
+    });
+
+    it('refuses to refund more than was captured', async () => {
+      const order = await gateway.createOrder({ amountPaise: 50000, receipt: 'r1' });
+      const { payment } = gateway.simulateCheckout(order.id);
+
+      await expect(gateway.refund(payment.id, { amountPaise: 60000 })).rejects.toThrow('exceeds the refundable');
+    });
+  });
+
+  describe('parseWebhook', () => {
+    it('parses a signed delivery into a normalized event', async () => {
+      const order = await gateway.createOrder({ amountPaise: 50000, receipt: 'r1' });
+      const { payment } = gateway.simulateCheckout(order.id);
+      const delivery = gateway.buildWebhook('payment.captured', { paymentId: payment.id }, 'evt_1');
+
+      const event = gateway.parseWebhook(delivery.rawBody, delivery.signature, delivery.eventId);
+
+      expect(event.id).toBe('evt_1');
+      expect(event.type).toBe('payment.captured');
+      expect(event.payment).toEqual(expect.objectContaining({ id: payment.id, orderId: order.id, amountPaise: 50000 }));
+      expect(event.payment?.createdAt).toBeInstanceOf(Date);
+      expect(event.refund).toBeNull();
+    });
+
+    it('rejects deliveries with a missing or wrong signature', async () => {
+      const order = await gateway.createOrder({ amountPaise: 50000, receipt: 'r1' });
+      const { payment } = gateway.simulateCheckout(order.id);
+      const delivery = gateway.buildWebhook('payment.captured', { paymentId: payment.id });
+
+      expect(() => gateway.parseWebhook(delivery.rawBody, undefined)).toThrow('Invalid webhook signature');
+      expect(() => gateway.parseWebhook(`${delivery.rawBody} `, delivery.signature)).toThrow('Invalid webhook signature');
+    });
+
+    it('rejects every Razorpay delivery while no webhook secret is set', () => {
+      const razorpay = new RazorpayGateway({ keyId: 'rzp_test', keySecret: 'secret', webhookSecret: '' });
+      const rawBody = JSON.stringify({ event: 'payment.captured', payload: {} });
+
+      expect(() => razorpay.parseWebhook(rawBody, hmacSha256('', rawBody))).toThrow('Razorpay webhooks are not configured');
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../src/config/database';
+import { FakePaymentGateway, setPaymentGateway } from '../src/gateways';
+import { processQueuedPayments, recheckGatewayPayments } from '../src/jobs/paymentWorker';
+import { processPayment } from '../src/utils/paymentProcessor';
+import { canTransitionPayment, transitionPayment } from '../src/utils/paymentState';
+
+jest.mock('../src/utils/paymentProcessor', () => ({
+  processPayment: jest.fn(),
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockProcessPayment = processPayment as jest.Mock;
+
+const now = new Date(2025, 9, 6, 12);
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+const recordNotFound = () =>
+  new Prisma.PrismaClientKnownRequestError('Record to update not found.', { code: 'P2025', clientVersion: 'test' });
+
+const buildPayment = (overrides: Record<string, any> = {}) => ({
+  id: 'pay_1',
+  cardId: 1,
+  userId: 1,
+  amountPaise: 500000,
+  method: 'bank',
+  status: 'PENDING',
+  razorpayOrderId: null,
+  razorpayPaymentId: null,
+  externalId: null,
+  processingAt: null,
+  createdAt: minutesAgo(1),
+  updatedAt: minutesAgo(1),
+  card: { last4: '9012' },
+  ...overrides,
+});
+
+describe('Payment state machine', () => {
+  it('allows only the documented transitions', () => {
+    expect(canTransitionPayment('PENDING', 'PROCESSING')).toBe(true);
+    expect(canTransitionPayment('PROCESSING', 'SUCCESS')).toBe(true);
+    expect(canTransitionPayment('FAILED', 'SUCCESS')).toBe(true);
+    expect(canTransitionPayment('SUCCESS', 'REFUNDED')).toBe(true);
+    expect(canTransitionPayment('SUCCESS', 'FAILED')).toBe(false);
+    expect(canTransitionPayment('REFUNDED', 'SUCCESS')).toBe(false);
+    expect(canTransitionPayment('CREATED', 'SUCCESS')).toBe(false);
+  });
+
+  it('guards the update on the source states and stamps the new state', async () => {
+    (mockPrisma.payment.update as jest.Mock).mockResolvedValue({ id: 'pay_1', status: 'PROCESSING' });
+
+    await transitionPayment(mockPrisma as any, 'pay_1', 'PROCESSING');
+
+    expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+      where: { id: 'pay_1', status: { in: ['PENDING'] } },
+      data: { status: 'PROCESSING', processingAt: expect.any(Date) },
+    });
+  });
+
+  it('rejects a transition from a state that does not allow it', async () => {
+    (mockPrisma.payment.update as jest.Mock).mockRejectedValue(recordNotFound());
+
+    await expect(transitionPayment(mockPrisma as any, 'pay_1', 'SUCCESS')).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'INVALID_PAYMENT_TRANSITION',
+    });
+  });
+});
+
+describe('Payment worker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.payment.update as jest.Mock).mockResolvedValue({});
+  });
+
+  describe('processQueuedPayments', () => {
+    let gateway: FakePaymentGateway;
+
+    beforeEach(() => {
+      gateway = new FakePaymentGateway();
+      setPaymentGateway(gateway);
+    });
+
+    it('claims queued payments and charges them through the gateway', async () => {
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([buildPayment()]);
+
+      const settled = await processQueuedPayments(now);
+
+      expect(settled).toBe(1);
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_1', status: { in: ['PENDING'] } },
+        data: expect.objectContaining({ status: 'PROCESSING' }),
+      });
+      expect(mockProcessPayment).toHaveBeenCalledWith('pay_1', 'SUCCESS', '9012', 1, 500000, 'pay_fake_1');
+    });
+
+    it('records why a declined payment failed', async () => {
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([buildPayment()]);
+      gateway.setOutcome('failure');
+
+      await processQueuedPayments(now);
+
+      expect(mockProcessPayment).toHaveBeenCalledWith(
+        'pay_1', 'FAILED', '9012', 1, 500000, 'pay_fake_1', 'Payment declined by fake gateway'
+      );
+    });
+
+    it('keeps a charge the gateway has not decided and looks it up instead of charging again', async () => {
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([buildPayment()]);
+      gateway.setOutcome('timeout');
+
+      const settled = await processQueuedPayments(now);
+
+      expect(settled).toBe(0);
+      expect(mockProcessPayment).not.toHaveBeenCalled();
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_1' },
+        data: { externalId: 'pay_fake_1' },
+      });
+
+      gateway.resolvePayment('pay_fake_1', 'captured');
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([
+        buildPayment({ status: 'PROCESSING', processingAt: minutesAgo(30), externalId: 'pay_fake_1' }),
+      ]);
+      await processQueuedPayments(now);
+
+      expect(mockProcessPayment).toHaveBeenCalledWith('pay_1', 'SUCCESS', '9012', 1, 500000, 'pay_fake_1');
+      expect(await gateway.listPayments(minutesAgo(60), new Date())).toHaveLength(1);
+    });
+
+    it('picks up payments left in PROCESSING by a restart', async () => {
+      const abandonedAt = minutesAgo(30);
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([
+        buildPayment({ status: 'PROCESSING', processingAt: abandonedAt }),
+      ]);
+
+      await processQueuedPayments(now);
+
+      expect(mockPrisma.payment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          OR: [
+            { status: 'PENDING' },
+            { status: 'PROCESSING', processingAt: { lt: minutesAgo(5) } },
+          ],
+        }),
+      }));
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_1', status: 'PROCESSING', processingAt: abandonedAt },
+        data: { processingAt: now },
+      });
+      expect(mockProcessPayment).toHaveBeenCalled();
+    });
+
+    it('leaves a payment alone when another worker claimed it first', async () => {
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([buildPayment()]);
+      (mockPrisma.payment.update as jest.Mock).mockRejectedValue(recordNotFound());
+
+      const settled = await processQueuedPayments(now);
+
+      expect(settled).toBe(0);
+      expect(mockProcessPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recheckGatewayPayments', () => {
+    let gateway: FakePaymentGateway;
+
+    beforeEach(() => {
+      gateway = new FakePaymentGateway();
+      setPaymentGateway(gateway);
+    });
+
+    const gatewayPayment = async (overrides: Record<string, any> = {}) => {
+      const order = await gateway.createOrder({ amountPaise: 500000, receipt: 'receipt_1' });
+      return buildPayment({
+        method: 'razorpay',
+        razorpayOrderId: order.id,
+        createdAt: minutesAgo(20),
+        updatedAt: minutesAgo(20),
+        ...overrides,
+      });
+    };
+
+    it('settles a payment the gateway captured', async () => {
+      const payment = await gatewayPayment();
+      const { payment: captured } = gateway.simulateCheckout(payment.razorpayOrderId);
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([payment]);
+
+      await recheckGatewayPayments(now);
+
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_1' },
+        data: { razorpayPaymentId: captured.id },
+      });
+      expect(mockProcessPayment).toHaveBeenCalledWith('pay_1', 'SUCCESS', '9012', 1, 500000, captured.id);
+    });
+
+    it('does not settle a payment the gateway has only authorized', async () => {
+      const payment = await gatewayPayment();
+      const { payment: attempt } = gateway.simulateCheckout(payment.razorpayOrderId);
+      jest.spyOn(gateway, 'fetchOrderPayments').mockResolvedValue([{ ...attempt, status: 'authorized' }]);
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([payment]);
+
+      await recheckGatewayPayments(now);
+
+      expect(mockProcessPayment).not.toHaveBeenCalled();
+    });
+
+    it('keeps waiting while the payment is inside the timeout', async () => {
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([await gatewayPayment()]);
+
+      await recheckGatewayPayments(now);
+
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({ where: { id: 'pay_1' }, data: { updatedAt: now } });
+      expect(mockProcessPayment).not.toHaveBeenCalled();
+    });
+
+    it('fails a payment that never settled within the timeout', async () => {
+      const payment = await gatewayPayment({ createdAt: minutesAgo(90) });
+      gateway.setOutcome('failure');
+      gateway.simulateCheckout(payment.razorpayOrderId);
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([payment]);
+
+      await recheckGatewayPayments(now);
+
+      expect(mockProcessPayment).toHaveBeenCalledWith(
+        'pay_1', 'FAILED', '9012', 1, 500000, undefined, 'Payment declined by fake gateway'
+      );
+    });
+
+    it('fails a payment whose gateway order was never created', async () => {
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([
+        buildPayment({ method: 'razorpay', status: 'CREATED', createdAt: minutesAgo(90) }),
+      ]);
+
+      await recheckGatewayPayments(now);
+
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_1', status: { in: ['CREATED', 'PENDING', 'PROCESSING'] } },
+        data: expect.objectContaining({ status: 'FAILED', failureReason: 'Gateway order was never created' }),
+      });
+      expect(mockProcessPayment).not.toHaveBeenCalled();
+    });
+  });
+});
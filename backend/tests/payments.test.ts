@@ -2,6 +2,14 @@ import request from 'supertest';
 import app from '../src/index';
 import prisma from '../src/config/database';
 import jwt from 'jsonwebtoken';
+import { FakePaymentGateway, RazorpayGateway, setPaymentGateway } from '../src/gateways';
+import { GatewayError } from '../src/middleware/errorHandler';
+import { processPayment } from '../src/utils/paymentProcessor';
+
+jest.mock('../src/utils/paymentProcessor', () => ({
+  ...jest.requireActual('../src/utils/paymentProcessor'),
+  processPayment: jest.fn(),
+}));
 
 const mockPrisma = prisma as jest.Mocked<typeof prisma>;
 
@@ -29,32 +37,22 @@ describe('Payments Routes', () => {
         last4: '9012',
         cardType: 'PLATINUM',
         status: 'ACTIVE',
-        creditLimit: 500000,
+        creditLimitPaise: 50000000,
         autopayEnabled: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      const mockStatements = [
-        {
-          id: 1,
-          cardId: 1,
-          month: 1,
-          year: 2024,
-          dueDate: new Date(),
-          balance: 45320,
-          minDue: 2266,
-          isPaid: false,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
+      // Ledger balances for the card
+      const mockLedgerBalances = [
+        { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 4532000 } },
       ];
 
       const mockPayment = {
         id: 'pay_123',
         cardId: 1,
         userId: 1,
-        amount: 5000,
+        amountPaise: 500000,
         method: 'bank',
         status: 'PENDING',
         externalId: null,
@@ -63,7 +61,7 @@ describe('Payments Routes', () => {
       };
 
       mockPrisma.card.findFirst.mockResolvedValue(mockCard);
-      mockPrisma.statement.findMany.mockResolvedValue(mockStatements);
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue(mockLedgerBalances);
       mockPrisma.payment.create.mockResolvedValue(mockPayment);
 
       const response = await request(app)
@@ -82,6 +80,29 @@ describe('Payments Routes', () => {
       expect(response.body.data.status).toBe('PENDING');
     });
 
+    it('queues the payment for the payment worker', async () => {
+      mockPrisma.card.findFirst.mockResolvedValue({ id: 1, userId: 1, last4: '9012', status: 'ACTIVE' } as any);
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+        { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 4532000 } },
+      ]);
+      (mockPrisma.payment.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'pay_123', ...data, createdAt: new Date() })
+      );
+
+      const response = await request(app)
+        .post('/api/payments')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ cardId: 1, amount: 5000, method: 'bank' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.status).toBe('pending');
+      expect(mockPrisma.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'PENDING', pendingAt: expect.any(Date) }),
+      });
+      // Settled later by the worker, not inside the request
+      expect(processPayment).not.toHaveBeenCalled();
+    });
+
     it('should return 404 for non-existent card', async () => {
       mockPrisma.card.findFirst.mockResolvedValue(null);
 
@@ -106,7 +127,7 @@ describe('Payments Routes', () => {
         last4: '9012',
         cardType: 'PLATINUM',
         status: 'BLOCKED',
-        creditLimit: 500000,
+        creditLimitPaise: 50000000,
         autopayEnabled: false,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -135,29 +156,19 @@ describe('Payments Routes', () => {
         last4: '9012',
         cardType: 'PLATINUM',
         status: 'ACTIVE',
-        creditLimit: 500000,
+        creditLimitPaise: 50000000,
         autopayEnabled: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      const mockStatements = [
-        {
-          id: 1,
-          cardId: 1,
-          month: 1,
-          year: 2024,
-          dueDate: new Date(),
-          balance: 1000, // Low balance
-          minDue: 100,
-          isPaid: false,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
+      // Ledger balances for the card
+      const mockLedgerBalances = [
+        { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 100000 } },
       ];
 
       mockPrisma.card.findFirst.mockResolvedValue(mockCard);
-      mockPrisma.statement.findMany.mockResolvedValue(mockStatements);
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue(mockLedgerBalances);
 
       const response = await request(app)
         .post('/api/payments')
@@ -171,6 +182,34 @@ describe('Payments Routes', () => {
       expect(response.status).toBe(400);
       expect(response.body.error.code).toBe('VALIDATION_ERROR');
     });
+
+    it('refuses to queue a payment the gateway cannot charge outside checkout', async () => {
+      setPaymentGateway(new RazorpayGateway({ keyId: 'rzp_test', keySecret: 'secret', webhookSecret: 'whsec' }));
+
+      const response = await request(app)
+        .post('/api/payments')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ cardId: 1, amount: 5000, method: 'bank' });
+      setPaymentGateway(new FakePaymentGateway());
+
+      expect(response.status).toBe(422);
+      expect(response.body.error.code).toBe('CHECKOUT_REQUIRED');
+      expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/payments/options', () => {
+    it('tells the app whether payments can be made outside checkout', async () => {
+      setPaymentGateway(new RazorpayGateway({ keyId: 'rzp_test', keySecret: 'secret', webhookSecret: 'whsec' }));
+
+      const response = await request(app)
+        .get('/api/payments/options')
+        .set('Authorization', `Bearer ${authToken}`);
+      setPaymentGateway(new FakePaymentGateway());
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ gateway: 'razorpay', chargeOutsideCheckout: false });
+    });
   });
 
   describe('GET /api/payments', () => {
@@ -180,7 +219,7 @@ describe('Payments Routes', () => {
           id: 'pay_123',
           cardId: 1,
           userId: 1,
-          amount: 5000,
+          amountPaise: 500000,
           method: 'bank',
           status: 'SUCCESS',
           externalId: null,
@@ -226,4 +265,619 @@ describe('Payments Routes', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('GET /api/payments/:id/receipt', () => {
+    const payment = (overrides: Record<string, unknown> = {}) => ({
+      id: 'pay_123',
+      cardId: 1,
+      userId: 1,
+      amountPaise: 500000,
+      refundedPaise: 0,
+      method: 'bank',
+      status: 'SUCCESS',
+      externalId: null,
+      razorpayPaymentId: null,
+      createdAt: new Date(2025, 8, 1, 10, 30),
+      succeededAt: new Date(2025, 8, 1, 10, 31),
+      updatedAt: new Date(2025, 8, 1, 10, 31),
+      card: { last4: '9012', cardType: 'PLATINUM' },
+      adjustments: [],
+      ...overrides,
+    });
+
+    it('downloads a PDF receipt with ?format=pdf', async () => {
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(payment());
+      (mockPrisma.user.findUnique as jest.Mock).mockResolvedValue({ name: 'Test User' });
+
+      const response = await request(app)
+        .get('/api/payments/pay_123/receipt?format=pdf')
+        .set('Authorization', `Bearer ${authToken}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/pdf');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="receipt-pay_123.pdf"');
+      const pdf = (response.body as Buffer).toString('latin1');
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('(Rs. 5,000.00)');
+    });
+
+    it('has no PDF receipt for a payment that has not gone through', async () => {
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(payment({ status: 'PENDING', succeededAt: null }));
+
+      const response = await request(app)
+        .get('/api/payments/pay_123/receipt?format=pdf')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('still returns the JSON receipt by default', async () => {
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(payment());
+
+      const response = await request(app)
+        .get('/api/payments/pay_123/receipt')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(expect.objectContaining({ paymentId: 'pay_123', amount: 5000 }));
+    });
+  });
+
+  describe('Razorpay checkout', () => {
+    const activeCard = {
+      id: 1,
+      userId: 1,
+      last4: '9012',
+      cardType: 'PLATINUM',
+      status: 'ACTIVE',
+    };
+
+    let gateway: FakePaymentGateway;
+
+    beforeEach(() => {
+      gateway = new FakePaymentGateway();
+      setPaymentGateway(gateway);
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+        { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 4532000 } },
+      ]);
+    });
+
+    const createOrder = async (amount = 5000) => {
+      mockPrisma.card.findFirst.mockResolvedValue(activeCard as any);
+      (mockPrisma.payment.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'pay_123', ...data }));
+      (mockPrisma.payment.update as jest.Mock).mockImplementation(({ where, data }) => Promise.resolve({ id: where.id, ...data }));
+
+      return request(app)
+        .post('/api/payments/razorpay/create-order')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ cardId: 1, amount });
+    };
+
+    const pendingPayment = (orderId: string, overrides: Record<string, any> = {}) => ({
+      id: 'pay_123',
+      cardId: 1,
+      userId: 1,
+      amountPaise: 500000,
+      method: 'razorpay',
+      status: 'PENDING',
+      razorpayOrderId: orderId,
+      razorpayPaymentId: null,
+      card: { last4: '9012' },
+      ...overrides,
+    });
+
+    it('requires authentication', async () => {
+      const response = await request(app)
+        .post('/api/payments/razorpay/create-order')
+        .send({ cardId: 1, amount: 5000 });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('creates an order bound to the card as a pending payment', async () => {
+      const response = await createOrder();
+
+      expect(response.status).toBe(200);
+      expect(response.body.order).toEqual(expect.objectContaining({ id: 'order_fake_1', amount: 500000, currency: 'INR' }));
+      expect(response.body.paymentId).toBe('pay_123');
+      expect(mockPrisma.card.findFirst).toHaveBeenCalledWith({ where: { id: 1, userId: 1 } });
+      expect(mockPrisma.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          cardId: 1,
+          userId: 1,
+          amountPaise: 500000,
+          method: 'razorpay',
+          status: 'CREATED',
+        }),
+      });
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_123', status: { in: ['CREATED'] } },
+        data: { razorpayOrderId: 'order_fake_1', status: 'PENDING', pendingAt: expect.any(Date) },
+      });
+    });
+
+    it('fails the payment when the gateway cannot create the order', async () => {
+      jest.spyOn(gateway, 'createOrder').mockRejectedValue(new GatewayError('Razorpay failed to create order: down'));
+
+      const response = await createOrder();
+
+      expect(response.status).toBe(502);
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_123', status: { in: ['CREATED', 'PENDING', 'PROCESSING'] } },
+        data: expect.objectContaining({ status: 'FAILED', failureReason: 'Razorpay failed to create order: down' }),
+      });
+    });
+
+    it('rejects orders above the outstanding balance', async () => {
+      const response = await createOrder(50000);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+    });
+
+    it('settles a verified payment through processPayment', async () => {
+      await createOrder();
+      const { payment, signature } = gateway.simulateCheckout('order_fake_1');
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(pendingPayment('order_fake_1'));
+
+      const response = await request(app)
+        .post('/api/payments/razorpay/verify')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ razorpay_order_id: 'order_fake_1', razorpay_payment_id: payment.id, razorpay_signature: signature });
+
+      expect(response.status).toBe(200);
+      expect(response.body.payment).toEqual(expect.objectContaining({ id: 'pay_123', amount: 5000, status: 'success' }));
+      expect(mockPrisma.payment.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { razorpayOrderId: 'order_fake_1', userId: 1 } })
+      );
+      expect(processPayment).toHaveBeenCalledWith('pay_123', 'SUCCESS', '9012', 1, 500000, payment.id, undefined);
+    });
+
+    it('leaves a payment the gateway has only authorized for the webhook to settle', async () => {
+      await createOrder();
+      const { payment, signature } = gateway.simulateCheckout('order_fake_1');
+      jest.spyOn(gateway, 'fetchPayment').mockResolvedValue({ ...payment, status: 'authorized' });
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(pendingPayment('order_fake_1'));
+
+      const response = await request(app)
+        .post('/api/payments/razorpay/verify')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ razorpay_order_id: 'order_fake_1', razorpay_payment_id: payment.id, razorpay_signature: signature });
+
+      expect(response.status).toBe(202);
+      expect(response.body.payment.status).toBe('pending');
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_123', status: { in: expect.arrayContaining(['PENDING']) } },
+        data: expect.objectContaining({ status: 'PROCESSING', razorpayPaymentId: payment.id }),
+      });
+      expect(processPayment).not.toHaveBeenCalled();
+    });
+
+    it('rejects an invalid signature', async () => {
+      await createOrder();
+      const { payment } = gateway.simulateCheckout('order_fake_1');
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(pendingPayment('order_fake_1'));
+
+      const response = await request(app)
+        .post('/api/payments/razorpay/verify')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ razorpay_order_id: 'order_fake_1', razorpay_payment_id: payment.id, razorpay_signature: 'forged' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe('Invalid payment signature');
+      expect(processPayment).not.toHaveBeenCalled();
+    });
+
+    it('records a declined payment as failed', async () => {
+      await createOrder();
+      gateway.setOutcome('failure');
+      const { payment, signature } = gateway.simulateCheckout('order_fake_1');
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(pendingPayment('order_fake_1'));
+
+      const response = await request(app)
+        .post('/api/payments/razorpay/verify')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ razorpay_order_id: 'order_fake_1', razorpay_payment_id: payment.id, razorpay_signature: signature });
+
+      expect(response.status).toBe(400);
+      expect(processPayment).toHaveBeenCalledWith(
+        'pay_123', 'FAILED', '9012', 1, 500000, payment.id, 'Payment declined by fake gateway'
+      );
+    });
+
+    it('does not settle an order twice', async () => {
+      await createOrder();
+      const { payment, signature } = gateway.simulateCheckout('order_fake_1');
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(
+        pendingPayment('order_fake_1', { status: 'SUCCESS', razorpayPaymentId: payment.id })
+      );
+
+      const response = await request(app)
+        .post('/api/payments/razorpay/verify')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ razorpay_order_id: 'order_fake_1', razorpay_payment_id: payment.id, razorpay_signature: signature });
+
+      expect(response.status).toBe(200);
+      expect(response.body.payment.status).toBe('success');
+      expect(processPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/payments/razorpay/webhook', () => {
+    let gateway: FakePaymentGateway;
+    let orderId: string;
+
+    beforeEach(async () => {
+      gateway = new FakePaymentGateway();
+      setPaymentGateway(gateway);
+      orderId = (await gateway.createOrder({ amountPaise: 500000, receipt: 'r1' })).id;
+      (mockPrisma.gatewayEvent.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.gatewayEvent.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 1, ...data }));
+      (mockPrisma.$transaction as jest.Mock).mockImplementation((callback: any) => callback(mockPrisma));
+    });
+
+    const storedPayment = (overrides: Record<string, any> = {}) => ({
+      id: 'pay_123',
+      cardId: 1,
+      userId: 1,
+      amountPaise: 500000,
+      refundedPaise: 0,
+      method: 'razorpay',
+      status: 'PENDING',
+      razorpayOrderId: orderId,
+      card: { last4: '9012' },
+      ...overrides,
+    });
+
+    const deliver = (delivery: { rawBody: string; signature: string; eventId: string }) =>
+      request(app)
+        .post('/api/payments/razorpay/webhook')
+        .set('Content-Type', 'application/json')
+        .set('X-Razorpay-Signature', delivery.signature)
+        .set('X-Razorpay-Event-Id', delivery.eventId)
+        .send(delivery.rawBody);
+
+    it('rejects deliveries with a bad signature', async () => {
+      const { payment } = gateway.simulateCheckout(orderId);
+      const delivery = gateway.buildWebhook('payment.captured', { paymentId: payment.id });
+
+      const response = await deliver({ ...delivery, signature: 'forged' });
+
+      expect(response.status).toBe(401);
+      expect(mockPrisma.gatewayEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('settles the payment for a captured order and logs the event', async () => {
+      const { payment } = gateway.simulateCheckout(orderId);
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(storedPayment());
+
+      const response = await deliver(gateway.buildWebhook('payment.captured', { paymentId: payment.id }, 'evt_1'));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(expect.objectContaining({ eventId: 'evt_1', status: 'processed', duplicate: false }));
+      expect(mockPrisma.payment.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { razorpayOrderId: orderId } }));
+      expect(mockPrisma.gatewayEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ provider: 'fake', eventId: 'evt_1', type: 'payment.captured' }),
+      });
+      expect(processPayment).toHaveBeenCalledWith('pay_123', 'SUCCESS', '9012', 1, 500000, payment.id, undefined);
+      expect(mockPrisma.gatewayEvent.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ status: 'PROCESSED', paymentId: 'pay_123' }),
+      });
+    });
+
+    it('marks the payment failed for a failed attempt', async () => {
+      gateway.setOutcome('failure');
+      const { payment } = gateway.simulateCheckout(orderId);
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(storedPayment());
+
+      const response = await deliver(gateway.buildWebhook('payment.failed', { paymentId: payment.id }));
+
+      expect(response.status).toBe(200);
+      expect(processPayment).toHaveBeenCalledWith(
+        'pay_123', 'FAILED', '9012', 1, 500000, payment.id, 'Payment declined by fake gateway'
+      );
+    });
+
+    it('acknowledges a redelivered event without processing it again', async () => {
+      const { payment } = gateway.simulateCheckout(orderId);
+      (mockPrisma.gatewayEvent.findUnique as jest.Mock).mockResolvedValue({ id: 1, status: 'PROCESSED' });
+
+      const response = await deliver(gateway.buildWebhook('payment.captured', { paymentId: payment.id }, 'evt_1'));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.duplicate).toBe(true);
+      expect(mockPrisma.gatewayEvent.create).not.toHaveBeenCalled();
+      expect(processPayment).not.toHaveBeenCalled();
+    });
+
+    it('ignores a capture for a payment that is already settled', async () => {
+      const { payment } = gateway.simulateCheckout(orderId);
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(storedPayment({ status: 'SUCCESS' }));
+
+      const response = await deliver(gateway.buildWebhook('payment.captured', { paymentId: payment.id }));
+
+      expect(response.body.data.status).toBe('ignored');
+      expect(processPayment).not.toHaveBeenCalled();
+    });
+
+    it('applies a processed refund to the payment and the ledger', async () => {
+      const { payment } = gateway.simulateCheckout(orderId);
+      const refund = await gateway.refund(payment.id);
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(storedPayment({ status: 'SUCCESS' }));
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.paymentAdjustment.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.paymentAdjustment.findFirst as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.paymentAdjustment.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ id: 1, status: 'PENDING', ...data })
+      );
+      (mockPrisma.paymentAllocation.findMany as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.payment.update as jest.Mock).mockResolvedValue(storedPayment({ status: 'SUCCESS', refundedPaise: 500000 }));
+
+      const response = await deliver(gateway.buildWebhook('refund.processed', { paymentId: payment.id, refundId: refund.id }));
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.paymentAdjustment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'REFUND', amountPaise: 500000, gatewayRefundId: refund.id }),
+      });
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_123' },
+        data: { refundedPaise: { increment: 500000 } },
+      });
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_123', status: { in: ['SUCCESS'] } },
+        data: { status: 'REFUNDED', refundedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.ledgerEntry.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ account: 'PRINCIPAL', amountPaise: 500000 }),
+          expect.objectContaining({ account: 'PAYMENT_CLEARING', amountPaise: -500000 }),
+        ],
+      });
+    });
+
+    it('does not apply a refund that was already applied when it was made', async () => {
+      const { payment } = gateway.simulateCheckout(orderId);
+      const refund = await gateway.refund(payment.id);
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue(storedPayment({ status: 'REFUNDED', refundedPaise: 500000 }));
+      (mockPrisma.paymentAdjustment.findUnique as jest.Mock).mockResolvedValue({ id: 1, status: 'PROCESSED', gatewayRefundId: refund.id });
+
+      const response = await deliver(gateway.buildWebhook('refund.processed', { paymentId: payment.id, refundId: refund.id }));
+
+      expect(response.body.data.status).toBe('ignored');
+      expect(mockPrisma.ledgerEntry.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Refunds and reversals', () => {
+    let gateway: FakePaymentGateway;
+
+    const adminToken = jwt.sign(
+      { userId: 9, email: 'admin@example.com', name: 'Admin', isAdmin: true },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    const statement = (id: number, dueDate: Date, balancePaise = 0) => ({ id, dueDate, balancePaise, isPaid: balancePaise === 0 });
+
+    const settledPayment = (overrides: Record<string, any> = {}) => ({
+      id: 'pay_123',
+      cardId: 1,
+      userId: 1,
+      amountPaise: 500000,
+      refundedPaise: 0,
+      method: 'bank',
+      status: 'SUCCESS',
+      razorpayPaymentId: null,
+      // Charged off-session in beforeEach
+      externalId: 'pay_fake_1',
+      card: { last4: '9012' },
+      ...overrides,
+    });
+
+    beforeEach(async () => {
+      gateway = new FakePaymentGateway();
+      setPaymentGateway(gateway);
+      await gateway.charge({ amountPaise: 500000, receipt: 'pay_123', method: 'bank' });
+      (mockPrisma.$transaction as jest.Mock).mockImplementation((callback: any) => callback(mockPrisma));
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.payment.update as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ ...settledPayment(), refundedPaise: data.refundedPaise?.increment ?? 0 })
+      );
+      (mockPrisma.paymentAdjustment.findMany as jest.Mock).mockResolvedValue([]);
+      let created: Record<string, unknown> = {};
+      (mockPrisma.paymentAdjustment.create as jest.Mock).mockImplementation(({ data }) => {
+        created = { id: 1, status: 'PENDING', gatewayRefundId: null, ...data };
+        return Promise.resolve(created);
+      });
+      (mockPrisma.paymentAdjustment.update as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ ...created, ...data })
+      );
+      (mockPrisma.paymentAdjustment.findUniqueOrThrow as jest.Mock).mockImplementation(() =>
+        Promise.resolve({ id: 1, status: 'PROCESSED', type: 'REFUND', amountPaise: 200000, reason: 'Duplicate payment' })
+      );
+      // The payment paid off two statements
+      (mockPrisma.paymentAllocation.findMany as jest.Mock).mockResolvedValue([
+        { statementId: 1, bucket: 'PRINCIPAL', amountPaise: 200000, statement: statement(1, new Date(2025, 7, 20)) },
+        { statementId: 2, bucket: 'PRINCIPAL', amountPaise: 300000, statement: statement(2, new Date(2025, 8, 20)) },
+      ]);
+    });
+
+    const refund = (body: Record<string, unknown>, token = adminToken) =>
+      request(app)
+        .post('/api/payments/pay_123/refunds')
+        .set('Authorization', `Bearer ${token}`)
+        .send(body);
+
+    it('is limited to admins', async () => {
+      const response = await refund({ reason: 'Duplicate payment' }, authToken);
+
+      expect(response.status).toBe(403);
+      expect(mockPrisma.paymentAdjustment.create).not.toHaveBeenCalled();
+    });
+
+    it('refunds part of a payment and re-opens the newest statement it paid', async () => {
+      (mockPrisma.payment.findUnique as jest.Mock).mockResolvedValue(settledPayment());
+
+      const response = await refund({ amount: 2000, reason: 'Duplicate payment' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toEqual(expect.objectContaining({ type: 'refund', status: 'processed', amount: 2000 }));
+      expect(mockPrisma.paymentAdjustment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'REFUND', amountPaise: 200000, createdBy: 9 }),
+      });
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_123' },
+        data: { refundedPaise: { increment: 200000 } },
+      });
+      expect(mockPrisma.payment.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.statement.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.statement.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { balancePaise: { increment: 200000 }, isPaid: false },
+      });
+      expect(mockPrisma.paymentAllocation.create).toHaveBeenCalledWith({
+        data: { paymentId: 'pay_123', statementId: 2, bucket: 'PRINCIPAL', amountPaise: -200000 },
+      });
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 1, type: 'PAYMENT_REFUNDED' }),
+      });
+    });
+
+    it('takes a refund out of the credit the payment left before re-opening statements', async () => {
+      (mockPrisma.payment.findUnique as jest.Mock).mockResolvedValue(settledPayment({ amountPaise: 600000 }));
+
+      await refund({ amount: 1500, reason: 'Overpayment returned' });
+
+      // ₹1,000 of the ₹6,000 payment was never allocated to a statement
+      expect(mockPrisma.statement.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.statement.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { balancePaise: { increment: 50000 }, isPaid: false },
+      });
+    });
+
+    it('refunds a gateway payment through the gateway', async () => {
+      const order = await gateway.createOrder({ amountPaise: 500000, receipt: 'r1' });
+      const { payment: captured } = gateway.simulateCheckout(order.id);
+      (mockPrisma.payment.findUnique as jest.Mock).mockResolvedValue(
+        settledPayment({ method: 'razorpay', razorpayPaymentId: captured.id })
+      );
+
+      const response = await refund({ reason: 'Duplicate payment' });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.paymentAdjustment.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { gatewayRefundId: 'rfnd_fake_4' },
+      });
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_123', status: { in: ['SUCCESS'] } },
+        data: { status: 'REFUNDED', refundedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.statement.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('refuses to refund a payment the gateway has no record of', async () => {
+      (mockPrisma.payment.findUnique as jest.Mock).mockResolvedValue(settledPayment({ externalId: null }));
+
+      const response = await refund({ reason: 'Duplicate payment' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('CONFLICT');
+      expect(mockPrisma.paymentAdjustment.create).not.toHaveBeenCalled();
+    });
+
+    it('marks a payment refunded from its updated total when another refund landed first', async () => {
+      // Read before a concurrent ₹3,000 refund was applied
+      (mockPrisma.payment.findUnique as jest.Mock).mockResolvedValue(settledPayment());
+      (mockPrisma.payment.update as jest.Mock).mockResolvedValue(settledPayment({ refundedPaise: 500000 }));
+
+      const response = await refund({ amount: 2000, reason: 'Duplicate payment' });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_123' },
+        data: { refundedPaise: { increment: 200000 } },
+      });
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_123', status: { in: ['SUCCESS'] } },
+        data: { status: 'REFUNDED', refundedAt: expect.any(Date) },
+      });
+    });
+
+    it('rejects a refund above what is left to refund', async () => {
+      (mockPrisma.payment.findUnique as jest.Mock).mockResolvedValue(settledPayment({ refundedPaise: 200000 }));
+      (mockPrisma.paymentAdjustment.findMany as jest.Mock).mockResolvedValue([{ amountPaise: 200000 }]);
+
+      const response = await refund({ amount: 1500, reason: 'Duplicate payment' });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.paymentAdjustment.create).not.toHaveBeenCalled();
+    });
+
+    it('only refunds successful payments', async () => {
+      (mockPrisma.payment.findUnique as jest.Mock).mockResolvedValue(settledPayment({ status: 'PENDING' }));
+
+      const response = await refund({ reason: 'Duplicate payment' });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.paymentAdjustment.create).not.toHaveBeenCalled();
+    });
+
+    it('reverses a bounced payment and re-opens its statements', async () => {
+      (mockPrisma.payment.findUnique as jest.Mock).mockResolvedValue(settledPayment());
+      (mockPrisma.paymentAdjustment.update as jest.Mock).mockResolvedValue({});
+      (mockPrisma.paymentAdjustment.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+        id: 1, status: 'PROCESSED', type: 'REVERSAL', amountPaise: 500000, reason: 'Bank return R01',
+      });
+
+      const response = await request(app)
+        .post('/api/payments/pay_123/reversals')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ reason: 'Bank return R01' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toEqual(expect.objectContaining({ type: 'reversal', amount: 5000 }));
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'pay_123', status: { in: ['SUCCESS'] } },
+        data: { status: 'REVERSED', reversedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.statement.update).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.ledgerEntry.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([
+          expect.objectContaining({ account: 'PRINCIPAL', amountPaise: 500000, description: 'Payment reversed' }),
+        ]),
+      });
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'PAYMENT_REVERSED' }),
+      });
+    });
+
+    it('lists refunds and reversals in the payment detail', async () => {
+      (mockPrisma.payment.findFirst as jest.Mock).mockResolvedValue({
+        ...settledPayment({ refundedPaise: 200000 }),
+        card: { last4: '9012', cardType: 'PLATINUM' },
+        adjustments: [{ id: 1, type: 'REFUND', status: 'PROCESSED', amountPaise: 200000, reason: 'Duplicate payment' }],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const response = await request(app)
+        .get('/api/payments/pay_123')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.refundedAmount).toBe(2000);
+      expect(response.body.data.adjustments).toEqual([
+        expect.objectContaining({ type: 'refund', status: 'processed', amount: 2000 }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import app from '../src/index';
+import prisma from '../src/config/database';
+import { FakePaymentGateway, GatewayPayment, setPaymentGateway } from '../src/gateways';
+import { findMismatches, getPreviousDay, reconcilePayments } from '../src/jobs/reconciliation';
+import { parseSettlementCsv } from '../src/utils/settlementCsv';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const from = new Date(2025, 8, 1);
+const to = new Date(2025, 8, 1, 23, 59, 59, 999);
+const during = new Date(2025, 8, 1, 12);
+
+const buildPayment = (overrides: Record<string, any> = {}) => ({
+  id: 'pay_1',
+  cardId: 1,
+  userId: 1,
+  amountPaise: 500000,
+  refundedPaise: 0,
+  method: 'razorpay',
+  status: 'SUCCESS',
+  externalId: null,
+  razorpayOrderId: 'order_1',
+  razorpayPaymentId: 'gw_1',
+  idempotencyKey: null,
+  createdAt: during,
+  updatedAt: during,
+  ...overrides,
+});
+
+const buildGatewayPayment = (overrides: Partial<GatewayPayment> = {}): GatewayPayment => ({
+  id: 'gw_1',
+  orderId: 'order_1',
+  amountPaise: 500000,
+  amountRefundedPaise: 0,
+  currency: 'INR',
+  status: 'captured',
+  method: 'card',
+  errorDescription: null,
+  createdAt: during,
+  ...overrides,
+});
+
+describe('Payment reconciliation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.reconciliationItem.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('findMismatches', () => {
+    it('passes payments that agree with the gateway', () => {
+      expect(findMismatches([buildPayment()], [buildGatewayPayment()], from, to)).toEqual([]);
+    });
+
+    it('flags a capture whose payment is still pending, matched by order id', () => {
+      const payment = buildPayment({ status: 'PENDING', razorpayPaymentId: null });
+
+      const mismatches = findMismatches([payment], [buildGatewayPayment()], from, to);
+
+      expect(mismatches.map(mismatch => mismatch.type)).toEqual(['CAPTURED_BUT_PENDING']);
+    });
+
+    it('flags amount differences', () => {
+      const mismatches = findMismatches([buildPayment()], [buildGatewayPayment({ amountPaise: 450000 })], from, to);
+
+      expect(mismatches.map(mismatch => mismatch.type)).toEqual(['AMOUNT_MISMATCH']);
+    });
+
+    it('flags successful payments the gateway did not capture', () => {
+      const mismatches = findMismatches([buildPayment()], [buildGatewayPayment({ status: 'failed' })], from, to);
+
+      expect(mismatches).toEqual([
+        expect.objectContaining({ type: 'SUCCESS_BUT_MISSING', gatewayPayment: expect.objectContaining({ status: 'failed' }) }),
+      ]);
+    });
+
+    it('flags successful payments the gateway has only authorized', () => {
+      const mismatches = findMismatches([buildPayment()], [buildGatewayPayment({ status: 'authorized' })], from, to);
+
+      expect(mismatches).toEqual([
+        expect.objectContaining({ type: 'SUCCESS_BUT_MISSING', gatewayPayment: expect.objectContaining({ status: 'authorized' }) }),
+      ]);
+    });
+
+    it('flags captures with no payment of ours', () => {
+      const mismatches = findMismatches([], [buildGatewayPayment()], from, to);
+
+      expect(mismatches.map(mismatch => mismatch.type)).toEqual(['UNKNOWN_GATEWAY_PAYMENT']);
+    });
+  });
+
+  describe('parseSettlementCsv', () => {
+    it('reads payment rows in rupees and skips refunds', () => {
+      const csv = [
+        'entity_id,type,amount,currency,order_id,method,created_at',
+        'gw_1,payment,5000.50,INR,order_1,upi,1756728000',
+        'rfnd_1,refund,100,INR,,,1756728000',
+        '"gw_2",payment,"1,200",INR,order_2,card,2025-09-01T10:00:00Z',
+      ].join('\n');
+
+      const payments = parseSettlementCsv(csv);
+
+      expect(payments).toHaveLength(2);
+      expect(payments[0]).toEqual(expect.objectContaining({ id: 'gw_1', orderId: 'order_1', amountPaise: 500050, status: 'captured' }));
+      expect(payments[0].createdAt).toEqual(new Date(1756728000 * 1000));
+      expect(payments[1]).toEqual(expect.objectContaining({ id: 'gw_2', amountPaise: 120000 }));
+    });
+
+    it('rejects files without the required columns', () => {
+      expect(() => parseSettlementCsv('id,value\n1,2')).toThrow('payment_id (or entity_id), amount and created_at');
+    });
+
+    it('reports the line of a bad amount', () => {
+      expect(() => parseSettlementCsv('payment_id,amount,created_at\ngw_1,abc,1756728000')).toThrow('line 2');
+    });
+  });
+
+  describe('reconcilePayments', () => {
+    it('records new mismatches from the gateway', async () => {
+      const gateway = new FakePaymentGateway();
+      setPaymentGateway(gateway);
+      const order = await gateway.createOrder({ amountPaise: 500000, receipt: 'r1' });
+      const { payment } = gateway.simulateCheckout(order.id, { at: during });
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([
+        buildPayment({ status: 'PENDING', razorpayOrderId: order.id, razorpayPaymentId: null }),
+      ]);
+
+      const result = await reconcilePayments(from, to);
+
+      expect(result).toEqual(expect.objectContaining({ source: 'GATEWAY', checked: 1, flagged: 1, alreadyOpen: 0 }));
+      expect(mockPrisma.reconciliationItem.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({
+          type: 'CAPTURED_BUT_PENDING',
+          source: 'GATEWAY',
+          paymentId: 'pay_1',
+          gatewayPaymentId: payment.id,
+          expectedPaise: 500000,
+          gatewayPaise: 500000,
+          paymentStatus: 'PENDING',
+          gatewayStatus: 'captured',
+        })],
+      });
+    });
+
+    it('does not flag a mismatch that is already open', async () => {
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([buildPayment()]);
+      (mockPrisma.reconciliationItem.findMany as jest.Mock).mockResolvedValue([
+        { type: 'AMOUNT_MISMATCH', paymentId: 'pay_1', gatewayPaymentId: 'gw_1' },
+      ]);
+
+      const result = await reconcilePayments(from, to, [buildGatewayPayment({ amountPaise: 1 })]);
+
+      expect(result).toEqual(expect.objectContaining({ source: 'CSV', flagged: 0, alreadyOpen: 1 }));
+      expect(mockPrisma.reconciliationItem.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPreviousDay', () => {
+    it('covers the whole previous calendar day', () => {
+      expect(getPreviousDay(new Date(2025, 8, 2, 3))).toEqual({ from, to });
+    });
+  });
+
+  describe('admin endpoints', () => {
+    const adminToken = jwt.sign(
+      { userId: 9, email: 'admin@example.com', name: 'Admin', isAdmin: true },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+    const userToken = jwt.sign(
+      { userId: 1, email: 'test@example.com', name: 'Test User', isAdmin: false },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    it('lists open items for admins only', async () => {
+      (mockPrisma.reconciliationItem.findMany as jest.Mock).mockResolvedValue([
+        { id: 1, type: 'AMOUNT_MISMATCH', status: 'OPEN', expectedPaise: 500000, gatewayPaise: 450000 },
+      ]);
+      (mockPrisma.reconciliationItem.count as jest.Mock).mockResolvedValue(1);
+
+      const forbidden = await request(app).get('/api/reconciliation/items').set('Authorization', `Bearer ${userToken}`);
+      const response = await request(app)
+        .get('/api/reconciliation/items?status=OPEN')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(forbidden.status).toBe(403);
+      expect(response.status).toBe(200);
+      expect(response.body.data[0]).toEqual(expect.objectContaining({ expectedAmount: 5000, gatewayAmount: 4500 }));
+      expect(mockPrisma.reconciliationItem.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: 'OPEN' }, skip: 0, take: 20 })
+      );
+    });
+
+    it('resolves an open item with a note', async () => {
+      (mockPrisma.reconciliationItem.findUnique as jest.Mock).mockResolvedValue({ id: 1, status: 'OPEN' });
+      (mockPrisma.reconciliationItem.update as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 1, ...data }));
+
+      const response = await request(app)
+        .patch('/api/reconciliation/items/1/resolve')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ resolution: 'Settled manually' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.reconciliationItem.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ status: 'RESOLVED', resolution: 'Settled manually', resolvedBy: 9 }),
+      });
+    });
+
+    it('refuses to resolve an item twice', async () => {
+      (mockPrisma.reconciliationItem.findUnique as jest.Mock).mockResolvedValue({ id: 1, status: 'RESOLVED' });
+
+      const response = await request(app)
+        .patch('/api/reconciliation/items/1/resolve')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ resolution: 'Again' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('reconciles an uploaded settlement CSV', async () => {
+      (mockPrisma.payment.findMany as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app)
+        .post('/api/reconciliation/runs')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('from', '2025-09-01')
+        .field('to', '2025-09-01')
+        .attach('file', Buffer.from('payment_id,amount,order_id,created_at\ngw_9,250,order_9,1756728000\n'), 'settlement.csv');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(expect.objectContaining({ source: 'CSV', checked: 1, flagged: 1 }));
+    });
+  });
+});
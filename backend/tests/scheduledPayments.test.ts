@@ -0,0 +1,322 @@
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import app from '../src/index';
+import prisma from '../src/config/database';
+import { FakePaymentGateway, RazorpayGateway, setPaymentGateway } from '../src/gateways';
+import { executeDueScheduledPayments, nextMonthlyRun } from '../src/jobs/scheduledPayments';
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const authToken = jwt.sign(
+  { userId: 1, email: 'test@example.com', name: 'Test User', isAdmin: false },
+  process.env.JWT_SECRET || 'test-secret'
+);
+
+const nextYear = new Date().getFullYear() + 1;
+
+const razorpay = () => new RazorpayGateway({ keyId: 'rzp_test', keySecret: 'secret', webhookSecret: 'whsec' });
+
+const buildScheduled = (overrides: Record<string, any> = {}) => ({
+  id: 4,
+  userId: 1,
+  cardId: 1,
+  amountPaise: 500000,
+  method: 'bank',
+  frequency: 'MONTHLY',
+  dayOfMonth: 1,
+  nextRunAt: new Date(2025, 10, 1),
+  endDate: null,
+  status: 'ACTIVE',
+  lastRunAt: null,
+  lastRunStatus: null,
+  lastRunNote: null,
+  lastPaymentId: null,
+  createdAt: new Date(2025, 9, 1),
+  updatedAt: new Date(2025, 9, 1),
+  card: { id: 1, userId: 1, last4: '9012', status: 'ACTIVE' },
+  ...overrides,
+});
+
+describe('Scheduled payments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setPaymentGateway(new FakePaymentGateway());
+  });
+
+  describe('nextMonthlyRun', () => {
+    it('runs on the same day next month once this month has passed', () => {
+      expect(nextMonthlyRun(new Date(2025, 10, 1, 9), 1)).toEqual(new Date(2025, 11, 1));
+      expect(nextMonthlyRun(new Date(2025, 11, 15), 1)).toEqual(new Date(2026, 0, 1));
+    });
+
+    it('runs later this month when the day is still ahead', () => {
+      expect(nextMonthlyRun(new Date(2025, 10, 3), 20)).toEqual(new Date(2025, 10, 20));
+    });
+
+    it('runs on the last day of shorter months', () => {
+      expect(nextMonthlyRun(new Date(2026, 0, 31, 9), 31)).toEqual(new Date(2026, 1, 28));
+    });
+  });
+
+  describe('POST /api/payments/scheduled', () => {
+    const schedule = (body: Record<string, unknown>) =>
+      request(app)
+        .post('/api/payments/scheduled')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(body);
+
+    beforeEach(() => {
+      (mockPrisma.card.findFirst as jest.Mock).mockResolvedValue({ id: 1, userId: 1, last4: '9012', status: 'ACTIVE' });
+      (mockPrisma.scheduledPayment.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve(buildScheduled({ ...data, status: 'ACTIVE' }))
+      );
+    });
+
+    it('schedules a monthly payment on the start date\'s day of the month', async () => {
+      const response = await schedule({
+        cardId: 1,
+        amount: 5000,
+        method: 'bank',
+        frequency: 'MONTHLY',
+        startDate: `${nextYear}-01-01`,
+      });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.scheduledPayment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 1,
+          cardId: 1,
+          amountPaise: 500000,
+          frequency: 'MONTHLY',
+          dayOfMonth: 1,
+          nextRunAt: new Date(nextYear, 0, 1),
+        }),
+      });
+      expect(response.body.data).toEqual(expect.objectContaining({ amount: 5000, frequency: 'monthly', status: 'active' }));
+    });
+
+    it('schedules a one-off payment by default', async () => {
+      await schedule({ cardId: 1, amount: 2500, method: 'instant', startDate: `${nextYear}-03-15` });
+
+      expect(mockPrisma.scheduledPayment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ frequency: 'ONCE', dayOfMonth: null, endDate: null }),
+      });
+    });
+
+    it('rejects a start date in the past', async () => {
+      const response = await schedule({ cardId: 1, amount: 5000, method: 'bank', startDate: '2020-01-01' });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.scheduledPayment.create).not.toHaveBeenCalled();
+    });
+
+    it('only schedules payments for active cards', async () => {
+      (mockPrisma.card.findFirst as jest.Mock).mockResolvedValue({ id: 1, userId: 1, status: 'BLOCKED' });
+
+      const response = await schedule({ cardId: 1, amount: 5000, method: 'bank', startDate: `${nextYear}-01-01` });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('is not offered when the gateway cannot charge outside checkout', async () => {
+      setPaymentGateway(razorpay());
+
+      const response = await schedule({ cardId: 1, amount: 5000, method: 'bank', startDate: `${nextYear}-01-01` });
+
+      expect(response.status).toBe(422);
+      expect(response.body.error.code).toBe('CHECKOUT_REQUIRED');
+      expect(mockPrisma.scheduledPayment.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH and DELETE /api/payments/scheduled/:id', () => {
+    beforeEach(() => {
+      (mockPrisma.scheduledPayment.update as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve(buildScheduled(data))
+      );
+    });
+
+    it('resumes a paused monthly payment at its next run date', async () => {
+      (mockPrisma.scheduledPayment.findFirst as jest.Mock).mockResolvedValue(
+        buildScheduled({ status: 'PAUSED', nextRunAt: new Date(2020, 0, 1) })
+      );
+
+      const response = await request(app)
+        .patch('/api/payments/scheduled/4')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: 'ACTIVE' });
+
+      expect(response.status).toBe(200);
+      const { data } = (mockPrisma.scheduledPayment.update as jest.Mock).mock.calls[0][0];
+      expect(data.status).toBe('ACTIVE');
+      expect(data.nextRunAt.getDate()).toBe(1);
+      expect(data.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('cancels a scheduled payment and keeps it for history', async () => {
+      (mockPrisma.scheduledPayment.findFirst as jest.Mock).mockResolvedValue(buildScheduled());
+
+      const response = await request(app)
+        .delete('/api/payments/scheduled/4')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe('cancelled');
+      expect(mockPrisma.scheduledPayment.update).toHaveBeenCalledWith({ where: { id: 4 }, data: { status: 'CANCELLED' } });
+    });
+
+    it('does not change a scheduled payment that has finished', async () => {
+      (mockPrisma.scheduledPayment.findFirst as jest.Mock).mockResolvedValue(buildScheduled({ status: 'COMPLETED' }));
+
+      const response = await request(app)
+        .patch('/api/payments/scheduled/4')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ amount: 6000 });
+
+      expect(response.status).toBe(409);
+      expect(mockPrisma.scheduledPayment.update).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for another user\'s scheduled payment', async () => {
+      (mockPrisma.scheduledPayment.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .delete('/api/payments/scheduled/4')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(404);
+      expect(mockPrisma.scheduledPayment.findFirst).toHaveBeenCalledWith({ where: { id: 4, userId: 1 } });
+    });
+  });
+
+  describe('executeDueScheduledPayments', () => {
+    const now = new Date(2025, 10, 1, 1);
+
+    beforeEach(() => {
+      (mockPrisma.$transaction as jest.Mock).mockImplementation((callback: any) => callback(mockPrisma));
+      (mockPrisma.payment.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'pay_sched', ...data }));
+      (mockPrisma.scheduledPayment.update as jest.Mock).mockResolvedValue({});
+      (mockPrisma.statement.findFirst as jest.Mock).mockResolvedValue({ id: 3, cardId: 1, isPaid: false, balancePaise: 4532000 });
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+        { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 4532000 } },
+      ]);
+    });
+
+    it('queues a payment for the worker and moves to the next month', async () => {
+      (mockPrisma.scheduledPayment.findMany as jest.Mock).mockResolvedValue([buildScheduled()]);
+
+      const executed = await executeDueScheduledPayments(now);
+
+      expect(executed).toBe(1);
+      expect(mockPrisma.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          cardId: 1,
+          amountPaise: 500000,
+          method: 'bank',
+          scheduledPaymentId: 4,
+          status: 'PENDING',
+          idempotencyKey: `scheduled_4_${new Date(2025, 10, 1).getTime()}`,
+        }),
+      });
+      expect(mockPrisma.scheduledPayment.update).toHaveBeenCalledWith({
+        where: { id: 4, status: 'ACTIVE', nextRunAt: new Date(2025, 10, 1) },
+        data: expect.objectContaining({
+          nextRunAt: new Date(2025, 11, 1),
+          status: 'ACTIVE',
+          lastRunStatus: 'PAID',
+          lastPaymentId: 'pay_sched',
+        }),
+      });
+    });
+
+    it('skips the run when the statement is already paid', async () => {
+      (mockPrisma.scheduledPayment.findMany as jest.Mock).mockResolvedValue([buildScheduled()]);
+      (mockPrisma.statement.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await executeDueScheduledPayments(now);
+
+      expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+      expect(mockPrisma.scheduledPayment.update).toHaveBeenCalledWith({
+        where: expect.anything(),
+        data: expect.objectContaining({
+          nextRunAt: new Date(2025, 11, 1),
+          lastRunStatus: 'SKIPPED',
+          lastRunNote: 'the statement is already paid',
+        }),
+      });
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 1, type: 'SCHEDULED_PAYMENT_SKIPPED' }),
+      });
+    });
+
+    it('skips the run instead of queuing a payment the gateway cannot charge', async () => {
+      setPaymentGateway(razorpay());
+      (mockPrisma.scheduledPayment.findMany as jest.Mock).mockResolvedValue([buildScheduled()]);
+
+      await executeDueScheduledPayments(now);
+
+      expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+      expect(mockPrisma.scheduledPayment.update).toHaveBeenCalledWith({
+        where: expect.anything(),
+        data: expect.objectContaining({
+          lastRunStatus: 'SKIPPED',
+          lastRunNote: 'scheduled payments are not available, please pay through checkout',
+        }),
+      });
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 1, type: 'SCHEDULED_PAYMENT_SKIPPED' }),
+      });
+    });
+
+    it('never pays more than the card owes', async () => {
+      (mockPrisma.scheduledPayment.findMany as jest.Mock).mockResolvedValue([buildScheduled()]);
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
+        { cardId: 1, account: 'PRINCIPAL', _sum: { amountPaise: 120000 } },
+      ]);
+
+      await executeDueScheduledPayments(now);
+
+      expect(mockPrisma.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amountPaise: 120000 }),
+      });
+    });
+
+    it('completes a one-off payment after its run', async () => {
+      (mockPrisma.scheduledPayment.findMany as jest.Mock).mockResolvedValue([
+        buildScheduled({ frequency: 'ONCE', dayOfMonth: null }),
+      ]);
+
+      await executeDueScheduledPayments(now);
+
+      expect(mockPrisma.scheduledPayment.update).toHaveBeenCalledWith({
+        where: expect.anything(),
+        data: expect.objectContaining({ status: 'COMPLETED' }),
+      });
+    });
+
+    it('completes a monthly payment whose next run is after its end date', async () => {
+      (mockPrisma.scheduledPayment.findMany as jest.Mock).mockResolvedValue([
+        buildScheduled({ endDate: new Date(2025, 10, 30) }),
+      ]);
+
+      await executeDueScheduledPayments(now);
+
+      expect(mockPrisma.scheduledPayment.update).toHaveBeenCalledWith({
+        where: expect.anything(),
+        data: expect.objectContaining({ status: 'COMPLETED', lastRunStatus: 'PAID' }),
+      });
+    });
+
+    it('does not count a run another job instance already made', async () => {
+      (mockPrisma.scheduledPayment.findMany as jest.Mock).mockResolvedValue([buildScheduled()]);
+      (mockPrisma.scheduledPayment.update as jest.Mock).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Record to update not found.', { code: 'P2025', clientVersion: 'test' })
+      );
+
+      const executed = await executeDueScheduledPayments(now);
+
+      expect(executed).toBe(0);
+    });
+  });
+});
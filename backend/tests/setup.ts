@@ -1,3 +1,5 @@
+import os from 'os';
+import path from 'path';
 import { PrismaClient } from '@prisma/client';
 
 // Mock Prisma for tests
@@ -6,6 +8,7 @@ jest.mock('../src/config/database', () => ({
   default: {
     user: {
       findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
       findMany: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
@@ -14,19 +17,144 @@ jest.mock('../src/config/database', () => ({
     card: {
       findMany: jest.fn(),
       findFirst: jest.fn(),
+      findUnique: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
     },
     transaction: {
       findMany: jest.fn(),
       findFirst: jest.fn(),
       count: jest.fn(),
+      aggregate: jest.fn(),
+      create: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
     },
     payment: {
       create: jest.fn(),
       findMany: jest.fn(),
+      findFirst: jest.fn(),
       findUnique: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    paymentAllocation: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    paymentAdjustment: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    statement: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    ledgerEntry: {
+      createMany: jest.fn(),
+      groupBy: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    gatewayEvent: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    reconciliationItem: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn(),
+    },
+    idempotencyKey: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    autopayRun: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    scheduledPayment: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    cardAuthorization: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      groupBy: jest.fn().mockResolvedValue([]),
+    },
+    reward: {
+      updateMany: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    cardControl: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    virtualCard: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    addOnCard: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    cardClosure: {
+      create: jest.fn(),
+    },
+    otpChallenge: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    limitRequest: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    offer: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
     },
     notification: {
       findMany: jest.fn(),
@@ -35,6 +163,7 @@ jest.mock('../src/config/database', () => ({
       delete: jest.fn(),
     },
     $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
   },
 }));
 
@@ -51,4 +180,6 @@ jest.mock('../src/config/logger', () => ({
 // Set test environment variables
 process.env.NODE_ENV = 'test';
 process.env.JWT_SECRET = 'test-secret';
-process.env.BCRYPT_SALT_ROUNDS = '10';
\ No newline at end of file
+process.env.BCRYPT_SALT_ROUNDS = '10';
+process.env.CARD_NETWORK_SECRET = 'test-network-secret';
+process.env.CARD_KEK_PATH = path.join(os.tmpdir(), 'creditflow-test-card-kek.key');
\ No newline at end of file
@@ -0,0 +1,190 @@
+import prisma from '../src/config/database';
+import { computeMinDue, generateStatement, getCycleWindow, getLatestClosedCycle, splitStatementBalance } from '../src/jobs/statements';
+import { createStatementGeneratedNotification } from '../src/utils/notifications';
+
+jest.mock('../src/utils/notifications', () => ({
+  createStatementGeneratedNotification: jest.fn(),
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const card = { id: 1, userId: 1, last4: '9012', cardType: 'PLATINUM', billingCycleDay: 15 };
+
+describe('Statement generation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.$transaction as jest.Mock).mockImplementation((callback: any) => callback(mockPrisma));
+    (mockPrisma.statement.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('getCycleWindow', () => {
+    it('runs from the day after the previous close to the closing day', () => {
+      const window = getCycleWindow(15, 3, 2025);
+
+      expect(window.periodStart).toEqual(new Date(2025, 1, 16));
+      expect(window.periodEnd).toEqual(new Date(2025, 2, 15, 23, 59, 59, 999));
+      expect(window.dueDate).toEqual(new Date(2025, 3, 4));
+    });
+
+    it('wraps the previous cycle into December for January', () => {
+      const window = getCycleWindow(1, 1, 2025);
+
+      expect(window.periodStart).toEqual(new Date(2024, 11, 2));
+    });
+  });
+
+  describe('getLatestClosedCycle', () => {
+    it('returns the previous month while the current cycle is still open', () => {
+      const cycle = getLatestClosedCycle(15, new Date(2025, 2, 10));
+
+      expect(cycle.month).toBe(2);
+      expect(cycle.year).toBe(2025);
+    });
+
+    it('returns the current month once the closing day has passed', () => {
+      const cycle = getLatestClosedCycle(15, new Date(2025, 2, 20));
+
+      expect(cycle.month).toBe(3);
+    });
+  });
+
+  describe('computeMinDue', () => {
+    it('uses 5% of the balance', () => {
+      expect(computeMinDue(4532000)).toBe(226600);
+    });
+
+    it('applies the floor without exceeding the balance', () => {
+      expect(computeMinDue(100000)).toBe(20000);
+      expect(computeMinDue(15000)).toBe(15000);
+      expect(computeMinDue(0)).toBe(0);
+    });
+  });
+
+  describe('splitStatementBalance', () => {
+    it('bills each kind of charge separately', () => {
+      expect(splitStatementBalance({ principalPaise: 400000, interestPaise: 30000, feesPaise: 59000 }, 489000)).toEqual({
+        balancePaise: 489000,
+        feesPaise: 59000,
+        interestPaise: 30000,
+      });
+    });
+
+    it('sets net credits against interest, then fees', () => {
+      expect(splitStatementBalance({ principalPaise: -40000, interestPaise: 30000, feesPaise: 59000 }, 49000)).toEqual({
+        balancePaise: 49000,
+        feesPaise: 49000,
+        interestPaise: 0,
+      });
+    });
+
+    it('takes the part a credit balance covered off fees, then interest, then principal', () => {
+      expect(splitStatementBalance({ principalPaise: 400000, interestPaise: 30000, feesPaise: 59000 }, 300000)).toEqual({
+        balancePaise: 300000,
+        feesPaise: 0,
+        interestPaise: 0,
+      });
+    });
+  });
+
+  describe('generateStatement', () => {
+    const mockLedger = (balances: Record<string, number>, activity: Record<string, number>) =>
+      (mockPrisma.ledgerEntry.groupBy as jest.Mock)
+        .mockResolvedValueOnce(
+          Object.entries(balances).map(([account, amountPaise]) => ({ cardId: 1, account, _sum: { amountPaise } }))
+        )
+        .mockResolvedValueOnce(
+          Object.entries(activity).map(([account, amountPaise]) => ({ account, _sum: { amountPaise } }))
+        );
+
+    beforeEach(() => {
+      (mockPrisma.statement.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.statement.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ id: 10, ...data })
+      );
+    });
+
+    it('sums the cycle charges and notifies the user', async () => {
+      mockLedger(
+        { PRINCIPAL: 4500000, INTEREST: 32000 },
+        { PRINCIPAL: 4500000, INTEREST: 32000 }
+      );
+
+      const result = await generateStatement(card, 3, 2025);
+
+      expect(result.created).toBe(true);
+      expect(mockPrisma.statement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          cardId: 1,
+          month: 3,
+          year: 2025,
+          balancePaise: 4532000,
+          interestPaise: 32000,
+          feesPaise: 0,
+          minDuePaise: 226600,
+          isPaid: false,
+        }),
+      });
+      expect(mockPrisma.ledgerEntry.createMany).not.toHaveBeenCalled();
+      expect(createStatementGeneratedNotification).toHaveBeenCalledWith(1, '9012', expect.any(Date), 4532000);
+    });
+
+    it('offsets the cycle\'s charges with the card\'s credit balance', async () => {
+      // A ₹1,000 overpayment last cycle, then ₹3,000 of purchases
+      mockLedger(
+        { PRINCIPAL: 300000, CREDIT_BALANCE: -100000 },
+        { PRINCIPAL: 300000 }
+      );
+
+      await generateStatement(card, 3, 2025);
+
+      expect(mockPrisma.ledgerEntry.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([
+          expect.objectContaining({ account: 'CREDIT_BALANCE', amountPaise: 100000, description: 'Credit balance applied' }),
+          expect.objectContaining({ account: 'PRINCIPAL', amountPaise: -100000 }),
+        ]),
+      });
+      expect(mockPrisma.statement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ balancePaise: 200000, isPaid: false }),
+      });
+    });
+
+    it('closes a cycle fully covered by credit as paid', async () => {
+      mockLedger(
+        { PRINCIPAL: 50000, CREDIT_BALANCE: -100000 },
+        { PRINCIPAL: 50000 }
+      );
+
+      await generateStatement(card, 3, 2025);
+
+      expect(mockPrisma.statement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ balancePaise: 0, minDuePaise: 0, isPaid: true }),
+      });
+    });
+
+    it('does not bill again what earlier unpaid statements already bill', async () => {
+      mockLedger(
+        { PRINCIPAL: 700000 },
+        { PRINCIPAL: 300000 }
+      );
+      (mockPrisma.statement.findMany as jest.Mock)
+        .mockResolvedValueOnce([]) // overdue statements for finance charges
+        .mockResolvedValueOnce([{ balancePaise: 400000 }]);
+
+      await generateStatement(card, 3, 2025);
+
+      expect(mockPrisma.statement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ balancePaise: 300000 }),
+      });
+    });
+
+    it('leaves an existing statement for the cycle untouched', async () => {
+      (mockPrisma.statement.findUnique as jest.Mock).mockResolvedValue({ id: 10, cardId: 1, month: 3, year: 2025 });
+
+      const result = await generateStatement(card, 3, 2025);
+
+      expect(result.created).toBe(false);
+      expect(mockPrisma.statement.create).not.toHaveBeenCalled();
+      expect(createStatementGeneratedNotification).not.toHaveBeenCalled();
+    });
+  });
+});
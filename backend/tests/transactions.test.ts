@@ -27,7 +27,7 @@ describe('Transactions Routes', () => {
           id: 1,
           cardId: 1,
           userId: 1,
-          amount: -480,
+          amountPaise: -48000,
           merchant: 'Swiggy - Food Delivery',
           category: 'Food & Dining',
           description: 'Food order',
@@ -94,9 +94,9 @@ describe('Transactions Routes', () => {
       expect(mockPrisma.transaction.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
           where: expect.objectContaining({
-            amount: {
-              gte: 100,
-              lte: 1000,
+            amountPaise: {
+              gte: 10000,
+              lte: 100000,
             },
           }),
         })
@@ -142,7 +142,7 @@ describe('Transactions Routes', () => {
       expect(mockPrisma.transaction.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
           orderBy: {
-            amount: 'asc',
+            amountPaise: 'asc',
           },
         })
       );
@@ -155,7 +155,7 @@ describe('Transactions Routes', () => {
         id: 1,
         cardId: 1,
         userId: 1,
-        amount: -480,
+        amountPaise: -48000,
         merchant: 'Swiggy - Food Delivery',
         category: 'Food & Dining',
         description: 'Food order',
@@ -200,7 +200,7 @@ describe('Transactions Routes', () => {
         id: 1,
         cardId: 1,
         userId: 1,
-        amount: -480,
+        amountPaise: -48000,
         merchant: 'Swiggy - Food Delivery',
         category: 'Food & Dining',
         description: 'Food order',
@@ -241,7 +241,7 @@ describe('Transactions Routes', () => {
         id: 1,
         cardId: 1,
         userId: 1,
-        amount: -480,
+        amountPaise: -48000,
         merchant: 'Swiggy - Food Delivery',
         category: 'Food & Dining',
         description: 'Food order',
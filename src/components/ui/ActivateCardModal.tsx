@@ -0,0 +1,296 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { XMarkIcon, CreditCardIcon } from '@heroicons/react/24/outline';
+import { useCards } from '../../hooks/useCards';
+import { useToast } from '../../hooks/useToast';
+
+type Step = 'ACTIVATE' | 'SET_PIN';
+
+interface ActivateCardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cardId: string;
+  cardType: string;
+  last4: string;
+  initialStep: Step;
+  onComplete: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm tracking-widest focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+// Keep only digits, up to the field's length
+const digitsOnly = (value: string, length: number) => value.replace(/\D/g, '').slice(0, length);
+
+export default function ActivateCardModal({
+  isOpen,
+  onClose,
+  cardId,
+  cardType,
+  last4,
+  initialStep,
+  onComplete
+}: ActivateCardModalProps) {
+  const [step, setStep] = useState<Step>(initialStep);
+  const [codeSent, setCodeSent] = useState(false);
+  const [details, setDetails] = useState({ last4: '', cvv: '', otp: '' });
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [pinOtp, setPinOtp] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const { requestActivationCode, activateCard, requestPinCode, setPin: savePin, isLoading, error, clearError } = useCards();
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep(initialStep);
+    setCodeSent(false);
+    setDetails({ last4: '', cvv: '', otp: '' });
+    setPin('');
+    setConfirmPin('');
+    setPinOtp('');
+    setFormError(null);
+    clearError();
+  }, [isOpen, initialStep, clearError]);
+
+  const handleSendCode = async () => {
+    const sent = step === 'ACTIVATE' ? await requestActivationCode(cardId) : await requestPinCode(cardId);
+    if (sent) {
+      setCodeSent(true);
+      showToast({
+        type: 'info',
+        title: 'Code Sent',
+        message: 'Enter the 6-digit verification code we sent you'
+      });
+    }
+  };
+
+  const handleActivate = async () => {
+    if (details.last4.length !== 4 || details.cvv.length !== 3 || details.otp.length !== 6) {
+      setFormError('Enter the last 4 digits, the 3-digit CVV and the 6-digit code');
+      return;
+    }
+    setFormError(null);
+
+    if (await activateCard(cardId, details)) {
+      showToast({
+        type: 'success',
+        title: 'Card Activated',
+        message: 'Now set a PIN for your card'
+      });
+      onComplete();
+      // The PIN needs a code of its own
+      setCodeSent(false);
+      setStep('SET_PIN');
+    } else {
+      // A failed attempt may have used up the code, so ask for a new one
+      setCodeSent(false);
+      setDetails(prev => ({ ...prev, otp: '' }));
+    }
+  };
+
+  const handleSetPin = async () => {
+    if (pin.length !== 4) {
+      setFormError('PIN must be 4 digits');
+      return;
+    }
+    if (pin !== confirmPin) {
+      setFormError('PINs do not match');
+      return;
+    }
+    if (pinOtp.length !== 6) {
+      setFormError('Enter the 6-digit verification code');
+      return;
+    }
+    setFormError(null);
+
+    if (await savePin(cardId, pin, pinOtp)) {
+      showToast({
+        type: 'success',
+        title: 'PIN Set',
+        message: `Your ${cardType} card ending in ${last4} is ready to use`
+      });
+      onComplete();
+      onClose();
+    } else {
+      setCodeSent(false);
+      setPinOtp('');
+    }
+  };
+
+  const sendCodeButton = (
+    <button
+      type="button"
+      onClick={handleSendCode}
+      disabled={isLoading}
+      className="px-4 py-2 whitespace-nowrap border border-primary-600 text-primary-600 dark:text-primary-400 text-sm font-medium rounded hover:bg-primary-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+    >
+      {codeSent ? 'Resend' : 'Send Code'}
+    </button>
+  );
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25 backdrop-blur-sm"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ duration: 0.2 }}
+              className="relative bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 w-full max-w-md p-6"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-white flex items-center">
+                  <CreditCardIcon className="w-5 h-5 mr-2" />
+                  {step === 'ACTIVATE' ? 'Activate Card' : 'Set Card PIN'}
+                </h3>
+                <button
+                  onClick={handleClose}
+                  disabled={isLoading}
+                  className="p-2 rounded-lg text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                >
+                  <XMarkIcon className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="mb-6">
+                <p className="text-sm font-medium text-slate-600 dark:text-slate-400 mb-1">
+                  {cardType} Card
+                </p>
+                <p className="text-lg font-semibold text-slate-900 dark:text-white">
+                  ****-****-****-{last4}
+                </p>
+              </div>
+
+              {step === 'ACTIVATE' ? (
+                <div className="space-y-4 mb-6">
+                  <p className="text-sm text-slate-500 dark:text-slate-400">
+                    Enter the details printed on the card you received and the verification code we send you.
+                  </p>
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Last 4 digits</span>
+                      <input
+                        inputMode="numeric"
+                        value={details.last4}
+                        onChange={(e) => setDetails(prev => ({ ...prev, last4: digitsOnly(e.target.value, 4) }))}
+                        className={inputClassName}
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">CVV</span>
+                      <input
+                        type="password"
+                        inputMode="numeric"
+                        value={details.cvv}
+                        onChange={(e) => setDetails(prev => ({ ...prev, cvv: digitsOnly(e.target.value, 3) }))}
+                        className={inputClassName}
+                      />
+                    </label>
+                  </div>
+                  <div>
+                    <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Verification code</span>
+                    <div className="flex space-x-3">
+                      <input
+                        inputMode="numeric"
+                        value={details.otp}
+                        onChange={(e) => setDetails(prev => ({ ...prev, otp: digitsOnly(e.target.value, 6) }))}
+                        disabled={!codeSent}
+                        placeholder={codeSent ? '6-digit code' : 'Send a code first'}
+                        className={inputClassName}
+                      />
+                      {sendCodeButton}
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-4 mb-6">
+                  <p className="text-sm text-slate-500 dark:text-slate-400">
+                    Choose a 4-digit PIN for ATM withdrawals and card payments at shops.
+                  </p>
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">New PIN</span>
+                      <input
+                        type="password"
+                        inputMode="numeric"
+                        value={pin}
+                        onChange={(e) => setPin(digitsOnly(e.target.value, 4))}
+                        className={inputClassName}
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Confirm PIN</span>
+                      <input
+                        type="password"
+                        inputMode="numeric"
+                        value={confirmPin}
+                        onChange={(e) => setConfirmPin(digitsOnly(e.target.value, 4))}
+                        className={inputClassName}
+                      />
+                    </label>
+                  </div>
+                  <div>
+                    <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Verification code</span>
+                    <div className="flex space-x-3">
+                      <input
+                        inputMode="numeric"
+                        value={pinOtp}
+                        onChange={(e) => setPinOtp(digitsOnly(e.target.value, 6))}
+                        disabled={!codeSent}
+                        placeholder={codeSent ? '6-digit code' : 'Send a code first'}
+                        className={inputClassName}
+                      />
+                      {sendCodeButton}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Errors */}
+              {(formError || error) && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg mb-4">
+                  <p className="text-sm text-red-600 dark:text-red-400">{formError || error}</p>
+                </div>
+              )}
+
+              {/* Action Buttons */}
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  disabled={isLoading}
+                  className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium rounded hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+                >
+                  {step === 'SET_PIN' ? 'Later' : 'Cancel'}
+                </button>
+                <button
+                  onClick={step === 'ACTIVATE' ? handleActivate : handleSetPin}
+                  disabled={isLoading || !codeSent}
+                  className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoading ? 'Please wait...' : step === 'ACTIVATE' ? 'Activate Card' : 'Set PIN'}
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
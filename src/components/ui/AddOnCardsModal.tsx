@@ -0,0 +1,358 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { XMarkIcon, UserGroupIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { useCards, AddOnCard, AddOnRelationship } from '../../hooks/useCards';
+import { useToast } from '../../hooks/useToast';
+import clsx from 'clsx';
+
+const RELATIONSHIPS: { value: AddOnRelationship; label: string }[] = [
+  { value: 'SPOUSE', label: 'Spouse' },
+  { value: 'PARENT', label: 'Parent' },
+  { value: 'CHILD', label: 'Child' },
+  { value: 'SIBLING', label: 'Sibling' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+const EMPTY_FORM = { holderName: '', relationship: 'SPOUSE' as AddOnRelationship, email: '', password: '', monthlyLimit: '' };
+
+const inputClassName = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+interface AddOnCardsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cardId: string;
+  cardType: string;
+  cardNumber: string;
+}
+
+export default function AddOnCardsModal({
+  isOpen,
+  onClose,
+  cardId,
+  cardType,
+  cardNumber
+}: AddOnCardsModalProps) {
+  const [addOnCards, setAddOnCards] = useState<AddOnCard[] | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingLimit, setEditingLimit] = useState<{ id: number; value: string } | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const { getAddOnCards, createAddOnCard, updateAddOnCard, closeAddOnCard, isLoading, error, clearError } = useCards();
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    clearError();
+    setShowForm(false);
+    setEditingLimit(null);
+    getAddOnCards(cardId).then(setAddOnCards);
+  }, [isOpen, cardId, getAddOnCards, clearError]);
+
+  const replaceAddOnCard = (updated: AddOnCard) => {
+    setAddOnCards(prev => prev?.map(addOnCard => (addOnCard.id === updated.id ? updated : addOnCard)) ?? prev);
+  };
+
+  const handleCreate = async () => {
+    const monthlyLimit = Number(form.monthlyLimit);
+    if (!form.holderName.trim() || !form.email.trim()) {
+      setFormError('Enter the holder\'s name and email');
+      return;
+    }
+    if (form.password.length < 8) {
+      setFormError('Password must be at least 8 characters');
+      return;
+    }
+    if (!Number.isFinite(monthlyLimit) || monthlyLimit <= 0) {
+      setFormError('Monthly limit must be a positive amount');
+      return;
+    }
+    setFormError(null);
+
+    const created = await createAddOnCard(cardId, { ...form, holderName: form.holderName.trim(), email: form.email.trim(), monthlyLimit });
+    if (created) {
+      setAddOnCards(prev => [...(prev ?? []), created]);
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      showToast({
+        type: 'success',
+        title: 'Add-on Card Issued',
+        message: `${created.holderName} can sign in with ${created.email} once the card arrives`
+      });
+    }
+  };
+
+  const handleToggleStatus = async (addOnCard: AddOnCard) => {
+    const updated = await updateAddOnCard(cardId, addOnCard.id, {
+      status: addOnCard.status === 'blocked' ? 'ACTIVE' : 'BLOCKED',
+    });
+    if (updated) {
+      replaceAddOnCard(updated);
+    }
+  };
+
+  const handleSaveLimit = async () => {
+    if (!editingLimit) return;
+    const monthlyLimit = Number(editingLimit.value);
+    if (!Number.isFinite(monthlyLimit) || monthlyLimit <= 0) {
+      setFormError('Monthly limit must be a positive amount');
+      return;
+    }
+    setFormError(null);
+
+    const updated = await updateAddOnCard(cardId, editingLimit.id, { monthlyLimit });
+    if (updated) {
+      replaceAddOnCard(updated);
+      setEditingLimit(null);
+    }
+  };
+
+  const handleCloseCard = async (addOnCard: AddOnCard) => {
+    if (!window.confirm(`Close ${addOnCard.holderName}'s add-on card ending in ${addOnCard.last4}? This cannot be undone.`)) {
+      return;
+    }
+    if (await closeAddOnCard(cardId, addOnCard.id)) {
+      setAddOnCards(prev => prev?.filter(card => card.id !== addOnCard.id) ?? prev);
+      showToast({
+        type: 'success',
+        title: 'Add-on Card Closed',
+        message: `The card ending in ${addOnCard.last4} can no longer be used`
+      });
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25 backdrop-blur-sm"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ duration: 0.2 }}
+              className="relative bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 w-full max-w-lg p-6"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-white flex items-center">
+                  <UserGroupIcon className="w-5 h-5 mr-2" />
+                  Add-on Cards
+                </h3>
+                <button
+                  onClick={handleClose}
+                  disabled={isLoading}
+                  className="p-2 rounded-lg text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                >
+                  <XMarkIcon className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="mb-6">
+                <p className="text-sm font-medium text-slate-600 dark:text-slate-400 mb-1">
+                  {cardType} Card
+                </p>
+                <p className="text-lg font-semibold text-slate-900 dark:text-white">
+                  {cardNumber}
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  Family members' purchases use this card's credit limit and appear on its statement
+                </p>
+              </div>
+
+              {/* Add-on card list */}
+              {!addOnCards ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                  {isLoading ? 'Loading add-on cards...' : 'Add-on cards are unavailable right now.'}
+                </p>
+              ) : addOnCards.length === 0 && !showForm ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                  No add-on cards yet.
+                </p>
+              ) : (
+                <div className="space-y-3 mb-6">
+                  {addOnCards.map(addOnCard => (
+                    <div
+                      key={addOnCard.id}
+                      className="p-4 border border-slate-200 dark:border-slate-700 rounded-lg"
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <div>
+                          <p className="text-sm font-medium text-slate-900 dark:text-white">{addOnCard.holderName}</p>
+                          <p className="text-xs text-slate-500 dark:text-slate-400">
+                            {addOnCard.number} · {RELATIONSHIPS.find(r => r.value === addOnCard.relationship)?.label}
+                          </p>
+                        </div>
+                        <span className={clsx(
+                          'px-2 py-0.5 rounded-full text-xs font-medium',
+                          addOnCard.status === 'blocked'
+                            ? 'bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300'
+                            : 'bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300'
+                        )}>
+                          {addOnCard.status === 'blocked' ? 'Blocked' : 'Active'}
+                        </span>
+                      </div>
+
+                      {editingLimit?.id === addOnCard.id ? (
+                        <div className="flex items-center space-x-2 mb-2">
+                          <input
+                            type="number"
+                            min="1"
+                            step="0.01"
+                            value={editingLimit.value}
+                            onChange={(e) => setEditingLimit({ id: addOnCard.id, value: e.target.value })}
+                            className={inputClassName}
+                          />
+                          <button
+                            onClick={handleSaveLimit}
+                            disabled={isLoading}
+                            className="px-3 py-2 bg-primary-600 hover:bg-primary-700 text-white text-xs font-medium rounded transition-colors disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-slate-600 dark:text-slate-400 mb-2">
+                          Spent ₹{addOnCard.spentThisMonth.toLocaleString()} of ₹{addOnCard.monthlyLimit.toLocaleString()} this month
+                        </p>
+                      )}
+
+                      <div className="flex space-x-3 text-xs font-medium">
+                        <button
+                          onClick={() => handleToggleStatus(addOnCard)}
+                          disabled={isLoading}
+                          className="text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+                        >
+                          {addOnCard.status === 'blocked' ? 'Unblock' : 'Block'}
+                        </button>
+                        <button
+                          onClick={() => setEditingLimit({ id: addOnCard.id, value: addOnCard.monthlyLimit.toString() })}
+                          disabled={isLoading}
+                          className="text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+                        >
+                          Change limit
+                        </button>
+                        <button
+                          onClick={() => handleCloseCard(addOnCard)}
+                          disabled={isLoading}
+                          className="text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                        >
+                          Close card
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* New add-on card */}
+              {showForm && (
+                <div className="space-y-3 mb-6">
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Holder name</span>
+                      <input
+                        type="text"
+                        value={form.holderName}
+                        onChange={(e) => setForm(prev => ({ ...prev, holderName: e.target.value }))}
+                        className={inputClassName}
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Relationship</span>
+                      <select
+                        value={form.relationship}
+                        onChange={(e) => setForm(prev => ({ ...prev, relationship: e.target.value as AddOnRelationship }))}
+                        className={inputClassName}
+                      >
+                        {RELATIONSHIPS.map(({ value, label }) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="block">
+                      <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Sign-in email</span>
+                      <input
+                        type="email"
+                        value={form.email}
+                        onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+                        className={inputClassName}
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Password</span>
+                      <input
+                        type="password"
+                        value={form.password}
+                        onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+                        className={inputClassName}
+                      />
+                    </label>
+                  </div>
+                  <label className="block">
+                    <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Monthly limit (₹)</span>
+                    <input
+                      type="number"
+                      min="1"
+                      step="0.01"
+                      value={form.monthlyLimit}
+                      onChange={(e) => setForm(prev => ({ ...prev, monthlyLimit: e.target.value }))}
+                      className={inputClassName}
+                    />
+                  </label>
+                </div>
+              )}
+
+              {formError && (
+                <p className="mb-4 text-sm text-red-600 dark:text-red-400">{formError}</p>
+              )}
+
+              {/* General Error */}
+              {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg mb-4">
+                  <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                </div>
+              )}
+
+              {/* Action Buttons */}
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={showForm ? () => setShowForm(false) : handleClose}
+                  disabled={isLoading}
+                  className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium rounded hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+                >
+                  {showForm ? 'Cancel' : 'Done'}
+                </button>
+                <button
+                  onClick={showForm ? handleCreate : () => setShowForm(true)}
+                  disabled={isLoading || !addOnCards}
+                  className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                >
+                  {showForm ? (isLoading ? 'Issuing...' : 'Issue Card') : (
+                    <>
+                      <PlusIcon className="w-4 h-4 mr-1" />
+                      Add Family Member
+                    </>
+                  )}
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
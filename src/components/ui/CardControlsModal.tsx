@@ -0,0 +1,286 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { XMarkIcon, AdjustmentsHorizontalIcon } from '@heroicons/react/24/outline';
+import { useCards, CardControls } from '../../hooks/useCards';
+import { useToast } from '../../hooks/useToast';
+import clsx from 'clsx';
+
+// Merchant categories the cardholder can block outright
+const CATEGORIES = ['Food & Dining', 'Shopping', 'Transport', 'Entertainment', 'Bills', 'Healthcare', 'Travel', 'Others'];
+
+const TOGGLES: { key: 'online' | 'international' | 'contactless' | 'atm'; label: string; description: string }[] = [
+  { key: 'online', label: 'Online Payments', description: 'Shopping on websites and apps' },
+  { key: 'international', label: 'International Usage', description: 'Merchants and ATMs outside India' },
+  { key: 'contactless', label: 'Contactless (Tap & Pay)', description: 'Tapping the card at a terminal' },
+  { key: 'atm', label: 'ATM Withdrawals', description: 'Cash from ATMs' },
+];
+
+const CAPS: { key: 'perTransactionLimit' | 'dailyLimit' | 'monthlyLimit'; label: string }[] = [
+  { key: 'perTransactionLimit', label: 'Per transaction' },
+  { key: 'dailyLimit', label: 'Daily' },
+  { key: 'monthlyLimit', label: 'Monthly' },
+];
+
+type CapInputs = Record<(typeof CAPS)[number]['key'], string>;
+
+const toCapInputs = (controls: CardControls): CapInputs => ({
+  perTransactionLimit: controls.perTransactionLimit?.toString() ?? '',
+  dailyLimit: controls.dailyLimit?.toString() ?? '',
+  monthlyLimit: controls.monthlyLimit?.toString() ?? '',
+});
+
+interface CardControlsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cardId: string;
+  cardType: string;
+  cardNumber: string;
+}
+
+export default function CardControlsModal({
+  isOpen,
+  onClose,
+  cardId,
+  cardType,
+  cardNumber
+}: CardControlsModalProps) {
+  const [controls, setControls] = useState<CardControls | null>(null);
+  const [caps, setCaps] = useState<CapInputs>({ perTransactionLimit: '', dailyLimit: '', monthlyLimit: '' });
+  const [capError, setCapError] = useState<string | null>(null);
+  const { getControls, updateControls, isLoading, error, clearError } = useCards();
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    clearError();
+    setCapError(null);
+    getControls(cardId).then(current => {
+      if (current) {
+        setControls(current);
+        setCaps(toCapInputs(current));
+      }
+    });
+  }, [isOpen, cardId, getControls, clearError]);
+
+  const handleToggle = (key: (typeof TOGGLES)[number]['key']) => {
+    setControls(prev => (prev ? { ...prev, [key]: !prev[key] } : prev));
+  };
+
+  const handleCategory = (category: string) => {
+    setControls(prev => {
+      if (!prev) return prev;
+      const blocked = prev.blockedCategories.includes(category)
+        ? prev.blockedCategories.filter(c => c !== category)
+        : [...prev.blockedCategories, category];
+      return { ...prev, blockedCategories: blocked };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!controls) return;
+
+    // An empty cap field removes the cap
+    const limits: Partial<Record<keyof CapInputs, number | null>> = {};
+    for (const { key, label } of CAPS) {
+      const value = caps[key].trim();
+      const amount = value === '' ? null : Number(value);
+      if (amount !== null && (!Number.isFinite(amount) || amount <= 0)) {
+        setCapError(`${label} limit must be a positive amount`);
+        return;
+      }
+      limits[key] = amount;
+    }
+    setCapError(null);
+
+    const updated = await updateControls(cardId, {
+      online: controls.online,
+      international: controls.international,
+      contactless: controls.contactless,
+      atm: controls.atm,
+      blockedCategories: controls.blockedCategories,
+      ...limits,
+    });
+
+    if (updated) {
+      showToast({
+        type: 'success',
+        title: 'Card Controls Updated',
+        message: 'Your card usage settings have been saved'
+      });
+      onClose();
+    } else {
+      showToast({
+        type: 'error',
+        title: 'Update Failed',
+        message: 'Failed to update card controls'
+      });
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25 backdrop-blur-sm"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ duration: 0.2 }}
+              className="relative bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 w-full max-w-lg p-6"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-white flex items-center">
+                  <AdjustmentsHorizontalIcon className="w-5 h-5 mr-2" />
+                  Card Controls
+                </h3>
+                <button
+                  onClick={handleClose}
+                  disabled={isLoading}
+                  className="p-2 rounded-lg text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                >
+                  <XMarkIcon className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="mb-6">
+                <p className="text-sm font-medium text-slate-600 dark:text-slate-400 mb-1">
+                  {cardType} Card
+                </p>
+                <p className="text-lg font-semibold text-slate-900 dark:text-white">
+                  {cardNumber}
+                </p>
+              </div>
+
+              {!controls ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                  {isLoading ? 'Loading card controls...' : 'Card controls are unavailable right now.'}
+                </p>
+              ) : (
+                <div className="space-y-6 mb-6">
+                  {/* Usage toggles */}
+                  <div className="space-y-4">
+                    {TOGGLES.map(({ key, label, description }) => (
+                      <div key={key} className="flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium text-slate-900 dark:text-white">{label}</p>
+                          <p className="text-xs text-slate-500 dark:text-slate-400">{description}</p>
+                        </div>
+                        <button
+                          onClick={() => handleToggle(key)}
+                          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                            controls[key] ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+                          }`}
+                        >
+                          <span
+                            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                              controls[key] ? 'translate-x-6' : 'translate-x-1'
+                            }`}
+                          />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Spend caps */}
+                  <div>
+                    <p className="text-sm font-medium text-slate-900 dark:text-white mb-1">Spend Limits</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                      Spent ₹{controls.spentToday.toLocaleString()} today and ₹{controls.spentThisMonth.toLocaleString()} this month. Leave a limit empty for no cap.
+                    </p>
+                    <div className="grid grid-cols-3 gap-3">
+                      {CAPS.map(({ key, label }) => (
+                        <label key={key} className="block">
+                          <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">{label}</span>
+                          <input
+                            type="number"
+                            min="1"
+                            step="0.01"
+                            value={caps[key]}
+                            onChange={(e) => setCaps(prev => ({ ...prev, [key]: e.target.value }))}
+                            placeholder="No limit"
+                            className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                    {capError && (
+                      <p className="mt-2 text-sm text-red-600 dark:text-red-400">{capError}</p>
+                    )}
+                  </div>
+
+                  {/* Blocked categories */}
+                  <div>
+                    <p className="text-sm font-medium text-slate-900 dark:text-white mb-1">Blocked Categories</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                      Purchases in these categories will be declined
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {CATEGORIES.map(category => {
+                        const blocked = controls.blockedCategories.includes(category);
+                        return (
+                          <button
+                            key={category}
+                            onClick={() => handleCategory(category)}
+                            className={clsx(
+                              'px-3 py-1 rounded-full text-xs font-medium border transition-colors',
+                              blocked
+                                ? 'bg-red-100 dark:bg-red-900/50 border-red-300 dark:border-red-700 text-red-700 dark:text-red-300'
+                                : 'border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+                            )}
+                          >
+                            {category}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* General Error */}
+              {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg mb-4">
+                  <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                </div>
+              )}
+
+              {/* Action Buttons */}
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  disabled={isLoading}
+                  className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium rounded hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={isLoading || !controls}
+                  className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoading ? 'Saving...' : 'Save Controls'}
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
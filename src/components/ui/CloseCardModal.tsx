@@ -0,0 +1,264 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { XMarkIcon, ExclamationTriangleIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { useCards, CardClosure, CardClosureQuote, ClosureBlocker } from '../../hooks/useCards';
+import { useToast } from '../../hooks/useToast';
+import { cardsAPI } from '../../services/api';
+
+const formatAmount = (rupees: number) =>
+  `₹${rupees.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const describeBlocker = (blocker: ClosureBlocker, quote: CardClosureQuote) => {
+  switch (blocker) {
+    case 'OUTSTANDING_BALANCE':
+      return `Pay the outstanding balance of ${formatAmount(quote.outstandingBalance)}`;
+    case 'PENDING_HOLDS':
+      return `Wait for ${formatAmount(quote.pendingHolds)} of pending transactions to settle`;
+    case 'PAYMENTS_IN_FLIGHT':
+      return 'Wait for payments still being processed to complete';
+  }
+};
+
+interface CloseCardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cardId: string;
+  cardType: string;
+  cardNumber: string;
+  onSuccess: () => void;
+}
+
+export default function CloseCardModal({
+  isOpen,
+  onClose,
+  cardId,
+  cardType,
+  cardNumber,
+  onSuccess
+}: CloseCardModalProps) {
+  const [quote, setQuote] = useState<CardClosureQuote | null>(null);
+  const [closure, setClosure] = useState<CardClosure | null>(null);
+  const [password, setPassword] = useState('');
+  const { getClosureQuote, closeCard, isLoading, error, clearError } = useCards();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    clearError();
+    setClosure(null);
+    setPassword('');
+    getClosureQuote(cardId).then(setQuote);
+  }, [isOpen, cardId, getClosureQuote, clearError]);
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  const handlePayOff = () => {
+    onClose();
+    navigate('/payments');
+  };
+
+  const handleConfirm = async () => {
+    const closed = await closeCard(cardId, password);
+    if (closed) {
+      setClosure(closed);
+      showToast({
+        type: 'success',
+        title: 'Card Closed',
+        message: closed.refund > 0
+          ? `${formatAmount(closed.refund)} will be refunded to you`
+          : 'Your card has been closed'
+      });
+      onSuccess();
+    }
+  };
+
+  const handleDownloadLetter = async () => {
+    try {
+      await cardsAPI.downloadNoDuesLetter(cardId, cardNumber.slice(-4));
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Download Failed',
+        message: err instanceof Error ? err.message : 'Could not download the no-dues letter'
+      });
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25 backdrop-blur-sm"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ duration: 0.2 }}
+              className="relative bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 w-full max-w-md p-6"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-white">
+                  Close Card
+                </h3>
+                <button
+                  onClick={handleClose}
+                  disabled={isLoading}
+                  className="p-2 rounded-lg text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                >
+                  <XMarkIcon className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="text-center mb-6">
+                <div className="w-16 h-16 bg-red-100 dark:bg-red-900/50 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <ExclamationTriangleIcon className="w-8 h-8 text-red-600 dark:text-red-400" />
+                </div>
+                <p className="text-sm font-medium text-slate-600 dark:text-slate-400 mb-1">
+                  {cardType} Card
+                </p>
+                <p className="text-lg font-semibold text-slate-900 dark:text-white">
+                  {cardNumber}
+                </p>
+              </div>
+
+              {closure ? (
+                <div className="space-y-4">
+                  <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 text-sm text-slate-600 dark:text-slate-400 space-y-1">
+                    <p>Your card is closed. It stays in your history, read-only.</p>
+                    {closure.rewardPoints > 0 && (
+                      <p>
+                        {closure.rewardPoints.toLocaleString('en-IN')} reward points{' '}
+                        {closure.rewardsOutcome === 'CONVERTED'
+                          ? `converted to ${formatAmount(closure.rewardsValue)}`
+                          : 'forfeited'}
+                      </p>
+                    )}
+                    {closure.refund > 0 && <p>{formatAmount(closure.refund)} will be refunded within 7 working days</p>}
+                  </div>
+                  <div className="flex space-x-3">
+                    <button
+                      type="button"
+                      onClick={handleDownloadLetter}
+                      className="flex-1 flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium rounded hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                    >
+                      <DocumentTextIcon className="w-4 h-4 mr-2" />
+                      No-Dues Letter
+                    </button>
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded transition-colors"
+                    >
+                      Done
+                    </button>
+                  </div>
+                </div>
+              ) : !quote ? (
+                <p className="text-sm text-center text-slate-500 dark:text-slate-400 mb-4">
+                  {isLoading ? 'Checking your card...' : 'Could not check whether this card can be closed.'}
+                </p>
+              ) : !quote.canClose ? (
+                <div className="space-y-4">
+                  <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+                    <p className="text-sm font-medium text-amber-800 dark:text-amber-300 mb-1">
+                      Before this card can be closed:
+                    </p>
+                    <ul className="text-sm text-amber-700 dark:text-amber-400 list-disc list-inside">
+                      {quote.blockers.map(blocker => (
+                        <li key={blocker}>{describeBlocker(blocker, quote)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div className="flex space-x-3">
+                    <button
+                      type="button"
+                      onClick={handleClose}
+                      className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium rounded hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    {quote.blockers.includes('OUTSTANDING_BALANCE') && (
+                      <button
+                        type="button"
+                        onClick={handlePayOff}
+                        className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded transition-colors"
+                      >
+                        Pay {formatAmount(quote.outstandingBalance)}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <ul className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 text-sm text-slate-600 dark:text-slate-400 list-disc list-inside space-y-1">
+                    {quote.rewardPoints > 0 && (
+                      <li>
+                        {quote.rewardPoints.toLocaleString('en-IN')} reward points will be{' '}
+                        {quote.rewardsOutcome === 'CONVERTED'
+                          ? `converted to ${formatAmount(quote.rewardsValue)}`
+                          : 'forfeited'}
+                      </li>
+                    )}
+                    {quote.refund > 0 && <li>{formatAmount(quote.refund)} will be refunded to you</li>}
+                    {quote.autopayEnabled && <li>Autopay will be turned off</li>}
+                    {quote.scheduledPayments > 0 && <li>{quote.scheduledPayments} scheduled payment(s) will be cancelled</li>}
+                    {quote.addOnCards > 0 && <li>{quote.addOnCards} add-on card(s) will be closed</li>}
+                    <li>This can't be undone</li>
+                  </ul>
+
+                  <label className="block">
+                    <span className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Confirm with your password</span>
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={e => setPassword(e.target.value)}
+                      className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </label>
+
+                  <div className="flex space-x-3">
+                    <button
+                      type="button"
+                      onClick={handleClose}
+                      disabled={isLoading}
+                      className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium rounded hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleConfirm}
+                      disabled={isLoading || !password}
+                      className="flex-1 px-4 py-2 bg-red-600 hover:bg-red-700 text-white font-medium rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Close Card
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg mt-4">
+                  <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                </div>
+              )}
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,12 +1,26 @@
 // src/components/ui/PayBillModal.tsx
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { XMarkIcon, BanknotesIcon, CreditCardIcon, BoltIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { XMarkIcon, BanknotesIcon, CreditCardIcon, BoltIcon, ExclamationTriangleIcon, CalendarDaysIcon } from '@heroicons/react/24/outline';
 import { usePayments } from '../../hooks/usePayments';
 import { useToast } from '../../hooks/useToast';
-import { accountsAPI } from '../../services/api';
+import { accountsAPI, paymentsAPI } from '../../services/api';
 import clsx from 'clsx';
 
+// YYYY-MM-DD in the user's timezone, as date inputs and the scheduling API expect
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const tomorrow = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return toDateInput(date);
+};
+
+interface PaymentOptionsResponse {
+  data?: { chargeOutsideCheckout?: boolean };
+}
+
 interface PayBillModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -24,8 +38,13 @@ export default function PayBillModal({
 }: PayBillModalProps) {
   const [amount, setAmount] = useState('');
   const [paymentMethod, setPaymentMethod] = useState('');
-  const [errors, setErrors] = useState<{ amount?: string; method?: string }>({});
-  const { makePayment, isLoading, error, clearError } = usePayments();
+  const [payLater, setPayLater] = useState(false);
+  const [scheduleDate, setScheduleDate] = useState(tomorrow);
+  const [repeatMonthly, setRepeatMonthly] = useState(false);
+  // Only offered once the gateway is known to charge scheduled payments
+  const [canPayLater, setCanPayLater] = useState(false);
+  const [errors, setErrors] = useState<{ amount?: string; method?: string; date?: string }>({});
+  const { makePayment, schedulePayment, isLoading, error, clearError } = usePayments();
   const { showToast } = useToast();
 
   const [accountId, setAccountId] = useState<number | null>(null);
@@ -127,11 +146,26 @@ export default function PayBillModal({
     return () => { mounted = false; };
   }, []);
 
+  useEffect(() => {
+    let mounted = true;
+
+    paymentsAPI.getOptions()
+      .then((resp: PaymentOptionsResponse) => {
+        if (mounted) setCanPayLater(resp?.data?.chargeOutsideCheckout === true);
+      })
+      .catch(err => console.error('Failed to load payment options:', err));
+
+    return () => { mounted = false; };
+  }, []);
+
   // Reset inputs when modal opens
   useEffect(() => {
     if (isOpen) {
       setAmount('');
       setPaymentMethod('');
+      setPayLater(false);
+      setScheduleDate(tomorrow());
+      setRepeatMonthly(false);
       setErrors({});
       clearError();
     }
@@ -182,7 +216,8 @@ export default function PayBillModal({
     if (isNaN(numValue) || numValue <= 0) {
       return 'Please enter a valid amount greater than 0';
     }
-    if (numValue > outstandingBalance) {
+    // A monthly payment is for future bills, so today's balance doesn't cap it
+    if (numValue > outstandingBalance && !(payLater && repeatMonthly)) {
       return `Amount cannot exceed outstanding balance of ₹${outstandingBalance.toLocaleString()}`;
     }
     return '';
@@ -195,6 +230,19 @@ export default function PayBillModal({
     return '';
   };
 
+  const validateDate = () => {
+    if (!payLater) {
+      return '';
+    }
+    if (!scheduleDate) {
+      return 'Please choose a payment date';
+    }
+    if (scheduleDate < toDateInput(new Date())) {
+      return 'Payment date cannot be in the past';
+    }
+    return '';
+  };
+
   const handleAmountChange = (value: string) => {
     let sanitizedValue = value.replace(/[^0-9.]/g, '');
     const parts = sanitizedValue.split('.');
@@ -227,13 +275,15 @@ export default function PayBillModal({
   const validateForm = () => {
     const amountError = validateAmount(amount);
     const methodError = validateMethod();
+    const dateError = validateDate();
 
     setErrors({
       amount: amountError,
-      method: methodError
+      method: methodError,
+      date: dateError
     });
 
-    return !amountError && !methodError;
+    return !amountError && !methodError && !dateError;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -252,6 +302,30 @@ export default function PayBillModal({
       const paymentAmount = parseFloat(amount);
       const accountIdStr = typeof accountId === 'number' ? String(accountId) : (accountId ?? '');
 
+      if (payLater) {
+        const scheduled = await schedulePayment(
+          accountIdStr,
+          paymentAmount,
+          paymentMethod,
+          scheduleDate,
+          repeatMonthly ? 'MONTHLY' : 'ONCE'
+        );
+
+        if (scheduled) {
+          const when = new Date(`${scheduleDate}T00:00:00`).toLocaleDateString();
+          showToast({
+            type: 'success',
+            title: 'Payment Scheduled',
+            message: repeatMonthly
+              ? `₹${scheduled.amount.toLocaleString()} will be paid every month from ${when}`
+              : `₹${scheduled.amount.toLocaleString()} will be paid on ${when}`,
+            duration: 6000
+          });
+          onClose();
+        }
+        return;
+      }
+
       const result = await makePayment(accountIdStr, paymentAmount, paymentMethod);
 
       if (result) {
@@ -286,7 +360,7 @@ export default function PayBillModal({
   };
 
   // Keep submission blocked while accounts are still loading or accountId not resolved.
-  const payButtonDisabled = isLoading || accountsLoading || !amount || !paymentMethod || !hasValidAccountId;
+  const payButtonDisabled = isLoading || accountsLoading || !amount || !paymentMethod || !hasValidAccountId || (payLater && !scheduleDate);
 
   return (
     <AnimatePresence>
@@ -380,6 +454,77 @@ export default function PayBillModal({
                   </div>
                 </div>
 
+                {/* When to Pay */}
+                {canPayLater && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
+                      When to Pay
+                    </label>
+                    <div className="flex gap-2">
+                      {[
+                        { later: false, label: 'Pay now' },
+                        { later: true, label: 'Pay later' }
+                      ].map(option => (
+                        <button
+                          key={option.label}
+                          type="button"
+                          onClick={() => {
+                            setPayLater(option.later);
+                            setErrors(prev => ({ ...prev, amount: '', date: '' }));
+                          }}
+                          className={clsx(
+                            'flex-1 px-3 py-2 text-sm font-medium rounded border-2 transition-colors',
+                            payLater === option.later
+                              ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/50 text-primary-700 dark:text-primary-300'
+                              : 'border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:border-primary-300 dark:hover:border-primary-700'
+                          )}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+
+                    {payLater && (
+                      <div className="mt-3 space-y-3">
+                        <div className="relative">
+                          <CalendarDaysIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                          <input
+                            type="date"
+                            value={scheduleDate}
+                            min={toDateInput(new Date())}
+                            onChange={(e) => {
+                              setScheduleDate(e.target.value);
+                              if (errors.date) {
+                                setErrors(prev => ({ ...prev, date: '' }));
+                              }
+                            }}
+                            className="w-full pl-10 pr-4 py-2 rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:border-primary-500 focus:ring-2 focus:ring-primary-500"
+                          />
+                        </div>
+                        <label className="flex items-center text-sm text-slate-700 dark:text-slate-300">
+                          <input
+                            type="checkbox"
+                            checked={repeatMonthly}
+                            onChange={(e) => setRepeatMonthly(e.target.checked)}
+                            className="mr-2 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                          />
+                          Repeat every month on this day
+                        </label>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          A scheduled payment is skipped when your statement is already paid.
+                        </p>
+                      </div>
+                    )}
+
+                    {errors.date && (
+                      <div className="mt-2 flex items-center text-red-600 dark:text-red-400">
+                        <ExclamationTriangleIcon className="w-4 h-4 mr-2" />
+                        <span className="text-sm">{errors.date}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Payment Method */}
                 <div>
                   <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
@@ -474,7 +619,9 @@ export default function PayBillModal({
                         Processing...
                       </div>
                     ) : (
-                      amount ? `Pay ₹${parseFloat(amount || '0').toLocaleString()}` : 'Enter Amount'
+                      amount
+                        ? `${payLater ? 'Schedule' : 'Pay'} ₹${parseFloat(amount || '0').toLocaleString()}`
+                        : 'Enter Amount'
                     )}
                   </button>
                 </div>
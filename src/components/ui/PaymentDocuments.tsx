@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowDownTrayIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { paymentsAPI, statementsAPI } from '../../services/api';
+import { useToast } from '../../hooks/useToast';
+
+interface PaymentItem {
+  id: string;
+  amount: number;
+  method: string;
+  status: string;
+  createdAt: string;
+}
+
+interface StatementItem {
+  id: number;
+  month: number;
+  year: number;
+  dueDate: string;
+  balance: number;
+  card?: { last4?: string };
+}
+
+interface ListResponse<T> {
+  data?: T[];
+}
+
+interface PaymentDocumentsProps {
+  limit?: number;
+  className?: string;
+}
+
+// Payments that have a receipt to download
+const RECEIPT_STATUSES = ['success', 'refunded', 'reversed'];
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const statementLabel = (statement: StatementItem) =>
+  new Date(statement.year, statement.month - 1, 1).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+
+export default function PaymentDocuments({ limit = 5, className = '' }: PaymentDocumentsProps) {
+  const [payments, setPayments] = useState<PaymentItem[]>([]);
+  const [statements, setStatements] = useState<StatementItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    let mounted = true;
+
+    (async () => {
+      try {
+        const [paymentsResponse, statementsResponse]: [ListResponse<PaymentItem>, ListResponse<StatementItem>] = await Promise.all([
+          paymentsAPI.getUserPayments(),
+          statementsAPI.getStatements({ limit }),
+        ]);
+        if (!mounted) return;
+
+        const paymentList = paymentsResponse?.data ?? [];
+        setPayments(paymentList.filter(payment => RECEIPT_STATUSES.includes(payment.status)).slice(0, limit));
+        setStatements(statementsResponse?.data ?? []);
+      } catch (err) {
+        console.error('Failed to load payment documents:', err);
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+
+    return () => { mounted = false; };
+  }, [limit]);
+
+  const download = async (key: string, action: () => Promise<void>) => {
+    setDownloading(key);
+    try {
+      await action();
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Download Failed',
+        message: err instanceof Error ? err.message : 'Could not download the document',
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const buttonClass =
+    'inline-flex items-center px-3 py-1.5 text-sm bg-primary-50 dark:bg-primary-900 text-primary-700 dark:text-primary-300 rounded hover:bg-primary-100 dark:hover:bg-primary-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`bg-white dark:bg-slate-800 rounded p-6 sm:p-8 shadow-sm border border-slate-200 dark:border-slate-700 ${className}`}
+    >
+      <div className="flex items-center mb-6">
+        <DocumentTextIcon className="w-6 h-6 text-primary-600 mr-2" />
+        <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Receipts &amp; Statements</h2>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Loading your documents…</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          <div>
+            <h3 className="text-sm font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-3">
+              Payment receipts
+            </h3>
+            {payments.length === 0 ? (
+              <p className="text-sm text-slate-500">No completed payments yet.</p>
+            ) : (
+              <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+                {payments.map(payment => (
+                  <li key={payment.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium text-slate-900 dark:text-white">₹{payment.amount.toLocaleString()}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {formatDate(payment.createdAt)} · {payment.method}
+                        {payment.status !== 'success' && ` · ${payment.status}`}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      className={buttonClass}
+                      disabled={downloading !== null}
+                      onClick={() => download(`payment-${payment.id}`, () => paymentsAPI.downloadReceipt(payment.id))}
+                    >
+                      <ArrowDownTrayIcon className="w-4 h-4 mr-1" />
+                      {downloading === `payment-${payment.id}` ? 'Downloading…' : 'Receipt'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-3">
+              Monthly statements
+            </h3>
+            {statements.length === 0 ? (
+              <p className="text-sm text-slate-500">No statements yet.</p>
+            ) : (
+              <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+                {statements.map(statement => (
+                  <li key={statement.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium text-slate-900 dark:text-white">{statementLabel(statement)}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {statement.card?.last4 ? `Card ending ${statement.card.last4} · ` : ''}Due {formatDate(statement.dueDate)}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      className={buttonClass}
+                      disabled={downloading !== null}
+                      onClick={() => download(
+                        `statement-${statement.id}`,
+                        () => statementsAPI.downloadStatement(
+                          statement.id,
+                          `statement-${statement.year}-${String(statement.month).padStart(2, '0')}.pdf`
+                        )
+                      )}
+                    >
+                      <ArrowDownTrayIcon className="w-4 h-4 mr-1" />
+                      {downloading === `statement-${statement.id}` ? 'Downloading…' : 'PDF'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -86,10 +86,6 @@ export function AuthProvider({ children }: AuthProviderProps) {
       localStorage.setItem('user', JSON.stringify(u));
       localStorage.removeItem('isNewUser');
 
-      // Reset outstanding balance to default value for this user on login
-      const userBalanceKey = `outstandingBalance_${u.id}`;
-      localStorage.setItem(userBalanceKey, '45345');
-
       setUser(u);
       setIsNewUser(false);
 
@@ -117,10 +113,6 @@ export function AuthProvider({ children }: AuthProviderProps) {
       localStorage.setItem('user', JSON.stringify(u));
       localStorage.setItem('isNewUser', 'true');
 
-      // Set initial outstanding balance for new user
-      const userBalanceKey = `outstandingBalance_${u.id}`;
-      localStorage.setItem(userBalanceKey, '45345');
-
       setUser(u);
       setIsNewUser(true);
 
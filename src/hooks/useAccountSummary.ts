@@ -0,0 +1,66 @@
+import { useState, useCallback, useEffect } from 'react';
+import { dashboardAPI } from '../services/api';
+
+// A delivered card still to be activated, or activated but without a PIN
+export interface PendingActivation {
+  cardId: number;
+  last4: string;
+  cardType: string;
+  nextStep: 'ACTIVATE' | 'SET_PIN';
+}
+
+export interface AccountSummary {
+  outstandingBalance: number;
+  totalCreditLimit: number;
+  availableCredit: number;
+  creditBalance: number; // Overpayments held on cards, offset against the next statement
+  pendingHolds: number; // Authorized card transactions not yet settled; already out of availableCredit
+  totalRewards: number;
+  pendingActivations: PendingActivation[];
+}
+
+interface UseAccountSummaryReturn {
+  summary: AccountSummary | null;
+  outstandingBalance: number;
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+// Balances come from the backend ledger; nothing is cached client-side
+export function useAccountSummary(userId?: string): UseAccountSummaryReturn {
+  const [summary, setSummary] = useState<AccountSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await dashboardAPI.getSummary();
+      if (response?.success && response.data) {
+        setSummary({
+          outstandingBalance: response.data.outstandingBalance,
+          totalCreditLimit: response.data.totalCreditLimit,
+          availableCredit: response.data.availableCredit,
+          creditBalance: response.data.creditBalance ?? 0,
+          pendingHolds: response.data.pendingHolds ?? 0,
+          totalRewards: response.data.totalRewards,
+          pendingActivations: response.data.pendingActivations ?? [],
+        });
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (userId) {
+      void refresh();
+    }
+  }, [userId, refresh]);
+
+  return {
+    summary,
+    outstandingBalance: Math.max(0, summary?.outstandingBalance ?? 0),
+    isLoading,
+    refresh,
+  };
+}
@@ -9,11 +9,118 @@ interface CardStatus {
   lastUpdated: string;
 }
 
+export interface CardControls {
+  online: boolean;
+  international: boolean;
+  contactless: boolean;
+  atm: boolean;
+  perTransactionLimit: number | null;
+  dailyLimit: number | null;
+  monthlyLimit: number | null;
+  blockedCategories: string[];
+  spentToday: number;
+  spentThisMonth: number;
+}
+
+export type CardControlsUpdate = Partial<Omit<CardControls, 'spentToday' | 'spentThisMonth'>>;
+
+export type AddOnRelationship = 'SPOUSE' | 'PARENT' | 'CHILD' | 'SIBLING' | 'OTHER';
+
+export interface AddOnCard {
+  id: number;
+  holderName: string;
+  relationship: AddOnRelationship;
+  email: string;
+  number: string;
+  last4: string;
+  status: 'active' | 'blocked' | 'closed';
+  monthlyLimit: number;
+  spentThisMonth: number;
+  availableThisMonth: number;
+  controls: {
+    online: boolean;
+    international: boolean;
+    contactless: boolean;
+    atm: boolean;
+    perTransactionLimit: number | null;
+    blockedCategories: string[];
+  };
+  pinSet: boolean;
+  pinLocked: boolean;
+}
+
+export interface NewAddOnCard {
+  holderName: string;
+  relationship: AddOnRelationship;
+  email: string;
+  password: string; // The add-on holder signs in with this
+  monthlyLimit: number;
+}
+
+export type AddOnCardUpdate = Partial<{
+  status: 'ACTIVE' | 'BLOCKED';
+  monthlyLimit: number;
+  online: boolean;
+  international: boolean;
+  contactless: boolean;
+  atm: boolean;
+  perTransactionLimit: number | null;
+  blockedCategories: string[];
+}>;
+
+export type ClosureBlocker = 'OUTSTANDING_BALANCE' | 'PENDING_HOLDS' | 'PAYMENTS_IN_FLIGHT';
+
+export interface CardClosureQuote {
+  outstandingBalance: number;
+  creditBalance: number;
+  pendingHolds: number;
+  paymentsInFlight: number;
+  rewardPoints: number;
+  rewardsOutcome: 'CONVERTED' | 'FORFEITED';
+  rewardsValue: number;
+  refund: number;
+  blockers: ClosureBlocker[];
+  canClose: boolean;
+  autopayEnabled: boolean;
+  scheduledPayments: number;
+  addOnCards: number;
+}
+
+export interface CardClosure {
+  status: 'CLOSED';
+  closedAt: string;
+  rewardPoints: number;
+  rewardsOutcome: 'CONVERTED' | 'FORFEITED';
+  rewardsValue: number;
+  refund: number;
+  autopayCancelled: boolean;
+  scheduledPaymentsCancelled: number;
+  addOnCardsClosed: number;
+}
+
+export interface CardActivationDetails {
+  last4: string;
+  cvv: string;
+  otp: string;
+}
+
 interface UseCardsReturn {
   isLoading: boolean;
   error: string | null;
   blockCard: (cardId: string, action: 'block' | 'unblock') => Promise<boolean>;
   getCardStatus: (cardId: string) => Promise<CardStatus | null>;
+  getControls: (cardId: string) => Promise<CardControls | null>;
+  updateControls: (cardId: string, changes: CardControlsUpdate) => Promise<CardControls | null>;
+  getAddOnCards: (cardId: string) => Promise<AddOnCard[] | null>;
+  createAddOnCard: (cardId: string, details: NewAddOnCard) => Promise<AddOnCard | null>;
+  updateAddOnCard: (cardId: string, addOnId: number, changes: AddOnCardUpdate) => Promise<AddOnCard | null>;
+  closeAddOnCard: (cardId: string, addOnId: number) => Promise<boolean>;
+  getClosureQuote: (cardId: string) => Promise<CardClosureQuote | null>;
+  closeCard: (cardId: string, password: string) => Promise<CardClosure | null>;
+  requestActivationCode: (cardId: string) => Promise<boolean>;
+  activateCard: (cardId: string, details: CardActivationDetails) => Promise<boolean>;
+  requestPinCode: (cardId: string) => Promise<boolean>;
+  setPin: (cardId: string, pin: string, otp: string) => Promise<boolean>;
   clearError: () => void;
 }
 
@@ -69,11 +176,287 @@ export function useCards(): UseCardsReturn {
     }
   }, []);
 
+  const getControls = useCallback(async (cardId: string): Promise<CardControls | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await cardsAPI.getControls(cardId);
+
+      if (response.success) {
+        return response.data;
+      } else {
+        setError(response.message || 'Failed to fetch card controls');
+        return null;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch card controls';
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const updateControls = useCallback(async (cardId: string, changes: CardControlsUpdate): Promise<CardControls | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await cardsAPI.updateControls(cardId, changes);
+
+      if (response.success) {
+        return response.data;
+      } else {
+        setError(response.message || 'Failed to update card controls');
+        return null;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update card controls';
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const getAddOnCards = useCallback(async (cardId: string): Promise<AddOnCard[] | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await cardsAPI.getAddOnCards(cardId);
+
+      if (response.success) {
+        return response.data;
+      } else {
+        setError(response.message || 'Failed to fetch add-on cards');
+        return null;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch add-on cards';
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const createAddOnCard = useCallback(async (cardId: string, details: NewAddOnCard): Promise<AddOnCard | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await cardsAPI.createAddOnCard(cardId, { ...details });
+
+      if (response.success) {
+        return response.data;
+      } else {
+        setError(response.message || 'Failed to issue add-on card');
+        return null;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to issue add-on card';
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const updateAddOnCard = useCallback(async (cardId: string, addOnId: number, changes: AddOnCardUpdate): Promise<AddOnCard | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await cardsAPI.updateAddOnCard(cardId, addOnId, changes);
+
+      if (response.success) {
+        return response.data;
+      } else {
+        setError(response.message || 'Failed to update add-on card');
+        return null;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update add-on card';
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const closeAddOnCard = useCallback(async (cardId: string, addOnId: number): Promise<boolean> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await cardsAPI.closeAddOnCard(cardId, addOnId);
+
+      if (response.success) {
+        return true;
+      } else {
+        setError(response.message || 'Failed to close add-on card');
+        return false;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to close add-on card';
+      setError(errorMessage);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const getClosureQuote = useCallback(async (cardId: string): Promise<CardClosureQuote | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await cardsAPI.getClosureQuote(cardId);
+
+      if (response.success) {
+        return response.data;
+      } else {
+        setError(response.message || 'Failed to check card closure');
+        return null;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to check card closure';
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const closeCard = useCallback(async (cardId: string, password: string): Promise<CardClosure | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await cardsAPI.closeCard(cardId, password);
+
+      if (response.success) {
+        return response.data;
+      } else {
+        setError(response.message || 'Failed to close card');
+        return null;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to close card';
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const requestActivationCode = useCallback(async (cardId: string): Promise<boolean> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await cardsAPI.requestActivationCode(cardId);
+
+      if (response.success) {
+        return true;
+      } else {
+        setError(response.message || 'Failed to send verification code');
+        return false;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to send verification code';
+      setError(errorMessage);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const activateCard = useCallback(async (cardId: string, details: CardActivationDetails): Promise<boolean> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await cardsAPI.activateCard(cardId, details);
+
+      if (response.success) {
+        return true;
+      } else {
+        setError(response.message || 'Failed to activate card');
+        return false;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to activate card';
+      setError(errorMessage);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const requestPinCode = useCallback(async (cardId: string): Promise<boolean> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await cardsAPI.requestPinCode(cardId);
+
+      if (response.success) {
+        return true;
+      } else {
+        setError(response.message || 'Failed to send verification code');
+        return false;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to send verification code';
+      setError(errorMessage);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const setPin = useCallback(async (cardId: string, pin: string, otp: string): Promise<boolean> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await cardsAPI.setPin(cardId, pin, otp);
+
+      if (response.success) {
+        return true;
+      } else {
+        setError(response.message || 'Failed to set PIN');
+        return false;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to set PIN';
+      setError(errorMessage);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
   return {
     isLoading,
     error,
     blockCard,
     getCardStatus,
+    getControls,
+    updateControls,
+    getAddOnCards,
+    createAddOnCard,
+    updateAddOnCard,
+    closeAddOnCard,
+    getClosureQuote,
+    closeCard,
+    requestActivationCode,
+    activateCard,
+    requestPinCode,
+    setPin,
     clearError,
   };
 }
\ No newline at end of file
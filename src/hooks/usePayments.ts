@@ -1,19 +1,45 @@
 import { useState, useCallback } from 'react';
 import { paymentsAPI } from '../services/api';
 
+type PaymentStatus = 'created' | 'pending' | 'processing' | 'success' | 'failed' | 'reversed' | 'refunded';
+
 interface PaymentData {
   paymentId: string;
   amount: number;
   method: string;
-  status: 'pending' | 'success' | 'failed';
+  status: PaymentStatus;
   newBalance?: number;
   timestamp: string;
 }
 
+type ScheduleFrequency = 'ONCE' | 'MONTHLY';
+
+interface ScheduledPaymentData {
+  id: number;
+  amount: number;
+  method: string;
+  frequency: Lowercase<ScheduleFrequency>;
+  nextRunDate: string | null;
+  status: 'active' | 'paused' | 'completed' | 'cancelled';
+}
+
+interface ScheduledPaymentResponse {
+  success: boolean;
+  data?: ScheduledPaymentData;
+  message?: string;
+}
+
 interface UsePaymentsReturn {
   isLoading: boolean;
   error: string | null;
   makePayment: (accountId: string | number, amount: number, method: string) => Promise<PaymentData | null>;
+  schedulePayment: (
+    accountId: string | number,
+    amount: number,
+    method: string,
+    startDate: string,
+    frequency?: ScheduleFrequency
+  ) => Promise<ScheduledPaymentData | null>;
   getPaymentHistory: () => Promise<any[]>;
   getReceipt: (paymentId: string) => Promise<any>;
   clearError: () => void;
@@ -60,7 +86,7 @@ export function usePayments(): UsePaymentsReturn {
           paymentId: d.paymentId ?? d.id,
           amount: Number(d.amount),
           method: String(d.method),
-          status: (String(d.status || 'pending')).toLowerCase() as 'pending' | 'success' | 'failed',
+          status: (String(d.status || 'pending')).toLowerCase() as PaymentStatus,
           newBalance: d.newBalance !== undefined ? Number(d.newBalance) : undefined,
           timestamp: d.timestamp ?? d.createdAt ?? new Date().toISOString(),
         };
@@ -80,6 +106,39 @@ export function usePayments(): UsePaymentsReturn {
     }
   }, []);
 
+  const schedulePayment = useCallback(async (
+    accountId: string | number,
+    amount: number,
+    method: string,
+    startDate: string,
+    frequency: ScheduleFrequency = 'ONCE'
+  ): Promise<ScheduledPaymentData | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const cardId = Number(accountId);
+      if (!cardId || !amount || !method || !startDate) {
+        throw new Error('Missing required payment information');
+      }
+
+      const response: ScheduledPaymentResponse = await paymentsAPI.schedulePayment({ cardId, amount, method, frequency, startDate });
+
+      if (response?.success && response.data) {
+        return response.data;
+      } else {
+        setError(response?.message || 'Failed to schedule payment');
+        return null;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to schedule payment';
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
   const getPaymentHistory = useCallback(async () => {
     setIsLoading(true);
     setError(null);
@@ -130,6 +189,7 @@ export function usePayments(): UsePaymentsReturn {
     isLoading,
     error,
     makePayment,
+    schedulePayment,
     getPaymentHistory,
     getReceipt,
     clearError,
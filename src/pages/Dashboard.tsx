@@ -6,10 +6,12 @@ import TransactionsTable from '../components/tables/TransactionsTable';
 import BlockCardModal from '../components/ui/BlockCardModal';
 import RewardsModal from '../components/ui/RewardsModal';
 import PayBillModal from '../components/ui/PayBillModal';
+import ActivateCardModal from '../components/ui/ActivateCardModal';
+import AddOnCardsModal from '../components/ui/AddOnCardsModal';
 import { useCards } from '../hooks/useCards';
 import { useToast } from '../hooks/useToast';
 import { useAuth } from '../contexts/AuthContext';
-import api from '../services/api';
+import { useAccountSummary, type AccountSummary, type PendingActivation } from '../hooks/useAccountSummary';
 import {
   CreditCardIcon,
   BanknotesIcon,
@@ -17,38 +19,52 @@ import {
   ChartBarSquareIcon,
   ExclamationTriangleIcon,
   CheckCircleIcon,
+  ClockIcon,
+  UserGroupIcon,
 } from '@heroicons/react/24/outline';
 import clsx from 'clsx';
 
-// Mock data - will be updated with persisted balance
-const getInitialStats = (userId?: string) => {
-  const currentBalance = api.getUserOutstandingBalance(userId);
-  
-  return [
-    {
-      title: 'Credit Limit',
-      value: 500000,
-      icon: CreditCardIcon,
-      color: 'blue' as const,
-      change: 5.4,
-    },
-    {
-      title: 'Outstanding Balance',
-      value: currentBalance,
-      icon: BanknotesIcon,
-      color: 'red' as const,
-      change: -12.3,
-    },
-    {
-      title: 'Rewards Points',
-      value: 12580,
-      icon: GiftIcon,
-      color: 'green' as const,
-      format: 'number' as const,
-      change: 23.1,
-    },
-  ];
-};
+// Stat cards, filled from the ledger-backed dashboard summary once loaded
+const buildStats = (summary: AccountSummary | null) => [
+  {
+    title: 'Credit Limit',
+    value: summary?.totalCreditLimit ?? 500000,
+    icon: CreditCardIcon,
+    color: 'blue' as const,
+    change: 5.4,
+  },
+  {
+    title: 'Outstanding Balance',
+    value: Math.max(0, summary?.outstandingBalance ?? 0),
+    icon: BanknotesIcon,
+    color: 'red' as const,
+    change: -12.3,
+  },
+  ...((summary?.creditBalance ?? 0) > 0
+    ? [{
+        title: 'Credit Balance',
+        value: summary?.creditBalance ?? 0,
+        icon: CheckCircleIcon,
+        color: 'green' as const,
+      }]
+    : []),
+  ...((summary?.pendingHolds ?? 0) > 0
+    ? [{
+        title: 'Pending Holds',
+        value: summary?.pendingHolds ?? 0,
+        icon: ClockIcon,
+        color: 'orange' as const,
+      }]
+    : []),
+  {
+    title: 'Rewards Points',
+    value: summary?.totalRewards ?? 12580,
+    icon: GiftIcon,
+    color: 'green' as const,
+    format: 'number' as const,
+    change: 23.1,
+  },
+];
 
 const mockTransactions = [
   {
@@ -135,36 +151,27 @@ const mockTransactions = [
 
 export default function Dashboard() {
   const [currentPage, setCurrentPage] = useState(1);
-  const [outstandingBalance, setOutstandingBalance] = useState(() => {
-    return api.getUserOutstandingBalance();
-  });
-  const [stats, setStats] = useState(() => getInitialStats());
   const [cardStatus, setCardStatus] = useState<'active' | 'blocked' | 'suspended'>('active');
   const [showBlockCardModal, setShowBlockCardModal] = useState(false);
   const [showRewardsModal, setShowRewardsModal] = useState(false);
   const [showPayBillModal, setShowPayBillModal] = useState(false);
+  const [showAddOnCardsModal, setShowAddOnCardsModal] = useState(false);
   const [showApplicationSuccess, setShowApplicationSuccess] = useState(false);
+  const [activatingCard, setActivatingCard] = useState<PendingActivation | null>(null);
   
   const navigate = useNavigate();
   const location = useLocation();
   const { getCardStatus } = useCards();
   const { showToast } = useToast();
   const { user } = useAuth();
+  const { summary, outstandingBalance, refresh: refreshSummary } = useAccountSummary(user?.id);
+  const stats = buildStats(summary);
   
   const transactionsPerPage = 5;
   const totalPages = Math.ceil(mockTransactions.length / transactionsPerPage);
   const minimumDue = 2266;
   const demoAccountId = '660e8400-e29b-41d4-a716-446655440000';
 
-  // Update balance and stats when user loads
-  React.useEffect(() => {
-    if (user?.id) {
-      const userBalance = api.getUserOutstandingBalance(user.id);
-      setOutstandingBalance(userBalance);
-      setStats(getInitialStats(user.id));
-    }
-  }, [user?.id]);
-
   // Check if coming from successful application
   React.useEffect(() => {
     if (location.state?.fromApplication && location.state?.applicationSuccess) {
@@ -216,17 +223,9 @@ export default function Dashboard() {
     setCardStatus(newStatus);
   };
 
-  const handlePaymentSuccess = (newBalance: number) => {
-    setOutstandingBalance(newBalance);
-    if (user?.id) {
-      api.setUserOutstandingBalance(user.id, newBalance);
-    }
-    // Update the stats to reflect new balance
-    setStats(prevStats => {
-      const newStats = [...prevStats];
-      newStats[1].value = newBalance; // Outstanding Balance stat
-      return newStats;
-    });
+  const handlePaymentSuccess = () => {
+    // Re-read balances from the server
+    void refreshSummary();
   };
 
   const handleQuickAction = (actionName: string) => {
@@ -251,6 +250,9 @@ export default function Dashboard() {
       case 'Rewards':
         setShowRewardsModal(true);
         break;
+      case 'Add-on Cards':
+        setShowAddOnCardsModal(true);
+        break;
       default:
         break;
     }
@@ -285,7 +287,7 @@ export default function Dashboard() {
       </motion.div>
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 lg:gap-8">
+      <div className={clsx('grid grid-cols-1 sm:grid-cols-2 gap-6 lg:gap-8', stats.length > 3 ? 'lg:grid-cols-4' : 'lg:grid-cols-3')}>
         {stats.map((stat, index) => (
           <StatCard
             key={stat.title}
@@ -332,6 +334,38 @@ export default function Dashboard() {
           </motion.div>
         )}
         
+        {/* Pending Activation */}
+        {summary?.pendingActivations.map(pending => (
+          <div
+            key={pending.cardId}
+            className="mb-6 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg"
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center">
+                <ClockIcon className="w-5 h-5 text-amber-600 dark:text-amber-400 mr-2" />
+                <div>
+                  <p className="text-sm font-medium text-amber-800 dark:text-amber-300">
+                    {pending.nextStep === 'ACTIVATE'
+                      ? `Your ${pending.cardType} card ending in ${pending.last4} is pending activation`
+                      : `Set a PIN for your ${pending.cardType} card ending in ${pending.last4}`}
+                  </p>
+                  <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                    {pending.nextStep === 'ACTIVATE'
+                      ? 'Activate it once it arrives to start using it'
+                      : 'You need a PIN for ATM withdrawals and payments at shops'}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => setActivatingCard(pending)}
+                className="ml-4 px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white text-sm font-medium rounded transition-colors"
+              >
+                {pending.nextStep === 'ACTIVATE' ? 'Activate' : 'Set PIN'}
+              </button>
+            </div>
+          </div>
+        ))}
+
         {/* Card Status Alert */}
         {cardStatus === 'blocked' && (
           <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
@@ -352,7 +386,7 @@ export default function Dashboard() {
         <h3 className="text-xl font-semibold text-slate-900 dark:text-white mb-6">
           Quick Actions
         </h3>
-        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 sm:gap-6">
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4 sm:gap-6">
           {[
             { 
               name: 'Pay Bill', 
@@ -379,6 +413,12 @@ export default function Dashboard() {
               color: 'bg-yellow-500',
               disabled: false
             },
+            {
+              name: 'Add-on Cards',
+              icon: UserGroupIcon,
+              color: 'bg-purple-500',
+              disabled: cardStatus === 'blocked'
+            },
           ].map((action, index) => (
             <motion.button
               key={action.name}
@@ -446,7 +486,27 @@ export default function Dashboard() {
         isOpen={showRewardsModal}
         onClose={() => setShowRewardsModal(false)}
       />
+
+      <AddOnCardsModal
+        isOpen={showAddOnCardsModal}
+        onClose={() => setShowAddOnCardsModal(false)}
+        cardId={demoAccountId}
+        cardType="Platinum"
+        cardNumber="****-****-****-9012"
+      />
       
+      {activatingCard && (
+        <ActivateCardModal
+          isOpen={activatingCard !== null}
+          onClose={() => setActivatingCard(null)}
+          cardId={String(activatingCard.cardId)}
+          cardType={activatingCard.cardType}
+          last4={activatingCard.last4}
+          initialStep={activatingCard.nextStep}
+          onComplete={() => void refreshSummary()}
+        />
+      )}
+
       <PayBillModal
         isOpen={showPayBillModal}
         onClose={() => setShowPayBillModal(false)}
@@ -11,8 +11,9 @@ import { usePayments } from '../hooks/usePayments';
 import { useToast } from '../hooks/useToast';
 import { useAuth } from '../hooks/useAuth';
 import { useCards } from '../hooks/useCards';
-import { accountsAPI, getUserOutstandingBalance, setUserOutstandingBalance } from '../services/api';
+import { accountsAPI } from '../services/api';
 import { razorpayService } from '../services/razorpay';
+import PaymentDocuments from '../components/ui/PaymentDocuments';
 import clsx from 'clsx';
 
 export default function Payments() {
@@ -28,10 +29,8 @@ export default function Payments() {
   const { user } = useAuth();
 
   // Account data (load from API)
-  const [outstandingBalance, setOutstandingBalance] = useState<number>(() => {
-    // Load from user-specific localStorage or use default
-    return getUserOutstandingBalance();
-  });
+  // Outstanding balance of the selected card, read from the backend ledger
+  const [outstandingBalance, setOutstandingBalance] = useState<number>(0);
   const minimumDue = 2266; // keep default; you can compute this after fetching statements if backend returns it
   const [accountId, setAccountId] = useState<number | null>(null);
   const [accountsLoading, setAccountsLoading] = useState<boolean>(true);
@@ -53,7 +52,7 @@ export default function Payments() {
     (async () => {
       try {
         setAccountsLoading(true);
-        const resp: any = await accountsAPI.getAccounts(user?.id);
+        const resp: any = await accountsAPI.getAccounts();
         console.debug('[Payments] accountsAPI.getAccounts response:', resp);
 
         // accountsAPI may return { success: true, data: [...] } or just the array; handle both
@@ -119,8 +118,7 @@ export default function Payments() {
           setAccountId(parsedId);
         }
 
-        // Don't override user-specific balance with API data
-        // The balance should come from user-specific localStorage, not from accounts API
+        setOutstandingBalance(Math.max(0, Number(first.outstandingBalance) || 0));
       } catch (err) {
         console.error('Failed to load accounts:', err);
         setAccountId(null);
@@ -156,14 +154,6 @@ export default function Payments() {
     checkCardStatus();
   }, [getCardStatus, accountId, hasValidAccountId]);
 
-  // Update balance when user loads
-  useEffect(() => {
-    if (user?.id) {
-      const userBalance = getUserOutstandingBalance(user.id);
-      setOutstandingBalance(userBalance);
-    }
-  }, [user?.id]);
-
   // debug — put inside Payments() component
   useEffect(() => {
     const dbg = {
@@ -295,7 +285,7 @@ export default function Payments() {
       console.log('Starting Razorpay payment for amount:', amount);
       
       // Create Razorpay order
-      const orderData = await razorpayService.createOrder(amount);
+      const orderData = await razorpayService.createOrder(Number(accountId), amount);
       console.log('Order data received:', orderData);
       
       // Check if we're using a mock order (for testing when auth fails)
@@ -321,9 +311,6 @@ export default function Payments() {
           const newBalance = Math.max(0, outstandingBalance - amount);
           console.log('New balance calculated:', newBalance);
           setOutstandingBalance(newBalance);
-          if (user?.id) {
-            setUserOutstandingBalance(user.id, newBalance);
-          }
 
           console.log('Showing success toast');
           showToast({
@@ -348,7 +335,7 @@ export default function Payments() {
       // Open Razorpay checkout for real orders
       console.log('🚀 [Payments Debug] About to call razorpayService.openCheckout');
       const response = await razorpayService.openCheckout({
-        amount: amount * 100, // Convert to paise
+        amount: orderData.order.amount, // Paise, as ordered by the backend
         currency: 'INR',
         name: 'CreditFlow',
         description: `Payment for credit card bill - ₹${amount.toLocaleString()}`,
@@ -374,9 +361,6 @@ export default function Payments() {
           // Update outstanding balance
           const newBalance = Math.max(0, outstandingBalance - amount);
           setOutstandingBalance(newBalance);
-          if (user?.id) {
-            setUserOutstandingBalance(user.id, newBalance);
-          }
 
           showToast({
             type: 'success',
@@ -498,9 +482,6 @@ export default function Payments() {
           // Update outstanding balance locally
           const newBalance = Math.max(0, outstandingBalance - paymentAmount);
           setOutstandingBalance(newBalance);
-          if (user?.id) {
-            setUserOutstandingBalance(user.id, newBalance);
-          }
 
           showToast({
             type: 'success',
@@ -798,6 +779,8 @@ export default function Payments() {
           })()}
         </form>
       </motion.div>
+
+      <PaymentDocuments className="max-w-2xl mx-auto" />
     </div>
   );
 }
@@ -6,6 +6,8 @@ import { useToast } from '../hooks/useToast';
 import EditContactModal from '../components/ui/EditContactModal';
 import ChangePasswordModal from '../components/ui/ChangePasswordModal';
 import BlockCardModal from '../components/ui/BlockCardModal';
+import CardControlsModal from '../components/ui/CardControlsModal';
+import CloseCardModal from '../components/ui/CloseCardModal';
 import {
   UserIcon,
   LockClosedIcon,
@@ -25,6 +27,9 @@ export default function Settings() {
   const [showEditContactModal, setShowEditContactModal] = useState(false);
   const [showChangePasswordModal, setShowChangePasswordModal] = useState(false);
   const [showBlockCardModal, setShowBlockCardModal] = useState(false);
+  const [showCardControlsModal, setShowCardControlsModal] = useState(false);
+  const [showCloseCardModal, setShowCloseCardModal] = useState(false);
+  const [cardClosed, setCardClosed] = useState(false);
   
   // Profile data state
   const [profileData, setProfileData] = useState({
@@ -331,11 +336,13 @@ export default function Settings() {
                 </div>
                 <span className={clsx(
                   'px-2 py-1 rounded text-xs font-medium',
-                  cardData.status === 'active' 
+                  cardClosed
+                    ? 'bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-300'
+                    : cardData.status === 'active'
                     ? 'bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-300'
                     : 'bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-300'
                 )}>
-                  {cardData.status === 'active' ? 'Active' : 'Blocked'}
+                  {cardClosed ? 'Closed' : cardData.status === 'active' ? 'Active' : 'Blocked'}
                 </span>
               </div>
             </div>
@@ -369,14 +376,30 @@ export default function Settings() {
                   Update your card PIN
                 </p>
               </button>
-              <button className="w-full text-left p-3 rounded hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+              <button
+                onClick={() => setShowCardControlsModal(true)}
+                className="w-full text-left p-3 rounded hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors"
+              >
                 <p className="text-sm font-medium text-slate-900 dark:text-white">
-                  Set Limits
+                  Card Controls
                 </p>
                 <p className="text-xs text-slate-500 dark:text-slate-400">
-                  Manage spending limits
+                  Online, international and ATM usage, spend limits and blocked categories
                 </p>
               </button>
+              {!cardClosed && (
+                <button
+                  onClick={() => setShowCloseCardModal(true)}
+                  className="w-full text-left p-3 rounded hover:bg-red-50 dark:hover:bg-red-900/20 border border-red-200 dark:border-red-800 transition-colors"
+                >
+                  <p className="text-sm font-medium text-slate-900 dark:text-white">
+                    Close Card
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Settle the card, redeem its reward points and get a no-dues letter
+                  </p>
+                </button>
+              )}
             </div>
           </div>
 
@@ -415,6 +438,23 @@ export default function Settings() {
         cardNumber={cardData.cardNumber}
         onSuccess={handleCardStatusChange}
       />
+
+      <CardControlsModal
+        isOpen={showCardControlsModal}
+        onClose={() => setShowCardControlsModal(false)}
+        cardId={cardData.id}
+        cardType={cardData.cardType}
+        cardNumber={cardData.cardNumber}
+      />
+
+      <CloseCardModal
+        isOpen={showCloseCardModal}
+        onClose={() => setShowCloseCardModal(false)}
+        cardId={cardData.id}
+        cardType={cardData.cardType}
+        cardNumber={cardData.cardNumber}
+        onSuccess={() => setCardClosed(true)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -6,7 +6,7 @@ import PayBillModal from '../components/ui/PayBillModal';
 import { MagnifyingGlassIcon, FunnelIcon, CalendarDaysIcon, BanknotesIcon } from '@heroicons/react/24/outline';
 import { useToast } from '../hooks/useToast';
 import { useAuth } from '../contexts/AuthContext';
-import { getUserOutstandingBalance, setUserOutstandingBalance } from '../services/api';
+import { useAccountSummary } from '../hooks/useAccountSummary';
 
 // Extended mock data for better pagination demonstration
 const allMockTransactions = [
@@ -164,6 +164,7 @@ export default function Transactions() {
   const location = useLocation();
   const { showToast } = useToast();
   const { user } = useAuth();
+  const { outstandingBalance, refresh: refreshSummary } = useAccountSummary(user?.id);
   const [currentPage, setCurrentPage] = useState(() => {
     const saved = sessionStorage.getItem('transactions-page');
     return saved ? parseInt(saved) : 1;
@@ -179,9 +180,6 @@ export default function Transactions() {
     return sessionStorage.getItem('transactions-date-range') || 'all';
   });
   const [showPayBillModal, setShowPayBillModal] = useState(false);
-  const [outstandingBalance, setOutstandingBalance] = useState(() => {
-    return getUserOutstandingBalance();
-  });
   const minimumDue = 2266;
 
   const transactionsPerPage = 8;
@@ -261,14 +259,6 @@ export default function Transactions() {
     setCurrentPage(1);
   }, [searchTerm, selectedCategory, dateRange]);
 
-  // Update balance when user loads
-  useEffect(() => {
-    if (user?.id) {
-      const userBalance = getUserOutstandingBalance(user.id);
-      setOutstandingBalance(userBalance);
-    }
-  }, [user?.id]);
-
   const handlePageChange = async (page: number) => {
     if (page === currentPage || isLoading || page < 1 || page > totalPages) return;
     
@@ -300,11 +290,9 @@ export default function Transactions() {
     }
   }, [location.state, showToast]);
 
-  const handlePaymentSuccess = (newBalance: number) => {
-    setOutstandingBalance(newBalance);
-    if (user?.id) {
-      setUserOutstandingBalance(user.id, newBalance);
-    }
+  const handlePaymentSuccess = () => {
+    // Re-read balances from the server
+    void refreshSummary();
     showToast({
       type: 'success',
       title: 'Payment Successful',
@@ -21,26 +21,40 @@ const setAuthToken = (token: string) => {
   localStorage.setItem(LEGACY_TOKEN_KEY, token); // keep both to avoid breakage
 };
 
-// Utility function to get user-specific outstanding balance key
-const getUserBalanceKey = (userId?: string): string => {
-  if (!userId) {
-    // Fallback to global key if no user ID (shouldn't happen in normal flow)
-    return 'outstandingBalance';
-  }
-  return `outstandingBalance_${userId}`;
-};
-
-// Utility function to get user-specific outstanding balance
-const getUserOutstandingBalance = (userId?: string): number => {
-  const balanceKey = getUserBalanceKey(userId);
-  const saved = localStorage.getItem(balanceKey);
-  return saved ? parseFloat(saved) : 45345; // Default value
-};
-
-// Utility function to set user-specific outstanding balance
-const setUserOutstandingBalance = (userId: string, balance: number): void => {
-  const balanceKey = getUserBalanceKey(userId);
-  localStorage.setItem(balanceKey, balance.toString());
+// Money travels as rupees with at most 2 decimals; the backend stores integer paise.
+// Outgoing amounts are rounded to the paisa and incoming money fields are
+// normalized the same way so float noise never reaches the UI.
+const MONEY_FIELDS = new Set([
+  'amount',
+  'balance',
+  'minDue',
+  'creditLimit',
+  'outstandingBalance',
+  'availableCredit',
+  'creditBalance',
+  'pendingHolds',
+  'perTransactionLimit',
+  'dailyLimit',
+  'monthlyLimit',
+  'spentToday',
+  'spentThisMonth',
+  'totalCreditLimit',
+  'newBalance',
+  'rewardsValue',
+  'refund',
+]);
+
+const roundMoney = (rupees: number): number => Math.round(rupees * 100) / 100;
+
+const normalizeMoney = <T,>(value: T): T => {
+  if (Array.isArray(value)) return value.map(normalizeMoney) as T;
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      MONEY_FIELDS.has(key) && typeof field === 'number' ? roundMoney(field) : normalizeMoney(field),
+    ])
+  ) as T;
 };
 
 // Helper to decide mock mode (no backend URL = use mocks)
@@ -80,11 +94,38 @@ const apiRequest = async (endpoint: string, options: RequestInit = {}) => {
 
   const ct = res.headers.get('content-type') || '';
   if (ct.includes('application/json')) {
-    return res.json();
+    return normalizeMoney(await res.json());
   }
   return res.text();
 };
 
+// Fetch a server-rendered document (PDF) and save it through the browser
+const downloadDocument = async (endpoint: string, filename: string) => {
+  if (isMockMode()) {
+    throw new Error('Documents are not available in demo mode');
+  }
+
+  const token = getAuthToken();
+  const res = await fetch(`${API_BASE_URL}${endpoint}`, {
+    credentials: 'include',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`API error ${res.status}: ${text || res.statusText}`);
+  }
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
 // Mock response generator (UI dev)
 const getMockResponse = (endpoint: string, options: RequestInit = {}) => {
   if (endpoint.includes('/cards/') && endpoint.includes('/status')) {
@@ -100,6 +141,127 @@ const getMockResponse = (endpoint: string, options: RequestInit = {}) => {
     };
   }
 
+  if (endpoint.includes('/cards/') && endpoint.includes('/controls')) {
+    const changes = options.body ? JSON.parse(options.body as string) : {};
+    return {
+      success: true,
+      data: {
+        online: true,
+        international: false,
+        contactless: true,
+        atm: true,
+        perTransactionLimit: null,
+        dailyLimit: null,
+        monthlyLimit: null,
+        blockedCategories: [],
+        ...changes,
+        spentToday: 1250,
+        spentThisMonth: 18400,
+      },
+    };
+  }
+
+  if (endpoint.includes('/cards/') && endpoint.includes('/add-ons')) {
+    const mockAddOnCard = {
+      id: 1,
+      holderName: 'Priya Doe',
+      relationship: 'SPOUSE',
+      email: 'priya@example.com',
+      number: '****-****-****-4417',
+      last4: '4417',
+      status: 'active',
+      monthlyLimit: 25000,
+      spentThisMonth: 6200,
+      availableThisMonth: 18800,
+      controls: { online: true, international: false, contactless: true, atm: false, perTransactionLimit: null, blockedCategories: [] },
+      pinSet: true,
+      pinLocked: false,
+    };
+    const changes = options.body ? JSON.parse(options.body as string) : {};
+    if (options.method === 'DELETE') {
+      return { success: true, message: 'Add-on card closed successfully' };
+    }
+    if (options.method === 'POST' || options.method === 'PATCH') {
+      return {
+        success: true,
+        data: {
+          ...mockAddOnCard,
+          ...changes,
+          status: (changes.status ?? mockAddOnCard.status).toLowerCase(),
+          ...(options.method === 'POST' ? { id: Date.now(), spentThisMonth: 0, availableThisMonth: changes.monthlyLimit } : {}),
+        },
+      };
+    }
+    return { success: true, data: [mockAddOnCard] };
+  }
+
+  if (endpoint.includes('/cards/') && endpoint.includes('/closure')) {
+    return {
+      success: true,
+      data: {
+        outstandingBalance: 0,
+        creditBalance: 150,
+        pendingHolds: 0,
+        paymentsInFlight: 0,
+        rewardPoints: 12580,
+        rewardsOutcome: 'CONVERTED',
+        rewardsValue: 1258,
+        refund: 1408,
+        blockers: [],
+        canClose: true,
+        autopayEnabled: true,
+        scheduledPayments: 1,
+        addOnCards: 1,
+      },
+    };
+  }
+
+  if (endpoint.includes('/cards/') && endpoint.endsWith('/close')) {
+    return {
+      success: true,
+      data: {
+        status: 'CLOSED',
+        closedAt: new Date().toISOString(),
+        rewardPoints: 12580,
+        rewardsOutcome: 'CONVERTED',
+        rewardsValue: 1258,
+        refund: 1408,
+        autopayCancelled: true,
+        scheduledPaymentsCancelled: 1,
+        addOnCardsClosed: 1,
+      },
+      message: 'Card closed successfully (MOCK)',
+    };
+  }
+
+  if (endpoint.includes('/auth/step-up')) {
+    return { success: true, data: { stepUpToken: 'demo_step_up_token_' + Date.now(), expiresIn: 300 } };
+  }
+
+  if (endpoint.includes('/cards/') && (endpoint.includes('/activation/otp') || endpoint.includes('/pin/otp'))) {
+    return {
+      success: true,
+      data: { expiresAt: new Date(Date.now() + 10 * 60 * 1000).toISOString() },
+      message: 'Verification code sent (MOCK)',
+    };
+  }
+
+  if (endpoint.includes('/cards/') && endpoint.includes('/activate')) {
+    return {
+      success: true,
+      data: { status: 'ACTIVE', activatedAt: new Date().toISOString(), pinSet: false },
+      message: 'Card activated successfully',
+    };
+  }
+
+  if (endpoint.includes('/cards/') && endpoint.includes('/pin')) {
+    return {
+      success: true,
+      data: { pinSet: true, pinSetAt: new Date().toISOString() },
+      message: 'PIN set successfully',
+    };
+  }
+
   if (endpoint.includes('/cards/') && endpoint.includes('/block')) {
     const bodyStr = (options.body as string) || '{}';
     let body: any = {};
@@ -185,6 +347,10 @@ const getMockResponse = (endpoint: string, options: RequestInit = {}) => {
     };
   }
 
+  if (endpoint.includes('/payments/options')) {
+    return { success: true, data: { gateway: 'mock', chargeOutsideCheckout: true } };
+  }
+
   // Default mock response
   return { success: true, data: {}, message: 'Mock response' };
 };
@@ -275,54 +441,79 @@ export const authAPI = {
   },
 };
 
+// Card accounts with ledger-backed balances
+interface CardResponse {
+  id: number;
+  number: string;
+  cardType: string;
+  status: string;
+  creditLimit: number;
+  outstandingBalance: number;
+  availableCredit: number;
+}
+
+const toAccount = (card: CardResponse) => ({
+  id: card.id,
+  cardId: card.id,
+  cardNumber: card.number,
+  cardType: card.cardType,
+  status: card.status,
+  creditLimit: card.creditLimit,
+  outstandingBalance: card.outstandingBalance,
+  availableCredit: card.availableCredit,
+});
+
+// Demo account used when the backend is unreachable
+const mockAccount = {
+  id: 1,
+  cardId: 1,
+  cardNumber: '****-****-****-9012',
+  cardType: 'Platinum',
+  status: 'active',
+  creditLimit: 500000,
+  outstandingBalance: 45320,
+  availableCredit: 454680,
+};
+
 // Accounts API
 export const accountsAPI = {
-  getAccounts: async (userId?: string) => {
+  getAccounts: async () => {
     try {
-      return await apiRequest('/accounts');
+      const resp = await apiRequest('/cards');
+      return { ...resp, data: (resp?.data ?? []).map(toAccount) };
     } catch (error) {
       console.error('Get accounts error:', error);
-      // Get the current balance from user-specific localStorage or use default
-      const currentBalance = getUserOutstandingBalance(userId);
-      const availableCredit = 500000 - currentBalance;
-      
-      return {
-        success: true,
-        data: [
-          {
-            // use a numeric id that matches backend/prisma (1) or explicit cardId
-            id: 1,
-            cardId: 1, // include both for safety
-            cardNumber: '****-****-****-9012',
-            cardType: 'Platinum',
-            creditLimit: 500000,
-            outstandingBalance: currentBalance,
-            availableCredit: availableCredit,
-          },
-        ],
-      };
+      return { success: true, data: [mockAccount] };
     }
   },
 
-  getAccount: async (accountId: string, userId?: string) => {
+  getAccount: async (accountId: string | number) => {
     try {
-      return await apiRequest(`/accounts/${accountId}`);
+      const resp = await apiRequest(`/cards/${accountId}`);
+      return { ...resp, data: toAccount(resp.data) };
     } catch (error) {
       console.error('Get account error:', error);
-      // Get the current balance from user-specific localStorage or use default
-      const currentBalance = getUserOutstandingBalance(userId);
-      const availableCredit = 500000 - currentBalance;
-      
+      return { success: true, data: mockAccount };
+    }
+  },
+};
+
+// Dashboard API (balances are computed server-side from the ledger)
+export const dashboardAPI = {
+  getSummary: async () => {
+    try {
+      return await apiRequest('/dashboard');
+    } catch (error) {
+      console.error('Get dashboard error:', error);
       return {
         success: true,
         data: {
-          id: accountId,
-          cardNumber: '****-****-****-9012',
-          cardType: 'Platinum',
-          creditLimit: 500000,
-          outstandingBalance: currentBalance,
-          availableCredit: availableCredit,
-          status: 'active',
+          outstandingBalance: mockAccount.outstandingBalance,
+          totalCreditLimit: mockAccount.creditLimit,
+          availableCredit: mockAccount.availableCredit,
+          creditBalance: 0,
+          pendingHolds: 0,
+          totalRewards: 12580,
         },
       };
     }
@@ -351,7 +542,7 @@ export const paymentsAPI = {
         },
         body: JSON.stringify({
           cardId,
-          amount,
+          amount: roundMoney(amount),
           method,
         }),
       });
@@ -379,9 +570,41 @@ export const paymentsAPI = {
 
   getPayment: async (paymentId: string) => apiRequest(`/payments/${paymentId}`),
   getUserPayments: async () => apiRequest('/payments'),
+  getOptions: async () => apiRequest('/payments/options'),
   getReceipt: async (paymentId: string) => apiRequest(`/payments/${paymentId}/receipt`),
-  webhook: async (paymentId: string, status: string, externalId?: string) =>
-    apiRequest('/payments/webhook', { method: 'POST', body: JSON.stringify({ paymentId, status, externalId }) }),
+  downloadReceipt: async (paymentId: string) =>
+    downloadDocument(`/payments/${paymentId}/receipt?format=pdf`, `receipt-${paymentId}.pdf`),
+  schedulePayment: async (payment: {
+    cardId: number;
+    amount: number;
+    method: string;
+    frequency: 'ONCE' | 'MONTHLY';
+    startDate: string;
+    endDate?: string;
+  }) =>
+    apiRequest('/payments/scheduled', {
+      method: 'POST',
+      body: JSON.stringify({ ...payment, amount: roundMoney(payment.amount) }),
+    }),
+  getScheduledPayments: async () => apiRequest('/payments/scheduled'),
+  updateScheduledPayment: async (id: number, changes: Record<string, unknown>) =>
+    apiRequest(`/payments/scheduled/${id}`, { method: 'PATCH', body: JSON.stringify(changes) }),
+  cancelScheduledPayment: async (id: number) =>
+    apiRequest(`/payments/scheduled/${id}`, { method: 'DELETE' }),
+};
+
+// Statements API
+export const statementsAPI = {
+  getStatements: async (params: { cardId?: number; limit?: number } = {}) => {
+    const query = new URLSearchParams();
+    if (params.cardId) query.set('cardId', String(params.cardId));
+    if (params.limit) query.set('limit', String(params.limit));
+    const qs = query.toString();
+    return apiRequest(`/statements${qs ? `?${qs}` : ''}`);
+  },
+  getStatement: async (statementId: number) => apiRequest(`/statements/${statementId}`),
+  downloadStatement: async (statementId: number, filename = `statement-${statementId}.pdf`) =>
+    downloadDocument(`/statements/${statementId}?format=pdf`, filename),
 };
 
 // Health check
@@ -414,6 +637,52 @@ export const cardsAPI = {
 
   getCardStatus: async (cardId: string) => apiRequest(`/cards/${cardId}/status`),
 
+  getControls: async (cardId: string) => apiRequest(`/cards/${cardId}/controls`),
+
+  updateControls: async (cardId: string, changes: Record<string, unknown>) =>
+    apiRequest(`/cards/${cardId}/controls`, { method: 'PATCH', body: JSON.stringify(changes) }),
+
+  // Add-on cards for family members, on the card's credit line
+  getAddOnCards: async (cardId: string) => apiRequest(`/cards/${cardId}/add-ons`),
+
+  createAddOnCard: async (cardId: string, details: Record<string, unknown>) =>
+    apiRequest(`/cards/${cardId}/add-ons`, { method: 'POST', body: JSON.stringify(details) }),
+
+  updateAddOnCard: async (cardId: string, addOnId: number, changes: Record<string, unknown>) =>
+    apiRequest(`/cards/${cardId}/add-ons/${addOnId}`, { method: 'PATCH', body: JSON.stringify(changes) }),
+
+  closeAddOnCard: async (cardId: string, addOnId: number) =>
+    apiRequest(`/cards/${cardId}/add-ons/${addOnId}`, { method: 'DELETE' }),
+
+  // Closing a card: what is left to settle, then the closure itself, which
+  // needs the password confirmed for a step-up token
+  getClosureQuote: async (cardId: string) => apiRequest(`/cards/${cardId}/closure`),
+
+  closeCard: async (cardId: string, password: string) => {
+    const stepUp = await apiRequest('/auth/step-up', { method: 'POST', body: JSON.stringify({ password }) });
+    return apiRequest(`/cards/${cardId}/close`, {
+      method: 'POST',
+      headers: { 'X-Step-Up-Token': (stepUp as any).data.stepUpToken },
+    });
+  },
+
+  downloadNoDuesLetter: async (cardId: string, last4: string) =>
+    downloadDocument(`/cards/${cardId}/no-dues-letter`, `no-dues-letter-${last4}.pdf`),
+
+  // Activation of a newly delivered card: code, then card details, then a PIN
+  requestActivationCode: async (cardId: string) =>
+    apiRequest(`/cards/${cardId}/activation/otp`, { method: 'POST' }),
+
+  activateCard: async (cardId: string, details: { last4: string; cvv: string; otp: string }) =>
+    apiRequest(`/cards/${cardId}/activate`, { method: 'POST', body: JSON.stringify(details) }),
+
+  // PIN changes need a code from requestPinCode
+  requestPinCode: async (cardId: string) =>
+    apiRequest(`/cards/${cardId}/pin/otp`, { method: 'POST' }),
+
+  setPin: async (cardId: string, pin: string, otp: string) =>
+    apiRequest(`/cards/${cardId}/pin`, { method: 'POST', body: JSON.stringify({ pin, otp }) }),
+
   // For Apply Card page (expects backend route POST /cards/applications with multipart/form-data)
   submitApplication: async (formData: FormData) =>
     apiRequest('/cards/apply', { method: 'POST', body: formData }),
@@ -657,13 +926,11 @@ export const activitiesAPI = {
   },
 };
 
-// Export utility functions individually
-export { getUserOutstandingBalance, setUserOutstandingBalance, getUserBalanceKey };
-
 // Single default export (kept for existing imports)
 export default {
   auth: authAPI,
   accounts: accountsAPI,
+  dashboard: dashboardAPI,
   payments: paymentsAPI,
   profile: profileAPI,
   cards: cardsAPI,
@@ -671,8 +938,4 @@ export default {
   health: healthAPI,
   analytics: analyticsAPI,
   activities: activitiesAPI,
-  // Utility functions for user-specific balance management
-  getUserOutstandingBalance,
-  setUserOutstandingBalance,
-  getUserBalanceKey,
 };
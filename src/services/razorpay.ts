@@ -35,7 +35,7 @@ class RazorpayService {
     this.keyId = 'rzp_test_RHNsVb8W8YBFo5'; // Your test key
   }
 
-  async createOrder(amount: number, currency: string = 'INR') {
+  async createOrder(cardId: number, amount: number, currency: string = 'INR') {
     try {
       // Get token from localStorage
       const token = localStorage.getItem('token');
@@ -47,7 +47,8 @@ class RazorpayService {
           ...(token && { 'Authorization': `Bearer ${token}` }),
         },
         body: JSON.stringify({
-          amount: amount * 100, // Razorpay expects amount in paise
+          cardId,
+          amount, // Rupees; the order comes back in paise
           currency,
         }),
       });